@@ -0,0 +1,321 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import { getCrewName } from '@/lib/services/assignment-strategy';
+import type { OrganizerAction, OrganizerState } from '@/lib/services/organizers';
+
+const TOKEN_KEY = 'overwhelm-organizer-token';
+const REFRESH_INTERVAL = 15 * 1000;
+
+/**
+ * Organizer console - live crew/zone state and rotation controls
+ * The token stays in sessionStorage so it is gone when the tab closes
+ */
+export default function AdminPage() {
+  const [token, setToken] = useState<string | null>(null);
+  const [tokenInput, setTokenInput] = useState('');
+  const [state, setState] = useState<(OrganizerState & { organizer: string; city: { name: string } }) | null>(null);
+  const [evacuateZones, setEvacuateZones] = useState<number[]>([]);
+  const [notice, setNotice] = useState<{ success: boolean; message: string } | null>(null);
+  const [isBusy, setIsBusy] = useState(false);
+
+  useEffect(() => {
+    setToken(sessionStorage.getItem(TOKEN_KEY));
+  }, []);
+
+  const fetchState = useCallback(async () => {
+    if (!token) return;
+
+    try {
+      const response = await fetch('/api/admin', {
+        headers: { Authorization: `Bearer ${token}` },
+      });
+
+      if (response.status === 401) {
+        sessionStorage.removeItem(TOKEN_KEY);
+        setToken(null);
+        setNotice({ success: false, message: 'Token not recognized' });
+        return;
+      }
+
+      const data = await response.json();
+      if (data.success) setState(data);
+    } catch (error) {
+      console.error('Organizer state fetch error:', error);
+    }
+  }, [token]);
+
+  useEffect(() => {
+    fetchState();
+    const interval = setInterval(fetchState, REFRESH_INTERVAL);
+    return () => clearInterval(interval);
+  }, [fetchState]);
+
+  function signIn(event: React.FormEvent) {
+    event.preventDefault();
+    if (!tokenInput.trim()) return;
+
+    sessionStorage.setItem(TOKEN_KEY, tokenInput.trim());
+    setToken(tokenInput.trim());
+    setTokenInput('');
+    setNotice(null);
+  }
+
+  function signOut() {
+    sessionStorage.removeItem(TOKEN_KEY);
+    setToken(null);
+    setState(null);
+  }
+
+  async function runAction(action: OrganizerAction, confirmMessage?: string) {
+    if (confirmMessage && !window.confirm(confirmMessage)) return;
+
+    setIsBusy(true);
+    try {
+      const response = await fetch('/api/admin', {
+        method: 'POST',
+        headers: {
+          Authorization: `Bearer ${token}`,
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify(action),
+      });
+      const data = await response.json();
+
+      setNotice({ success: data.success, message: data.message || data.error });
+      if (data.success && action.type === 'evacuate') setEvacuateZones([]);
+    } catch (error) {
+      console.error('Organizer action error:', error);
+      setNotice({ success: false, message: 'Action failed - check your connection' });
+    } finally {
+      setIsBusy(false);
+      fetchState();
+    }
+  }
+
+  function toggleEvacuation(zoneId: number) {
+    setEvacuateZones(current =>
+      current.includes(zoneId) ? current.filter(id => id !== zoneId) : [...current, zoneId]
+    );
+  }
+
+  const zoneName = (zoneId: number | null) =>
+    state?.zones.find(zone => zone.id === zoneId)?.name || (zoneId === null ? 'None' : `Zone ${zoneId}`);
+
+  if (!token) {
+    return (
+      <main className="min-h-screen">
+        <div className="container">
+          <header className="section">
+            <h1 className="mb-1">Organizer Console</h1>
+            <p className="text-muted">Sign in with your organizer token</p>
+          </header>
+
+          {notice && <div className="alert alert-danger">{notice.message}</div>}
+
+          <form onSubmit={signIn} className="section">
+            <label htmlFor="token" className="sr-only">Organizer token</label>
+            <input
+              id="token"
+              type="password"
+              autoComplete="off"
+              value={tokenInput}
+              onChange={event => setTokenInput(event.target.value)}
+              className="w-full p-3 mb-4 border-2 border-current bg-transparent"
+              placeholder="Organizer token"
+            />
+            <button type="submit" className="btn w-full">Sign In</button>
+          </form>
+        </div>
+      </main>
+    );
+  }
+
+  return (
+    <main className="min-h-screen">
+      <div className="container">
+        <header className="section">
+          <h1 className="mb-1">Organizer Console</h1>
+          <p className="text-muted">
+            {state ? `${state.city.name} · signed in as ${state.organizer}` : 'Loading...'}{' '}
+            <button onClick={signOut} className="underline">Sign out</button>
+          </p>
+        </header>
+
+        {notice && (
+          <div className={`alert ${notice.success ? 'alert-info' : 'alert-danger'}`}>{notice.message}</div>
+        )}
+
+        {state && (
+          <>
+            <section className="section">
+              <h2>Rotation</h2>
+              <div className="stats-bar mb-4">
+                <span>Next: <strong>{state.nextRotation ? new Date(state.nextRotation).toLocaleTimeString() : 'None scheduled'}</strong></span>
+                {state.postponedUntil && (
+                  <span>Held until <strong>{new Date(state.postponedUntil).toLocaleTimeString()}</strong></span>
+                )}
+              </div>
+              <div className="flex flex-wrap gap-3">
+                <button
+                  className="btn"
+                  disabled={isBusy}
+                  onClick={() => runAction({ type: 'rotate' }, 'Rotate all crews now?')}
+                >
+                  Rotate Now
+                </button>
+                <button className="btn-secondary" disabled={isBusy} onClick={() => runAction({ type: 'postpone', minutes: 15 })}>
+                  Hold 15 min
+                </button>
+                <button className="btn-secondary" disabled={isBusy} onClick={() => runAction({ type: 'postpone', minutes: 30 })}>
+                  Hold 30 min
+                </button>
+                {state.postponedUntil && (
+                  <button className="btn-secondary" disabled={isBusy} onClick={() => runAction({ type: 'postpone', minutes: 0 })}>
+                    Resume
+                  </button>
+                )}
+              </div>
+            </section>
+
+            <section className="section">
+              <h2>Anchor</h2>
+              <p>
+                {state.anchor.anchorCrewId
+                  ? `${getCrewName(state.anchor.anchorCrewId)} at ${zoneName(state.anchor.anchorZoneId)}`
+                  : 'No anchor selected yet'}{' '}
+                {state.anchor.pinned && <span className="badge badge-danger">Pinned</span>}
+              </p>
+              {state.anchor.pinned && (
+                <button className="btn-secondary" disabled={isBusy} onClick={() => runAction({ type: 'pin-anchor', crewId: null })}>
+                  Unpin
+                </button>
+              )}
+            </section>
+
+            <section className="section">
+              <h2>Crews</h2>
+              {state.crews.length > 0 ? (
+                <table className="table">
+                  <thead>
+                    <tr>
+                      <th>Group</th>
+                      <th>Zone</th>
+                      <th>Size</th>
+                      <th></th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {state.crews.map(crew => (
+                      <tr key={crew.crewId}>
+                        <td>{getCrewName(crew.crewId)}</td>
+                        <td>{zoneName(crew.zoneId)}</td>
+                        <td>{crew.estimatedSize}</td>
+                        <td>
+                          {crew.crewId !== state.anchor.anchorCrewId || !state.anchor.pinned ? (
+                            <button
+                              className="underline"
+                              disabled={isBusy}
+                              onClick={() => runAction({ type: 'pin-anchor', crewId: crew.crewId })}
+                            >
+                              Pin as anchor
+                            </button>
+                          ) : (
+                            <span className="badge badge-safe">Anchor</span>
+                          )}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              ) : (
+                <p className="text-muted">No crews assigned yet</p>
+              )}
+            </section>
+
+            <section className="section">
+              <h2>Zones</h2>
+              <table className="table">
+                <thead>
+                  <tr>
+                    <th>Evacuate</th>
+                    <th>Zone</th>
+                    <th>Status</th>
+                    <th></th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {state.zones.map(zone => (
+                    <tr key={zone.id}>
+                      <td>
+                        <input
+                          type="checkbox"
+                          aria-label={`Evacuate ${zone.name}`}
+                          checked={evacuateZones.includes(zone.id)}
+                          onChange={() => toggleEvacuation(zone.id)}
+                        />
+                      </td>
+                      <td>{zone.name}</td>
+                      <td>
+                        <span className={`badge ${zone.active ? 'badge-safe' : 'badge-danger'}`}>
+                          {zone.active ? 'Active' : 'Inactive'}
+                        </span>
+                      </td>
+                      <td>
+                        <button
+                          className="underline"
+                          disabled={isBusy}
+                          onClick={() => runAction({ type: 'set-zone-active', zoneId: zone.id, active: !zone.active })}
+                        >
+                          {zone.active ? 'Mark inactive' : 'Reactivate'}
+                        </button>
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+              <button
+                className="btn text-minimal-danger"
+                disabled={isBusy || evacuateZones.length === 0}
+                onClick={() => runAction(
+                  { type: 'evacuate', zoneIds: evacuateZones },
+                  `Evacuate ${evacuateZones.map(zoneName).join(', ')}? Crews there move immediately.`
+                )}
+              >
+                Evacuate Selected
+              </button>
+            </section>
+
+            <section className="section">
+              <h2>Audit Log</h2>
+              {state.audit.length > 0 ? (
+                <table className="table">
+                  <thead>
+                    <tr>
+                      <th>Time</th>
+                      <th>Organizer</th>
+                      <th>Action</th>
+                      <th>Result</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {state.audit.map(entry => (
+                      <tr key={entry.id}>
+                        <td>{new Date(entry.createdAt).toLocaleTimeString()}</td>
+                        <td>{entry.organizer}</td>
+                        <td>{entry.action}</td>
+                        <td className={entry.success ? '' : 'text-danger'}>{entry.details.message || (entry.success ? 'OK' : 'Failed')}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              ) : (
+                <p className="text-muted">No organizer actions yet</p>
+              )}
+            </section>
+          </>
+        )}
+      </div>
+    </main>
+  );
+}
@@ -0,0 +1,89 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createServerClient } from '@/lib/supabase/client';
+import { getRequestCity } from '@/lib/config/cities';
+import {
+  authenticateOrganizer,
+  getOrganizerState,
+  runOrganizerAction,
+  validateOrganizerAction
+} from '@/lib/services/organizers';
+
+/**
+ * GET /api/admin
+ * Live crew, zone, anchor and rotation state for the organizer console
+ * Requires Authorization: Bearer <organizer token>
+ */
+export const dynamic = 'force-dynamic';
+
+export async function GET(request: NextRequest) {
+  const organizer = authenticateOrganizer(request.headers.get('authorization'));
+  if (!organizer) {
+    return NextResponse.json({ success: false, error: 'Unauthorized' }, { status: 401 });
+  }
+
+  const city = getRequestCity(request);
+
+  try {
+    const supabase = createServerClient();
+    const state = await getOrganizerState(supabase, city.id);
+
+    return NextResponse.json({
+      success: true,
+      organizer,
+      city: { id: city.id, name: city.name },
+      ...state,
+      timestamp: new Date().toISOString(),
+    });
+
+  } catch (error) {
+    console.error('Organizer state error:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to load organizer state' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/admin
+ * Run an organizer action in the request's city and record it in the audit log
+ * Body: { type: 'rotate' | 'postpone' | 'set-zone-active' | 'pin-anchor' | 'evacuate', ... }
+ */
+export async function POST(request: NextRequest) {
+  const organizer = authenticateOrganizer(request.headers.get('authorization'));
+  if (!organizer) {
+    return NextResponse.json({ success: false, error: 'Unauthorized' }, { status: 401 });
+  }
+
+  const body = await request.json().catch(() => null);
+
+  const validationError = validateOrganizerAction(body);
+  if (validationError) {
+    return NextResponse.json(
+      { success: false, error: validationError },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const supabase = createServerClient();
+    const result = await runOrganizerAction(supabase, organizer, body, getRequestCity(request).id);
+
+    return NextResponse.json(
+      {
+        success: result.success,
+        message: result.message,
+        details: result.details,
+        timestamp: new Date().toISOString(),
+      },
+      { status: result.success ? 200 : 500 }
+    );
+
+  } catch (error) {
+    console.error('Organizer action error:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to run organizer action' },
+      { status: 500 }
+    );
+  }
+}
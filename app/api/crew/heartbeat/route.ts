@@ -0,0 +1,64 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createServerClient } from '@/lib/supabase/client';
+import { recordHeartbeat, validatePresenceRequest } from '@/lib/services/headcount';
+import { parseMobilityNeeds } from '@/lib/services/mobility';
+import { getRequestCity } from '@/lib/config/cities';
+import { getMemberCrewChannel } from '@/lib/services/crew-channel';
+
+/**
+ * POST /api/crew/heartbeat
+ * Periodic "still here" from a crew member
+ * Members that stop sending heartbeats are dropped from the count
+ * Returns a fresh crew channel token, since each one only lasts a heartbeat window
+ * Body: { sessionId, crewId, zoneId, mobility? }
+ */
+export async function POST(request: NextRequest) {
+  const body = await request.json().catch(() => null);
+  
+  const validationError = validatePresenceRequest(body);
+  if (validationError) {
+    return NextResponse.json(
+      { success: false, error: validationError },
+      { status: 400 }
+    );
+  }
+  
+  try {
+    const supabase = createServerClient();
+    const crewId = Number(body.crewId);
+    const zoneId = Number(body.zoneId);
+    const cityId = getRequestCity(request).id;
+    
+    const estimatedSize = await recordHeartbeat(supabase, {
+      sessionId: body.sessionId,
+      crewId,
+      zoneId,
+      cityId,
+      mobility: parseMobilityNeeds(body.mobility) || [],
+    });
+    
+    if (estimatedSize === null) {
+      return NextResponse.json(
+        { success: false, error: 'Crew is full' },
+        { status: 409 }
+      );
+    }
+    
+    const channel = await getMemberCrewChannel(supabase, body.sessionId, crewId, zoneId, cityId);
+    
+    return NextResponse.json({
+      success: true,
+      crewId,
+      estimatedSize,
+      channel,
+      timestamp: new Date().toISOString(),
+    });
+    
+  } catch (error) {
+    console.error('Crew heartbeat error:', error);
+    return NextResponse.json(
+      { success: false, error: 'Heartbeat failed' },
+      { status: 500 }
+    );
+  }
+}
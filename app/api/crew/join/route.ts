@@ -0,0 +1,66 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createServerClient } from '@/lib/supabase/client';
+import { recordJoin, validatePresenceRequest } from '@/lib/services/headcount';
+import { parseMobilityNeeds } from '@/lib/services/mobility';
+import { getRequestCity } from '@/lib/config/cities';
+import { getMemberCrewChannel } from '@/lib/services/crew-channel';
+
+/**
+ * POST /api/crew/join
+ * Count an anonymous session as a member of its assigned crew
+ * Body: { sessionId, crewId, zoneId, mobility? }
+ * Returns the crew's private realtime channel and this session's token for it;
+ * null if not configured or the crew is not at that zone (the app then polls
+ * instead); 409 if the crew is full
+ */
+export async function POST(request: NextRequest) {
+  const body = await request.json().catch(() => null);
+  
+  const validationError = validatePresenceRequest(body);
+  if (validationError) {
+    return NextResponse.json(
+      { success: false, error: validationError },
+      { status: 400 }
+    );
+  }
+  
+  try {
+    const supabase = createServerClient();
+    const crewId = Number(body.crewId);
+    const zoneId = Number(body.zoneId);
+    const cityId = getRequestCity(request).id;
+    
+    const estimatedSize = await recordJoin(supabase, {
+      sessionId: body.sessionId,
+      crewId,
+      zoneId,
+      cityId,
+      mobility: parseMobilityNeeds(body.mobility) || [],
+    });
+    
+    if (estimatedSize === null) {
+      return NextResponse.json(
+        { success: false, error: 'Crew is full' },
+        { status: 409 }
+      );
+    }
+    
+    // Checked after joining: the first member of a new crew places it at their zone
+    const channel = await getMemberCrewChannel(supabase, body.sessionId, crewId, zoneId, cityId);
+    
+    return NextResponse.json({
+      success: true,
+      crewId,
+      estimatedSize,
+      channel,
+      timestamp: new Date().toISOString(),
+    });
+    
+  } catch (error) {
+    console.error('Crew join error:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to join crew' },
+      { status: 500 }
+    );
+  }
+}
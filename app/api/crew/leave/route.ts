@@ -0,0 +1,39 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createServerClient } from '@/lib/supabase/client';
+import { recordLeave, validatePresenceRequest } from '@/lib/services/headcount';
+
+/**
+ * POST /api/crew/leave
+ * Stop counting an anonymous session as a crew member
+ * Body: { sessionId }
+ */
+export async function POST(request: NextRequest) {
+  const body = await request.json().catch(() => null);
+  
+  const validationError = validatePresenceRequest(body, false);
+  if (validationError) {
+    return NextResponse.json(
+      { success: false, error: validationError },
+      { status: 400 }
+    );
+  }
+  
+  try {
+    const supabase = createServerClient();
+    const estimatedSize = await recordLeave(supabase, body.sessionId);
+    
+    return NextResponse.json({
+      success: true,
+      left: estimatedSize !== null,
+      estimatedSize,
+      timestamp: new Date().toISOString(),
+    });
+    
+  } catch (error) {
+    console.error('Crew leave error:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to leave crew' },
+      { status: 500 }
+    );
+  }
+}
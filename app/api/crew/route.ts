@@ -1,21 +1,28 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { createServerClient } from '@/lib/supabase/client';
-import { getCrewAssignment } from '@/lib/services/anchor-aware-crews';
-
-// Helper to calculate next rotation time
-function calculateNextRotation(): Date {
-  const now = Date.now();
-  const rotationInterval = 30 * 60 * 1000; // 30 minutes
-  const currentCycle = Math.floor(now / rotationInterval);
-  const nextRotationTime = (currentCycle + 1) * rotationInterval;
-  return new Date(nextRotationTime);
-}
+import { isAnchorCrew } from '@/lib/services/anchor-state';
+import { getStrategyForCity } from '@/lib/services/assignment-registry';
+import { AssignmentContext, getCrewName } from '@/lib/services/assignment-strategy';
+import { getRequestCity } from '@/lib/config/cities';
+import {
+  MobilityConstraints,
+  assignAccessibleCrew,
+  getMobilityConstraints,
+  isZoneAccessible,
+  parseMobilityNeeds
+} from '@/lib/services/mobility';
+import { findContainingZone } from '@/lib/services/zone-geometry';
+import { getNextRotation, getRotationHold } from '@/lib/services/rotation-schedule';
+import { WALK_MINUTES_PER_KM } from '@/lib/i18n/format';
 
 /**
  * GET /api/crew
  * Get crew assignment for current user (stateless)
+ * Optional mobility=wheelchair,limited-walking,seating-shade keeps the user on accessible zones
  */
 export async function GET(request: NextRequest) {
+  const city = getRequestCity(request);
+  
   try {
     const supabase = createServerClient();
     
@@ -27,10 +34,23 @@ export async function GET(request: NextRequest) {
     const getNextZone = searchParams.get('getNextZone') === 'true';
     const currentZoneId = searchParams.get('currentZone');
     const crewId = searchParams.get('crewId');
+    const mobility = parseMobilityNeeds(searchParams.get('mobility'));
+    
+    if (!mobility) {
+      return NextResponse.json(
+        { success: false, error: 'Unknown mobility need' },
+        { status: 400 }
+      );
+    }
     
     // Handle next zone request (for rotation)
     if (getNextZone && currentZoneId && crewId) {
-      return handleNextZoneRequest(supabase, currentZoneId, crewId);
+      return handleNextZoneRequest(supabase, currentZoneId, crewId, city.id, getMobilityConstraints(mobility));
+    }
+    
+    // Current assignment only (polled by members whose crew channel is down)
+    if (crewId && !getNextZone) {
+      return handleStatusRequest(supabase, crewId, city.id);
     }
     
     // SECURITY: Require valid coordinates for initial assignment
@@ -55,10 +75,14 @@ export async function GET(request: NextRequest) {
       .rpc('find_nearby_zones', {
         user_lat: userCoords.lat,
         user_lng: userCoords.lng,
-        search_radius_meters: parseFloat(process.env.NEXT_PUBLIC_WALKING_RADIUS_KM || '4.8') * 1000
+        search_radius_meters: city.walkingRadiusKm * 1000,
+        p_city_id: city.id
       });
     
-    if (!nearbyZones || nearbyZones.length === 0) {
+    // Someone inside a large zone (e.g. a park) can be far from its center
+    const containingZone = await getZoneAtLocation(supabase, userCoords, city.id);
+    
+    if ((!nearbyZones || nearbyZones.length === 0) && !containingZone) {
       return NextResponse.json(
         { 
           success: false, 
@@ -68,16 +92,33 @@ export async function GET(request: NextRequest) {
       );
     }
     
-    // Get crew assignment (with invisible anchor logic)
-    const assignment = await getCrewAssignment(supabase, preferredZoneId, userCoords);
+    const context: AssignmentContext = {
+      preferredZoneId: preferredZoneId || containingZone?.id.toString(),
+      userCoords,
+      cityId: city.id
+    };
+    
+    // Mobility needs override the strategy when the city has an accessible zone
+    const accessibleAssignment = mobility.length > 0
+      ? await assignAccessibleCrew(supabase, mobility, context)
+      : null;
     
-    // Update crew size estimate in database
-    // This is fire-and-forget, we don't wait for it
-    updateCrewSize(supabase, assignment.crewId, assignment.zoneId, assignment.estimatedSize);
+    // Otherwise the crew assignment comes from the city's configured strategy
+    const assignment = accessibleAssignment || await getStrategyForCity(city).assign(supabase, context);
+
+    // Organizers may be holding rotations past the scheduled slot
+    const hold = await getRotationHold(supabase, city.id);
+    if (hold) {
+      assignment.nextRotation = getNextRotation(city.id, new Date(), hold);
+    }
+    
+    // Headcount is only updated once the client joins via POST /api/crew/join
     
     return NextResponse.json({
       success: true,
-      crew: assignment,
+      crew: mobility.length > 0
+        ? { ...assignment, accessible: accessibleAssignment !== null }
+        : assignment,
       timestamp: new Date().toISOString(),
     });
     
@@ -90,11 +131,11 @@ export async function GET(request: NextRequest) {
         // Fallback assignment
         crew: {
           crewId: 1,
-          crewName: 'Crew 1',
+          crewName: getCrewName(1),
           estimatedSize: 150,
           zoneId: '1',
           zoneName: 'City Hall',
-          nextRotation: calculateNextRotation(),
+          nextRotation: getNextRotation(city.id),
         }
       },
       { status: 500 }
@@ -102,55 +143,33 @@ export async function GET(request: NextRequest) {
   }
 }
 
-/**
- * Update crew size estimate (async, best effort)
- */
-async function updateCrewSize(
-  supabase: any,
-  crewId: number,
-  zoneId: string,
-  estimatedSize: number
-) {
-  try {
-    // Get current crew data
-    const { data: currentCrew } = await supabase
-      .from('current_crews')
-      .select('zone_id, estimated_size')
-      .eq('crew_id', crewId)
-      .single();
-    
-    if (!currentCrew) {
-      // Create new crew entry with correct zone
-      await supabase.from('crew_zones').insert({
-        crew_id: crewId,
-        zone_id: parseInt(zoneId), // Use the assigned zone!
-        estimated_size: estimatedSize,
-      });
-    } else if (Math.abs(currentCrew.estimated_size - estimatedSize) > 5) {
-      // Only update if significant change (>5 people)
-      await supabase.from('crew_zones').insert({
-        crew_id: crewId,
-        zone_id: currentCrew.zone_id,
-        estimated_size: estimatedSize,
-      });
-    }
-  } catch (error) {
-    // Silently fail - this is best effort
-    console.error('Crew size update failed:', error);
-  }
-}
-
 /**
  * Handle next zone request for crew rotation
  */
 async function handleNextZoneRequest(
   supabase: any,
   currentZoneId: string,
-  crewId: string
+  crewId: string,
+  cityId: string,
+  mobility: MobilityConstraints | null = null
 ) {
   try {
-    // Check if this is the anchor crew (crew 1)
-    if (crewId === '1') {
+    // Follow the rotation the cron job already planned for this cycle
+    const planned = await getPlannedAssignment(supabase, crewId, cityId);
+    if (planned) {
+      return NextResponse.json({
+        success: true,
+        crew: {
+          ...planned,
+          isRotation: planned.zoneId !== currentZoneId
+        }
+      });
+    }
+
+    const hold = await getRotationHold(supabase, cityId);
+
+    // Check if this is the anchor crew (shared across all instances)
+    if (await isAnchorCrew(supabase, parseInt(crewId), cityId)) {
       // Anchor crew doesn't move unless emergency
       const { data: currentZone } = await supabase
         .from('zones')
@@ -162,10 +181,10 @@ async function handleNextZoneRequest(
         success: true,
         crew: {
           crewId: parseInt(crewId),
-          crewName: `Crew ${crewId}`,
+          crewName: getCrewName(parseInt(crewId)),
           zoneId: currentZoneId,
           zoneName: currentZone?.name || 'Downtown',
-          nextRotation: calculateNextRotation(),
+          nextRotation: getNextRotation(cityId, new Date(), hold),
           message: 'Anchor crew holds position'
         }
       });
@@ -174,7 +193,8 @@ async function handleNextZoneRequest(
     // Get all active zones
     const { data: zones } = await supabase
       .from('zones')
-      .select('id, name, center_lat, center_lng')
+      .select('id, name, center_lat, center_lng, step_free, has_seating, has_shade')
+      .eq('city_id', cityId)
       .eq('active', true)
       .neq('type', 'avoid');
     
@@ -192,6 +212,7 @@ async function handleNextZoneRequest(
     const { data: crewDistribution } = await supabase
       .from('current_crews')
       .select('zone_id, estimated_size')
+      .eq('city_id', cityId)
       .gt('estimated_size', 0);
     
     // Calculate zone occupancy
@@ -201,11 +222,17 @@ async function handleNextZoneRequest(
       zoneOccupancy.set(crew.zone_id, current + crew.estimated_size);
     });
     
+    // Mobility needs shorten the walk and rule out inaccessible zones
+    const maxDistance = mobility ? mobility.maxWalkMinutes / WALK_MINUTES_PER_KM : 1.5;
+    const candidateZones = mobility
+      ? zones.filter((z: any) => isZoneAccessible(z, mobility))
+      : zones;
+    
     // Find best next zone
     let bestZone = null;
     let bestScore = -Infinity;
     
-    for (const zone of zones as any[]) {
+    for (const zone of candidateZones as any[]) {
       if (zone.id === parseInt(currentZoneId)) continue; // Skip current zone
       
       // Calculate distance
@@ -216,8 +243,8 @@ async function handleNextZoneRequest(
         zone.center_lng
       );
       
-      // Skip if too far (more than 1.5km)
-      if (distance > 1.5) continue;
+      // Skip if too far (more than 1.5km, or the mobility limit)
+      if (distance > maxDistance) continue;
       
       // Calculate score (closer is better, less crowded is better)
       const occupancy = zoneOccupancy.get(zone.id) || 0;
@@ -232,8 +259,8 @@ async function handleNextZoneRequest(
       }
     }
     
-    // If no good zone found, pick random nearby zone
-    if (!bestZone) {
+    // If no good zone found, pick random nearby zone (crews with mobility needs stay put)
+    if (!bestZone && !mobility) {
       const nearbyZones = zones.filter((z: any) => {
         if (z.id === parseInt(currentZoneId)) return false;
         const distance = calculateDistance(
@@ -257,10 +284,10 @@ async function handleNextZoneRequest(
       success: true,
       crew: {
         crewId: parseInt(crewId),
-        crewName: `Crew ${crewId}`,
+        crewName: getCrewName(parseInt(crewId)),
         zoneId: newZone.id.toString(),
         zoneName: newZone.name,
-        nextRotation: calculateNextRotation(),
+        nextRotation: getNextRotation(cityId, new Date(), hold),
         isRotation: true
       }
     });
@@ -277,6 +304,84 @@ async function handleNextZoneRequest(
   }
 }
 
+/**
+ * Handle a member checking their crew's current assignment
+ * Null while no rotation is planned, so the client keeps what it has
+ */
+async function handleStatusRequest(
+  supabase: any,
+  crewId: string,
+  cityId: string
+) {
+  try {
+    return NextResponse.json({
+      success: true,
+      crew: await getPlannedAssignment(supabase, crewId, cityId),
+      timestamp: new Date().toISOString(),
+    });
+    
+  } catch (error) {
+    console.error('Crew status error:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to get crew status' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * The crew's assignment for the current cycle, or null once its rotation is due
+ */
+async function getPlannedAssignment(
+  supabase: any,
+  crewId: string,
+  cityId: string
+) {
+  const { data: assignment } = await supabase
+    .from('current_crews')
+    .select('zone_id, next_rotation, walk_time_minutes, rotation_reason')
+    .eq('city_id', cityId)
+    .eq('crew_id', parseInt(crewId))
+    .maybeSingle();
+
+  if (!assignment || new Date(assignment.next_rotation).getTime() <= Date.now()) return null;
+
+  const { data: zone } = await supabase
+    .from('zones')
+    .select('id, name')
+    .eq('id', assignment.zone_id)
+    .single();
+
+  return {
+    crewId: parseInt(crewId),
+    crewName: getCrewName(parseInt(crewId)),
+    zoneId: assignment.zone_id.toString(),
+    zoneName: zone?.name || 'Downtown',
+    nextRotation: assignment.next_rotation,
+    walkTime: assignment.walk_time_minutes !== null ? Number(assignment.walk_time_minutes) : null,
+    rotationReason: assignment.rotation_reason
+  };
+}
+
+/**
+ * Active zone whose boundary contains the user, if any
+ */
+async function getZoneAtLocation(
+  supabase: ReturnType<typeof createServerClient>,
+  coords: { lat: number; lng: number },
+  cityId: string
+) {
+  const { data: zones } = await supabase
+    .from('zones')
+    .select('id, name, geometry')
+    .eq('city_id', cityId)
+    .eq('active', true)
+    .neq('type', 'avoid')
+    .not('geometry', 'is', null);
+  
+  return findContainingZone(zones || [], coords.lat, coords.lng);
+}
+
 function calculateDistance(
   lat1: number, lon1: number,
   lat2: number, lon2: number
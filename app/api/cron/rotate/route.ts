@@ -1,13 +1,20 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { createServerClient } from '@/lib/supabase/client';
-import { rotateCrews, shouldRotate } from '@/lib/services/rotation';
-import { collectPoliceActivity } from '@/lib/services/scraper';
-import { loadZonesFromGeoJSON, getDefaultZones } from '@/lib/config/zones';
+import { shouldRotate } from '@/lib/services/rotation';
+import { SmartRotationService } from '@/lib/services/smart-rotation';
+import { collectPoliceActivity } from '@/lib/services/signal-sources';
+import { expireStalePresence } from '@/lib/services/headcount';
+import { CityConfig, getCityConfig, getRequestCity } from '@/lib/config/cities';
+import { getRotationHold } from '@/lib/services/rotation-schedule';
 
 /**
  * GET /api/cron/rotate
  * Cron job that runs every minute to check if rotation is needed
- * Rotates crews at :00 and :30 marks
+ * Rotates crews along walkable zone connections when a slot on the city's
+ * rotation schedule comes up, in every city that has active zones (or only ?city=la)
+ *
+ * ?dryRun=true returns the proposed plan with per-crew scores and writes nothing.
+ * Add &seed=... (and &at=ISO time) to replay an earlier rotation.
  */
 export async function GET(request: NextRequest) {
   // Verify cron secret
@@ -18,49 +25,54 @@ export async function GET(request: NextRequest) {
   
   try {
     const supabase = createServerClient();
+    const { searchParams } = new URL(request.url);
     
-    // Check if we should rotate
-    const shouldDoRotation = await shouldRotate(supabase);
-    if (!shouldDoRotation) {
+    if (searchParams.get('dryRun') === 'true') {
+      return await handleDryRun(supabase, searchParams, getRequestCity(request));
+    }
+    
+    // Drop members whose heartbeats stopped so crew sizes shrink
+    const expiredMembers = await expireStalePresence(supabase);
+    
+    const cities = searchParams.get('city')
+      ? [getRequestCity(request)]
+      : await getActiveCities(supabase);
+    
+    // Check which cities are due on their own schedule (and not held by organizers)
+    const dueCities: CityConfig[] = [];
+    for (const city of cities) {
+      if (await getRotationHold(supabase, city.id)) continue;
+      if (await shouldRotate(supabase, city.id)) dueCities.push(city);
+    }
+    
+    if (dueCities.length === 0) {
       return NextResponse.json({
         success: true,
         message: 'No rotation needed at this time',
+        expiredMembers,
         timestamp: new Date().toISOString(),
       });
     }
     
-    // First, collect latest police activity
-    const cityName = process.env.NEXT_PUBLIC_CITY_NAME || 'Los Angeles';
-    const newsApiKey = process.env.NEWS_API_KEY || '';
-    
-    // Load zones (from GeoJSON or defaults)
-    let zones;
-    try {
-      zones = await loadZonesFromGeoJSON('/data/los-angeles-county.geojson');
-    } catch {
-      zones = getDefaultZones();
+    // Cities rotate independently; one failing doesn't hold up the rest
+    const rotations = [];
+    for (const city of dueCities) {
+      try {
+        rotations.push({ city: city.id, ...await rotateCity(supabase, city) });
+      } catch (error) {
+        console.error(`Cron rotation error (${city.id}):`, error);
+        rotations.push({
+          city: city.id,
+          success: false,
+          error: error instanceof Error ? error.message : 'Unknown error',
+        });
+      }
     }
     
-    // Collect police data (non-blocking)
-    const collectionPromise = collectPoliceActivity(
-      supabase,
-      newsApiKey,
-      cityName,
-      zones
-    );
-    
-    // Execute rotation
-    const rotationResult = await rotateCrews(supabase, zones);
-    
-    // Wait for collection to finish
-    const collectionResult = await collectionPromise;
-    
     return NextResponse.json({
-      success: rotationResult.success,
-      rotation: {
-        ...rotationResult,
-        collectionResult,
-      },
+      success: rotations.every(rotation => rotation.success),
+      rotations,
+      expiredMembers,
       timestamp: new Date().toISOString(),
     });
     
@@ -78,9 +90,84 @@ export async function GET(request: NextRequest) {
   }
 }
 
+/**
+ * Collect police activity and rotate one city's crews
+ */
+async function rotateCity(
+  supabase: ReturnType<typeof createServerClient>,
+  city: CityConfig
+) {
+  // Collect police data (non-blocking)
+  const collectionPromise = collectPoliceActivity(supabase, city);
+  
+  // Execute rotation over the walkable zone graph
+  const rotationResult = await new SmartRotationService(supabase, city.id).rotate();
+  
+  // Wait for collection to finish
+  const collectionResult = await collectionPromise;
+  
+  return {
+    ...rotationResult,
+    collectionResult,
+  };
+}
+
+/**
+ * Configured cities with at least one active zone
+ */
+async function getActiveCities(
+  supabase: ReturnType<typeof createServerClient>
+): Promise<CityConfig[]> {
+  const { data, error } = await supabase
+    .from('zones')
+    .select('city_id')
+    .eq('active', true);
+  
+  if (error) throw error;
+  
+  const cityIds = Array.from(new Set((data || []).map(zone => zone.city_id)));
+  return cityIds
+    .map(cityId => getCityConfig(cityId))
+    .filter((city): city is CityConfig => city !== null);
+}
+
+/**
+ * Propose a rotation without touching the database
+ */
+async function handleDryRun(
+  supabase: ReturnType<typeof createServerClient>,
+  searchParams: URLSearchParams,
+  city: CityConfig
+) {
+  const seed = searchParams.get('seed') || undefined;
+  const at = searchParams.get('at');
+  const plannedAt = at ? new Date(at) : null;
+  
+  if (plannedAt && isNaN(plannedAt.getTime())) {
+    return NextResponse.json(
+      { success: false, error: 'Invalid at timestamp' },
+      { status: 400 }
+    );
+  }
+  
+  const plan = await new SmartRotationService(supabase, city.id).previewRotation({
+    seed,
+    now: plannedAt ? () => plannedAt : undefined
+  });
+  
+  return NextResponse.json({
+    success: true,
+    dryRun: true,
+    city: city.id,
+    plan,
+    timestamp: new Date().toISOString(),
+  });
+}
+
 /**
  * POST /api/cron/rotate
  * Manual rotation trigger (for testing)
+ * Rotates the request's city (?city=la)
  */
 export async function POST(request: NextRequest) {
   // Verify cron secret
@@ -91,14 +178,15 @@ export async function POST(request: NextRequest) {
   
   try {
     const supabase = createServerClient();
-    const zones = getDefaultZones();
+    const city = getRequestCity(request);
     
     // Force rotation
-    const result = await rotateCrews(supabase, zones);
+    const result = await new SmartRotationService(supabase, city.id).rotate();
     
     return NextResponse.json({
       success: result.success,
       message: 'Manual rotation completed',
+      city: city.id,
       result,
       timestamp: new Date().toISOString(),
     });
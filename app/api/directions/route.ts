@@ -0,0 +1,65 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createServerClient } from '@/lib/supabase/client';
+import { getRequestCity } from '@/lib/config/cities';
+import { getMobilityConstraints, parseMobilityNeeds } from '@/lib/services/mobility';
+import { planWalkingRoute } from '@/lib/services/walking-route';
+
+/**
+ * GET /api/directions?from=<zoneId>&to=<zoneId>[&mobility=wheelchair,...]
+ * Walking directions between two zones of the request's city,
+ * around zones with active high-severity police activity
+ * With mobility needs the route stays step-free when it can; accessible is false when it can't
+ */
+export const dynamic = 'force-dynamic';
+
+export async function GET(request: NextRequest) {
+  const { searchParams } = new URL(request.url);
+  const fromZoneId = Number(searchParams.get('from'));
+  const toZoneId = Number(searchParams.get('to'));
+  const mobility = parseMobilityNeeds(searchParams.get('mobility'));
+
+  if (!Number.isInteger(fromZoneId) || fromZoneId < 1 || !Number.isInteger(toZoneId) || toZoneId < 1) {
+    return NextResponse.json(
+      { success: false, error: 'Invalid zone id' },
+      { status: 400 }
+    );
+  }
+
+  if (!mobility) {
+    return NextResponse.json(
+      { success: false, error: 'Unknown mobility need' },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const supabase = createServerClient();
+    const cityId = getRequestCity(request).id;
+    const constraints = getMobilityConstraints(mobility);
+    const accessibleRoute = constraints
+      ? await planWalkingRoute(supabase, fromZoneId, toZoneId, cityId, constraints)
+      : null;
+    const route = accessibleRoute || await planWalkingRoute(supabase, fromZoneId, toZoneId, cityId);
+
+    if (!route) {
+      return NextResponse.json(
+        { success: false, error: 'No safe walking route - stay with your crew and follow organizers' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      route,
+      ...(constraints && { accessible: accessibleRoute !== null }),
+      timestamp: new Date().toISOString(),
+    });
+
+  } catch (error) {
+    console.error('Directions error:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to plan walking route' },
+      { status: 500 }
+    );
+  }
+}
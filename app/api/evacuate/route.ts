@@ -0,0 +1,54 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createServerClient } from '@/lib/supabase/client';
+import { getRequestCity } from '@/lib/config/cities';
+import {
+  authenticateOrganizer,
+  runOrganizerAction,
+  validateOrganizerAction
+} from '@/lib/services/organizers';
+
+/**
+ * POST /api/evacuate
+ * Move every crew out of the given zones now and push the order to their phones
+ * Requires Authorization: Bearer <organizer token>; recorded in the audit log
+ * Body: { zoneIds: number[] }
+ */
+export async function POST(request: NextRequest) {
+  const organizer = authenticateOrganizer(request.headers.get('authorization'));
+  if (!organizer) {
+    return NextResponse.json({ success: false, error: 'Unauthorized' }, { status: 401 });
+  }
+
+  const body = await request.json().catch(() => null);
+  const action = { type: 'evacuate' as const, zoneIds: body?.zoneIds };
+
+  const validationError = validateOrganizerAction(action);
+  if (validationError) {
+    return NextResponse.json(
+      { success: false, error: validationError },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const supabase = createServerClient();
+    const result = await runOrganizerAction(supabase, organizer, action, getRequestCity(request).id);
+
+    return NextResponse.json(
+      {
+        success: result.success,
+        message: result.message,
+        orders: result.details?.orders || [],
+        timestamp: new Date().toISOString(),
+      },
+      { status: result.success ? 200 : 500 }
+    );
+
+  } catch (error) {
+    console.error('Evacuation error:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to evacuate zones' },
+      { status: 500 }
+    );
+  }
+}
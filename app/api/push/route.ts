@@ -0,0 +1,90 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createServerClient } from '@/lib/supabase/client';
+import { getRequestCity } from '@/lib/config/cities';
+import {
+  isPushEnabled,
+  removePushSubscription,
+  savePushSubscription,
+  validatePushSubscriptionRequest
+} from '@/lib/services/push';
+
+/**
+ * POST /api/push
+ * Store or renew a Web Push subscription for a crew and its zone
+ * Body: { subscription: { endpoint, keys: { p256dh, auth } }, crewId, zoneId, locale? }
+ */
+export async function POST(request: NextRequest) {
+  if (!isPushEnabled()) {
+    return NextResponse.json(
+      { success: false, error: 'Push notifications are not configured' },
+      { status: 503 }
+    );
+  }
+
+  const body = await request.json().catch(() => null);
+
+  const validationError = validatePushSubscriptionRequest(body);
+  if (validationError) {
+    return NextResponse.json(
+      { success: false, error: validationError },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const supabase = createServerClient();
+    const expiresAt = await savePushSubscription(supabase, {
+      subscription: body.subscription,
+      crewId: Number(body.crewId),
+      zoneId: Number(body.zoneId),
+      locale: body.locale,
+      cityId: getRequestCity(request).id,
+    });
+
+    return NextResponse.json({
+      success: true,
+      expiresAt: expiresAt.toISOString(),
+      timestamp: new Date().toISOString(),
+    });
+
+  } catch (error) {
+    console.error('Push subscribe error:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to save push subscription' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * DELETE /api/push
+ * Forget a subscription when alerts are turned off
+ * Body: { endpoint }
+ */
+export async function DELETE(request: NextRequest) {
+  const body = await request.json().catch(() => null);
+
+  if (typeof body?.endpoint !== 'string' || !body.endpoint) {
+    return NextResponse.json(
+      { success: false, error: 'Missing endpoint' },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const supabase = createServerClient();
+    await removePushSubscription(supabase, body.endpoint);
+
+    return NextResponse.json({
+      success: true,
+      timestamp: new Date().toISOString(),
+    });
+
+  } catch (error) {
+    console.error('Push unsubscribe error:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to remove push subscription' },
+      { status: 500 }
+    );
+  }
+}
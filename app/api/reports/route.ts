@@ -0,0 +1,89 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createServerClient } from '@/lib/supabase/client';
+import { getRequestCity } from '@/lib/config/cities';
+import {
+  isAddressRateLimited,
+  REPORT_CORROBORATION,
+  submitReport,
+  validateReportRequest
+} from '@/lib/services/reports';
+
+/**
+ * POST /api/reports
+ * Anonymous incident report from a crew member inside a zone
+ * Body: { sessionId, zoneId, category, lat, lng }
+ * category: medical | blocked_route | hazard | crowd_crush | supply_shortage
+ */
+export async function POST(request: NextRequest) {
+  const body = await request.json().catch(() => null);
+
+  const validationError = validateReportRequest(body);
+  if (validationError) {
+    return NextResponse.json(
+      { success: false, error: validationError },
+      { status: 400 }
+    );
+  }
+
+  if (isAddressRateLimited(getClientAddress(request))) {
+    return NextResponse.json(
+      { success: false, error: 'Too many reports - try again in a few minutes' },
+      { status: 429 }
+    );
+  }
+
+  try {
+    const supabase = createServerClient();
+    const result = await submitReport(supabase, {
+      sessionId: body.sessionId,
+      zoneId: Number(body.zoneId),
+      category: body.category,
+      lat: Number(body.lat),
+      lng: Number(body.lng),
+      cityId: getRequestCity(request).id,
+    });
+
+    if (result.status === 'outside-zone') {
+      return NextResponse.json(
+        { success: false, error: 'You must be inside the zone to report from it' },
+        { status: 403 }
+      );
+    }
+
+    if (result.status === 'not-present') {
+      return NextResponse.json(
+        { success: false, error: 'Only crew members who have been at this zone for a few minutes can report', reason: 'not-present' },
+        { status: 403 }
+      );
+    }
+
+    if (result.status === 'rate-limited') {
+      return NextResponse.json(
+        { success: false, error: 'Too many reports - try again in a few minutes' },
+        { status: 429 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      reporters: result.reporters,
+      needed: REPORT_CORROBORATION,
+      escalated: result.escalated,
+      timestamp: new Date().toISOString(),
+    });
+
+  } catch (error) {
+    console.error('Incident report error:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to submit report' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * The caller's address as seen by the platform's proxy
+ */
+function getClientAddress(request: NextRequest): string {
+  return request.ip || request.headers.get('x-forwarded-for')?.split(',')[0].trim() || 'unknown';
+}
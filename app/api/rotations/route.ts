@@ -0,0 +1,43 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createServerClient } from '@/lib/supabase/client';
+import { getRotationHistory, ROTATION_HISTORY_LIMIT } from '@/lib/services/rotation-history';
+import { getRequestCity } from '@/lib/config/cities';
+
+/**
+ * GET /api/rotations
+ * Recent rotations in the request's city with each crew's from→to move, for debriefs
+ * Optional ?limit= (most recent N rotations, max 48)
+ */
+export const dynamic = 'force-dynamic';
+
+export async function GET(request: NextRequest) {
+  try {
+    const supabase = createServerClient();
+
+    const { searchParams } = new URL(request.url);
+    const limit = parseInt(searchParams.get('limit') || '', 10);
+
+    const rotations = await getRotationHistory(
+      supabase,
+      Number.isNaN(limit) ? ROTATION_HISTORY_LIMIT : limit,
+      getRequestCity(request).id
+    );
+
+    return NextResponse.json({
+      success: true,
+      rotations,
+      timestamp: new Date().toISOString(),
+    });
+
+  } catch (error) {
+    console.error('Rotation history error:', error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Failed to fetch rotation history',
+        rotations: [],
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,85 @@
+import { createHash, timingSafeEqual } from 'crypto';
+import { NextRequest, NextResponse } from 'next/server';
+import { createServerClient } from '@/lib/supabase/client';
+import { getRequestCity } from '@/lib/config/cities';
+import { parseSignalEvent } from '@/lib/services/signal-adapters';
+
+const MAX_EVENTS_PER_REQUEST = 50;
+
+/**
+ * POST /api/signals/[sourceId]
+ * Webhook receiver for a city's `webhook` signal source
+ * Requires Authorization: Bearer <SIGNAL_WEBHOOK_SECRET>
+ * Body: { events: [{ description, location?, severity?, timestamp?, url? }] }
+ * Events are held in signal_inbox and picked up by the next cron collection
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { sourceId: string } }
+) {
+  const secret = process.env.SIGNAL_WEBHOOK_SECRET;
+  if (!secret || !isAuthorized(request.headers.get('authorization'), secret)) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  const city = getRequestCity(request);
+  const configured = (city.signalSources || []).some(source =>
+    source.type === 'webhook' && source.id === params.sourceId
+  );
+  if (!configured) {
+    return NextResponse.json(
+      { success: false, error: `No webhook source "${params.sourceId}" for ${city.name}` },
+      { status: 404 }
+    );
+  }
+
+  const body = await request.json().catch(() => null);
+  const rawEvents = Array.isArray(body?.events) ? body.events : [];
+  const events = rawEvents
+    .slice(0, MAX_EVENTS_PER_REQUEST)
+    .map((raw: any) => parseSignalEvent(raw, params.sourceId, city.name))
+    .filter((event: any) => event !== null);
+
+  if (events.length === 0) {
+    return NextResponse.json(
+      { success: false, error: 'No valid events (each needs a description)' },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const supabase = createServerClient();
+    const { error } = await supabase.from('signal_inbox').insert(
+      events.map((event: any) => ({
+        city_id: city.id,
+        source_id: params.sourceId,
+        event: { ...event, timestamp: event.timestamp.toISOString() },
+      }))
+    );
+
+    if (error) throw error;
+
+    return NextResponse.json({
+      success: true,
+      accepted: events.length,
+      rejected: rawEvents.length - events.length,
+      timestamp: new Date().toISOString(),
+    });
+
+  } catch (error) {
+    console.error('Signal webhook error:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to store events' },
+      { status: 500 }
+    );
+  }
+}
+
+// Compare digests so the check takes the same time whatever the header holds
+function isAuthorized(header: string | null, secret: string): boolean {
+  return timingSafeEqual(hashSecret(header || ''), hashSecret(`Bearer ${secret}`));
+}
+
+function hashSecret(value: string): Buffer {
+  return createHash('sha256').update(value).digest();
+}
@@ -1,21 +1,25 @@
-import { NextResponse } from 'next/server';
+import { NextRequest, NextResponse } from 'next/server';
 import { createServerClient } from '@/lib/supabase/client';
+import { getRequestCity } from '@/lib/config/cities';
 
-export async function GET() {
+export async function GET(request: NextRequest) {
   try {
     const supabase = createServerClient();
+    const city = getRequestCity(request);
     
-    // Test 1: Get all zones
+    // Test 1: Get the city's zones
     const { data: zones, error: zonesError } = await supabase
       .from('zones')
-      .select('*');
+      .select('*')
+      .eq('city_id', city.id);
     
-    // Test 2: Test the RPC function with City Hall coordinates
+    // Test 2: Test the RPC function at the city center
     const { data: nearbyZones, error: rpcError } = await supabase
       .rpc('find_nearby_zones', {
-        user_lat: 34.0537,
-        user_lng: -118.2427,
-        search_radius_meters: 5000 // 5km to test
+        user_lat: city.center.lat,
+        user_lng: city.center.lng,
+        search_radius_meters: 5000, // 5km to test
+        p_city_id: city.id
       });
     
     // Test 3: Direct SQL query to verify PostGIS
@@ -26,6 +30,7 @@ export async function GET() {
     
     return NextResponse.json({
       success: true,
+      city: city.id,
       zonesCount: zones?.length || 0,
       zones: zones || [],
       zonesError: zonesError?.message,
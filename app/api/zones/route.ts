@@ -1,10 +1,13 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { createServerClient } from '@/lib/supabase/client';
 import { getAllActiveCrews } from '@/lib/services/crews';
+import { getRequestCity } from '@/lib/config/cities';
+import { getNextRotation, getRotationHold } from '@/lib/services/rotation-schedule';
+import { assessZoneActivity } from '@/lib/services/severity';
 
 /**
  * GET /api/zones
- * Get all active zones and crews
+ * Get all active zones and crews for the request's city
  * This is public information - transparency is our strength
  */
 export const dynamic = 'force-dynamic';
@@ -12,11 +15,13 @@ export const dynamic = 'force-dynamic';
 export async function GET(request: NextRequest) {
   try {
     const supabase = createServerClient();
+    const city = getRequestCity(request);
     
     // Get all zones
     const { data: zones, error: zonesError } = await supabase
       .from('zones')
       .select('*')
+      .eq('city_id', city.id)
       .eq('active', true)
       .order('type', { ascending: true })
       .order('name', { ascending: true });
@@ -24,17 +29,18 @@ export async function GET(request: NextRequest) {
     if (zonesError) throw zonesError;
     
     // Get active crews with their zones
-    const activeCrews = await getAllActiveCrews(supabase);
+    const activeCrews = await getAllActiveCrews(supabase, city.id);
     
     // Get police activity
     const { data: policeActivity } = await supabase
       .from('police_activity')
-      .select('zone_id, severity, description')
-      .gt('expires_at', new Date().toISOString());
+      .select('zone_id, severity, description, source, confidence, reported_at')
+      .gt('expires_at', new Date().toISOString())
+      .order('reported_at');
     
     // Get movement stats
     const { data: stats } = await supabase
-      .rpc('get_crew_stats')
+      .rpc('get_crew_stats', { p_city_id: city.id })
       .single() as { data: any };
     
     // Build zone status map
@@ -48,17 +54,23 @@ export async function GET(request: NextRequest) {
           id: crew.id,
           name: crew.name,
           size: crew.size,
+          walkTime: crew.walkTime,
+          rotationReason: crew.rotationReason,
         });
         current.totalProtesters += crew.size;
         zoneStatus.set(crew.zone.id, current);
       }
     });
     
-    // Add police activity to zones
+    // Add scored police activity to zones, with the latest description
+    const threats = assessZoneActivity(policeActivity || []);
     policeActivity?.forEach((activity: any) => {
+      const threat = threats.get(activity.zone_id);
+      if (!threat) return;
+      
       const current = zoneStatus.get(activity.zone_id) || { crews: [], totalProtesters: 0 };
       current.policeActivity = {
-        severity: activity.severity,
+        ...threat,
         description: activity.description,
       };
       zoneStatus.set(activity.zone_id, current);
@@ -70,20 +82,18 @@ export async function GET(request: NextRequest) {
       status: zoneStatus.get(zone.id) || { crews: [], totalProtesters: 0 },
     })) || [];
     
-    // Calculate next rotation time (every 30 minutes)
-    const now = Date.now();
-    const rotationInterval = 30 * 60 * 1000; // 30 minutes
-    const currentCycle = Math.floor(now / rotationInterval);
-    const nextRotationTime = (currentCycle + 1) * rotationInterval;
+    // Next move on the city's rotation schedule, after any organizer hold
+    const nextRotation = getNextRotation(city.id, new Date(), await getRotationHold(supabase, city.id));
     
     return NextResponse.json({
       success: true,
+      city: { id: city.id, name: city.name, shortName: city.shortName },
       zones: zonesWithStatus,
       stats: {
         totalCrews: stats?.active_crews || 0,
         totalProtesters: stats?.total_protesters || 0,
         activeZones: stats?.zones_occupied || 0,
-        nextRotation: new Date(nextRotationTime).toISOString(),
+        nextRotation: nextRotation?.toISOString() || null,
       },
       timestamp: new Date().toISOString(),
     });
@@ -0,0 +1,101 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import ZoneMap from '@/components/ZoneMap';
+import { getCurrentCity } from '@/lib/config/cities';
+import { describeRotationReason } from '@/lib/config/rotation-reasons';
+import { formatClockTime, formatWalkingTime } from '@/lib/i18n/format';
+import { useLocale } from '@/lib/i18n/use-locale';
+import type { MapZone } from '@/lib/services/map-view';
+import type { RotationRecord } from '@/lib/services/rotation-history';
+
+/**
+ * Debrief - replay how crews flowed through the day
+ */
+export default function DebriefPage() {
+  const [zones, setZones] = useState<MapZone[]>([]);
+  const [rotations, setRotations] = useState<RotationRecord[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const { format, t } = useLocale();
+
+  useEffect(() => {
+    async function fetchHistory() {
+      const city = getCurrentCity().id;
+      try {
+        const [zonesResponse, rotationsResponse] = await Promise.all([
+          fetch(`/api/zones?city=${city}`),
+          fetch(`/api/rotations?city=${city}`),
+        ]);
+        const zonesData = await zonesResponse.json();
+        const rotationsData = await rotationsResponse.json();
+
+        if (zonesData.success) setZones(zonesData.zones || []);
+        if (rotationsData.success) setRotations(rotationsData.rotations || []);
+      } catch (error) {
+        console.error('Debrief fetch error:', error);
+      } finally {
+        setIsLoading(false);
+      }
+    }
+
+    fetchHistory();
+  }, []);
+
+  const zoneName = (zoneId: number | null) =>
+    zones.find(zone => zone.id === zoneId)?.name
+      || (zoneId === null ? t('debrief.unknownZone') : t('debrief.zone', { id: zoneId }));
+
+  return (
+    <main className="min-h-screen">
+      <div className="container">
+        <header className="section">
+          <h1 className="mb-1">{t('debrief.title')}</h1>
+          <p className="text-muted">{t('debrief.subtitle')}</p>
+        </header>
+
+        <section className="section">
+          {isLoading ? (
+            <p className="text-muted">{t('debrief.loading')}</p>
+          ) : (
+            <ZoneMap zones={zones} replay={rotations} />
+          )}
+        </section>
+
+        <section className="section">
+          <h2>{t('debrief.rotations')}</h2>
+          {rotations.length > 0 ? (
+            <table className="table">
+              <thead>
+                <tr>
+                  <th>{t('debrief.time')}</th>
+                  <th>{t('debrief.crew')}</th>
+                  <th>{t('debrief.move')}</th>
+                  <th>{t('debrief.reason')}</th>
+                </tr>
+              </thead>
+              <tbody>
+                {rotations.flatMap(rotation =>
+                  rotation.moves.map(move => (
+                    <tr key={`${rotation.rotationNumber}-${move.crewId}`}>
+                      <td>{formatClockTime(rotation.rotatedAt, format)}</td>
+                      <td>{t('common.crewName', { number: move.crewId })}</td>
+                      <td>
+                        {move.moved
+                          ? `${zoneName(move.fromZoneId)} → ${zoneName(move.toZoneId)}`
+                          : t('debrief.heldAt', { zone: zoneName(move.toZoneId) })}
+                        {move.moved && move.walkTime !== null && ` (${formatWalkingTime(move.walkTime, format)})`}
+                      </td>
+                      <td>{describeRotationReason(move.reason, t) || '—'}</td>
+                    </tr>
+                  ))
+                )}
+              </tbody>
+            </table>
+          ) : (
+            !isLoading && <p className="text-muted">{t('debrief.empty')}</p>
+          )}
+        </section>
+      </div>
+    </main>
+  );
+}
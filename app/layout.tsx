@@ -1,7 +1,9 @@
 'use client';
 
-import { useState } from 'react';
+import { useEffect, useState } from 'react';
 import dynamic from 'next/dynamic';
+import { usePathname } from 'next/navigation';
+import { getCurrentCity, getDeploymentCity } from '@/lib/config/cities';
 import './globals.css';
 
 const LocationGate = dynamic(() => import('@/components/LocationGate'), {
@@ -10,6 +12,9 @@ const LocationGate = dynamic(() => import('@/components/LocationGate'), {
 
 // Metadata must be set in a separate metadata.ts file for client components
 
+// Organizers may run the console from anywhere, so /admin and /la/admin skip the location check
+const ADMIN_PATH = /^\/(?:[a-z]+\/)?admin(?:\/|$)/;
+
 export default function RootLayout({
   children,
 }: {
@@ -17,9 +22,14 @@ export default function RootLayout({
 }) {
   const [locationAllowed, setLocationAllowed] = useState<boolean | null>(null);
   const [nearestZone, setNearestZone] = useState<any>(null);
+  const pathname = usePathname();
+  
+  // Deployment city on the server, then the city in the URL once mounted
+  const [city, setCity] = useState(getDeploymentCity());
   
-  const cityName = process.env.NEXT_PUBLIC_CITY_NAME || 'Los Angeles';
-  const cityShort = process.env.NEXT_PUBLIC_CITY_SHORT || 'LA';
+  useEffect(() => {
+    setCity(getCurrentCity());
+  }, []);
 
   function handleLocationChecked(allowed: boolean, zone?: any) {
     setLocationAllowed(allowed);
@@ -38,13 +48,17 @@ export default function RootLayout({
         <meta name="apple-mobile-web-app-status-bar-style" content="black-translucent" />
         <meta name="apple-mobile-web-app-title" content="Coordinate" />
         <link rel="apple-touch-icon" href="/favicon.svg" />
-        <title>Overwhelm Los Angeles - Effective Assembly Tool</title>
-        <meta name="description" content="Coordination tool for effective assembly in Los Angeles. Safe movement and communication." />
+        <title>{`Overwhelm ${city.name} - Effective Assembly Tool`}</title>
+        <meta name="description" content={`Coordination tool for effective assembly in ${city.name}. Safe movement and communication.`} />
       </head>
       <body className="antialiased">
-        <LocationGate onLocationChecked={handleLocationChecked}>
-          {children}
-        </LocationGate>
+        {ADMIN_PATH.test(pathname || '') ? (
+          children
+        ) : (
+          <LocationGate onLocationChecked={handleLocationChecked}>
+            {children}
+          </LocationGate>
+        )}
       </body>
     </html>
   );
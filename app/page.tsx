@@ -4,7 +4,12 @@ import { useEffect, useState } from 'react';
 import { motion } from 'framer-motion';
 import Image from 'next/image';
 import CrewAssignment from '@/components/CrewAssignment';
+import LanguageSwitcher from '@/components/LanguageSwitcher';
 import { supabase, subscribeToCrewUpdates } from '@/lib/supabase/client';
+import { getCurrentCity, getDeploymentCity } from '@/lib/config/cities';
+import { cacheLoadedAssets, getCachedAt } from '@/lib/services/offline';
+import { formatClockTime, formatTimeUntil } from '@/lib/i18n/format';
+import { useLocale } from '@/lib/i18n/use-locale';
 
 interface Stats {
   totalCrews: number;
@@ -16,6 +21,10 @@ interface Stats {
 interface Zone {
   id: number;
   name: string;
+  center_lat: number;
+  center_lng: number;
+  radius_meters?: number | null;
+  geometry?: unknown;
   status: {
     crews: Array<{
       id: number;
@@ -41,14 +50,19 @@ export default function HomePage() {
   const [isLoading, setIsLoading] = useState(true);
   const [lastUpdate, setLastUpdate] = useState<Date | null>(null);
 
-  const cityName = process.env.NEXT_PUBLIC_CITY_NAME || 'Los Angeles';
+  const [cityName, setCityName] = useState(getDeploymentCity().name);
+  const { format } = useLocale();
 
   useEffect(() => {
+    setCityName(getCurrentCity().name);
+
     // Register service worker
     if ('serviceWorker' in navigator) {
-      navigator.serviceWorker.register('/sw.js').catch(error => {
-        console.log('SW registration failed:', error);
-      });
+      navigator.serviceWorker.register('/sw.js')
+        .then(() => cacheLoadedAssets())
+        .catch(error => {
+          console.log('SW registration failed:', error);
+        });
     }
 
     // Initial stats fetch
@@ -68,12 +82,13 @@ export default function HomePage() {
 
   async function fetchStats() {
     try {
-      const response = await fetch('/api/zones');
+      const response = await fetch(`/api/zones?city=${getCurrentCity().id}`);
       const data = await response.json();
       if (data.success) {
         setStats(data.stats);
         setZones(data.zones || []);
-        setLastUpdate(new Date());
+        // Served from the offline cache when the network is down
+        setLastUpdate(getCachedAt(response));
       }
     } catch (error) {
       console.error('Stats fetch error:', error);
@@ -110,6 +125,7 @@ export default function HomePage() {
               </div>
             </div>
             <div className="text-right text-sm">
+              <LanguageSwitcher className="mb-2" />
               {lastUpdate && (
                 <motion.div
                   key={lastUpdate.getTime()}
@@ -118,7 +134,7 @@ export default function HomePage() {
                   className="text-muted"
                 >
                   <span className="inline-block w-2 h-2 bg-minimal-safe rounded-full mr-2"></span>
-                  Updated {lastUpdate.toLocaleTimeString()}
+                  Updated {formatClockTime(lastUpdate, format)}
                 </motion.div>
               )}
             </div>
@@ -135,7 +151,7 @@ export default function HomePage() {
 
         {/* Join Section */}
         <section className="section">
-          <CrewAssignment />
+          <CrewAssignment zones={zones} />
         </section>
 
         {/* Stats */}
@@ -160,7 +176,7 @@ export default function HomePage() {
             </div>
             {stats.nextRotation && (
               <div className="p-4 border-2 border-minimal-accent text-center">
-                <div className="text-2xl font-bold">{formatTimeUntil(stats.nextRotation)}</div>
+                <div className="text-2xl font-bold">{formatTimeUntil(stats.nextRotation, format)}</div>
                 <div className="text-sm text-muted uppercase tracking-wider">Next Move</div>
               </div>
             )}
@@ -276,14 +292,3 @@ export default function HomePage() {
     </main>
   );
 }
-
-function formatTimeUntil(isoString: string): string {
-  const now = new Date();
-  const target = new Date(isoString);
-  const diff = target.getTime() - now.getTime();
-  
-  if (diff <= 0) return 'now';
-  
-  const minutes = Math.floor(diff / 60000);
-  return `${minutes} min`;
-}
\ No newline at end of file
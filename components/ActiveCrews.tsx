@@ -2,7 +2,9 @@
 
 import { useEffect, useState } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
+import { getCurrentCity } from '@/lib/config/cities';
 import { checkForDangerAlerts } from '@/lib/services/notifications';
+import { DANGER_SCORE } from '@/lib/services/severity';
 
 interface Zone {
   id: number;
@@ -19,6 +21,8 @@ interface Zone {
     totalProtesters: number;
     policeActivity?: {
       severity: string;
+      confidence: number;
+      score: number;
       description: string;
     };
   };
@@ -37,7 +41,7 @@ export default function ActiveCrews() {
 
   async function fetchZones() {
     try {
-      const response = await fetch('/api/zones');
+      const response = await fetch(`/api/zones?city=${getCurrentCity().id}`);
       const data = await response.json();
       if (data.success) {
         setZones(data.zones);
@@ -62,7 +66,7 @@ export default function ActiveCrews() {
   }
 
   const activeZones = zones.filter(z => z.status.crews.length > 0);
-  const dangerZones = zones.filter(z => z.status.policeActivity?.severity === 'high' || z.status.policeActivity?.severity === 'critical');
+  const dangerZones = zones.filter(z => (z.status.policeActivity?.score || 0) >= DANGER_SCORE);
 
   if (isLoading) {
     return (
@@ -1,6 +1,37 @@
 'use client';
 
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useRef } from 'react';
+import {
+  HEARTBEAT_INTERVAL,
+  getMobilityNeeds,
+  joinCrewPresence,
+  leaveCrewPresence,
+  saveMobilityNeeds,
+  sendHeartbeat
+} from '@/lib/services/presence';
+import { clearPushTopics, updatePushTopics } from '@/lib/services/notifications';
+import { flushOutbox, getOfflineNextRotation } from '@/lib/services/offline';
+import { getRotationSchedule } from '@/lib/services/rotation-schedule';
+import {
+  describeZoneAlert,
+  type CrewAlertMessage,
+  type CrewMessage,
+  type CrewZoneChangeMessage,
+  type MemberCrewChannel
+} from '@/lib/services/crew-messages';
+import type { EvacuationOrder } from '@/lib/services/evacuation';
+import type { MapZone } from '@/lib/services/map-view';
+import { MOBILITY_NEEDS, type MobilityNeed } from '@/lib/services/mobility';
+import { getRouteEta, type WalkingRoute } from '@/lib/services/walking-route';
+import { getCurrentCity } from '@/lib/config/cities';
+import { describeRotationReason } from '@/lib/config/rotation-reasons';
+import { formatClockTime, formatCountdown, formatMinutes, formatWalkingTime } from '@/lib/i18n/format';
+import type { MessageKey } from '@/lib/i18n/locale';
+import { useLocale } from '@/lib/i18n/use-locale';
+import { setCrewChannelToken, subscribeToCrew, subscribeToEvacuations, supabase } from '@/lib/supabase/client';
+import EvacuationAlert from './EvacuationAlert';
+import IncidentReport from './IncidentReport';
+import ZoneMap from './ZoneMap';
 
 interface Crew {
   crewId: number;
@@ -8,15 +39,49 @@ interface Crew {
   estimatedSize: number;
   zoneId: string;
   zoneName: string;
-  nextRotation: string;
+  nextRotation: string | null; // Null once the event's last rotation has passed
+  walkTime?: number | null;
+  rotationReason?: string | null;
+  channel?: MemberCrewChannel | null; // Private crew channel from /api/crew/join, renewed by heartbeats
+  previousZoneId?: string | null; // Zone the crew left on its last move, for the route on the map
+  accessible?: boolean; // Set when mobility needs were sent; false if no accessible zone was free
 }
 
-export default function CrewAssignment() {
+// Kept as the message so it shows in the current language
+type CrewNotice = CrewZoneChangeMessage | CrewAlertMessage;
+
+const FALLBACK_POLL_INTERVAL = 60 * 1000; // While the crew channel is down
+
+interface CrewAssignmentProps {
+  zones?: MapZone[]; // The city's zones from /api/zones, for the map
+}
+
+export default function CrewAssignment({ zones = [] }: CrewAssignmentProps) {
   const [crew, setCrew] = useState<Crew | null>(null);
   const [isLoading, setIsLoading] = useState(false);
   const [hasJoined, setHasJoined] = useState(false);
   const [isTimeToMove, setIsTimeToMove] = useState(false);
   const [isInitialCheckIn, setIsInitialCheckIn] = useState(true);
+  const [evacuation, setEvacuation] = useState<EvacuationOrder | null>(null);
+  const [notice, setNotice] = useState<CrewNotice | null>(null);
+  const [isLive, setIsLive] = useState(false);
+  const [isOnline, setIsOnline] = useState(true);
+  const [route, setRoute] = useState<{ route: WalkingRoute; departedAt: Date; accessible: boolean } | null>(null);
+  const [mobility, setMobility] = useState<MobilityNeed[]>([]);
+  const { locale, format, t } = useLocale();
+
+  // Mobility needs stay on this device between visits
+  useEffect(() => {
+    setMobility(getMobilityNeeds());
+  }, []);
+
+  const toggleMobilityNeed = (need: MobilityNeed) => {
+    const needs = mobility.includes(need)
+      ? mobility.filter(item => item !== need)
+      : [...mobility, need];
+    setMobility(needs);
+    saveMobilityNeeds(needs);
+  };
 
   // Check if user already has a crew (from localStorage)
   useEffect(() => {
@@ -41,6 +106,22 @@ export default function CrewAssignment() {
     }
   }, []);
 
+  // Apply an update from the server, keeping the crew's channel and size
+  const saveCrew = (update: Partial<Crew>) => {
+    setCrew(current => {
+      if (!current) return current;
+      const updated = { ...current, ...update };
+      if (update.zoneId && update.zoneId !== current.zoneId) {
+        updated.previousZoneId = current.zoneId;
+      }
+      localStorage.setItem('overwhelm-crew', JSON.stringify({
+        crew: updated,
+        timestamp: Date.now(),
+      }));
+      return updated;
+    });
+  };
+
   // Function to check for updates
   const checkUpdates = async () => {
     if (!crew) return;
@@ -51,31 +132,25 @@ export default function CrewAssignment() {
         const params = new URLSearchParams({
           getNextZone: 'true',
           currentZone: crew.zoneId,
-          crewId: crew.crewId.toString()
+          crewId: crew.crewId.toString(),
+          city: getCurrentCity().id,
+          ...(mobility.length > 0 && { mobility: mobility.join(',') })
         });
         
         const response = await fetch(`/api/crew?${params}`);
         const data = await response.json();
         
         if (data.success && data.crew) {
-          setCrew(data.crew);
-          localStorage.setItem('overwhelm-crew', JSON.stringify({
-            crew: data.crew,
-            timestamp: Date.now(),
-          }));
+          saveCrew(data.crew);
           setIsTimeToMove(false); // Reset the flag
         }
       } else {
         // Normal update check
-        const response = await fetch('/api/crew');
+        const response = await fetch(`/api/crew?crewId=${crew.crewId}&city=${getCurrentCity().id}`);
         const data = await response.json();
         
         if (data.success && data.crew) {
-          setCrew(data.crew);
-          localStorage.setItem('overwhelm-crew', JSON.stringify({
-            crew: data.crew,
-            timestamp: Date.now(),
-          }));
+          saveCrew(data.crew);
         }
       }
     } catch (error) {
@@ -83,22 +158,160 @@ export default function CrewAssignment() {
     }
   };
 
-  // Check for zone updates periodically
+  // Timers call the latest checkUpdates without restarting on every crew update
+  const checkUpdatesRef = useRef(checkUpdates);
+  checkUpdatesRef.current = checkUpdates;
+
+  // Keep this device counted in its crew (server drops silent members)
+  const crewId = crew?.crewId;
+  const crewZoneId = crew?.zoneId;
+  const crewTopic = crew?.channel?.topic;
+  const crewToken = crew?.channel?.token;
   useEffect(() => {
-    if (!crew) return;
+    if (!crewId || !crewZoneId) return;
+
+    const beat = async () => {
+      const update = await sendHeartbeat({ crewId, zoneId: crewZoneId });
+      if (update) saveCrew(update);
+    };
+
+    beat();
+    const interval = setInterval(beat, HEARTBEAT_INTERVAL);
+    return () => clearInterval(interval);
+  }, [crewId, crewZoneId]);
+
+  // Pushes with the app closed follow the crew to its new zone (and the chosen language)
+  useEffect(() => {
+    if (!crewId || !crewZoneId) return;
+    updatePushTopics({ crewId, zoneId: crewZoneId });
+  }, [crewId, crewZoneId, locale]);
+
+  // Evacuation orders arrive immediately instead of on the next poll
+  useEffect(() => {
+    if (!crewId) return;
+
+    const channel = subscribeToEvacuations(getCurrentCity().id, orders => {
+      const order = orders.find(o => o.crewId === crewId);
+      if (!order) return;
 
-    // Check every 10 minutes for updates
-    const interval = setInterval(checkUpdates, 600000); // 10 minutes
+      setEvacuation(order);
+      saveCrew({
+        zoneId: order.toZoneId.toString(),
+        zoneName: order.toZoneName,
+        walkTime: order.walkTime,
+        rotationReason: 'evacuation',
+      });
+    });
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [crewId]);
+
+  // The crew channel only lets this device in while its token is current
+  useEffect(() => {
+    if (crewToken) setCrewChannelToken(crewToken);
+  }, [crewToken]);
+
+  // Rotation orders, zone changes and alerts for this crew only
+  useEffect(() => {
+    if (!crewTopic) return;
+
+    const channel = subscribeToCrew(crewTopic, (message: CrewMessage) => {
+      switch (message.type) {
+        case 'rotation':
+          saveCrew({
+            zoneId: message.zoneId.toString(),
+            zoneName: message.zoneName,
+            nextRotation: message.nextRotation,
+            walkTime: message.walkTime,
+            rotationReason: message.reason,
+            // Holding crews have no route to show
+            ...(message.walkTime === null && { previousZoneId: null }),
+          });
+          break;
+        case 'zone-change':
+          setNotice(message);
+          break;
+        case 'alert':
+          setNotice(message);
+          if ('vibrate' in navigator) navigator.vibrate([200, 100, 200]);
+          break;
+      }
+    }, setIsLive);
+
+    return () => {
+      setIsLive(false);
+      supabase.removeChannel(channel);
+    };
+  }, [crewTopic]);
+
+  // Catch up whenever the crew channel connects or the network comes back,
+  // then poll only while the channel is unavailable (not set up, connecting or dropped)
+  useEffect(() => {
+    if (!crewId || !isOnline) return;
+
+    checkUpdatesRef.current();
+    if (isLive) return;
+
+    const interval = setInterval(() => checkUpdatesRef.current(), FALLBACK_POLL_INTERVAL);
     return () => clearInterval(interval);
-  }, [crew?.zoneId]);
+  }, [crewId, isLive, isOnline]);
+
+  // Send what was queued offline as soon as the network comes back
+  useEffect(() => {
+    if (!crewId) return;
+
+    const handleOnline = () => {
+      setIsOnline(true);
+      flushOutbox();
+    };
+    const handleOffline = () => setIsOnline(false);
+
+    setIsOnline(navigator.onLine);
+    window.addEventListener('online', handleOnline);
+    window.addEventListener('offline', handleOffline);
+    return () => {
+      window.removeEventListener('online', handleOnline);
+      window.removeEventListener('offline', handleOffline);
+    };
+  }, [crewId]);
+
+  // Directions to the new zone after a move
+  const previousZoneId = crew?.previousZoneId;
+  useEffect(() => {
+    setRoute(null);
+    if (!crewZoneId || !previousZoneId || previousZoneId === crewZoneId || isInitialCheckIn) return;
+
+    let cancelled = false;
+    const params = new URLSearchParams({
+      from: previousZoneId,
+      to: crewZoneId,
+      city: getCurrentCity().id,
+      ...(mobility.length > 0 && { mobility: mobility.join(',') })
+    });
+    fetch(`/api/directions?${params}`)
+      .then(response => response.json())
+      .then(data => {
+        if (!cancelled && data.success) {
+          setRoute({ route: data.route, departedAt: new Date(), accessible: data.accessible !== false });
+        }
+      })
+      .catch(error => console.error('Directions failed:', error));
+
+    return () => {
+      cancelled = true;
+    };
+  }, [crewZoneId, previousZoneId, isInitialCheckIn, mobility]);
 
   // Check if it's time to move
   useEffect(() => {
-    if (!crew) return;
+    const nextRotation = crew?.nextRotation;
+    if (!nextRotation) return;
     
     const checkTime = () => {
       const now = new Date();
-      const target = new Date(crew.nextRotation);
+      const target = new Date(nextRotation);
       const diff = target.getTime() - now.getTime();
       const wasTimeToMove = isTimeToMove;
       const nowTimeToMove = diff <= 0;
@@ -106,7 +319,7 @@ export default function CrewAssignment() {
       
       // If timer just hit zero, automatically check for new zone
       if (!wasTimeToMove && nowTimeToMove) {
-        checkUpdates();
+        checkUpdatesRef.current();
       }
     };
     
@@ -145,23 +358,29 @@ export default function CrewAssignment() {
       const params = new URLSearchParams({
         ...(zoneParam && { zone: nearestZoneStr ? JSON.parse(nearestZoneStr).id : '' }),
         lat: lat.toString(),
-        lng: lng.toString()
+        lng: lng.toString(),
+        city: getCurrentCity().id,
+        ...(mobility.length > 0 && { mobility: mobility.join(',') })
       });
       
       const response = await fetch(`/api/crew?${params}`);
       const data = await response.json();
       
       if (!response.ok || !data.success) {
-        throw new Error(data.error || 'Failed to join crew');
+        throw new Error(data.error || t('crew.joinFailed'));
       }
       
       if (data.crew) {
-        setCrew(data.crew);
+        // Count this device in the crew and show the real size
+        const joined = await joinCrewPresence(data.crew);
+        const joinedCrew = joined ? { ...data.crew, ...joined } : data.crew;
+        
+        setCrew(joinedCrew);
         setHasJoined(true);
         
         // Save to localStorage for persistence
         localStorage.setItem('overwhelm-crew', JSON.stringify({
-          crew: data.crew,
+          crew: joinedCrew,
           timestamp: Date.now(),
         }));
       }
@@ -170,11 +389,11 @@ export default function CrewAssignment() {
       
       // Handle location errors
       if (error.name === 'GeolocationPositionError' || error.code === 1) {
-        alert('Location access required. Please enable location services and try again.');
+        alert(t('crew.locationRequired'));
       } else if (error.message) {
         alert(error.message);
       } else {
-        alert('Unable to join crew. Please ensure you are near a protest zone.');
+        alert(t('crew.joinFailed'));
       }
       
       // Do NOT show fallback crew - security requirement
@@ -185,6 +404,9 @@ export default function CrewAssignment() {
   }
 
   function leaveCrew() {
+    leaveCrewPresence();
+    clearPushTopics();
+    setNotice(null);
     setCrew(null);
     setHasJoined(false);
     localStorage.removeItem('overwhelm-crew');
@@ -196,6 +418,18 @@ export default function CrewAssignment() {
     return String.fromCharCode(65 + (id - 1)); // A, B, C, etc.
   };
 
+  // Maps link to the zone's center, or its name in this city until zones have loaded
+  const getZoneMapsUrl = (zoneId: string, zoneName: string) => {
+    const zone = zones.find(z => z.id.toString() === zoneId);
+    const query = zone
+      ? `${zone.center_lat},${zone.center_lng}`
+      : `${zoneName.split('(')[0].trim()}, ${getCurrentCity().name}`;
+    return `https://www.google.com/maps/search/?api=1&query=${encodeURIComponent(query)}`;
+  };
+
+  // Sent as reason codes so it shows in the current language
+  const rotationReason = describeRotationReason(crew?.rotationReason, t);
+
   if (!hasJoined) {
     return (
       <div className="text-center">
@@ -204,11 +438,30 @@ export default function CrewAssignment() {
           disabled={isLoading}
           className="btn"
         >
-          {isLoading ? 'Finding nearest crew...' : 'Join a crew'}
+          {isLoading ? t('crew.finding') : t('crew.join')}
         </button>
         
+        <fieldset className="mt-6 text-left inline-block">
+          <legend className="text-xs text-muted uppercase tracking-wider mb-2">
+            {t('crew.mobility.legend')}
+          </legend>
+          {(Object.keys(MOBILITY_NEEDS) as MobilityNeed[]).map(need => (
+            <label key={need} className="flex items-center gap-2 text-sm">
+              <input
+                type="checkbox"
+                checked={mobility.includes(need)}
+                onChange={() => toggleMobilityNeed(need)}
+              />
+              {t(`mobility.${need}`)}
+            </label>
+          ))}
+          <p className="text-xs text-muted mt-1">
+            {t('crew.mobility.hint')}
+          </p>
+        </fieldset>
+        
         <p className="mt-4 text-sm text-muted">
-          No login required • No personal data stored
+          {t('crew.noLogin')}
         </p>
       </div>
     );
@@ -216,67 +469,131 @@ export default function CrewAssignment() {
 
   return (
     <div className="border-2 border-minimal-border">
+      {evacuation && (
+        <EvacuationAlert order={evacuation} onAcknowledge={() => setEvacuation(null)} />
+      )}
+      {notice && (
+        <div role="alert" className="p-4 bg-red-50 border-b border-minimal-border text-center">
+          <p className="font-bold">
+            {notice.type === 'alert'
+              ? t('crew.safetyAlert', { zone: notice.zoneName })
+              : t(notice.active ? 'crew.zoneReopened' : 'crew.zoneClosed')}
+          </p>
+          <p className="text-sm">
+            {notice.type === 'alert'
+              ? describeZoneAlert(notice.reason, t)
+              : t(notice.active ? 'crew.zoneReopenedText' : 'crew.zoneClosedText', { zone: notice.zoneName })}
+          </p>
+          <button onClick={() => setNotice(null)} className="text-xs text-muted underline mt-2">
+            {t('crew.dismiss')}
+          </button>
+        </div>
+      )}
       {crew && (
         <>
           {/* Header */}
           <div className="p-4 bg-gray-50 border-b border-minimal-border">
             <div className="text-center">
-              <p className="text-sm text-muted uppercase tracking-wider">Your Assignment</p>
-              <h3 className="text-xl font-bold">{crew.crewName}</h3>
-              <p className="text-sm text-muted">{crew.estimatedSize} participants</p>
+              <p className="text-sm text-muted uppercase tracking-wider">{t('crew.yourAssignment')}</p>
+              <h3 className="text-xl font-bold">{t('common.crewName', { number: crew.crewId })}</h3>
+              <p className="text-sm text-muted">{t('crew.participants', { count: crew.estimatedSize })}</p>
             </div>
           </div>
 
+          {crew.accessible === false && (
+            <div role="status" className="p-3 bg-yellow-50 border-b border-minimal-border text-center text-sm">
+              {t('crew.notAccessible')}
+            </div>
+          )}
+
           {/* Zone Display - Different for initial check-in vs active */}
           {isInitialCheckIn ? (
             <div className="p-6 bg-green-50 text-center">
-              <p className="text-xs text-muted uppercase tracking-wider mb-1">GO TO</p>
-              <p className="text-5xl font-bold mb-2">ZONE {getZoneLetter(crew.zoneId)}</p>
+              <p className="text-xs text-muted uppercase tracking-wider mb-1">{t('common.goTo')}</p>
+              <p className="text-5xl font-bold mb-2">{t('common.zone', { letter: getZoneLetter(crew.zoneId) })}</p>
               <a 
-                href={`https://www.google.com/maps/search/${encodeURIComponent(crew.zoneName.split('(')[0].trim())},+Los+Angeles,+CA`}
+                href={getZoneMapsUrl(crew.zoneId, crew.zoneName)}
                 target="_blank"
                 rel="noopener noreferrer"
                 className="text-lg font-semibold mb-3 text-minimal-focus hover:underline block"
               >
                 {crew.zoneName}
               </a>
-              <p className="text-sm text-muted">Join your crew at this location</p>
+              <p className="text-sm text-muted">{t('crew.joinHere')}</p>
             </div>
           ) : (
             <div className={`p-6 text-center ${isTimeToMove ? 'bg-red-50' : 'bg-orange-50'}`}>
               <p className="text-xs text-muted uppercase tracking-wider mb-1">
-                {isTimeToMove ? 'TIME TO MOVE TO NEW ZONE' : 'YOUR CURRENT ZONE'}
+                {isTimeToMove ? t('crew.timeToMove') : t('crew.currentZone')}
               </p>
-              <p className="text-5xl font-bold mb-2">ZONE {getZoneLetter(crew.zoneId)}</p>
+              <p className="text-5xl font-bold mb-2">{t('common.zone', { letter: getZoneLetter(crew.zoneId) })}</p>
               <a 
-                href={`https://www.google.com/maps/search/${encodeURIComponent(crew.zoneName.split('(')[0].trim())},+Los+Angeles,+CA`}
+                href={getZoneMapsUrl(crew.zoneId, crew.zoneName)}
                 target="_blank"
                 rel="noopener noreferrer"
                 className="text-lg font-semibold text-minimal-focus hover:underline block"
               >
                 {crew.zoneName}
               </a>
-              {isTimeToMove && (
+              {!isTimeToMove && crew.walkTime ? (
+                <p className="text-sm text-muted mt-2">
+                  {formatWalkingTime(crew.walkTime, format)}{rotationReason && ` • ${rotationReason}`}
+                </p>
+              ) : null}
+              {isTimeToMove && !isOnline && (
+                <p className="text-sm text-muted mt-4">
+                  {t('crew.offline')}
+                </p>
+              )}
+              {isTimeToMove && isOnline && (
                 <button
                   onClick={checkUpdates}
                   className="mt-4 px-4 py-2 bg-red-600 text-white font-semibold rounded hover:bg-red-700"
                 >
-                  Get New Zone Assignment
+                  {t('crew.getNewZone')}
                 </button>
               )}
             </div>
           )}
 
+          {/* Directions */}
+          {route && !isTimeToMove && (
+            <WalkingDirections
+              route={route.route}
+              departedAt={route.departedAt}
+              nextRotation={crew.nextRotation}
+              accessible={route.accessible}
+            />
+          )}
+
+          {/* Map */}
+          {zones.length > 0 && (
+            <ZoneMap
+              zones={zones}
+              assignedZoneId={parseInt(crew.zoneId)}
+              fromZoneId={!isInitialCheckIn && crew.previousZoneId ? parseInt(crew.previousZoneId) : null}
+              route={route?.route.polyline}
+              title={t('crew.mapTitle')}
+            />
+          )}
+
           {/* Timer */}
           <div className="p-4 bg-gray-100 text-center border-t border-b border-minimal-border">
             <p className="text-xs text-muted uppercase tracking-wider mb-1">
-              {isInitialCheckIn ? 'Crew moves in' : isTimeToMove ? 'Movement in Progress' : 'Time Until Next Movement'}
+              {isInitialCheckIn
+                ? t('crew.movesIn')
+                : isTimeToMove && isOnline ? t('crew.movementInProgress') : t('crew.timeUntilMove')}
             </p>
             <div className="text-2xl font-bold font-mono">
-              <CountdownToRotation nextRotation={crew.nextRotation} />
+              {/* Offline, the countdown moves on to the next scheduled slot */}
+              <CountdownToRotation
+                nextRotation={isOnline ? crew.nextRotation : getOfflineNextRotation(crew.nextRotation, getCurrentCity().id)}
+              />
             </div>
             <p className="text-xs text-muted mt-1">
-              {isInitialCheckIn ? 'Join before movement or wait for next cycle' : 'Crews move to new zones every 30 minutes'}
+              {isInitialCheckIn
+                ? t('crew.joinBeforeMove')
+                : t('crew.rotationInterval', { minutes: getRotationSchedule(getCurrentCity().id).intervalMinutes })}
             </p>
           </div>
 
@@ -288,22 +605,25 @@ export default function CrewAssignment() {
                   onClick={() => setIsInitialCheckIn(false)}
                   className="btn w-full mb-3"
                 >
-                  I&apos;m with my crew
+                  {t('common.withCrew')}
                 </button>
                 <button
                   onClick={leaveCrew}
                   className="text-sm text-muted underline w-full"
                 >
-                  Cancel
+                  {t('crew.cancel')}
                 </button>
               </>
             ) : (
-              <button
-                onClick={leaveCrew}
-                className="text-sm text-muted underline w-full"
-              >
-                Leave crew
-              </button>
+              <>
+                <IncidentReport zoneId={crew.zoneId} />
+                <button
+                  onClick={leaveCrew}
+                  className="text-sm text-muted underline w-full"
+                >
+                  {t('crew.leave')}
+                </button>
+              </>
             )}
           </div>
         </>
@@ -312,26 +632,68 @@ export default function CrewAssignment() {
   );
 }
 
-function CountdownToRotation({ nextRotation }: { nextRotation: string }) {
-  const [timeLeft, setTimeLeft] = useState('Loading...');
+function WalkingDirections({ route, departedAt, nextRotation, accessible }: {
+  route: WalkingRoute;
+  departedAt: Date;
+  nextRotation: string | null;
+  accessible: boolean; // False when no step-free route was found for the user's mobility needs
+}) {
+  const { format, t } = useLocale();
+  const eta = getRouteEta(route, departedAt);
+  // Same clock as the countdown: how long the crew holds the new zone before moving again
+  const holdMinutes = nextRotation ? Math.floor((new Date(nextRotation).getTime() - eta.getTime()) / 60000) : null;
+
+  return (
+    <div className="p-4 border-t border-minimal-border">
+      <p className="text-xs text-muted uppercase tracking-wider mb-2">{t('directions.title')}</p>
+      <ol className="space-y-1 text-sm">
+        {route.steps.map((step, index) => (
+          <li key={step.zoneId} className="flex justify-between gap-3">
+            <span>
+              {index + 1}. {t(index === route.steps.length - 1 ? 'directions.lastStep' : 'directions.step', {
+                direction: t(`direction.${step.direction}` as MessageKey),
+                zone: step.zoneName
+              })}
+            </span>
+            <span className="text-muted whitespace-nowrap">{formatMinutes(step.walkMinutes, format)}</span>
+          </li>
+        ))}
+      </ol>
+      <p className="text-sm mt-2">
+        {t('directions.arrive', { time: formatClockTime(eta, format) })}
+        {holdMinutes !== null && holdMinutes > 0 && ` • ${t('directions.holdTime', { time: formatMinutes(holdMinutes, format) })}`}
+      </p>
+      {route.avoidedZoneIds.length > 0 && (
+        <p className="text-xs text-muted mt-1">{t('directions.avoids')}</p>
+      )}
+      {!accessible && (
+        <p className="text-xs text-muted mt-1">{t('directions.notStepFree')}</p>
+      )}
+    </div>
+  );
+}
+
+function CountdownToRotation({ nextRotation }: { nextRotation: string | null }) {
+  const { t } = useLocale();
+  // A countdown like 12:34, or a message while there is none
+  const [timeLeft, setTimeLeft] = useState<string | null>(null);
+  const [status, setStatus] = useState<MessageKey>('crew.loading');
   const [isTimeUp, setIsTimeUp] = useState(false);
 
   useEffect(() => {
+    if (!nextRotation) {
+      setTimeLeft(null);
+      setStatus('crew.holding');
+      setIsTimeUp(false);
+      return;
+    }
+
     // Calculate immediately on mount
     const updateTimer = () => {
-      const now = new Date();
-      const target = new Date(nextRotation);
-      const diff = target.getTime() - now.getTime();
-
-      if (diff <= 0) {
-        setTimeLeft('TIME TO MOVE!');
-        setIsTimeUp(true);
-      } else {
-        const minutes = Math.floor(diff / 60000);
-        const seconds = Math.floor((diff % 60000) / 1000);
-        setTimeLeft(`${minutes}:${seconds.toString().padStart(2, '0')}`);
-        setIsTimeUp(false);
-      }
+      const countdown = formatCountdown(nextRotation);
+      setTimeLeft(countdown);
+      setIsTimeUp(!countdown);
+      if (!countdown) setStatus('crew.moveNow');
     };
 
     // Update immediately
@@ -345,7 +707,7 @@ function CountdownToRotation({ nextRotation }: { nextRotation: string }) {
 
   return (
     <span className={isTimeUp ? 'text-danger animate-pulse' : ''}>
-      {timeLeft}
+      {timeLeft ?? t(status)}
     </span>
   );
 }
\ No newline at end of file
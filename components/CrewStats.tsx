@@ -1,6 +1,8 @@
 'use client';
 
 import { motion } from 'framer-motion';
+import { formatNumber, type FormatContext } from '@/lib/i18n/format';
+import { useLocale } from '@/lib/i18n/use-locale';
 
 interface StatsProps {
   stats: {
@@ -12,19 +14,20 @@ interface StatsProps {
 }
 
 export default function CrewStats({ stats, isLoading }: StatsProps) {
+  const { format, t } = useLocale();
   const statItems = [
     {
-      label: 'CREWS',
+      label: t('stats.crews'),
       value: stats.totalCrews,
       color: 'text-protest-red',
     },
     {
-      label: 'TOTAL',
+      label: t('stats.total'),
       value: stats.totalProtesters,
       color: 'text-protest-yellow',
     },
     {
-      label: 'ZONES',
+      label: t('stats.zones'),
       value: stats.activeZones,
       color: 'text-white',
     },
@@ -48,7 +51,7 @@ export default function CrewStats({ stats, isLoading }: StatsProps) {
               {isLoading ? (
                 <span className="inline-block animate-pulse">---</span>
               ) : (
-                <AnimatedNumber value={stat.value} />
+                <AnimatedNumber value={stat.value} format={format} />
               )}
             </div>
             <div className="text-sm uppercase tracking-wider text-gray-400">
@@ -64,7 +67,7 @@ export default function CrewStats({ stats, isLoading }: StatsProps) {
               transition={{ delay: 0.5 }}
               className="absolute -bottom-1 -right-1 bg-protest-yellow text-black text-xs font-bold px-2 py-1 rotate-3"
             >
-              GROWING FAST!
+              {t('stats.growing')}
             </motion.div>
           )}
         </motion.div>
@@ -73,7 +76,7 @@ export default function CrewStats({ stats, isLoading }: StatsProps) {
   );
 }
 
-function AnimatedNumber({ value }: { value: number }) {
+function AnimatedNumber({ value, format }: { value: number; format: FormatContext }) {
   return (
     <motion.span
       key={value}
@@ -82,7 +85,7 @@ function AnimatedNumber({ value }: { value: number }) {
       transition={{ duration: 0.5 }}
       className="inline-block"
     >
-      {value.toLocaleString()}
+      {formatNumber(value, format)}
     </motion.span>
   );
 }
\ No newline at end of file
@@ -0,0 +1,61 @@
+'use client';
+
+import { useEffect } from 'react';
+import { getCurrentCity } from '@/lib/config/cities';
+import { formatWalkingTime } from '@/lib/i18n/format';
+import type { MessageKey } from '@/lib/i18n/locale';
+import { useLocale } from '@/lib/i18n/use-locale';
+import type { EvacuationOrder } from '@/lib/services/evacuation';
+
+/**
+ * Full-screen evacuation order - covers everything until acknowledged
+ */
+export default function EvacuationAlert({
+  order,
+  onAcknowledge,
+}: {
+  order: EvacuationOrder;
+  onAcknowledge: () => void;
+}) {
+  const { format, t } = useLocale();
+
+  // Buzz so people notice with the phone in a pocket
+  useEffect(() => {
+    if ('vibrate' in navigator) {
+      navigator.vibrate([400, 200, 400, 200, 400]);
+    }
+  }, [order.issuedAt]);
+
+  const placeName = order.toZoneName.split('(')[0].trim();
+
+  return (
+    <div
+      role="alertdialog"
+      aria-labelledby="evacuation-title"
+      className="fixed inset-0 z-50 flex flex-col justify-center bg-red-700 text-white p-6 text-center"
+    >
+      <p id="evacuation-title" className="text-4xl font-bold mb-2 animate-pulse">{t('evacuate.title')}</p>
+      <p className="mb-6">{t('evacuate.leave', { zone: order.fromZoneName })}</p>
+
+      <p className="text-xs uppercase tracking-wider mb-1">
+        {order.direction
+          ? t('evacuate.go', { direction: t(`direction.${order.direction}` as MessageKey) })
+          : t('evacuate.goTo')}
+      </p>
+      <p className="text-3xl font-bold mb-2">{order.toZoneName}</p>
+      <p className="text-lg mb-8">{formatWalkingTime(order.walkTime, format)}</p>
+
+      <a
+        href={`https://www.google.com/maps/dir/?api=1&travelmode=walking&destination=${encodeURIComponent(`${placeName}, ${getCurrentCity().name}`)}`}
+        target="_blank"
+        rel="noopener noreferrer"
+        className="btn w-full mb-3 text-white"
+      >
+        {t('evacuate.directions')}
+      </a>
+      <button onClick={onAcknowledge} className="text-white underline">
+        {t('evacuate.moving')}
+      </button>
+    </div>
+  );
+}
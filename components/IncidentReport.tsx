@@ -0,0 +1,96 @@
+'use client';
+
+import { useState } from 'react';
+import { REPORT_CATEGORIES, ReportCategory } from '@/lib/config/reports';
+import type { MessageKey } from '@/lib/i18n/locale';
+import { useLocale } from '@/lib/i18n/use-locale';
+import { getSessionId } from '@/lib/services/presence';
+
+/**
+ * Anonymous incident report from inside the crew's zone
+ * Only counts once several people report the same thing
+ */
+export default function IncidentReport({ zoneId }: { zoneId: string }) {
+  const { t } = useLocale();
+  const [isOpen, setIsOpen] = useState(false);
+  const [isSending, setIsSending] = useState(false);
+  const [status, setStatus] = useState<string | null>(null);
+
+  async function sendReport(category: ReportCategory) {
+    if (isSending) return;
+    setIsSending(true);
+    setStatus(null);
+
+    try {
+      const position = await new Promise<GeolocationPosition>((resolve, reject) => {
+        navigator.geolocation.getCurrentPosition(resolve, reject, {
+          enableHighAccuracy: true,
+          timeout: 10000,
+          maximumAge: 30000
+        });
+      });
+
+      const response = await fetch('/api/reports', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          sessionId: getSessionId(),
+          zoneId,
+          category,
+          lat: position.coords.latitude,
+          lng: position.coords.longitude,
+        }),
+      });
+      const data = await response.json();
+
+      if (!data.success) {
+        setStatus(
+          response.status === 403 ? t(data.reason === 'not-present' ? 'report.notPresent' : 'report.outsideZone') :
+          response.status === 429 ? t('report.tooMany') :
+          t('report.failed')
+        );
+      } else if (data.queued) {
+        setStatus(t('report.queued'));
+        setIsOpen(false);
+      } else if (data.escalated || data.reporters >= data.needed) {
+        setStatus(t('report.confirmed'));
+        setIsOpen(false);
+      } else {
+        setStatus(t('report.received', { reporters: data.reporters, needed: data.needed }));
+        setIsOpen(false);
+      }
+    } catch (error: any) {
+      console.error('Incident report failed:', error);
+      setStatus(error?.code === 1 ? t('report.locationRequired') : t('report.failed'));
+    } finally {
+      setIsSending(false);
+    }
+  }
+
+  return (
+    <div className="mb-3">
+      {isOpen ? (
+        <div className="grid grid-cols-1 gap-2">
+          {(Object.keys(REPORT_CATEGORIES) as ReportCategory[]).map(category => (
+            <button
+              key={category}
+              onClick={() => sendReport(category)}
+              disabled={isSending}
+              className="btn-secondary w-full"
+            >
+              {t(`report.category.${category}` as MessageKey)}
+            </button>
+          ))}
+          <button onClick={() => setIsOpen(false)} className="text-sm text-muted underline">
+            {t('report.cancel')}
+          </button>
+        </div>
+      ) : (
+        <button onClick={() => setIsOpen(true)} className="btn-secondary w-full">
+          {t('report.open')}
+        </button>
+      )}
+      {status && <p className="text-sm text-muted mt-2 text-center">{status}</p>}
+    </div>
+  );
+}
@@ -0,0 +1,34 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { getCurrentCity, getDeploymentCity } from '@/lib/config/cities';
+import { LOCALES, getCityLocales, type Locale } from '@/lib/i18n/locale';
+import { useLocale } from '@/lib/i18n/use-locale';
+
+interface LanguageSwitcherProps {
+  className?: string;
+}
+
+export default function LanguageSwitcher({ className = '' }: LanguageSwitcherProps) {
+  const { locale, t, setLocale } = useLocale();
+  const [options, setOptions] = useState(getCityLocales(getDeploymentCity()));
+
+  useEffect(() => {
+    setOptions(getCityLocales(getCurrentCity()));
+  }, []);
+
+  return (
+    <select
+      value={locale}
+      onChange={(e) => setLocale(e.target.value as Locale)}
+      aria-label={t('common.language')}
+      className={`border border-minimal-border bg-white px-2 py-1 text-sm ${className}`}
+    >
+      {options.map(option => (
+        <option key={option} value={option} lang={option}>
+          {LOCALES[option].name}
+        </option>
+      ))}
+    </select>
+  );
+}
@@ -3,7 +3,13 @@
 import { useState, useEffect } from 'react';
 import { motion } from 'framer-motion';
 import Image from 'next/image';
-import { checkIfNearProtest, formatDistance, estimateWalkingTime } from '@/lib/services/geofence';
+import { checkIfNearProtest } from '@/lib/services/geofence';
+import { joinCrewPresence } from '@/lib/services/presence';
+import { getRotationSchedule } from '@/lib/services/rotation-schedule';
+import { getCurrentCity } from '@/lib/config/cities';
+import { estimateWalkingTime, formatDistance } from '@/lib/i18n/format';
+import { useLocale } from '@/lib/i18n/use-locale';
+import LanguageSwitcher from './LanguageSwitcher';
 
 interface LocationGateProps {
   children: React.ReactNode;
@@ -21,6 +27,7 @@ export default function LocationGate({ children, onLocationChecked }: LocationGa
   } | null>(null);
   const [crew, setCrew] = useState<any>(null);
   const [crewError, setCrewError] = useState<string | null>(null);
+  const { locale, format, t } = useLocale();
 
   useEffect(() => {
     // Check if user has verified location this session
@@ -35,7 +42,7 @@ export default function LocationGate({ children, onLocationChecked }: LocationGa
     setIsChecking(true);
     
     try {
-      const result = await checkIfNearProtest();
+      const result = await checkIfNearProtest(getCurrentCity(), locale);
       setCheckResult(result);
       setIsAllowed(result.allowed);
       
@@ -56,25 +63,30 @@ export default function LocationGate({ children, onLocationChecked }: LocationGa
           const params = new URLSearchParams({
             zone: result.nearestZone.id.toString(),
             lat: position.coords.latitude.toString(),
-            lng: position.coords.longitude.toString()
+            lng: position.coords.longitude.toString(),
+            city: getCurrentCity().id
           });
           
           const crewResponse = await fetch(`/api/crew?${params}`);
           const crewData = await crewResponse.json();
           
           if (crewData.success && crewData.crew) {
-            setCrew(crewData.crew);
+            // Count this device in the crew and show the real size
+            const joined = await joinCrewPresence(crewData.crew);
+            const joinedCrew = joined ? { ...crewData.crew, ...joined } : crewData.crew;
+            
+            setCrew(joinedCrew);
             // Store crew assignment
             localStorage.setItem('overwhelm-crew', JSON.stringify({
-              crew: crewData.crew,
+              crew: joinedCrew,
               timestamp: Date.now(),
             }));
           } else {
-            setCrewError(crewData.error || 'Failed to assign crew');
+            setCrewError(crewData.error || t('gate.assignFailed'));
           }
         } catch (error) {
           console.error('Crew assignment error:', error);
-          setCrewError('Unable to assign crew. Please try again.');
+          setCrewError(t('gate.assignError'));
         }
       }
       
@@ -88,7 +100,7 @@ export default function LocationGate({ children, onLocationChecked }: LocationGa
       setIsAllowed(false);
       setCheckResult({
         allowed: false,
-        reason: 'Location check failed. Please try again.'
+        reason: t('gate.checkFailed')
       });
     } finally {
       setIsChecking(false);
@@ -97,16 +109,16 @@ export default function LocationGate({ children, onLocationChecked }: LocationGa
 
   // No bypass allowed - security requirement
 
-  const walkingRadius = parseFloat(process.env.NEXT_PUBLIC_WALKING_RADIUS_KM || '4.8');
+  const walkingRadius = getCurrentCity().walkingRadiusKm;
 
   // Show initial state or checking
   if (isChecking) {
     return (
       <div className="min-h-screen bg-white flex items-center justify-center p-4">
         <div className="text-center">
-          <p className="text-lg mb-2">Checking location...</p>
+          <p className="text-lg mb-2">{t('gate.checking')}</p>
           <p className="text-sm text-muted">
-            Please wait while we verify your location
+            {t('gate.checkingHint')}
           </p>
         </div>
       </div>
@@ -118,35 +130,38 @@ export default function LocationGate({ children, onLocationChecked }: LocationGa
     return (
       <div className="min-h-screen bg-white flex items-center justify-center p-4">
         <div className="max-w-md w-full border border-minimal-border p-8 text-center">
+          <div className="flex justify-end mb-2">
+            <LanguageSwitcher />
+          </div>
           <Image 
             src="/fist.png" 
-            alt="Solidarity" 
+            alt={t('common.solidarity')} 
             width={48} 
             height={72}
             className="mx-auto mb-6 opacity-80"
           />
           <h2 className="text-xl font-semibold mb-4">
-            Location Verification Required
+            {t('gate.title')}
           </h2>
           
           <div className="text-left mb-6 space-y-3">
-            <p className="text-sm font-semibold">Why Use Overwhelm?</p>
+            <p className="text-sm font-semibold">{t('gate.why')}</p>
             <ul className="space-y-2 text-sm text-muted">
               <li className="flex items-start">
                 <span className="mr-2">→</span>
-                <span><strong>Stay Together:</strong> Groups protesters into crews for maximum impact, protestor safety, and movement coordination.</span>
+                <span><strong>{t('gate.together.title')}</strong> {t('gate.together.text')}</span>
               </li>
               <li className="flex items-start">
                 <span className="mr-2">→</span>
-                <span><strong>Move Safely:</strong> Coordinates movement of crews to avoid danger, and amplify the impact of the movement.</span>
+                <span><strong>{t('gate.safely.title')}</strong> {t('gate.safely.text')}</span>
               </li>
               <li className="flex items-start">
                 <span className="mr-2">→</span>
-                <span><strong>Fill the Streets:</strong> Distributes crowds across zones to create a unified, visible movement.</span>
+                <span><strong>{t('gate.streets.title')}</strong> {t('gate.streets.text')}</span>
               </li>
               <li className="flex items-start">
                 <span className="mr-2">→</span>
-                <span><strong>Stay Anonymous:</strong> No sign-ups, no tracking, no data stored, no bullshit. Fuck big tech.</span>
+                <span><strong>{t('gate.anonymous.title')}</strong> {t('gate.anonymous.text')}</span>
               </li>
             </ul>
           </div>
@@ -154,10 +169,10 @@ export default function LocationGate({ children, onLocationChecked }: LocationGa
             onClick={performLocationCheck}
             className="btn"
           >
-            Verify My Location
+            {t('gate.verify')}
           </button>
           <p className="text-xs text-muted mt-4">
-            Your location is only used for zone assignment and is never stored. You will be asked to verify location every time you check in to a protest. This keeps access limited to our people on the ground.
+            {t('gate.privacy')}
           </p>
         </div>
       </div>
@@ -170,7 +185,7 @@ export default function LocationGate({ children, onLocationChecked }: LocationGa
       <div className="min-h-screen bg-white flex items-center justify-center p-4">
         <div className="max-w-md w-full border border-minimal-border p-8 text-center">
           <h2 className="text-xl font-semibold mb-4">
-            Location Verification Required - Never stored.
+            {t('gate.blockedTitle')}
           </h2>
           
           <p className="mb-6">
@@ -179,27 +194,27 @@ export default function LocationGate({ children, onLocationChecked }: LocationGa
           
           <div className="bg-minimal-border p-4 mb-6">
             <p className="text-sm text-muted mb-2">
-              You must be within walking distance
+              {t('gate.mustBeWithin')}
             </p>
             <p className="font-semibold">
-              {formatDistance(walkingRadius)} radius
+              {t('gate.radius', { distance: formatDistance(walkingRadius, format) })}
             </p>
             {checkResult.distance && (
               <p className="text-sm text-muted mt-2">
-                You are {estimateWalkingTime(checkResult.distance)} away
+                {t('gate.youAreAway', { time: estimateWalkingTime(checkResult.distance, format) })}
               </p>
             )}
           </div>
           
           <p className="text-sm text-muted mb-6">
-            This is an open source tool.{' '}
+            {t('gate.openSource')}{' '}
             <a 
               href="https://github.com/overwhelmcity/overwhelm" 
               className="text-minimal-focus"
               target="_blank"
               rel="noopener noreferrer"
             >
-              Deploy for your city
+              {t('gate.deploy')}
             </a>
           </p>
           
@@ -207,7 +222,7 @@ export default function LocationGate({ children, onLocationChecked }: LocationGa
             onClick={performLocationCheck}
             className="btn"
           >
-            Try Again
+            {t('common.tryAgain')}
           </button>
         </div>
       </div>
@@ -225,22 +240,22 @@ export default function LocationGate({ children, onLocationChecked }: LocationGa
         >
           <Image 
             src="/fist.png" 
-            alt="Solidarity" 
+            alt={t('common.solidarity')} 
             width={48} 
             height={72}
             className="mx-auto mb-4"
           />
-          <h2 className="text-xl font-semibold mb-4">Welcome to the Movement</h2>
+          <h2 className="text-xl font-semibold mb-4">{t('gate.welcome')}</h2>
           
           <div className="p-6 bg-green-50 mb-6">
-            <p className="text-xs text-muted uppercase tracking-wider mb-1">GO TO</p>
-            <p className="text-5xl font-bold mb-2">ZONE {String.fromCharCode(65 + (parseInt(crew.zoneId) - 1))}</p>
+            <p className="text-xs text-muted uppercase tracking-wider mb-1">{t('common.goTo')}</p>
+            <p className="text-5xl font-bold mb-2">{t('common.zone', { letter: String.fromCharCode(65 + (parseInt(crew.zoneId) - 1)) })}</p>
             <p className="text-lg font-semibold mb-3">{crew.zoneName}</p>
-            <p className="text-sm text-muted">Join {crew.crewName} at this location</p>
+            <p className="text-sm text-muted">{t('gate.joinCrewHere', { crew: t('common.crewName', { number: crew.crewId }) })}</p>
           </div>
           
           <p className="text-sm text-muted mb-6">
-            {crew.estimatedSize} people in your crew
+            {t('gate.crewSize', { count: crew.estimatedSize })}
           </p>
           
           <button
@@ -251,11 +266,11 @@ export default function LocationGate({ children, onLocationChecked }: LocationGa
             }}
             className="btn w-full"
           >
-            I&apos;m with my crew
+            {t('common.withCrew')}
           </button>
           
           <p className="text-xs text-muted mt-4">
-            Crew rotations happen every 30 minutes
+            {t('gate.rotationInterval', { minutes: getRotationSchedule(getCurrentCity().id).intervalMinutes })}
           </p>
         </motion.div>
       </div>
@@ -268,14 +283,14 @@ export default function LocationGate({ children, onLocationChecked }: LocationGa
       <div className="min-h-screen bg-white flex items-center justify-center p-4">
         <div className="max-w-md w-full border border-red-200 bg-red-50 p-8 text-center">
           <h2 className="text-xl font-semibold mb-4 text-red-900">
-            Crew Assignment Failed
+            {t('gate.assignFailedTitle')}
           </h2>
           <p className="text-red-700 mb-6">{crewError}</p>
           <button
             onClick={() => window.location.reload()}
             className="btn"
           >
-            Try Again
+            {t('common.tryAgain')}
           </button>
         </div>
       </div>
@@ -291,9 +306,9 @@ export default function LocationGate({ children, onLocationChecked }: LocationGa
   return (
     <div className="min-h-screen bg-white flex items-center justify-center p-4">
       <div className="text-center">
-        <p className="text-lg mb-2">Assigning crew...</p>
+        <p className="text-lg mb-2">{t('gate.assigning')}</p>
         <p className="text-sm text-muted">
-          Finding the best crew for your location
+          {t('gate.assigningHint')}
         </p>
       </div>
     </div>
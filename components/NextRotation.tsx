@@ -2,6 +2,8 @@
 
 import { useEffect, useState } from 'react';
 import { motion } from 'framer-motion';
+import { formatCountdown } from '@/lib/i18n/format';
+import { useLocale } from '@/lib/i18n/use-locale';
 
 interface NextRotationProps {
   nextRotation: string;
@@ -10,23 +12,22 @@ interface NextRotationProps {
 export default function NextRotation({ nextRotation }: NextRotationProps) {
   const [timeLeft, setTimeLeft] = useState('');
   const [isUrgent, setIsUrgent] = useState(false);
+  const [isRotating, setIsRotating] = useState(false);
+  const { t } = useLocale();
 
   useEffect(() => {
     const timer = setInterval(() => {
-      const now = new Date();
-      const target = new Date(nextRotation);
-      const diff = target.getTime() - now.getTime();
+      const countdown = formatCountdown(nextRotation);
 
-      if (diff <= 0) {
-        setTimeLeft('ROTATING NOW!');
+      if (!countdown) {
+        setIsRotating(true);
         setIsUrgent(true);
         // Auto-refresh after 5 seconds
         setTimeout(() => window.location.reload(), 5000);
       } else {
-        const minutes = Math.floor(diff / 60000);
-        const seconds = Math.floor((diff % 60000) / 1000);
-        setTimeLeft(`${minutes}:${seconds.toString().padStart(2, '0')}`);
-        setIsUrgent(minutes < 5);
+        setTimeLeft(countdown);
+        setIsRotating(false);
+        setIsUrgent(new Date(nextRotation).getTime() - Date.now() < 5 * 60 * 1000);
       }
     }, 1000);
 
@@ -42,12 +43,12 @@ export default function NextRotation({ nextRotation }: NextRotationProps) {
       }`}
     >
       <p className="text-sm uppercase tracking-wider mb-2 text-gray-400">
-        Next Crew Movement In
+        {t('rotation.nextIn')}
       </p>
       <div className={`text-5xl md:text-6xl font-protest ${
         isUrgent ? 'text-protest-red animate-pulse' : 'text-white'
       }`}>
-        {timeLeft}
+        {isRotating ? t('rotation.now') : timeLeft}
       </div>
       {isUrgent && (
         <motion.p
@@ -55,7 +56,7 @@ export default function NextRotation({ nextRotation }: NextRotationProps) {
           animate={{ opacity: 1 }}
           className="mt-4 text-protest-yellow uppercase tracking-wider"
         >
-          Get ready to move!
+          {t('rotation.getReady')}
         </motion.p>
       )}
     </motion.div>
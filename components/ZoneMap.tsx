@@ -2,12 +2,28 @@
 
 import { useEffect, useRef, useState } from 'react';
 import { motion } from 'framer-motion';
+import type { LayerGroup, Map as LeafletMap } from 'leaflet';
+import 'leaflet/dist/leaflet.css';
+import { getCurrentCity } from '@/lib/config/cities';
+import { formatClockTime } from '@/lib/i18n/format';
+import { useLocale } from '@/lib/i18n/use-locale';
+import { getMapBounds, getMapTiles, getZoneShape, type LatLng, type MapZone } from '@/lib/services/map-view';
+import { cacheLoadedAssets } from '@/lib/services/offline';
+import type { RotationRecord } from '@/lib/services/rotation-history';
 
-interface Zone {
-  id: number;
-  name: string;
-  center_lat: number;
-  center_lng: number;
+const REPLAY_STEP_MS = 2500; // Time to animate one rotation
+
+const COLORS = {
+  danger: '#DC2626',
+  active: '#FCD34D',
+  empty: '#1F1F1F',
+  assigned: '#059669',
+  route: '#2563EB',
+  border: '#666666',
+  selected: '#FFFFFF',
+};
+
+interface Zone extends MapZone {
   status?: {
     crews: any[];
     totalProtesters: number;
@@ -19,183 +35,274 @@ interface ZoneMapProps {
   zones: Zone[];
   selectedZone?: Zone | null;
   onZoneClick?: (zone: Zone) => void;
+  replay?: RotationRecord[]; // Animate past rotations instead of live status
+  assignedZoneId?: number | null; // The viewer's crew zone, highlighted
+  fromZoneId?: number | null; // Where the crew is walking from, drawn as a route to the assigned zone
+  route?: LatLng[] | null; // Walking route from fromZoneId, instead of a straight line
+  title?: string;
 }
 
-export default function ZoneMap({ zones, selectedZone, onZoneClick }: ZoneMapProps) {
-  const canvasRef = useRef<HTMLCanvasElement>(null);
-  const [dimensions, setDimensions] = useState({ width: 800, height: 600 });
+export default function ZoneMap({
+  zones,
+  selectedZone,
+  onZoneClick,
+  replay,
+  assignedZoneId,
+  fromZoneId,
+  route,
+  title,
+}: ZoneMapProps) {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const mapRef = useRef<LeafletMap | null>(null);
+  const zoneLayerRef = useRef<LayerGroup | null>(null);
+  const crewLayerRef = useRef<LayerGroup | null>(null);
+  const leafletRef = useRef<typeof import('leaflet') | null>(null);
+  const [isMapReady, setIsMapReady] = useState(false);
+  const [replayStep, setReplayStep] = useState(0);
+  const [replayProgress, setReplayProgress] = useState(1);
+  const [isPlaying, setIsPlaying] = useState(false);
+  const replayRotation = replay?.[Math.min(replayStep, replay.length - 1)];
+  const city = getCurrentCity();
+  const { format, t } = useLocale();
 
+  // Leaflet needs the browser, so it loads after mount
   useEffect(() => {
-    const updateDimensions = () => {
-      if (canvasRef.current?.parentElement) {
-        const rect = canvasRef.current.parentElement.getBoundingClientRect();
-        setDimensions({
-          width: rect.width,
-          height: Math.min(rect.width * 0.75, 600) // Maintain aspect ratio
-        });
-      }
+    let cancelled = false;
+
+    import('leaflet').then(L => {
+      if (cancelled || !containerRef.current) return;
+
+      const tiles = getMapTiles();
+      const map = L.map(containerRef.current, {
+        center: [city.center.lat, city.center.lng],
+        zoom: 14,
+        minZoom: tiles.minZoom,
+        maxZoom: tiles.maxZoom,
+      });
+      L.tileLayer(tiles.url, {
+        attribution: tiles.attribution,
+        minZoom: tiles.minZoom,
+        maxZoom: tiles.maxZoom,
+      }).addTo(map);
+
+      leafletRef.current = L;
+      mapRef.current = map;
+      cacheLoadedAssets(); // Leaflet's chunk, for maps offline
+      zoneLayerRef.current = L.layerGroup().addTo(map);
+      crewLayerRef.current = L.layerGroup().addTo(map);
+      setIsMapReady(true);
+    });
+
+    return () => {
+      cancelled = true;
+      mapRef.current?.remove();
+      mapRef.current = null;
     };
+  }, [city.center.lat, city.center.lng]);
 
-    updateDimensions();
-    window.addEventListener('resize', updateDimensions);
-    return () => window.removeEventListener('resize', updateDimensions);
-  }, []);
+  // Fit the city's zones when they load, not on every status update (keeps the user's pan)
+  const zonesRef = useRef(zones);
+  zonesRef.current = zones;
+  const zoneKey = zones.map(zone => zone.id).join(',');
+  useEffect(() => {
+    if (!isMapReady || !mapRef.current) return;
+    mapRef.current.fitBounds(getMapBounds(zonesRef.current, getCurrentCity()), { padding: [16, 16] });
+  }, [isMapReady, zoneKey]);
 
+  // Advance the replay one rotation at a time
   useEffect(() => {
-    if (!canvasRef.current || zones.length === 0) return;
-
-    const canvas = canvasRef.current;
-    const ctx = canvas.getContext('2d');
-    if (!ctx) return;
-
-    // Clear canvas
-    ctx.fillStyle = '#0A0A0A';
-    ctx.fillRect(0, 0, dimensions.width, dimensions.height);
-
-    // LA bounds (approximate)
-    const bounds = {
-      minLat: 33.7,
-      maxLat: 34.4,
-      minLng: -118.7,
-      maxLng: -118.0
-    };
+    if (!isPlaying || !replay || replay.length === 0) return;
 
-    // Convert lat/lng to canvas coordinates
-    const toCanvas = (lat: number, lng: number) => {
-      const x = ((lng - bounds.minLng) / (bounds.maxLng - bounds.minLng)) * dimensions.width;
-      const y = ((bounds.maxLat - lat) / (bounds.maxLat - bounds.minLat)) * dimensions.height;
-      return { x, y };
-    };
+    let frame: number;
+    let start: number | null = null;
 
-    // Draw grid
-    ctx.strokeStyle = '#1F1F1F';
-    ctx.lineWidth = 1;
-    for (let i = 0; i <= 10; i++) {
-      const x = (i / 10) * dimensions.width;
-      const y = (i / 10) * dimensions.height;
-      
-      ctx.beginPath();
-      ctx.moveTo(x, 0);
-      ctx.lineTo(x, dimensions.height);
-      ctx.stroke();
-      
-      ctx.beginPath();
-      ctx.moveTo(0, y);
-      ctx.lineTo(dimensions.width, y);
-      ctx.stroke();
-    }
+    const tick = (time: number) => {
+      if (start === null) start = time;
+      const progress = Math.min((time - start) / REPLAY_STEP_MS, 1);
+      setReplayProgress(progress);
 
-    // Draw zones
-    zones.forEach(zone => {
-      const pos = toCanvas(zone.center_lat, zone.center_lng);
-      const hasCrews = (zone.status?.crews?.length ?? 0) > 0;
-      const hasPolice = zone.status?.policeActivity;
-      
-      // Zone circle
-      ctx.beginPath();
-      ctx.arc(pos.x, pos.y, 20, 0, Math.PI * 2);
-      
-      if (hasPolice) {
-        ctx.fillStyle = '#DC2626'; // Red for danger
-      } else if (hasCrews) {
-        ctx.fillStyle = '#FCD34D'; // Yellow for active
+      if (progress < 1) {
+        frame = requestAnimationFrame(tick);
+      } else if (replayStep < replay.length - 1) {
+        setReplayStep(replayStep + 1);
       } else {
-        ctx.fillStyle = '#1F1F1F'; // Gray for inactive
+        setIsPlaying(false);
       }
-      
-      ctx.fill();
-      
-      // Border
-      ctx.strokeStyle = selectedZone?.id === zone.id ? '#FFFFFF' : '#666666';
-      ctx.lineWidth = selectedZone?.id === zone.id ? 3 : 1;
-      ctx.stroke();
-      
-      // Zone name
-      ctx.fillStyle = '#FFFFFF';
-      ctx.font = 'bold 10px Arial';
-      ctx.textAlign = 'center';
-      ctx.fillText(zone.name.toUpperCase(), pos.x, pos.y + 35);
-      
+    };
+
+    frame = requestAnimationFrame(tick);
+    return () => cancelAnimationFrame(frame);
+  }, [isPlaying, replayStep, replay]);
+
+  // Zone shapes, colored by live status
+  useEffect(() => {
+    const L = leafletRef.current;
+    const layer = zoneLayerRef.current;
+    if (!isMapReady || !L || !layer) return;
+
+    layer.clearLayers();
+
+    zones.forEach(zone => {
+      // Live status would be misleading while replaying the past
+      const hasCrews = !replay && (zone.status?.crews?.length ?? 0) > 0;
+      const hasPolice = !replay && zone.status?.policeActivity;
+      const isAssigned = zone.id === assignedZoneId;
+      const isSelected = selectedZone?.id === zone.id;
+
+      const style = {
+        color: isSelected ? COLORS.selected : isAssigned ? COLORS.assigned : COLORS.border,
+        weight: isSelected || isAssigned ? 3 : 1,
+        fillColor: hasPolice ? COLORS.danger : isAssigned ? COLORS.assigned : hasCrews ? COLORS.active : COLORS.empty,
+        fillOpacity: 0.35,
+      };
+
+      const shape = getZoneShape(zone);
+      const path = shape.kind === 'polygon'
+        ? L.polygon(shape.rings, style)
+        : L.circle(shape.center, { ...style, radius: shape.radiusMeters });
+
+      path.bindTooltip(zone.name);
+      if (onZoneClick) path.on('click', () => onZoneClick(zone));
+      path.addTo(layer);
+
       // Crew count
       if (hasCrews) {
-        ctx.fillStyle = '#000000';
-        ctx.font = 'bold 14px Arial';
-        ctx.fillText(zone.status?.totalProtesters.toString() || '0', pos.x, pos.y + 5);
+        L.marker([zone.center_lat, zone.center_lng], {
+          icon: countIcon(L, zone.status?.totalProtesters.toString() || '0', COLORS.active),
+          interactive: false,
+        }).addTo(layer);
       }
     });
 
-    // Draw legend
-    ctx.fillStyle = '#FFFFFF';
-    ctx.font = '12px Arial';
-    ctx.textAlign = 'left';
-    
-    const legendY = dimensions.height - 40;
-    
-    // Active zones
-    ctx.fillStyle = '#FCD34D';
-    ctx.fillRect(20, legendY, 15, 15);
-    ctx.fillStyle = '#FFFFFF';
-    ctx.fillText('ACTIVE', 40, legendY + 12);
-    
-    // Danger zones
-    ctx.fillStyle = '#DC2626';
-    ctx.fillRect(100, legendY, 15, 15);
-    ctx.fillStyle = '#FFFFFF';
-    ctx.fillText('DANGER', 120, legendY + 12);
-    
-    // Empty zones
-    ctx.fillStyle = '#1F1F1F';
-    ctx.fillRect(180, legendY, 15, 15);
-    ctx.fillStyle = '#FFFFFF';
-    ctx.fillText('EMPTY', 200, legendY + 12);
-
-  }, [zones, dimensions, selectedZone]);
-
-  // Handle clicks
-  const handleCanvasClick = (e: React.MouseEvent<HTMLCanvasElement>) => {
-    if (!canvasRef.current || !onZoneClick) return;
-
-    const rect = canvasRef.current.getBoundingClientRect();
-    const x = e.clientX - rect.left;
-    const y = e.clientY - rect.top;
-
-    // LA bounds
-    const bounds = {
-      minLat: 33.7,
-      maxLat: 34.4,
-      minLng: -118.7,
-      maxLng: -118.0
-    };
+    // Route from the crew's last zone to its new one
+    const from = zones.find(zone => zone.id === fromZoneId);
+    const to = zones.find(zone => zone.id === assignedZoneId);
+    if (from && to && from.id !== to.id) {
+      L.polyline(route || [[from.center_lat, from.center_lng], [to.center_lat, to.center_lng]], {
+        color: COLORS.route,
+        weight: 4,
+        dashArray: '8 6',
+      }).addTo(layer);
+    }
+  }, [isMapReady, zones, selectedZone, replay, assignedZoneId, fromZoneId, route, onZoneClick]);
 
-    // Check if click is near any zone
-    zones.forEach(zone => {
-      const zoneX = ((zone.center_lng - bounds.minLng) / (bounds.maxLng - bounds.minLng)) * dimensions.width;
-      const zoneY = ((bounds.maxLat - zone.center_lat) / (bounds.maxLat - bounds.minLat)) * dimensions.height;
-      
-      const distance = Math.sqrt(Math.pow(x - zoneX, 2) + Math.pow(y - zoneY, 2));
-      if (distance < 25) { // Click radius
-        onZoneClick(zone);
+  // Replayed crew moves
+  useEffect(() => {
+    const L = leafletRef.current;
+    const layer = crewLayerRef.current;
+    if (!isMapReady || !L || !layer) return;
+
+    layer.clearLayers();
+    if (!replayRotation) return;
+
+    const zoneById = new Map(zones.map(zone => [zone.id, zone]));
+
+    replayRotation.moves.forEach(move => {
+      const to = zoneById.get(move.toZoneId);
+      const from = move.fromZoneId !== null ? zoneById.get(move.fromZoneId) : undefined;
+      if (!to) return;
+
+      const end: LatLng = [to.center_lat, to.center_lng];
+      const start: LatLng = from ? [from.center_lat, from.center_lng] : end;
+
+      // Route line
+      if (move.moved) {
+        L.polyline([start, end], { color: COLORS.active, weight: 2, dashArray: '6 4' }).addTo(layer);
       }
+
+      // Crew marker
+      const position: LatLng = [
+        start[0] + (end[0] - start[0]) * replayProgress,
+        start[1] + (end[1] - start[1]) * replayProgress,
+      ];
+      L.marker(position, {
+        icon: countIcon(L, move.crewId.toString(), move.moved ? COLORS.selected : COLORS.border),
+        interactive: false,
+      }).addTo(layer);
     });
-  };
+  }, [isMapReady, zones, replayRotation, replayProgress]);
+
+  function toggleReplay() {
+    if (!replay || replay.length === 0) return;
+
+    // Start over once the last rotation has played
+    if (!isPlaying && replayStep >= replay.length - 1 && replayProgress >= 1) {
+      setReplayStep(0);
+      setReplayProgress(0);
+    }
+    setIsPlaying(!isPlaying);
+  }
+
+  function stepReplay(step: number) {
+    if (!replay || replay.length === 0) return;
+
+    setIsPlaying(false);
+    setReplayStep(Math.max(0, Math.min(step, replay.length - 1)));
+    setReplayProgress(1);
+  }
 
   return (
     <motion.div
       initial={{ opacity: 0 }}
       animate={{ opacity: 1 }}
-      className="w-full bg-protest-gray border-2 border-protest-red p-4"
+      className="w-full border-2 border-minimal-border p-4"
     >
-      <h3 className="text-lg font-protest uppercase mb-4">LA PROTEST ZONES</h3>
-      <canvas
-        ref={canvasRef}
-        width={dimensions.width}
-        height={dimensions.height}
-        className="w-full cursor-pointer"
-        onClick={handleCanvasClick}
-      />
-      <p className="text-xs text-gray-400 mt-2 uppercase">
-        Click zones for details • Updates every 50 seconds
-      </p>
+      <h3 className="text-lg uppercase mb-4">{title || t('map.title', { city: city.shortName })}</h3>
+      <div ref={containerRef} className="w-full h-80 md:h-[28rem]" />
+
+      {/* Legend */}
+      <div className="mt-2 flex flex-wrap gap-4 text-xs uppercase">
+        <LegendItem color={COLORS.active} label={t('map.active')} />
+        <LegendItem color={COLORS.danger} label={t('map.danger')} />
+        <LegendItem color={COLORS.empty} label={t('map.empty')} />
+        {assignedZoneId && <LegendItem color={COLORS.assigned} label={t('map.yourZone')} />}
+      </div>
+
+      {replay ? (
+        <div className="mt-2 flex items-center gap-3 text-xs uppercase">
+          <button onClick={() => stepReplay(replayStep - 1)} disabled={replayStep === 0}>
+            {t('map.prev')}
+          </button>
+          <button onClick={toggleReplay} disabled={replay.length === 0} className="font-bold">
+            {isPlaying ? t('map.pause') : t('map.play')}
+          </button>
+          <button onClick={() => stepReplay(replayStep + 1)} disabled={replayStep >= replay.length - 1}>
+            {t('map.next')}
+          </button>
+          <span className="text-muted">
+            {replayRotation
+              ? t('map.rotation', {
+                  number: replayRotation.rotationNumber,
+                  time: formatClockTime(replayRotation.rotatedAt, format),
+                  moved: replayRotation.moves.filter(m => m.moved).length,
+                })
+              : t('map.noRotations')}
+          </span>
+        </div>
+      ) : onZoneClick ? (
+        <p className="text-xs text-muted mt-2 uppercase">
+          {t('map.hint')}
+        </p>
+      ) : null}
     </motion.div>
   );
-}
\ No newline at end of file
+}
+
+// Round label for crew counts and replayed crews
+function countIcon(L: typeof import('leaflet'), text: string, color: string) {
+  return L.divIcon({
+    className: '',
+    html: `<div style="background:${color};color:#000;border-radius:9999px;width:28px;height:28px;display:flex;align-items:center;justify-content:center;font:bold 11px system-ui">${text}</div>`,
+    iconSize: [28, 28],
+    iconAnchor: [14, 14],
+  });
+}
+
+function LegendItem({ color, label }: { color: string; label: string }) {
+  return (
+    <span className="flex items-center gap-1">
+      <span className="inline-block w-3 h-3" style={{ background: color }} />
+      {label}
+    </span>
+  );
+}
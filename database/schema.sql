@@ -2,47 +2,64 @@
 -- Only stores crew-level data, never individual users
 -- Designed for maximum privacy and minimal attack surface
 
--- Zones: Pre-defined protest zones for the city
+-- Zones: Pre-defined protest zones, scoped to a city
 CREATE TABLE zones (
   id SERIAL PRIMARY KEY,
+  city_id TEXT NOT NULL DEFAULT 'la', -- CityConfig id from lib/config/cities.ts
   name TEXT NOT NULL,
   center_lat DECIMAL(10, 8) NOT NULL,
   center_lng DECIMAL(11, 8) NOT NULL,
   radius_meters INTEGER DEFAULT 500,
+  geometry JSONB, -- Optional GeoJSON Polygon/MultiPolygon boundary; NULL = circle of radius_meters
+  aliases TEXT[] DEFAULT '{}', -- Other names news reports use, e.g. 'Grand Park'
+  intersections JSONB DEFAULT '[]', -- [{ "streets": ["S Hill St", "W 5th St"], "lat"?, "lng"? }] for place lookup
   type TEXT CHECK (type IN ('primary', 'secondary', 'avoid')) DEFAULT 'secondary',
+  step_free BOOLEAN DEFAULT false, -- Reachable and usable without stairs or curbs (wheelchairs, limited walking)
+  has_seating BOOLEAN DEFAULT false, -- Benches, ledges or other places to sit
+  has_shade BOOLEAN DEFAULT false,
   active BOOLEAN DEFAULT true,
   created_at TIMESTAMPTZ DEFAULT NOW()
 );
 
 -- Crew-Zone Assignments: Current location of each crew
+-- Crew numbers restart in each city
 CREATE TABLE crew_zones (
+  city_id TEXT NOT NULL DEFAULT 'la',
   crew_id INTEGER NOT NULL CHECK (crew_id BETWEEN 1 AND 50),
   zone_id INTEGER REFERENCES zones(id) ON DELETE CASCADE,
   assigned_at TIMESTAMPTZ DEFAULT NOW(),
   next_rotation TIMESTAMPTZ DEFAULT NOW() + INTERVAL '30 minutes',
   estimated_size INTEGER DEFAULT 0,
-  PRIMARY KEY (crew_id, assigned_at)
+  walk_time_minutes DECIMAL(4, 1),
+  rotation_reason TEXT,
+  rotation_number INTEGER, -- NULL for rows created by joins
+  PRIMARY KEY (city_id, crew_id, assigned_at)
 );
 
--- Current view: Only the latest assignment for each crew
+-- Current view: Only the latest assignment for each crew in each city
 CREATE VIEW current_crews AS
-SELECT DISTINCT ON (crew_id)
+SELECT DISTINCT ON (city_id, crew_id)
+  city_id,
   crew_id,
   zone_id,
   assigned_at,
   next_rotation,
-  estimated_size
+  estimated_size,
+  walk_time_minutes,
+  rotation_reason
 FROM crew_zones
-ORDER BY crew_id, assigned_at DESC;
+ORDER BY city_id, crew_id, assigned_at DESC;
 
 -- Movement Stats: Aggregate data only, no individual tracking
 CREATE TABLE movement_stats (
   id SERIAL PRIMARY KEY,
+  city_id TEXT NOT NULL DEFAULT 'la',
   timestamp TIMESTAMPTZ DEFAULT NOW(),
   total_crews_active INTEGER DEFAULT 0,
   total_estimated_protesters INTEGER DEFAULT 0,
   zones_occupied INTEGER[] DEFAULT '{}',
-  rotation_number INTEGER DEFAULT 0
+  rotation_number INTEGER DEFAULT 0,
+  plan_seed TEXT -- Replays the rotation via GET /api/cron/rotate?dryRun=true&seed=...
 );
 
 -- Police Activity: Scraped data about danger zones
@@ -51,21 +68,139 @@ CREATE TABLE police_activity (
   zone_id INTEGER REFERENCES zones(id),
   severity TEXT CHECK (severity IN ('low', 'medium', 'high', 'critical')) DEFAULT 'medium',
   description TEXT,
-  source TEXT CHECK (source IN ('citizen', 'news', 'social')) DEFAULT 'citizen',
+  source TEXT CHECK (source IN ('citizen', 'news', 'social', 'organizer', 'aggregated')) DEFAULT 'citizen',
   reported_at TIMESTAMPTZ DEFAULT NOW(),
-  expires_at TIMESTAMPTZ DEFAULT NOW() + INTERVAL '2 hours'
+  expires_at TIMESTAMPTZ DEFAULT NOW() + INTERVAL '2 hours', -- Collected rows expire when their score fades (lib/services/severity.ts)
+  report_category TEXT, -- Set when corroborated incident reports raised this row
+  confidence DECIMAL(3, 2) DEFAULT 1 CHECK (confidence BETWEEN 0 AND 1), -- How far the combined sources agree
+  sources JSONB DEFAULT '[]' -- Deduplicated stories behind an 'aggregated' row (lib/services/activity-dedup.ts)
+);
+
+-- Anchor State: Shared anchor selection so every server instance agrees
+-- One row per city, service role only - never exposed to the public API
+CREATE TABLE anchor_state (
+  city_id TEXT PRIMARY KEY DEFAULT 'la',
+  anchor_crew_id INTEGER CHECK (anchor_crew_id BETWEEN 1 AND 50),
+  anchor_zone_id INTEGER REFERENCES zones(id) ON DELETE SET NULL,
+  phase TEXT CHECK (phase IN ('build', 'growth', 'sustain')) DEFAULT 'build',
+  assignment_count INTEGER DEFAULT 0,
+  last_checked_at TIMESTAMPTZ DEFAULT 'epoch',
+  pinned BOOLEAN DEFAULT false, -- Pinned by an organizer; automatic re-selection leaves it alone
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+-- Rotation Control: Organizer overrides of a city's rotation schedule
+-- No scheduled rotation runs before postponed_until
+CREATE TABLE rotation_control (
+  city_id TEXT PRIMARY KEY,
+  postponed_until TIMESTAMPTZ,
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+-- Audit Log: Every organizer action from the /admin console
+-- Organizers are identified by the label of their access token, never personal data
+CREATE TABLE audit_log (
+  id BIGSERIAL PRIMARY KEY,
+  city_id TEXT NOT NULL,
+  organizer TEXT NOT NULL,
+  action TEXT NOT NULL,
+  details JSONB DEFAULT '{}',
+  success BOOLEAN NOT NULL DEFAULT true,
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+-- Crew Presence: Anonymous heartbeats that keep crew sizes honest
+-- Stores only a hash of a random per-device session id, never user data
+CREATE TABLE crew_presence (
+  session_hash TEXT PRIMARY KEY,
+  city_id TEXT NOT NULL DEFAULT 'la',
+  crew_id INTEGER NOT NULL CHECK (crew_id BETWEEN 1 AND 50),
+  mobility TEXT[] DEFAULT '{}', -- Needs the member chose on their phone, e.g. {wheelchair}; constrains their crew's rotations
+  joined_at TIMESTAMPTZ DEFAULT NOW(),
+  last_seen TIMESTAMPTZ DEFAULT NOW()
+);
+
+-- Incident Reports: Anonymous categorized reports from participants inside a zone
+-- Stores only a hash of the reporter's session id; rows expire on their own
+CREATE TABLE incident_reports (
+  id BIGSERIAL PRIMARY KEY,
+  city_id TEXT NOT NULL DEFAULT 'la',
+  zone_id INTEGER NOT NULL REFERENCES zones(id) ON DELETE CASCADE,
+  category TEXT NOT NULL CHECK (category IN ('medical', 'blocked_route', 'hazard', 'crowd_crush', 'supply_shortage')),
+  session_hash TEXT NOT NULL,
+  reported_at TIMESTAMPTZ DEFAULT NOW(),
+  expires_at TIMESTAMPTZ NOT NULL
+);
+
+-- Signal Inbox: Events pushed to webhook signal sources, held until the next collection run
+CREATE TABLE signal_inbox (
+  id BIGSERIAL PRIMARY KEY,
+  city_id TEXT NOT NULL,
+  source_id TEXT NOT NULL,
+  event JSONB NOT NULL,
+  received_at TIMESTAMPTZ DEFAULT NOW(),
+  processed_at TIMESTAMPTZ
+);
+
+-- Signal Source Health: Last runs of each activity source per city, written by every collection run
+-- Status is derived from consecutive_failures (1 = degraded, 3 = down)
+CREATE TABLE signal_source_health (
+  city_id TEXT NOT NULL,
+  source_id TEXT NOT NULL,
+  consecutive_failures INTEGER NOT NULL DEFAULT 0,
+  last_run_at TIMESTAMPTZ,
+  last_success_at TIMESTAMPTZ,
+  last_failure_at TIMESTAMPTZ,
+  last_error TEXT,
+  PRIMARY KEY (city_id, source_id)
+);
+
+-- Push Subscriptions: Web Push endpoints tagged only with crew/zone topics
+-- No session id or location; rows expire unless the phone renews them
+CREATE TABLE push_subscriptions (
+  id BIGSERIAL PRIMARY KEY,
+  city_id TEXT NOT NULL DEFAULT 'la',
+  endpoint_hash TEXT NOT NULL UNIQUE, -- sha256 of the endpoint, to renew or remove it
+  subscription JSONB NOT NULL, -- Endpoint and keys the push service needs
+  topics TEXT[] NOT NULL DEFAULT '{}', -- e.g. {crew:6,zone:3}
+  locale TEXT NOT NULL DEFAULT 'en', -- Language the phone's alerts are written in
+  expires_at TIMESTAMPTZ NOT NULL
+);
+
+-- Zone Connections: Walkable paths between zones, used to plan rotations
+-- Both zones are always in the same city
+-- 'direct' rows are estimated by seed_zone_connections(); measured routes use 'street' or 'underground'
+CREATE TABLE zone_connections (
+  from_zone_id INTEGER REFERENCES zones(id) ON DELETE CASCADE,
+  to_zone_id INTEGER REFERENCES zones(id) ON DELETE CASCADE,
+  walk_time_minutes DECIMAL(4, 1) NOT NULL,
+  distance_meters INTEGER NOT NULL,
+  route_type TEXT CHECK (route_type IN ('direct', 'street', 'underground')) DEFAULT 'street',
+  step_free BOOLEAN DEFAULT false, -- Whole walk has curb cuts, ramps or elevators
+  PRIMARY KEY (from_zone_id, to_zone_id),
+  CHECK (from_zone_id <> to_zone_id)
 );
 
 -- Indexes for performance
-CREATE INDEX idx_crew_zones_current ON crew_zones(crew_id, assigned_at DESC);
+CREATE INDEX idx_crew_zones_current ON crew_zones(city_id, crew_id, assigned_at DESC);
 CREATE INDEX idx_crew_zones_zone ON crew_zones(zone_id, assigned_at DESC);
+CREATE INDEX idx_crew_zones_rotation ON crew_zones(rotation_number) WHERE rotation_number IS NOT NULL;
 CREATE INDEX idx_police_activity_active ON police_activity(zone_id, expires_at DESC);
-CREATE INDEX idx_movement_stats_recent ON movement_stats(timestamp DESC);
-CREATE INDEX idx_zones_active ON zones(active, type) WHERE active = true;
+CREATE INDEX idx_movement_stats_recent ON movement_stats(city_id, timestamp DESC);
+CREATE INDEX idx_zones_active ON zones(city_id, active, type) WHERE active = true;
+CREATE INDEX idx_crew_presence_last_seen ON crew_presence(last_seen);
+CREATE INDEX idx_crew_presence_mobility ON crew_presence(city_id, crew_id) WHERE mobility <> '{}';
+CREATE INDEX idx_zone_connections_walk ON zone_connections(from_zone_id, walk_time_minutes);
+CREATE INDEX idx_audit_log_recent ON audit_log(city_id, created_at DESC);
+CREATE INDEX idx_incident_reports_zone ON incident_reports(zone_id, category, expires_at);
+CREATE INDEX idx_incident_reports_session ON incident_reports(session_hash, reported_at DESC);
+CREATE INDEX idx_signal_inbox_pending ON signal_inbox(city_id, source_id, received_at) WHERE processed_at IS NULL;
+CREATE INDEX idx_push_subscriptions_topics ON push_subscriptions USING GIN (topics);
 
 -- Ensure crew IDs stay within bounds
 ALTER TABLE crew_zones ADD CONSTRAINT valid_crew_id CHECK (crew_id BETWEEN 1 AND 50);
-ALTER TABLE crew_zones ADD CONSTRAINT valid_crew_size CHECK (estimated_size >= 0 AND estimated_size <= 300);
+-- Room for the anchor crew to pass ANCHOR_SIZE_TARGET (lib/services/anchor-state.ts); join_crew turns members away at the limit
+ALTER TABLE crew_zones ADD CONSTRAINT valid_crew_size CHECK (estimated_size >= 0 AND estimated_size <= 2000);
 
 -- Add cleanup job for old data (privacy-preserving)
 CREATE OR REPLACE FUNCTION cleanup_old_data()
@@ -79,6 +214,21 @@ BEGIN
   
   -- Delete movement stats older than 7 days  
   DELETE FROM movement_stats WHERE timestamp < NOW() - INTERVAL '7 days';
+  
+  -- Delete presence left over from previous days
+  DELETE FROM crew_presence WHERE last_seen < NOW() - INTERVAL '24 hours';
+  
+  -- Delete expired incident reports
+  DELETE FROM incident_reports WHERE expires_at < NOW();
+  
+  -- Delete webhook events older than the collection window
+  DELETE FROM signal_inbox WHERE received_at < NOW() - INTERVAL '24 hours';
+  
+  -- Delete push subscriptions nobody renewed
+  DELETE FROM push_subscriptions WHERE expires_at < NOW();
+  
+  -- Keep organizer actions for a month of debriefs
+  DELETE FROM audit_log WHERE created_at < NOW() - INTERVAL '30 days';
 END;
 $$ LANGUAGE plpgsql SECURITY DEFINER;
 
@@ -87,21 +237,66 @@ ALTER TABLE zones ENABLE ROW LEVEL SECURITY;
 ALTER TABLE crew_zones ENABLE ROW LEVEL SECURITY;
 ALTER TABLE movement_stats ENABLE ROW LEVEL SECURITY;
 ALTER TABLE police_activity ENABLE ROW LEVEL SECURITY;
+ALTER TABLE anchor_state ENABLE ROW LEVEL SECURITY;
+ALTER TABLE crew_presence ENABLE ROW LEVEL SECURITY;
+ALTER TABLE zone_connections ENABLE ROW LEVEL SECURITY;
+ALTER TABLE rotation_control ENABLE ROW LEVEL SECURITY;
+ALTER TABLE audit_log ENABLE ROW LEVEL SECURITY;
+ALTER TABLE incident_reports ENABLE ROW LEVEL SECURITY;
+ALTER TABLE signal_inbox ENABLE ROW LEVEL SECURITY;
+ALTER TABLE signal_source_health ENABLE ROW LEVEL SECURITY;
+ALTER TABLE push_subscriptions ENABLE ROW LEVEL SECURITY;
 
 -- Public read access
 CREATE POLICY "Public read zones" ON zones FOR SELECT USING (true);
 CREATE POLICY "Public read crews" ON crew_zones FOR SELECT USING (true);
 CREATE POLICY "Public read stats" ON movement_stats FOR SELECT USING (true);
 CREATE POLICY "Public read police" ON police_activity FOR SELECT USING (true);
+CREATE POLICY "Public read connections" ON zone_connections FOR SELECT USING (true);
 
 -- Only service role can insert/update
 CREATE POLICY "Service write zones" ON zones FOR ALL USING (auth.role() = 'service_role');
 CREATE POLICY "Service write crews" ON crew_zones FOR ALL USING (auth.role() = 'service_role');
 CREATE POLICY "Service write stats" ON movement_stats FOR ALL USING (auth.role() = 'service_role');
 CREATE POLICY "Service write police" ON police_activity FOR ALL USING (auth.role() = 'service_role');
+CREATE POLICY "Service write connections" ON zone_connections FOR ALL USING (auth.role() = 'service_role');
+CREATE POLICY "Service only anchor" ON anchor_state FOR ALL USING (auth.role() = 'service_role');
+CREATE POLICY "Service only presence" ON crew_presence FOR ALL USING (auth.role() = 'service_role');
+CREATE POLICY "Service only rotation control" ON rotation_control FOR ALL USING (auth.role() = 'service_role');
+CREATE POLICY "Service only audit" ON audit_log FOR ALL USING (auth.role() = 'service_role');
+CREATE POLICY "Service only reports" ON incident_reports FOR ALL USING (auth.role() = 'service_role');
+CREATE POLICY "Service only signal inbox" ON signal_inbox FOR ALL USING (auth.role() = 'service_role');
+CREATE POLICY "Service only signal source health" ON signal_source_health FOR ALL USING (auth.role() = 'service_role');
+CREATE POLICY "Service only push subscriptions" ON push_subscriptions FOR ALL USING (auth.role() = 'service_role');
 
--- Function to get crew statistics
-CREATE OR REPLACE FUNCTION get_crew_stats()
+-- Evacuation broadcasts: anyone may listen on a city's private evacuation channel,
+-- but with no insert policy only the service role can send orders
+CREATE POLICY "Public listen evacuations" ON realtime.messages FOR SELECT TO anon, authenticated
+  USING (realtime.topic() LIKE 'evacuation:%' AND extension = 'broadcast');
+
+-- Whether the caller's realtime token belongs to a member counted in the topic's crew
+-- Tokens come from /api/crew/join and heartbeats and name the topic and presence session
+CREATE OR REPLACE FUNCTION is_crew_channel_member(p_topic TEXT)
+RETURNS BOOLEAN AS $$
+  SELECT p_topic = auth.jwt() ->> 'crew_topic'
+  AND EXISTS (
+    SELECT 1
+    FROM crew_presence cp
+    WHERE cp.session_hash = auth.jwt() ->> 'session_hash'
+    AND p_topic LIKE 'crew:' || cp.city_id || ':' || cp.crew_id || ':%'
+    AND cp.last_seen > NOW() - INTERVAL '6 minutes'
+  );
+$$ LANGUAGE sql STABLE SECURITY DEFINER;
+
+-- Crew channels: topics end in a secret token, and listening also takes a member token for a
+-- session still counted in that crew, so a leaked topic alone lets nobody in; only the service role sends
+CREATE POLICY "Members listen crew channels" ON realtime.messages FOR SELECT TO anon, authenticated
+  USING (realtime.topic() LIKE 'crew:%' AND extension = 'broadcast' AND is_crew_channel_member(realtime.topic()));
+
+-- Function to get crew statistics for a city
+CREATE OR REPLACE FUNCTION get_crew_stats(
+  p_city_id TEXT DEFAULT 'la'
+)
 RETURNS TABLE (
   active_crews INTEGER,
   total_protesters INTEGER,
@@ -116,66 +311,474 @@ BEGIN
     COUNT(DISTINCT zone_id)::INTEGER,
     MIN(current_crews.next_rotation)
   FROM current_crews
-  WHERE estimated_size > 0;
+  WHERE estimated_size > 0
+  AND current_crews.city_id = p_city_id;
 END;
 $$ LANGUAGE plpgsql;
 
--- Function to rotate crews (called every 30 minutes)
+-- Function to rotate crews (called by cron on each city's rotation schedule)
+-- p_next_rotation: the city's following slot; NULL keeps the column default
 CREATE OR REPLACE FUNCTION rotate_crews(
-  rotation_plan JSONB
+  rotation_plan JSONB,
+  plan_seed TEXT DEFAULT NULL,
+  p_city_id TEXT DEFAULT 'la',
+  p_next_rotation TIMESTAMPTZ DEFAULT NULL
 ) RETURNS void AS $$
 DECLARE
   crew_assignment JSONB;
   rotation_num INTEGER;
 BEGIN
-  -- Get current rotation number
-  SELECT COALESCE(MAX(rotation_number), 0) + 1 INTO rotation_num FROM movement_stats;
+  -- Get current rotation number (counted per city)
+  SELECT COALESCE(MAX(rotation_number), 0) + 1 INTO rotation_num
+  FROM movement_stats
+  WHERE city_id = p_city_id;
   
   -- Insert new crew assignments
   FOR crew_assignment IN SELECT * FROM jsonb_array_elements(rotation_plan)
   LOOP
-    INSERT INTO crew_zones (crew_id, zone_id, estimated_size)
+    INSERT INTO crew_zones (city_id, crew_id, zone_id, estimated_size, walk_time_minutes, rotation_reason, rotation_number, next_rotation)
     VALUES (
+      p_city_id,
       (crew_assignment->>'crew_id')::INTEGER,
       (crew_assignment->>'zone_id')::INTEGER,
-      (crew_assignment->>'estimated_size')::INTEGER
+      (crew_assignment->>'estimated_size')::INTEGER,
+      (crew_assignment->>'walk_time')::DECIMAL,
+      crew_assignment->>'reason',
+      rotation_num,
+      COALESCE(p_next_rotation, NOW() + INTERVAL '30 minutes')
     );
   END LOOP;
   
   -- Record movement stats
   INSERT INTO movement_stats (
+    city_id,
     total_crews_active,
     total_estimated_protesters,
     zones_occupied,
-    rotation_number
+    rotation_number,
+    plan_seed
   )
   SELECT 
+    p_city_id,
     COUNT(DISTINCT crew_id),
     SUM(estimated_size),
     array_agg(DISTINCT zone_id),
-    rotation_num
+    rotation_num,
+    rotate_crews.plan_seed
   FROM current_crews
-  WHERE estimated_size > 0;
+  WHERE estimated_size > 0
+  AND city_id = p_city_id;
 END;
 $$ LANGUAGE plpgsql SECURITY DEFINER;
 
+-- Rotation history for debriefs: each crew's move per rotation
+-- Limited to what cleanup_old_data keeps (24 hours of crew_zones)
+CREATE OR REPLACE FUNCTION get_rotation_history(
+  p_limit INTEGER DEFAULT 48,
+  p_city_id TEXT DEFAULT 'la'
+)
+RETURNS TABLE (
+  rotation_number INTEGER,
+  rotated_at TIMESTAMPTZ,
+  crew_id INTEGER,
+  from_zone_id INTEGER,
+  to_zone_id INTEGER,
+  walk_time_minutes DECIMAL,
+  rotation_reason TEXT
+) AS $$
+BEGIN
+  RETURN QUERY
+  WITH history AS (
+    SELECT
+      cz.rotation_number AS rotation,
+      cz.assigned_at,
+      cz.crew_id AS crew,
+      LAG(cz.zone_id) OVER (PARTITION BY cz.crew_id ORDER BY cz.assigned_at) AS from_zone,
+      cz.zone_id AS to_zone,
+      cz.walk_time_minutes AS walk_time,
+      cz.rotation_reason AS reason
+    FROM crew_zones cz
+    WHERE cz.city_id = p_city_id
+  ),
+  recent AS (
+    SELECT DISTINCT h.rotation
+    FROM history h
+    WHERE h.rotation IS NOT NULL
+    ORDER BY h.rotation DESC
+    LIMIT p_limit
+  )
+  SELECT h.rotation, h.assigned_at, h.crew, h.from_zone, h.to_zone, h.walk_time, h.reason
+  FROM history h
+  JOIN recent r ON r.rotation = h.rotation
+  ORDER BY h.rotation, h.crew;
+END;
+$$ LANGUAGE plpgsql;
+
 -- Add missing database functions for crew size updates
 CREATE OR REPLACE FUNCTION increment_crew_size(
   p_crew_id INTEGER,
-  p_increment INTEGER DEFAULT 1
+  p_increment INTEGER DEFAULT 1,
+  p_city_id TEXT DEFAULT 'la'
 ) RETURNS void AS $$
 BEGIN
+  -- Clamped to valid_crew_size so a stray increment can't fail the caller
   UPDATE crew_zones 
-  SET estimated_size = estimated_size + p_increment
-  WHERE crew_id = p_crew_id 
+  SET estimated_size = LEAST(2000, GREATEST(0, estimated_size + p_increment))
+  WHERE city_id = p_city_id
+  AND crew_id = p_crew_id 
   AND assigned_at = (
     SELECT MAX(assigned_at) 
     FROM crew_zones 
-    WHERE crew_id = p_crew_id
+    WHERE city_id = p_city_id
+    AND crew_id = p_crew_id
   );
 END;
 $$ LANGUAGE plpgsql SECURITY DEFINER;
 
+-- Expire presence that stopped sending heartbeats and shrink their crews
+CREATE OR REPLACE FUNCTION expire_stale_presence(
+  p_ttl_seconds INTEGER DEFAULT 360
+) RETURNS INTEGER AS $$
+DECLARE
+  expired RECORD;
+  total_expired INTEGER := 0;
+BEGIN
+  FOR expired IN
+    WITH removed AS (
+      DELETE FROM crew_presence
+      WHERE last_seen < NOW() - make_interval(secs => p_ttl_seconds)
+      RETURNING city_id, crew_id
+    )
+    SELECT city_id, crew_id, COUNT(*)::INTEGER AS departed
+    FROM removed
+    GROUP BY city_id, crew_id
+    ORDER BY city_id, crew_id
+  LOOP
+    PERFORM increment_crew_size(expired.crew_id, -expired.departed, expired.city_id);
+    total_expired := total_expired + expired.departed;
+  END LOOP;
+  
+  RETURN total_expired;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Join a crew (or switch crews) and return the crew's new size
+-- Idempotent per session: repeated joins never double count
+-- Returns NULL without joining when the crew already has p_max_size members
+CREATE OR REPLACE FUNCTION join_crew(
+  p_session_hash TEXT,
+  p_crew_id INTEGER,
+  p_zone_id INTEGER,
+  p_city_id TEXT DEFAULT 'la',
+  p_next_rotation TIMESTAMPTZ DEFAULT NULL,
+  p_mobility TEXT[] DEFAULT '{}',
+  p_max_size INTEGER DEFAULT 2000
+) RETURNS INTEGER AS $$
+DECLARE
+  previous RECORD;
+  new_size INTEGER;
+BEGIN
+  -- Serialize concurrent changes for this session
+  PERFORM pg_advisory_xact_lock(hashtext(p_session_hash));
+  
+  SELECT crew_id, city_id INTO previous
+  FROM crew_presence
+  WHERE session_hash = p_session_hash;
+  
+  IF previous.crew_id = p_crew_id AND previous.city_id = p_city_id THEN
+    UPDATE crew_presence SET last_seen = NOW(), mobility = p_mobility WHERE session_hash = p_session_hash;
+  ELSE
+    -- Serialize joins to this crew so the size check and the first assignment hold
+    PERFORM pg_advisory_xact_lock(hashtext(p_city_id || ':' || p_crew_id));
+    IF (SELECT estimated_size FROM current_crews WHERE city_id = p_city_id AND crew_id = p_crew_id) >= p_max_size THEN
+      RETURN NULL;
+    END IF;
+    
+    IF previous.crew_id IS NOT NULL THEN
+      PERFORM increment_crew_size(previous.crew_id, -1, previous.city_id);
+      UPDATE crew_presence
+      SET city_id = p_city_id, crew_id = p_crew_id, mobility = p_mobility, joined_at = NOW(), last_seen = NOW()
+      WHERE session_hash = p_session_hash;
+    ELSE
+      INSERT INTO crew_presence (session_hash, city_id, crew_id, mobility)
+      VALUES (p_session_hash, p_city_id, p_crew_id, p_mobility);
+    END IF;
+    
+    -- First member of a new crew creates its zone assignment
+    IF NOT EXISTS (SELECT 1 FROM crew_zones WHERE city_id = p_city_id AND crew_id = p_crew_id) THEN
+      INSERT INTO crew_zones (city_id, crew_id, zone_id, estimated_size, next_rotation)
+      VALUES (p_city_id, p_crew_id, p_zone_id, 0, COALESCE(p_next_rotation, NOW() + INTERVAL '30 minutes'));
+    END IF;
+    
+    PERFORM increment_crew_size(p_crew_id, 1, p_city_id);
+  END IF;
+  
+  SELECT estimated_size INTO new_size FROM current_crews WHERE city_id = p_city_id AND crew_id = p_crew_id;
+  RETURN COALESCE(new_size, 0);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Leave a crew; returns the crew's new size (NULL if the session was unknown)
+CREATE OR REPLACE FUNCTION leave_crew(
+  p_session_hash TEXT
+) RETURNS INTEGER AS $$
+DECLARE
+  left_crew INTEGER;
+  left_city TEXT;
+  new_size INTEGER;
+BEGIN
+  PERFORM pg_advisory_xact_lock(hashtext(p_session_hash));
+  
+  DELETE FROM crew_presence
+  WHERE session_hash = p_session_hash
+  RETURNING crew_id, city_id INTO left_crew, left_city;
+  
+  IF left_crew IS NULL THEN
+    RETURN NULL;
+  END IF;
+  
+  PERFORM increment_crew_size(left_crew, -1, left_city);
+  
+  SELECT estimated_size INTO new_size FROM current_crews WHERE city_id = left_city AND crew_id = left_crew;
+  RETURN COALESCE(new_size, 0);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Heartbeat from a crew member; re-joins if the session had expired
+CREATE OR REPLACE FUNCTION crew_heartbeat(
+  p_session_hash TEXT,
+  p_crew_id INTEGER,
+  p_zone_id INTEGER,
+  p_ttl_seconds INTEGER DEFAULT 360,
+  p_city_id TEXT DEFAULT 'la',
+  p_next_rotation TIMESTAMPTZ DEFAULT NULL,
+  p_mobility TEXT[] DEFAULT '{}',
+  p_max_size INTEGER DEFAULT 2000
+) RETURNS INTEGER AS $$
+DECLARE
+  new_size INTEGER;
+BEGIN
+  -- Decay everyone who went quiet before counting this member
+  PERFORM expire_stale_presence(p_ttl_seconds);
+  
+  UPDATE crew_presence
+  SET last_seen = NOW(), mobility = p_mobility
+  WHERE session_hash = p_session_hash
+  AND city_id = p_city_id
+  AND crew_id = p_crew_id;
+  
+  IF NOT FOUND THEN
+    RETURN join_crew(p_session_hash, p_crew_id, p_zone_id, p_city_id, p_next_rotation, p_mobility, p_max_size);
+  END IF;
+  
+  SELECT estimated_size INTO new_size FROM current_crews WHERE city_id = p_city_id AND crew_id = p_crew_id;
+  RETURN COALESCE(new_size, 0);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Count a new assignment and claim the periodic anchor re-check
+-- Row lock guarantees only one instance wins each check window
+CREATE OR REPLACE FUNCTION claim_anchor_assignment(
+  p_check_interval_seconds INTEGER DEFAULT 600,
+  p_city_id TEXT DEFAULT 'la'
+)
+RETURNS TABLE (
+  anchor_crew_id INTEGER,
+  anchor_zone_id INTEGER,
+  phase TEXT,
+  assignment_count INTEGER,
+  last_checked_at TIMESTAMPTZ,
+  pinned BOOLEAN,
+  should_check BOOLEAN
+) AS $$
+DECLARE
+  state anchor_state%ROWTYPE;
+  claimed BOOLEAN;
+BEGIN
+  INSERT INTO anchor_state (city_id) VALUES (p_city_id) ON CONFLICT (city_id) DO NOTHING;
+
+  SELECT * INTO state FROM anchor_state WHERE city_id = p_city_id FOR UPDATE;
+
+  -- A pinned anchor is never re-evaluated
+  claimed := NOT state.pinned
+    AND state.last_checked_at < NOW() - make_interval(secs => p_check_interval_seconds);
+
+  UPDATE anchor_state a
+  SET
+    assignment_count = a.assignment_count + 1,
+    last_checked_at = CASE WHEN claimed THEN NOW() ELSE a.last_checked_at END
+  WHERE a.city_id = p_city_id
+  RETURNING * INTO state;
+
+  RETURN QUERY SELECT
+    state.anchor_crew_id,
+    state.anchor_zone_id,
+    state.phase,
+    state.assignment_count,
+    state.last_checked_at,
+    state.pinned,
+    claimed;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Replace the anchor crew, zone and phase in one locked update
+-- p_pinned: TRUE/FALSE pins or unpins (organizers); NULL is an automatic update,
+-- which can move a pinned anchor's zone but not hand the anchor to another crew
+CREATE OR REPLACE FUNCTION set_anchor_state(
+  p_crew_id INTEGER,
+  p_zone_id INTEGER,
+  p_phase TEXT,
+  p_city_id TEXT DEFAULT 'la',
+  p_pinned BOOLEAN DEFAULT NULL
+) RETURNS SETOF anchor_state AS $$
+DECLARE
+  state anchor_state%ROWTYPE;
+BEGIN
+  INSERT INTO anchor_state (city_id) VALUES (p_city_id) ON CONFLICT (city_id) DO NOTHING;
+
+  SELECT * INTO state FROM anchor_state WHERE city_id = p_city_id FOR UPDATE;
+
+  IF p_pinned IS NULL AND state.pinned AND p_crew_id IS DISTINCT FROM state.anchor_crew_id THEN
+    RETURN QUERY SELECT * FROM anchor_state WHERE city_id = p_city_id;
+    RETURN;
+  END IF;
+
+  RETURN QUERY
+  UPDATE anchor_state
+  SET
+    anchor_crew_id = p_crew_id,
+    anchor_zone_id = p_zone_id,
+    phase = COALESCE(p_phase, phase),
+    pinned = COALESCE(p_pinned, pinned),
+    updated_at = NOW()
+  WHERE city_id = p_city_id
+  RETURNING *;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Record an incident report, rate-limited per session
+-- Only a counted crew member whose crew has stood at the zone for
+-- p_min_presence_minutes can report; the session id alone proves nothing
+-- Once enough different people report the same category in a zone, it becomes
+-- police activity (extended rather than duplicated by later reports)
+-- escalated is true only for the report that created the police activity
+CREATE OR REPLACE FUNCTION submit_incident_report(
+  p_session_hash TEXT,
+  p_zone_id INTEGER,
+  p_category TEXT,
+  p_severity TEXT,
+  p_label TEXT,
+  p_city_id TEXT DEFAULT 'la',
+  p_ttl_minutes INTEGER DEFAULT 45,
+  p_rate_limit INTEGER DEFAULT 3,
+  p_rate_window_minutes INTEGER DEFAULT 10,
+  p_corroboration INTEGER DEFAULT 3,
+  p_min_presence_minutes INTEGER DEFAULT 5,
+  p_presence_ttl_seconds INTEGER DEFAULT 360
+)
+RETURNS TABLE (
+  accepted BOOLEAN,
+  present BOOLEAN,
+  reporters INTEGER,
+  escalated BOOLEAN
+) AS $$
+DECLARE
+  recent_count INTEGER;
+  reporter_count INTEGER;
+  report_expiry TIMESTAMPTZ := NOW() + make_interval(mins => p_ttl_minutes);
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1
+    FROM crew_presence cp
+    JOIN current_crews cc ON cc.city_id = cp.city_id AND cc.crew_id = cp.crew_id
+    WHERE cp.session_hash = p_session_hash
+    AND cp.city_id = p_city_id
+    AND cc.zone_id = p_zone_id
+    AND cp.last_seen > NOW() - make_interval(secs => p_presence_ttl_seconds)
+    AND GREATEST(cp.joined_at, cc.assigned_at) <= NOW() - make_interval(mins => p_min_presence_minutes)
+  ) THEN
+    RETURN QUERY SELECT false, false, 0, false;
+    RETURN;
+  END IF;
+  
+  SELECT COUNT(*) INTO recent_count
+  FROM incident_reports ir
+  WHERE ir.session_hash = p_session_hash
+  AND ir.reported_at > NOW() - make_interval(mins => p_rate_window_minutes);
+  
+  IF recent_count >= p_rate_limit THEN
+    RETURN QUERY SELECT false, true, 0, false;
+    RETURN;
+  END IF;
+  
+  -- Repeating a report refreshes it; one person never counts twice
+  UPDATE incident_reports ir
+  SET reported_at = NOW(), expires_at = report_expiry
+  WHERE ir.session_hash = p_session_hash
+  AND ir.zone_id = p_zone_id
+  AND ir.category = p_category
+  AND ir.expires_at > NOW();
+  
+  IF NOT FOUND THEN
+    INSERT INTO incident_reports (city_id, zone_id, category, session_hash, expires_at)
+    VALUES (p_city_id, p_zone_id, p_category, p_session_hash, report_expiry);
+  END IF;
+  
+  SELECT COUNT(DISTINCT ir.session_hash) INTO reporter_count
+  FROM incident_reports ir
+  WHERE ir.zone_id = p_zone_id
+  AND ir.category = p_category
+  AND ir.expires_at > NOW();
+  
+  IF reporter_count < p_corroboration THEN
+    RETURN QUERY SELECT true, true, reporter_count, false;
+    RETURN;
+  END IF;
+  
+  UPDATE police_activity pa
+  SET severity = p_severity,
+      description = p_label || ' (' || reporter_count || ' reports)',
+      expires_at = report_expiry
+  WHERE pa.zone_id = p_zone_id
+  AND pa.report_category = p_category
+  AND pa.expires_at > NOW();
+  
+  -- Already escalated: later reports only keep it alive, without re-alerting
+  IF FOUND THEN
+    RETURN QUERY SELECT true, true, reporter_count, false;
+    RETURN;
+  END IF;
+  
+  INSERT INTO police_activity (zone_id, severity, description, source, report_category, expires_at)
+  VALUES (p_zone_id, p_severity, p_label || ' (' || reporter_count || ' reports)', 'citizen', p_category, report_expiry);
+  
+  RETURN QUERY SELECT true, true, reporter_count, true;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Hold a city's scheduled rotations until p_until (NULL resumes the schedule)
+-- Every crew's countdown moves to p_next_rotation, the first slot after the hold
+CREATE OR REPLACE FUNCTION postpone_rotation(
+  p_city_id TEXT,
+  p_until TIMESTAMPTZ,
+  p_next_rotation TIMESTAMPTZ
+) RETURNS void AS $$
+BEGIN
+  INSERT INTO rotation_control (city_id, postponed_until, updated_at)
+  VALUES (p_city_id, p_until, NOW())
+  ON CONFLICT (city_id) DO UPDATE
+  SET postponed_until = EXCLUDED.postponed_until, updated_at = NOW();
+  
+  UPDATE crew_zones cz
+  SET next_rotation = COALESCE(p_next_rotation, cz.next_rotation)
+  FROM current_crews cc
+  WHERE cc.city_id = p_city_id
+  AND cz.city_id = cc.city_id
+  AND cz.crew_id = cc.crew_id
+  AND cz.assigned_at = cc.assigned_at;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
 -- Function to get zone statistics
 CREATE OR REPLACE FUNCTION get_zone_stats(
   p_zone_id INTEGER DEFAULT NULL
@@ -200,7 +803,7 @@ BEGIN
       AND p.expires_at > NOW()
     ) as has_police_activity
   FROM zones z
-  LEFT JOIN current_crews c ON c.zone_id = z.id
+  LEFT JOIN current_crews c ON c.zone_id = z.id AND c.city_id = z.city_id
   WHERE z.active = true
   AND (p_zone_id IS NULL OR z.id = p_zone_id)
   GROUP BY z.id, z.name;
@@ -211,7 +814,8 @@ $$ LANGUAGE plpgsql;
 CREATE OR REPLACE FUNCTION find_nearby_zones(
   user_lat DECIMAL,
   user_lng DECIMAL,
-  search_radius_meters INTEGER DEFAULT 500
+  search_radius_meters INTEGER DEFAULT 500,
+  p_city_id TEXT DEFAULT NULL -- NULL searches every city
 )
 RETURNS TABLE (
   id INTEGER,
@@ -236,6 +840,7 @@ BEGIN
   FROM zones z
   WHERE z.active = true
   AND z.type != 'avoid'
+  AND (p_city_id IS NULL OR z.city_id = p_city_id)
   AND 
     -- Bounding box pre-filter for performance
     z.center_lat BETWEEN user_lat - (search_radius_meters / 111000.0) 
@@ -258,29 +863,85 @@ BEGIN
 END;
 $$ LANGUAGE plpgsql;
 
+-- Estimate walkable connections between active zones from their centers
+-- Only zones in the same city are connected
+-- Re-run after editing zones; measured 'street'/'underground' routes are kept
+-- An estimated walk counts as step-free only when both ends are
+CREATE OR REPLACE FUNCTION seed_zone_connections(
+  p_max_walk_minutes DECIMAL DEFAULT 10,
+  p_minutes_per_km DECIMAL DEFAULT 12
+) RETURNS INTEGER AS $$
+DECLARE
+  seeded INTEGER;
+BEGIN
+  INSERT INTO zone_connections (from_zone_id, to_zone_id, walk_time_minutes, distance_meters, route_type, step_free)
+  SELECT
+    pairs.from_id,
+    pairs.to_id,
+    ROUND(pairs.distance / 1000.0 * p_minutes_per_km, 1),
+    ROUND(pairs.distance),
+    'direct',
+    pairs.step_free
+  FROM (
+    SELECT
+      a.id AS from_id,
+      b.id AS to_id,
+      COALESCE(a.step_free AND b.step_free, false) AS step_free,
+      -- Haversine distance between zone centers
+      6371000 * 2 * ASIN(
+        SQRT(
+          POWER(SIN((RADIANS(b.center_lat) - RADIANS(a.center_lat)) / 2), 2) +
+          COS(RADIANS(a.center_lat)) * COS(RADIANS(b.center_lat)) *
+          POWER(SIN((RADIANS(b.center_lng) - RADIANS(a.center_lng)) / 2), 2)
+        )
+      ) AS distance
+    FROM zones a
+    JOIN zones b ON a.id <> b.id AND a.city_id = b.city_id
+    WHERE a.active = true AND b.active = true
+    AND a.type != 'avoid' AND b.type != 'avoid'
+  ) pairs
+  WHERE pairs.distance / 1000.0 * p_minutes_per_km <= p_max_walk_minutes
+  ON CONFLICT (from_zone_id, to_zone_id) DO UPDATE
+  SET walk_time_minutes = EXCLUDED.walk_time_minutes,
+      distance_meters = EXCLUDED.distance_meters,
+      step_free = EXCLUDED.step_free
+  WHERE zone_connections.route_type = 'direct';
+
+  GET DIAGNOSTICS seeded = ROW_COUNT;
+  RETURN seeded;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
 -- Grant execute permission to anon users
-GRANT EXECUTE ON FUNCTION find_nearby_zones(DECIMAL, DECIMAL, INTEGER) TO anon;
+GRANT EXECUTE ON FUNCTION find_nearby_zones(DECIMAL, DECIMAL, INTEGER, TEXT) TO anon;
 
 -- Initial zones for Los Angeles with intersection-based names
-INSERT INTO zones (name, center_lat, center_lng, type) VALUES
+INSERT INTO zones (city_id, name, center_lat, center_lng, type) VALUES
 -- Primary protest zones with intersections
-('Spring St & 1st St (City Hall South Lawn)', 34.0537, -118.2427, 'primary'),
-('S Spring St & W 1st St (LAPD HQ)', 34.0502, -118.2456, 'primary'),
-('S Hill St & W 5th St (Pershing Square)', 34.0481, -118.2506, 'primary'),
-('S Grand Ave & W 1st St (Grand Park)', 34.0569, -118.2468, 'primary'),
-('S Los Angeles St & W Temple St (Federal Building)', 34.0563, -118.2545, 'primary'),
+('la', 'Spring St & 1st St (City Hall South Lawn)', 34.0537, -118.2427, 'primary'),
+('la', 'S Spring St & W 1st St (LAPD HQ)', 34.0502, -118.2456, 'primary'),
+('la', 'S Hill St & W 5th St (Pershing Square)', 34.0481, -118.2506, 'primary'),
+('la', 'S Grand Ave & W 1st St (Grand Park)', 34.0569, -118.2468, 'primary'),
+('la', 'S Los Angeles St & W Temple St (Federal Building)', 34.0563, -118.2545, 'primary'),
 
 -- Secondary zones with intersections
-('N Broadway & W Cesar E Chavez Ave (Union Station)', 34.0561, -118.2365, 'secondary'),
-('S San Pedro St & E 2nd St (Little Tokyo)', 34.0498, -118.2399, 'secondary'),
-('S Alameda St & E 3rd St (Arts District)', 34.0403, -118.2367, 'secondary'),
-('W 6th St & S Park View St (MacArthur Park)', 34.0592, -118.2783, 'secondary'),
-('N Park Ave & Glendale Blvd (Echo Park Lake)', 34.0728, -118.2606, 'secondary'),
-('S Figueroa St & W Jefferson Blvd (USC)', 34.0224, -118.2851, 'secondary'),
-('Westwood Plaza & Charles E Young Dr (UCLA)', 34.0689, -118.4452, 'secondary'),
-('Ocean Front Walk & Windward Ave (Venice Beach)', 33.9850, -118.4695, 'secondary'),
-('Hollywood Blvd & N Highland Ave (Hollywood)', 34.1022, -118.3401, 'secondary'),
-('N Vermont Canyon Rd & E Observatory Rd (Griffith)', 34.1184, -118.3004, 'secondary');
+('la', 'N Broadway & W Cesar E Chavez Ave (Union Station)', 34.0561, -118.2365, 'secondary'),
+('la', 'S San Pedro St & E 2nd St (Little Tokyo)', 34.0498, -118.2399, 'secondary'),
+('la', 'S Alameda St & E 3rd St (Arts District)', 34.0403, -118.2367, 'secondary'),
+('la', 'W 6th St & S Park View St (MacArthur Park)', 34.0592, -118.2783, 'secondary'),
+('la', 'N Park Ave & Glendale Blvd (Echo Park Lake)', 34.0728, -118.2606, 'secondary'),
+('la', 'S Figueroa St & W Jefferson Blvd (USC)', 34.0224, -118.2851, 'secondary'),
+('la', 'Westwood Plaza & Charles E Young Dr (UCLA)', 34.0689, -118.4452, 'secondary'),
+('la', 'Ocean Front Walk & Windward Ave (Venice Beach)', 33.9850, -118.4695, 'secondary'),
+('la', 'Hollywood Blvd & N Highland Ave (Hollywood)', 34.1022, -118.3401, 'secondary'),
+('la', 'N Vermont Canyon Rd & E Observatory Rd (Griffith)', 34.1184, -118.3004, 'secondary');
+
+-- Connect zones within a 10 minute walk
+SELECT seed_zone_connections();
+
+-- Start with Crew 1 anchored at Zone A (City Hall)
+INSERT INTO anchor_state (city_id, anchor_crew_id, anchor_zone_id, phase)
+VALUES ('la', 1, 1, 'build');
 
 -- Enable realtime subscriptions
 ALTER PUBLICATION supabase_realtime ADD TABLE crew_zones;
@@ -288,8 +949,8 @@ ALTER PUBLICATION supabase_realtime ADD TABLE movement_stats;
 ALTER PUBLICATION supabase_realtime ADD TABLE police_activity;
 
 -- Create initial movement stats entry
-INSERT INTO movement_stats (total_crews_active, total_estimated_protesters, zones_occupied, rotation_number)
-VALUES (0, 0, '{}', 0);
+INSERT INTO movement_stats (city_id, total_crews_active, total_estimated_protesters, zones_occupied, rotation_number)
+VALUES ('la', 0, 0, '{}', 0);
 
 -- Grant necessary permissions for anon users (read-only)
 GRANT SELECT ON zones TO anon;
@@ -297,14 +958,17 @@ GRANT SELECT ON crew_zones TO anon;
 GRANT SELECT ON current_crews TO anon;
 GRANT SELECT ON movement_stats TO anon;
 GRANT SELECT ON police_activity TO anon;
-GRANT EXECUTE ON FUNCTION get_crew_stats() TO anon;
+GRANT SELECT ON zone_connections TO anon;
+GRANT EXECUTE ON FUNCTION get_crew_stats(TEXT) TO anon;
 GRANT EXECUTE ON FUNCTION get_zone_stats(INTEGER) TO anon;
+GRANT EXECUTE ON FUNCTION get_rotation_history(INTEGER, TEXT) TO anon;
 
 -- Additional function for getting nearby zones with crew info
 CREATE OR REPLACE FUNCTION get_zones_with_crews(
   user_lat DECIMAL DEFAULT NULL,
   user_lng DECIMAL DEFAULT NULL,
-  max_distance_meters INTEGER DEFAULT 5000
+  max_distance_meters INTEGER DEFAULT 5000,
+  p_city_id TEXT DEFAULT 'la'
 )
 RETURNS TABLE (
   zone_id INTEGER,
@@ -335,6 +999,7 @@ BEGIN
       END AS distance
     FROM zones z
     WHERE z.active = true
+    AND z.city_id = p_city_id
   ),
   zone_crews AS (
     SELECT 
@@ -348,6 +1013,7 @@ BEGIN
       ) AS crews
     FROM current_crews c
     WHERE c.estimated_size > 0
+    AND c.city_id = p_city_id
     GROUP BY c.zone_id
   )
   SELECT 
@@ -369,4 +1035,4 @@ END;
 $$ LANGUAGE plpgsql;
 
 -- Grant execute permission
-GRANT EXECUTE ON FUNCTION get_zones_with_crews(DECIMAL, DECIMAL, INTEGER) TO anon;
\ No newline at end of file
+GRANT EXECUTE ON FUNCTION get_zones_with_crews(DECIMAL, DECIMAL, INTEGER, TEXT) TO anon;
\ No newline at end of file
@@ -3,6 +3,10 @@
  * Each city gets its own subdomain or path
  */
 
+import type { DistanceUnits, Locale } from '../i18n/locale';
+import type { AssignmentStrategyId } from '../services/assignment-strategy';
+import type { SignalSourceConfig } from '../services/signal-source';
+
 export interface CityConfig {
   id: string;
   name: string;
@@ -16,6 +20,22 @@ export interface CityConfig {
   timezone: string;
   primaryZones: string[];
   geoJsonUrl?: string;
+  assignmentStrategy?: AssignmentStrategyId; // Registered strategy id, e.g. 'anchor-aware' or 'balanced'
+  rotation?: RotationScheduleConfig;
+  signalSources?: SignalSourceConfig[]; // Extra activity feeds (RSS, drop folder, webhook) - see signal-sources.ts
+  languages?: Locale[]; // Languages offered first, most spoken first; the first is the default
+  units?: DistanceUnits; // Fixed distance units; by default they follow the phone's region
+}
+
+/**
+ * When a city's crews rotate (see lib/services/rotation-schedule.ts)
+ * Times of day are in the city's timezone
+ */
+export interface RotationScheduleConfig {
+  intervalMinutes?: number; // Default 30, counted from local midnight
+  eventStart?: string; // ISO timestamp, no rotations before
+  eventEnd?: string; // ISO timestamp, no rotations after
+  quietHours?: { start: string; end: string }; // 'HH:MM', may wrap midnight (e.g. 23:00-07:00)
 }
 
 export const CITIES: Record<string, CityConfig> = {
@@ -31,7 +51,9 @@ export const CITIES: Record<string, CityConfig> = {
     walkingRadiusKm: 2,
     timezone: 'America/Los_Angeles',
     primaryZones: ['Downtown', 'Hollywood', 'Westwood', 'Venice'],
-    geoJsonUrl: '/data/los-angeles-county.geojson'
+    geoJsonUrl: '/data/los-angeles-county.geojson',
+    languages: ['en', 'es', 'ko', 'zh'],
+    assignmentStrategy: 'anchor-aware'
   },
   
   nyc: {
@@ -46,7 +68,8 @@ export const CITIES: Record<string, CityConfig> = {
     walkingRadiusKm: 1.5,
     timezone: 'America/New_York',
     primaryZones: ['Times Square', 'Union Square', 'Washington Square', 'Brooklyn Bridge'],
-    geoJsonUrl: '/data/new-york-city.geojson'
+    geoJsonUrl: '/data/new-york-city.geojson',
+    languages: ['en', 'es', 'zh', 'ko']
   },
   
   chi: {
@@ -61,7 +84,8 @@ export const CITIES: Record<string, CityConfig> = {
     walkingRadiusKm: 2,
     timezone: 'America/Chicago',
     primaryZones: ['Loop', 'Grant Park', 'Federal Plaza', 'Millennium Park'],
-    geoJsonUrl: '/data/chicago.geojson'
+    geoJsonUrl: '/data/chicago.geojson',
+    languages: ['en', 'es']
   },
   
   sf: {
@@ -76,7 +100,8 @@ export const CITIES: Record<string, CityConfig> = {
     walkingRadiusKm: 1.5,
     timezone: 'America/Los_Angeles',
     primaryZones: ['Union Square', 'Civic Center', 'Mission', 'Castro'],
-    geoJsonUrl: '/data/san-francisco.geojson'
+    geoJsonUrl: '/data/san-francisco.geojson',
+    languages: ['en', 'zh', 'es']
   },
   
   dc: {
@@ -91,7 +116,8 @@ export const CITIES: Record<string, CityConfig> = {
     walkingRadiusKm: 1.5,
     timezone: 'America/New_York',
     primaryZones: ['White House', 'Capitol', 'Lincoln Memorial', 'BLM Plaza'],
-    geoJsonUrl: '/data/washington-dc.geojson'
+    geoJsonUrl: '/data/washington-dc.geojson',
+    languages: ['en', 'es']
   },
   
   sea: {
@@ -106,7 +132,8 @@ export const CITIES: Record<string, CityConfig> = {
     walkingRadiusKm: 2,
     timezone: 'America/Los_Angeles',
     primaryZones: ['Capitol Hill', 'Downtown', 'University District', 'Cal Anderson'],
-    geoJsonUrl: '/data/seattle.geojson'
+    geoJsonUrl: '/data/seattle.geojson',
+    languages: ['en', 'zh', 'es', 'ko']
   },
   
   atl: {
@@ -121,7 +148,8 @@ export const CITIES: Record<string, CityConfig> = {
     walkingRadiusKm: 2,
     timezone: 'America/New_York',
     primaryZones: ['Downtown', 'Centennial Park', 'CNN Center', 'State Capitol'],
-    geoJsonUrl: '/data/atlanta.geojson'
+    geoJsonUrl: '/data/atlanta.geojson',
+    languages: ['en', 'es', 'ko']
   },
   
   pdx: {
@@ -136,7 +164,8 @@ export const CITIES: Record<string, CityConfig> = {
     walkingRadiusKm: 1.5,
     timezone: 'America/Los_Angeles',
     primaryZones: ['Downtown', 'Pioneer Square', 'Waterfront', 'Justice Center'],
-    geoJsonUrl: '/data/portland.geojson'
+    geoJsonUrl: '/data/portland.geojson',
+    languages: ['en', 'es', 'zh']
   }
 };
 
@@ -149,22 +178,77 @@ export function getCityConfig(cityId: string): CityConfig | null {
 
 /**
  * Get city from hostname or path
+ * Returns null when the URL doesn't name a configured city
  */
 export function getCityFromUrl(url: string): CityConfig | null {
+  const { hostname, pathname } = new URL(url, 'http://localhost');
+  
   // Check subdomain first (e.g., la.overwhelm.city)
-  const subdomain = url.split('.')[0];
-  if (CITIES[subdomain]) {
+  const subdomain = hostname.split('.')[0].toLowerCase();
+  if (hostname.includes('.') && CITIES[subdomain]) {
     return CITIES[subdomain];
   }
   
-  // Check path (e.g., overwhelm.city/la)
-  const pathMatch = url.match(/\/([a-z]{2,3})\/?$/);
-  if (pathMatch && CITIES[pathMatch[1]]) {
-    return CITIES[pathMatch[1]];
+  // Check path (e.g., overwhelm.city/la or /la/debrief)
+  const segment = pathname.split('/')[1]?.toLowerCase();
+  if (segment && CITIES[segment]) {
+    return CITIES[segment];
   }
   
-  // Default to LA
-  return CITIES.la;
+  return null;
+}
+
+/**
+ * Get the city this deployment is configured for (from env)
+ * Used when a request doesn't name a city
+ */
+export function getDeploymentCity(): CityConfig {
+  return getCityConfig(process.env.NEXT_PUBLIC_CITY_SHORT || 'la') || CITIES.la;
+}
+
+// Set by middleware on every request; API routes read it via getRequestCity
+export const CITY_HEADER = 'x-overwhelm-city';
+
+// Remembers the last city page visited, for API calls that carry no other hint
+export const CITY_COOKIE = 'overwhelm-city';
+
+/**
+ * Resolve the city for an incoming request
+ * Explicit ?city= wins, then subdomain/path, then the page that made the
+ * call (Referer), then the last city visited, then the deployment city
+ */
+export function resolveRequestCity(request: {
+  url: string;
+  referer?: string | null;
+  cookie?: string | null;
+}): CityConfig {
+  const explicit = new URL(request.url, 'http://localhost').searchParams.get('city');
+  
+  return (explicit ? getCityConfig(explicit) : null)
+    || getCityFromUrl(request.url)
+    || (request.referer ? getCityFromUrl(request.referer) : null)
+    || (request.cookie ? getCityConfig(request.cookie) : null)
+    || getDeploymentCity();
+}
+
+/**
+ * City resolved by middleware for this request
+ */
+export function getRequestCity(request: Request): CityConfig {
+  return getCityConfig(request.headers.get(CITY_HEADER) || '') || getDeploymentCity();
+}
+
+/**
+ * City the browser is currently showing
+ * Falls back to the deployment city during server rendering
+ */
+export function getCurrentCity(): CityConfig {
+  if (typeof window === 'undefined') return getDeploymentCity();
+  
+  const cookie = document.cookie.match(new RegExp(`(?:^|; )${CITY_COOKIE}=([^;]*)`))?.[1];
+  return getCityFromUrl(window.location.href)
+    || (cookie ? getCityConfig(cookie) : null)
+    || getDeploymentCity();
 }
 
 /**
@@ -0,0 +1,15 @@
+/**
+ * Incident report categories
+ * Shared by the report form and the server; severity is what a
+ * corroborated report sets on the zone's police activity
+ */
+
+export const REPORT_CATEGORIES = {
+  medical: { label: 'Medical need', severity: 'high' },
+  blocked_route: { label: 'Blocked route', severity: 'medium' },
+  hazard: { label: 'Hazard', severity: 'high' },
+  crowd_crush: { label: 'Crowd crush risk', severity: 'critical' },
+  supply_shortage: { label: 'Supply shortage', severity: 'low' }
+} as const;
+
+export type ReportCategory = keyof typeof REPORT_CATEGORIES;
@@ -0,0 +1,48 @@
+/**
+ * Rotation reasons
+ * Why the planner moved (or held) a crew. Saved and sent as codes, comma
+ * separated when several apply, so each phone words them in its own language
+ */
+
+import type { MessageKey, Translate } from '../i18n/locale';
+
+export const ROTATION_REASONS = [
+  'leaving-police',
+  'short-walk',
+  'high-visibility',
+  'empty-zone',
+  'police-activity',
+  'possible-police-activity',
+  'metro-access',
+  'large-group',
+  'rebalancing',
+  'no-accessible-route',
+  'holding',
+  'anchor-holds',
+  'no-accessible-zone',
+  'no-walkable-zone',
+  'evacuation'
+] as const;
+
+export type RotationReason = (typeof ROTATION_REASONS)[number];
+
+/**
+ * Reason codes in a saved reason; unknown codes (e.g. rows from older
+ * versions) are dropped
+ */
+export function parseRotationReasons(reason: string | null | undefined): RotationReason[] {
+  return (reason || '')
+    .split(',')
+    .map(code => code.trim())
+    .filter((code): code is RotationReason => (ROTATION_REASONS as readonly string[]).includes(code));
+}
+
+/**
+ * A saved reason in the reader's language, or null if it has no known codes
+ */
+export function describeRotationReason(reason: string | null | undefined, t: Translate): string | null {
+  const codes = parseRotationReasons(reason);
+  if (codes.length === 0) return null;
+
+  return codes.map(code => t(`reason.${code}` as MessageKey)).join(t('reason.separator'));
+}
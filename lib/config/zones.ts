@@ -3,12 +3,20 @@
  * Each city can provide their own GeoJSON file with neighborhood boundaries
  */
 
+import {
+  ZoneGeometry,
+  calculateBounds,
+  calculateCentroid,
+  isZoneGeometry
+} from '../services/zone-geometry';
+
 export interface Zone {
   id: string;
   name: string;
   type: 'primary' | 'secondary' | 'avoid';
   center: [number, number]; // [lng, lat] for GeoJSON compatibility
   bounds?: [[number, number], [number, number]]; // SW, NE corners
+  geometry?: ZoneGeometry; // Full boundary, all parts and holes
   properties?: Record<string, any>;
 }
 
@@ -46,30 +54,18 @@ export async function loadZonesFromGeoJSON(geoJsonUrl: string): Promise<Zone[]>
     
     for (const feature of geoData.features) {
       const name = feature.properties?.name || feature.properties?.NAME || 'Unknown';
-      const geometry = feature.geometry;
+      const geometry = isZoneGeometry(feature.geometry) ? feature.geometry : undefined;
       
-      // Calculate center point (rough centroid)
+      // Area-weighted center and bounds over every part of the boundary
       let center: [number, number] = [0, 0];
       let bounds: [[number, number], [number, number]] | undefined;
       
-      if (geometry.type === 'Polygon') {
-        const coordinates = geometry.coordinates[0];
-        center = calculateCentroid(coordinates);
-        bounds = calculateBounds(coordinates);
-      } else if (geometry.type === 'MultiPolygon') {
-        // Use the first polygon for simplicity
-        const coordinates = geometry.coordinates[0][0];
-        center = calculateCentroid(coordinates);
-        bounds = calculateBounds(coordinates);
+      if (geometry) {
+        center = calculateCentroid(geometry);
+        bounds = calculateBounds(geometry);
       }
       
-      // Determine zone type
-      let type: Zone['type'] = 'secondary';
-      if (PRIMARY_ZONES.some(pz => name.toLowerCase().includes(pz.toLowerCase()))) {
-        type = 'primary';
-      } else if (AVOID_ZONES.some(az => name.toLowerCase().includes(az.toLowerCase()))) {
-        type = 'avoid';
-      }
+      const type = classifyZone(name);
       
       zones.push({
         id: feature.properties?.id || name.toLowerCase().replace(/\s+/g, '-'),
@@ -77,6 +73,7 @@ export async function loadZonesFromGeoJSON(geoJsonUrl: string): Promise<Zone[]>
         type,
         center,
         bounds,
+        geometry,
         properties: feature.properties
       });
     }
@@ -90,37 +87,18 @@ export async function loadZonesFromGeoJSON(geoJsonUrl: string): Promise<Zone[]>
 }
 
 /**
- * Calculate rough centroid of polygon coordinates
+ * Determine zone type from its name using PRIMARY_ZONES / AVOID_ZONES
  */
-function calculateCentroid(coordinates: number[][]): [number, number] {
-  let sumLng = 0;
-  let sumLat = 0;
+export function classifyZone(name: string): Zone['type'] {
+  const lowerName = name.toLowerCase();
   
-  for (const [lng, lat] of coordinates) {
-    sumLng += lng;
-    sumLat += lat;
+  if (PRIMARY_ZONES.some(pz => lowerName.includes(pz.toLowerCase()))) {
+    return 'primary';
   }
-  
-  return [sumLng / coordinates.length, sumLat / coordinates.length];
-}
-
-/**
- * Calculate bounding box of polygon
- */
-function calculateBounds(coordinates: number[][]): [[number, number], [number, number]] {
-  let minLng = Infinity;
-  let minLat = Infinity;
-  let maxLng = -Infinity;
-  let maxLat = -Infinity;
-  
-  for (const [lng, lat] of coordinates) {
-    minLng = Math.min(minLng, lng);
-    minLat = Math.min(minLat, lat);
-    maxLng = Math.max(maxLng, lng);
-    maxLat = Math.max(maxLat, lat);
+  if (AVOID_ZONES.some(az => lowerName.includes(az.toLowerCase()))) {
+    return 'avoid';
   }
-  
-  return [[minLng, minLat], [maxLng, maxLat]];
+  return 'secondary';
 }
 
 /**
@@ -0,0 +1,226 @@
+/**
+ * English messages - the reference catalog
+ * Every other catalog has exactly these keys; {name} placeholders are
+ * filled in by translate()
+ */
+
+export const en = {
+  // Shared
+  'common.solidarity': 'Solidarity',
+  'common.tryAgain': 'Try Again',
+  'common.withCrew': "I'm with my crew",
+  'common.goTo': 'GO TO',
+  'common.zone': 'ZONE {letter}',
+  'common.crewName': 'Crew {number}',
+  'common.language': 'Language',
+
+  // Distances and walking times
+  'distance.feet': '{value} feet',
+  'distance.miles': '{value} miles',
+  'distance.meters': '{value} m',
+  'distance.kilometers': '{value} km',
+  'walk.minutes': '{minutes} min walk',
+  'walk.hours': '{hours}h {minutes}min walk',
+
+  // Durations and countdowns
+  'time.now': 'now',
+  'time.minutes': '{minutes} min',
+  'time.hours': '{hours}h {minutes}min',
+
+  // Compass directions for walking steps
+  'direction.north': 'north',
+  'direction.northeast': 'northeast',
+  'direction.east': 'east',
+  'direction.southeast': 'southeast',
+  'direction.south': 'south',
+  'direction.southwest': 'southwest',
+  'direction.west': 'west',
+  'direction.northwest': 'northwest',
+
+  // Location check (geofence.ts)
+  'geofence.testMode': 'Test mode enabled',
+  'geofence.unsupported': 'Location services are required to use this tool',
+  'geofence.outsideCity': "You're {distance} from {city}. This tool is for on-the-ground protesters only.",
+  'geofence.tooFar': 'You need to be within walking distance ({radius}) of an active protest zone. Nearest zone is {distance} away.',
+  'geofence.denied': 'Location access required. Please enable location services and reload.',
+
+  // Location gate
+  'gate.checking': 'Checking location...',
+  'gate.checkingHint': 'Please wait while we verify your location',
+  'gate.title': 'Location Verification Required',
+  'gate.why': 'Why Use Overwhelm?',
+  'gate.together.title': 'Stay Together:',
+  'gate.together.text': 'Groups protesters into crews for maximum impact, protestor safety, and movement coordination.',
+  'gate.safely.title': 'Move Safely:',
+  'gate.safely.text': 'Coordinates movement of crews to avoid danger, and amplify the impact of the movement.',
+  'gate.streets.title': 'Fill the Streets:',
+  'gate.streets.text': 'Distributes crowds across zones to create a unified, visible movement.',
+  'gate.anonymous.title': 'Stay Anonymous:',
+  'gate.anonymous.text': 'No sign-ups, no tracking, no data stored, no bullshit. Fuck big tech.',
+  'gate.verify': 'Verify My Location',
+  'gate.privacy': 'Your location is only used for zone assignment and is never stored. You will be asked to verify location every time you check in to a protest. This keeps access limited to our people on the ground.',
+  'gate.blockedTitle': 'Location Verification Required - Never stored.',
+  'gate.mustBeWithin': 'You must be within walking distance',
+  'gate.radius': '{distance} radius',
+  'gate.youAreAway': 'You are {time} away',
+  'gate.openSource': 'This is an open source tool.',
+  'gate.deploy': 'Deploy for your city',
+  'gate.checkFailed': 'Location check failed. Please try again.',
+  'gate.welcome': 'Welcome to the Movement',
+  'gate.joinCrewHere': 'Join {crew} at this location',
+  'gate.crewSize': '{count} people in your crew',
+  'gate.rotationInterval': 'Crew rotations happen every {minutes} minutes',
+  'gate.assignFailedTitle': 'Crew Assignment Failed',
+  'gate.assignFailed': 'Failed to assign crew',
+  'gate.assignError': 'Unable to assign crew. Please try again.',
+  'gate.assigning': 'Assigning crew...',
+  'gate.assigningHint': 'Finding the best crew for your location',
+
+  // Crew assignment
+  'crew.finding': 'Finding nearest crew...',
+  'crew.join': 'Join a crew',
+  'crew.noLogin': 'No login required • No personal data stored',
+  'crew.mobility.legend': 'Mobility needs (optional)',
+  'crew.mobility.hint': 'Keeps your crew on accessible zones and shorter, step-free walks. Saved only on this phone.',
+  'crew.locationRequired': 'Location access required. Please enable location services and try again.',
+  'crew.joinFailed': 'Unable to join crew. Please ensure you are near a protest zone.',
+  'crew.zoneReopened': 'Zone reopened',
+  'crew.zoneReopenedText': '{zone} is open again.',
+  'crew.zoneClosed': 'Zone closed',
+  'crew.zoneClosedText': 'Organizers closed {zone}. Stay with your crew until your next move.',
+  'crew.safetyAlert': 'Safety alert: {zone}',
+  'crew.dismiss': 'Dismiss',
+  'crew.yourAssignment': 'Your Assignment',
+  'crew.participants': '{count} participants',
+  'crew.notAccessible': 'No accessible zone is tagged nearby yet - this crew may use stairs or longer walks. Ask an organizer for help getting there.',
+  'crew.joinHere': 'Join your crew at this location',
+  'crew.timeToMove': 'TIME TO MOVE TO NEW ZONE',
+  'crew.currentZone': 'YOUR CURRENT ZONE',
+  'crew.offline': "You're offline. Stay with your crew - your new zone appears when you reconnect.",
+  'crew.getNewZone': 'Get New Zone Assignment',
+  'crew.mapTitle': 'Your Zone',
+  'crew.movesIn': 'Crew moves in',
+  'crew.movementInProgress': 'Movement in Progress',
+  'crew.timeUntilMove': 'Time Until Next Movement',
+  'crew.joinBeforeMove': 'Join before movement or wait for next cycle',
+  'crew.rotationInterval': 'Crews move to new zones every {minutes} minutes',
+  'crew.cancel': 'Cancel',
+  'crew.leave': 'Leave crew',
+  'crew.loading': 'Loading...',
+  'crew.holding': 'Holding position',
+  'crew.moveNow': 'TIME TO MOVE!',
+
+  // Walking directions
+  'directions.title': 'How to get there',
+  'directions.step': 'Head {direction} to {zone}',
+  'directions.lastStep': 'Head {direction} to {zone} - your new zone',
+  'directions.arrive': 'Arrive about {time}',
+  'directions.holdTime': '{time} there before the next move',
+  'directions.avoids': 'Route avoids zones with active police reports',
+  'directions.notStepFree': 'No step-free route found - this way may have stairs or curbs',
+
+  // Mobility needs
+  'mobility.wheelchair': 'Wheelchair or mobility aid',
+  'mobility.limited-walking': 'Limited walking',
+  'mobility.seating-shade': 'Need seating or shade',
+
+  // Evacuation order
+  'evacuate.title': 'EVACUATE NOW',
+  'evacuate.leave': 'Leave {zone}',
+  'evacuate.go': 'Go {direction}',
+  'evacuate.goTo': 'Go to',
+  'evacuate.directions': 'Walking directions',
+  'evacuate.moving': "I'm moving",
+
+  // Incident reports
+  'report.open': 'Report a problem here',
+  'report.cancel': 'Cancel',
+  'report.category.medical': 'Medical need',
+  'report.category.blocked_route': 'Blocked route',
+  'report.category.hazard': 'Hazard',
+  'report.category.crowd_crush': 'Crowd crush risk',
+  'report.category.supply_shortage': 'Supply shortage',
+  'report.queued': 'Offline - report will be sent when you reconnect',
+  'report.confirmed': 'Confirmed by others - crews will route around it',
+  'report.received': 'Report received ({reporters} of {needed} needed to confirm)',
+  'report.outsideZone': 'You must be inside the zone to report from it',
+  'report.notPresent': 'Only crew members who have been at this zone for a few minutes can report',
+  'report.tooMany': 'Too many reports - try again in a few minutes',
+  'report.locationRequired': 'Location access required to report',
+  'report.failed': 'Report failed - try again',
+
+  // Zone map
+  'map.title': '{city} Protest Zones',
+  'map.active': 'Active',
+  'map.danger': 'Danger',
+  'map.empty': 'Empty',
+  'map.yourZone': 'Your zone',
+  'map.prev': 'Prev',
+  'map.play': 'Play',
+  'map.pause': 'Pause',
+  'map.next': 'Next',
+  'map.rotation': 'Rotation {number} • {time} • {moved} crews moved',
+  'map.noRotations': 'No rotations recorded yet',
+  'map.hint': 'Tap zones for details • Drag and pinch to move around',
+
+  // Rotation debrief
+  'debrief.title': 'Rotation Debrief',
+  'debrief.subtitle': 'How crews moved over the last 24 hours',
+  'debrief.loading': 'Loading rotations...',
+  'debrief.rotations': 'Rotations',
+  'debrief.time': 'Time',
+  'debrief.crew': 'Crew',
+  'debrief.move': 'Move',
+  'debrief.reason': 'Reason',
+  'debrief.heldAt': 'Held at {zone}',
+  'debrief.zone': 'Zone {id}',
+  'debrief.unknownZone': 'Unknown',
+  'debrief.empty': 'No rotations recorded in the last 24 hours',
+
+  // Next rotation countdown
+  'rotation.now': 'ROTATING NOW!',
+  'rotation.nextIn': 'Next Crew Movement In',
+  'rotation.getReady': 'Get ready to move!',
+
+  // Crew stats
+  'stats.crews': 'CREWS',
+  'stats.total': 'TOTAL',
+  'stats.zones': 'ZONES',
+  'stats.growing': 'GROWING FAST!',
+
+  // Notifications
+  'notify.move.title': '📍 TIME TO MOVE',
+  'notify.move.body': 'Your crew is moving to a new zone. Check the app for details.',
+  'notify.danger.title': '⚠️ DANGER ALERT',
+  'notify.danger.body': 'Heavy police activity reported. Check app for safe zones.',
+
+  // Why a crew moved or held, from lib/config/rotation-reasons.ts
+  'reason.separator': ', ',
+  'reason.leaving-police': 'leaving police activity',
+  'reason.short-walk': 'short walk',
+  'reason.high-visibility': 'high visibility',
+  'reason.empty-zone': 'empty zone',
+  'reason.police-activity': 'police activity',
+  'reason.possible-police-activity': 'possible police activity',
+  'reason.metro-access': 'metro access',
+  'reason.large-group': 'visibility for large group',
+  'reason.rebalancing': 'rebalancing crews',
+  'reason.no-accessible-route': 'no accessible route',
+  'reason.holding': 'holding position',
+  'reason.anchor-holds': 'anchor holds position',
+  'reason.no-accessible-zone': 'no accessible zone available',
+  'reason.no-walkable-zone': 'no walkable zone available',
+  'reason.evacuation': 'evacuation',
+
+  // Safety alerts in the crew's zone
+  'alert.report': '{category} reported by {reporters} people',
+  'alert.policeActivity': 'Police activity reported in your zone',
+
+  // Web Push, sent by the server in each subscriber's language
+  'push.move.title': 'Time to move',
+  'push.move.body': 'Head to {zone} ({walk})',
+  'push.evacuate.body': 'Leave {from}. {go}: {to} ({walk})',
+  'push.alert.title': 'Safety alert'
+};
+
+export type Messages = Record<keyof typeof en, string>;
@@ -0,0 +1,224 @@
+/**
+ * Spanish messages
+ */
+
+import type { Messages } from './en';
+
+export const es: Messages = {
+  // Shared
+  'common.solidarity': 'Solidaridad',
+  'common.tryAgain': 'Intentar de nuevo',
+  'common.withCrew': 'Estoy con mi grupo',
+  'common.goTo': 'VE A',
+  'common.zone': 'ZONA {letter}',
+  'common.crewName': 'Grupo {number}',
+  'common.language': 'Idioma',
+
+  // Distances and walking times
+  'distance.feet': '{value} pies',
+  'distance.miles': '{value} millas',
+  'distance.meters': '{value} m',
+  'distance.kilometers': '{value} km',
+  'walk.minutes': '{minutes} min a pie',
+  'walk.hours': '{hours} h {minutes} min a pie',
+
+  // Durations and countdowns
+  'time.now': 'ahora',
+  'time.minutes': '{minutes} min',
+  'time.hours': '{hours} h {minutes} min',
+
+  // Compass directions for walking steps
+  'direction.north': 'al norte',
+  'direction.northeast': 'al noreste',
+  'direction.east': 'al este',
+  'direction.southeast': 'al sureste',
+  'direction.south': 'al sur',
+  'direction.southwest': 'al suroeste',
+  'direction.west': 'al oeste',
+  'direction.northwest': 'al noroeste',
+
+  // Location check (geofence.ts)
+  'geofence.testMode': 'Modo de prueba activado',
+  'geofence.unsupported': 'Se necesitan los servicios de ubicación para usar esta herramienta',
+  'geofence.outsideCity': 'Estás a {distance} de {city}. Esta herramienta es solo para manifestantes en la calle.',
+  'geofence.tooFar': 'Tienes que estar a distancia caminable ({radius}) de una zona de protesta activa. La zona más cercana está a {distance}.',
+  'geofence.denied': 'Se necesita acceso a tu ubicación. Activa los servicios de ubicación y vuelve a cargar la página.',
+
+  // Location gate
+  'gate.checking': 'Verificando ubicación...',
+  'gate.checkingHint': 'Espera mientras verificamos tu ubicación',
+  'gate.title': 'Se requiere verificar tu ubicación',
+  'gate.why': '¿Por qué usar Overwhelm?',
+  'gate.together.title': 'Mantente en grupo:',
+  'gate.together.text': 'Reúne a los manifestantes en grupos para lograr más impacto, más seguridad y una mejor coordinación.',
+  'gate.safely.title': 'Muévete con seguridad:',
+  'gate.safely.text': 'Coordina el movimiento de los grupos para evitar el peligro y amplificar el impacto del movimiento.',
+  'gate.streets.title': 'Llena las calles:',
+  'gate.streets.text': 'Reparte a la gente entre las zonas para crear un movimiento unido y visible.',
+  'gate.anonymous.title': 'Mantente anónimo:',
+  'gate.anonymous.text': 'Sin registros, sin rastreo, sin datos guardados, sin tonterías. Al carajo con las grandes tecnológicas.',
+  'gate.verify': 'Verificar mi ubicación',
+  'gate.privacy': 'Tu ubicación solo se usa para asignarte una zona y nunca se guarda. Te pediremos verificarla cada vez que llegues a una protesta. Así el acceso queda limitado a nuestra gente en la calle.',
+  'gate.blockedTitle': 'Se requiere verificar tu ubicación. Nunca se guarda.',
+  'gate.mustBeWithin': 'Tienes que estar a distancia caminable',
+  'gate.radius': 'Radio de {distance}',
+  'gate.youAreAway': 'Estás a {time}',
+  'gate.openSource': 'Esta es una herramienta de código abierto.',
+  'gate.deploy': 'Instálala para tu ciudad',
+  'gate.checkFailed': 'No se pudo verificar tu ubicación. Inténtalo de nuevo.',
+  'gate.welcome': 'Bienvenido al movimiento',
+  'gate.joinCrewHere': 'Únete a {crew} en este lugar',
+  'gate.crewSize': '{count} personas en tu grupo',
+  'gate.rotationInterval': 'Los grupos rotan cada {minutes} minutos',
+  'gate.assignFailedTitle': 'No se pudo asignar un grupo',
+  'gate.assignFailed': 'No se pudo asignar un grupo',
+  'gate.assignError': 'No se pudo asignar un grupo. Inténtalo de nuevo.',
+  'gate.assigning': 'Asignando grupo...',
+  'gate.assigningHint': 'Buscando el mejor grupo para tu ubicación',
+
+  // Crew assignment
+  'crew.finding': 'Buscando el grupo más cercano...',
+  'crew.join': 'Unirme a un grupo',
+  'crew.noLogin': 'Sin cuenta • No guardamos datos personales',
+  'crew.mobility.legend': 'Necesidades de movilidad (opcional)',
+  'crew.mobility.hint': 'Mantiene a tu grupo en zonas accesibles y en recorridos más cortos y sin escalones. Solo se guarda en este teléfono.',
+  'crew.locationRequired': 'Se necesita acceso a tu ubicación. Activa los servicios de ubicación e inténtalo de nuevo.',
+  'crew.joinFailed': 'No pudiste unirte a un grupo. Asegúrate de estar cerca de una zona de protesta.',
+  'crew.zoneReopened': 'Zona reabierta',
+  'crew.zoneReopenedText': '{zone} está abierta otra vez.',
+  'crew.zoneClosed': 'Zona cerrada',
+  'crew.zoneClosedText': 'Los organizadores cerraron {zone}. Quédate con tu grupo hasta el próximo movimiento.',
+  'crew.safetyAlert': 'Alerta de seguridad: {zone}',
+  'crew.dismiss': 'Cerrar',
+  'crew.yourAssignment': 'Tu asignación',
+  'crew.participants': '{count} participantes',
+  'crew.notAccessible': 'Todavía no hay zonas accesibles marcadas cerca; este grupo podría usar escaleras o recorridos más largos. Pide ayuda a un organizador para llegar.',
+  'crew.joinHere': 'Únete a tu grupo en este lugar',
+  'crew.timeToMove': 'HORA DE IR A UNA NUEVA ZONA',
+  'crew.currentZone': 'TU ZONA ACTUAL',
+  'crew.offline': 'Estás sin conexión. Quédate con tu grupo; tu nueva zona aparecerá cuando vuelvas a conectarte.',
+  'crew.getNewZone': 'Obtener nueva zona',
+  'crew.mapTitle': 'Tu zona',
+  'crew.movesIn': 'El grupo se mueve en',
+  'crew.movementInProgress': 'Movimiento en curso',
+  'crew.timeUntilMove': 'Tiempo para el próximo movimiento',
+  'crew.joinBeforeMove': 'Únete antes del movimiento o espera al próximo ciclo',
+  'crew.rotationInterval': 'Los grupos cambian de zona cada {minutes} minutos',
+  'crew.cancel': 'Cancelar',
+  'crew.leave': 'Salir del grupo',
+  'crew.loading': 'Cargando...',
+  'crew.holding': 'Manteniendo posición',
+  'crew.moveNow': '¡HORA DE MOVERSE!',
+
+  // Walking directions
+  'directions.title': 'Cómo llegar',
+  'directions.step': 'Camina {direction} hasta {zone}',
+  'directions.lastStep': 'Camina {direction} hasta {zone}, tu nueva zona',
+  'directions.arrive': 'Llegada aprox. {time}',
+  'directions.holdTime': '{time} allí antes del próximo movimiento',
+  'directions.avoids': 'La ruta evita zonas con reportes de policía activos',
+  'directions.notStepFree': 'No hay ruta sin escalones; este camino puede tener escaleras o bordillos',
+
+  // Mobility needs
+  'mobility.wheelchair': 'Silla de ruedas o ayuda para moverme',
+  'mobility.limited-walking': 'Puedo caminar poco',
+  'mobility.seating-shade': 'Necesito asiento o sombra',
+
+  // Evacuation order
+  'evacuate.title': 'EVACÚA AHORA',
+  'evacuate.leave': 'Sal de {zone}',
+  'evacuate.go': 'Ve {direction}',
+  'evacuate.goTo': 'Ve a',
+  'evacuate.directions': 'Cómo llegar a pie',
+  'evacuate.moving': 'Ya me estoy moviendo',
+
+  // Incident reports
+  'report.open': 'Reportar un problema aquí',
+  'report.cancel': 'Cancelar',
+  'report.category.medical': 'Necesidad médica',
+  'report.category.blocked_route': 'Ruta bloqueada',
+  'report.category.hazard': 'Peligro',
+  'report.category.crowd_crush': 'Riesgo de aplastamiento',
+  'report.category.supply_shortage': 'Faltan suministros',
+  'report.queued': 'Sin conexión - el reporte se enviará cuando vuelvas a conectarte',
+  'report.confirmed': 'Confirmado por otras personas - los grupos lo evitarán',
+  'report.received': 'Reporte recibido ({reporters} de {needed} necesarios para confirmar)',
+  'report.outsideZone': 'Tienes que estar dentro de la zona para reportar desde ella',
+  'report.notPresent': 'Solo pueden reportar los miembros de un grupo que llevan unos minutos en esta zona',
+  'report.tooMany': 'Demasiados reportes - inténtalo de nuevo en unos minutos',
+  'report.locationRequired': 'Se necesita acceso a la ubicación para reportar',
+  'report.failed': 'No se pudo enviar el reporte - inténtalo de nuevo',
+
+  // Zone map
+  'map.title': 'Zonas de protesta de {city}',
+  'map.active': 'Activa',
+  'map.danger': 'Peligro',
+  'map.empty': 'Vacía',
+  'map.yourZone': 'Tu zona',
+  'map.prev': 'Anterior',
+  'map.play': 'Reproducir',
+  'map.pause': 'Pausa',
+  'map.next': 'Siguiente',
+  'map.rotation': 'Rotación {number} • {time} • {moved} grupos se movieron',
+  'map.noRotations': 'Aún no hay rotaciones registradas',
+  'map.hint': 'Toca las zonas para ver detalles • Arrastra y pellizca para moverte',
+
+  // Rotation debrief
+  'debrief.title': 'Resumen de rotaciones',
+  'debrief.subtitle': 'Cómo se movieron los grupos en las últimas 24 horas',
+  'debrief.loading': 'Cargando rotaciones...',
+  'debrief.rotations': 'Rotaciones',
+  'debrief.time': 'Hora',
+  'debrief.crew': 'Grupo',
+  'debrief.move': 'Movimiento',
+  'debrief.reason': 'Motivo',
+  'debrief.heldAt': 'Se quedó en {zone}',
+  'debrief.zone': 'Zona {id}',
+  'debrief.unknownZone': 'Desconocida',
+  'debrief.empty': 'No hay rotaciones registradas en las últimas 24 horas',
+
+  // Next rotation countdown
+  'rotation.now': '¡ROTANDO AHORA!',
+  'rotation.nextIn': 'Próximo movimiento en',
+  'rotation.getReady': '¡Prepárate para moverte!',
+
+  // Crew stats
+  'stats.crews': 'GRUPOS',
+  'stats.total': 'TOTAL',
+  'stats.zones': 'ZONAS',
+  'stats.growing': '¡CRECIENDO RÁPIDO!',
+
+  // Notifications
+  'notify.move.title': '📍 HORA DE MOVERSE',
+  'notify.move.body': 'Tu grupo se mueve a una nueva zona. Revisa la app para más detalles.',
+  'notify.danger.title': '⚠️ ALERTA DE PELIGRO',
+  'notify.danger.body': 'Se reporta fuerte actividad policial. Revisa la app para ver zonas seguras.',
+
+  // Why a crew moved or held, from lib/config/rotation-reasons.ts
+  'reason.separator': ', ',
+  'reason.leaving-police': 'saliendo de la actividad policial',
+  'reason.short-walk': 'caminata corta',
+  'reason.high-visibility': 'alta visibilidad',
+  'reason.empty-zone': 'zona vacía',
+  'reason.police-activity': 'actividad policial',
+  'reason.possible-police-activity': 'posible actividad policial',
+  'reason.metro-access': 'acceso al metro',
+  'reason.large-group': 'visibilidad para un grupo grande',
+  'reason.rebalancing': 'reequilibrando los grupos',
+  'reason.no-accessible-route': 'sin ruta accesible',
+  'reason.holding': 'manteniendo la posición',
+  'reason.anchor-holds': 'el grupo ancla mantiene su posición',
+  'reason.no-accessible-zone': 'no hay zonas accesibles disponibles',
+  'reason.no-walkable-zone': 'no hay zonas a pie disponibles',
+  'reason.evacuation': 'evacuación',
+
+  // Safety alerts in the crew's zone
+  'alert.report': '{category}: reportado por {reporters} personas',
+  'alert.policeActivity': 'Se reporta actividad policial en tu zona',
+
+  // Web Push, sent by the server in each subscriber's language
+  'push.move.title': 'Hora de moverse',
+  'push.move.body': 'Ve a {zone} ({walk})',
+  'push.evacuate.body': 'Sal de {from}. {go}: {to} ({walk})',
+  'push.alert.title': 'Alerta de seguridad'
+};
@@ -0,0 +1,128 @@
+/**
+ * Distance and time formatting
+ * One place for how far, how long and when, in the phone's language, the
+ * city's units (or the phone's region) and the city's clock.
+ */
+
+import type { CityConfig } from '../config/cities';
+import { getCurrentCity } from '../config/cities';
+import { DistanceUnits, Locale, getDistanceUnits, getLocale, translate } from './locale';
+
+export interface FormatContext {
+  locale: Locale;
+  units: DistanceUnits;
+  timezone: string; // Clock times are the city's, wherever the phone is set
+}
+
+export const WALK_MINUTES_PER_KM = 12; // ~5km/h, the pace seed_zone_connections assumes
+
+/**
+ * Formatting settings for a city - its units if it sets them, otherwise the phone's region
+ */
+export function getFormatContext(
+  city: CityConfig = getCurrentCity(),
+  locale: Locale = getLocale(city)
+): FormatContext {
+  return {
+    locale,
+    units: city.units || getDistanceUnits(),
+    timezone: city.timezone
+  };
+}
+
+/**
+ * Distance for display - miles and feet, or km and meters
+ */
+export function formatDistance(km: number, context: FormatContext): string {
+  const { locale, units } = context;
+
+  if (units === 'metric') {
+    if (km < 1) {
+      return translate(locale, 'distance.meters', { value: Math.round(km * 100) * 10 });
+    }
+    return translate(locale, 'distance.kilometers', { value: km < 10 ? km.toFixed(1) : Math.round(km) });
+  }
+
+  const miles = km * 0.621371;
+  if (miles < 0.1) {
+    return translate(locale, 'distance.feet', { value: Math.round(miles * 5280) });
+  }
+  return translate(locale, 'distance.miles', { value: miles < 10 ? miles.toFixed(1) : Math.round(miles) });
+}
+
+/**
+ * Walk of a known length, e.g. "12 min walk" or "1h 5min walk"
+ */
+export function formatWalkingTime(minutes: number, context: FormatContext): string {
+  const rounded = Math.round(minutes);
+  if (rounded < 60) {
+    return translate(context.locale, 'walk.minutes', { minutes: rounded });
+  }
+  return translate(context.locale, 'walk.hours', { hours: Math.floor(rounded / 60), minutes: rounded % 60 });
+}
+
+/**
+ * Walk over a straight-line distance
+ */
+export function estimateWalkingTime(km: number, context: FormatContext): string {
+  return formatWalkingTime(km * WALK_MINUTES_PER_KM, context);
+}
+
+/**
+ * Ticking countdown to a time, "12:05" or "1:12:05"; null once it has passed
+ */
+export function formatCountdown(target: string | Date, now: Date = new Date()): string | null {
+  const diff = new Date(target).getTime() - now.getTime();
+  if (diff <= 0) return null;
+
+  const totalSeconds = Math.floor(diff / 1000);
+  const hours = Math.floor(totalSeconds / 3600);
+  const minutes = Math.floor((totalSeconds % 3600) / 60);
+  const seconds = (totalSeconds % 60).toString().padStart(2, '0');
+
+  return hours > 0
+    ? `${hours}:${minutes.toString().padStart(2, '0')}:${seconds}`
+    : `${minutes}:${seconds}`;
+}
+
+/**
+ * Length of time, "25 min" or "1h 10min"
+ */
+export function formatMinutes(minutes: number, context: FormatContext): string {
+  const rounded = Math.floor(minutes);
+  if (rounded < 60) {
+    return translate(context.locale, 'time.minutes', { minutes: rounded });
+  }
+  return translate(context.locale, 'time.hours', { hours: Math.floor(rounded / 60), minutes: rounded % 60 });
+}
+
+/**
+ * How long until a time, "25 min", or "now" once it has passed
+ */
+export function formatTimeUntil(
+  target: string | Date,
+  context: FormatContext,
+  now: Date = new Date()
+): string {
+  const diff = new Date(target).getTime() - now.getTime();
+  if (diff < 60 * 1000) return translate(context.locale, 'time.now');
+  return formatMinutes(diff / 60000, context);
+}
+
+/**
+ * Time of day on the city's clock, e.g. "7:45 PM" or "19:45"
+ */
+export function formatClockTime(date: string | Date, context: FormatContext): string {
+  return new Date(date).toLocaleTimeString(context.locale, {
+    hour: 'numeric',
+    minute: '2-digit',
+    timeZone: context.timezone
+  });
+}
+
+/**
+ * Count with the locale's digit grouping
+ */
+export function formatNumber(value: number, context: FormatContext): string {
+  return value.toLocaleString(context.locale);
+}
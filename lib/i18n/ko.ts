@@ -0,0 +1,224 @@
+/**
+ * Korean messages
+ */
+
+import type { Messages } from './en';
+
+export const ko: Messages = {
+  // Shared
+  'common.solidarity': '연대',
+  'common.tryAgain': '다시 시도',
+  'common.withCrew': '크루와 함께 있어요',
+  'common.goTo': '이동할 곳',
+  'common.zone': '{letter} 구역',
+  'common.crewName': '{number}번 크루',
+  'common.language': '언어',
+
+  // Distances and walking times
+  'distance.feet': '{value}피트',
+  'distance.miles': '{value}마일',
+  'distance.meters': '{value}m',
+  'distance.kilometers': '{value}km',
+  'walk.minutes': '도보 {minutes}분',
+  'walk.hours': '도보 {hours}시간 {minutes}분',
+
+  // Durations and countdowns
+  'time.now': '지금',
+  'time.minutes': '{minutes}분',
+  'time.hours': '{hours}시간 {minutes}분',
+
+  // Compass directions for walking steps
+  'direction.north': '북쪽',
+  'direction.northeast': '북동쪽',
+  'direction.east': '동쪽',
+  'direction.southeast': '남동쪽',
+  'direction.south': '남쪽',
+  'direction.southwest': '남서쪽',
+  'direction.west': '서쪽',
+  'direction.northwest': '북서쪽',
+
+  // Location check (geofence.ts)
+  'geofence.testMode': '테스트 모드 사용 중',
+  'geofence.unsupported': '이 도구를 사용하려면 위치 서비스가 필요합니다',
+  'geofence.outsideCity': '{city}에서 {distance} 떨어져 있습니다. 이 도구는 현장 시위 참가자 전용입니다.',
+  'geofence.tooFar': '활동 중인 시위 구역에서 걸어갈 수 있는 거리({radius}) 안에 있어야 합니다. 가장 가까운 구역은 {distance} 떨어져 있습니다.',
+  'geofence.denied': '위치 접근 권한이 필요합니다. 위치 서비스를 켜고 새로고침하세요.',
+
+  // Location gate
+  'gate.checking': '위치 확인 중...',
+  'gate.checkingHint': '위치를 확인하는 동안 잠시 기다려 주세요',
+  'gate.title': '위치 확인 필요',
+  'gate.why': '왜 Overwhelm을 써야 할까요?',
+  'gate.together.title': '함께하기:',
+  'gate.together.text': '참가자를 크루로 묶어 영향력을 키우고, 안전을 지키고, 움직임을 조율합니다.',
+  'gate.safely.title': '안전하게 이동:',
+  'gate.safely.text': '크루의 이동을 조율해 위험을 피하고 운동의 영향력을 키웁니다.',
+  'gate.streets.title': '거리를 채우기:',
+  'gate.streets.text': '사람들을 여러 구역에 나눠 하나로 뭉친, 눈에 띄는 움직임을 만듭니다.',
+  'gate.anonymous.title': '익명 유지:',
+  'gate.anonymous.text': '가입 없음, 추적 없음, 데이터 저장 없음, 헛소리 없음. 빅테크는 꺼져라.',
+  'gate.verify': '내 위치 확인',
+  'gate.privacy': '위치는 구역 배정에만 쓰이며 절대 저장되지 않습니다. 시위에 참여할 때마다 위치를 다시 확인합니다. 그래야 현장에 있는 사람만 이용할 수 있습니다.',
+  'gate.blockedTitle': '위치 확인 필요 - 절대 저장되지 않습니다.',
+  'gate.mustBeWithin': '걸어갈 수 있는 거리 안에 있어야 합니다',
+  'gate.radius': '반경 {distance}',
+  'gate.youAreAway': '현재 {time} 거리에 있습니다',
+  'gate.openSource': '이 도구는 오픈 소스입니다.',
+  'gate.deploy': '내 도시에 배포하기',
+  'gate.checkFailed': '위치 확인에 실패했습니다. 다시 시도해 주세요.',
+  'gate.welcome': '운동에 오신 것을 환영합니다',
+  'gate.joinCrewHere': '이곳에서 {crew}에 합류하세요',
+  'gate.crewSize': '크루 인원 {count}명',
+  'gate.rotationInterval': '크루는 {minutes}분마다 교대합니다',
+  'gate.assignFailedTitle': '크루 배정 실패',
+  'gate.assignFailed': '크루를 배정하지 못했습니다',
+  'gate.assignError': '크루를 배정할 수 없습니다. 다시 시도해 주세요.',
+  'gate.assigning': '크루 배정 중...',
+  'gate.assigningHint': '현재 위치에 가장 알맞은 크루를 찾고 있습니다',
+
+  // Crew assignment
+  'crew.finding': '가장 가까운 크루를 찾는 중...',
+  'crew.join': '크루 참여하기',
+  'crew.noLogin': '로그인 불필요 • 개인정보 저장 안 함',
+  'crew.mobility.legend': '이동 지원 필요 (선택)',
+  'crew.mobility.hint': '크루가 접근 가능한 구역과 짧고 계단 없는 경로로 이동하도록 합니다. 이 휴대폰에만 저장됩니다.',
+  'crew.locationRequired': '위치 접근 권한이 필요합니다. 위치 서비스를 켜고 다시 시도해 주세요.',
+  'crew.joinFailed': '크루에 참여할 수 없습니다. 시위 구역 근처에 있는지 확인해 주세요.',
+  'crew.zoneReopened': '구역 재개방',
+  'crew.zoneReopenedText': '{zone}이(가) 다시 열렸습니다.',
+  'crew.zoneClosed': '구역 폐쇄',
+  'crew.zoneClosedText': '주최 측이 {zone}을(를) 닫았습니다. 다음 이동까지 크루와 함께 있으세요.',
+  'crew.safetyAlert': '안전 경보: {zone}',
+  'crew.dismiss': '닫기',
+  'crew.yourAssignment': '내 배정',
+  'crew.participants': '참가자 {count}명',
+  'crew.notAccessible': '근처에 접근 가능한 구역이 아직 없습니다 - 이 크루는 계단이나 긴 경로를 이용할 수 있습니다. 주최 측에 도움을 요청하세요.',
+  'crew.joinHere': '이곳에서 크루와 합류하세요',
+  'crew.timeToMove': '새 구역으로 이동할 시간',
+  'crew.currentZone': '현재 구역',
+  'crew.offline': '오프라인 상태입니다. 크루와 함께 있으세요 - 다시 연결되면 새 구역이 표시됩니다.',
+  'crew.getNewZone': '새 구역 받기',
+  'crew.mapTitle': '내 구역',
+  'crew.movesIn': '크루 이동까지',
+  'crew.movementInProgress': '이동 중',
+  'crew.timeUntilMove': '다음 이동까지 남은 시간',
+  'crew.joinBeforeMove': '이동 전에 참여하거나 다음 순서를 기다리세요',
+  'crew.rotationInterval': '크루는 {minutes}분마다 새 구역으로 이동합니다',
+  'crew.cancel': '취소',
+  'crew.leave': '크루 나가기',
+  'crew.loading': '불러오는 중...',
+  'crew.holding': '현재 위치 유지',
+  'crew.moveNow': '이동할 시간입니다!',
+
+  // Walking directions
+  'directions.title': '가는 방법',
+  'directions.step': '{direction}으로 {zone}까지 가세요',
+  'directions.lastStep': '{direction}으로 {zone}까지 가세요 - 새 구역입니다',
+  'directions.arrive': '{time}쯤 도착',
+  'directions.holdTime': '다음 이동 전까지 그곳에서 {time}',
+  'directions.avoids': '경찰 활동이 보고된 구역을 피하는 경로입니다',
+  'directions.notStepFree': '계단 없는 경로를 찾지 못했습니다 - 계단이나 턱이 있을 수 있습니다',
+
+  // Mobility needs
+  'mobility.wheelchair': '휠체어 또는 이동 보조기구',
+  'mobility.limited-walking': '오래 걷기 어려움',
+  'mobility.seating-shade': '앉을 곳이나 그늘 필요',
+
+  // Evacuation order
+  'evacuate.title': '지금 대피하세요',
+  'evacuate.leave': '{zone}에서 벗어나세요',
+  'evacuate.go': '{direction}으로 가세요',
+  'evacuate.goTo': '이동할 곳',
+  'evacuate.directions': '도보 길찾기',
+  'evacuate.moving': '이동 중이에요',
+
+  // Incident reports
+  'report.open': '여기서 문제 신고하기',
+  'report.cancel': '취소',
+  'report.category.medical': '의료 지원 필요',
+  'report.category.blocked_route': '경로 차단',
+  'report.category.hazard': '위험 요소',
+  'report.category.crowd_crush': '압사 위험',
+  'report.category.supply_shortage': '물자 부족',
+  'report.queued': '오프라인 상태입니다 - 다시 연결되면 신고가 전송됩니다',
+  'report.confirmed': '다른 사람들도 확인했습니다 - 크루가 이곳을 피해 이동합니다',
+  'report.received': '신고 접수됨 (확인까지 {needed}명 중 {reporters}명)',
+  'report.outsideZone': '구역 안에 있어야 신고할 수 있습니다',
+  'report.notPresent': '이 구역에 몇 분 이상 머문 크루원만 신고할 수 있습니다',
+  'report.tooMany': '신고가 너무 많습니다 - 몇 분 후 다시 시도해 주세요',
+  'report.locationRequired': '신고하려면 위치 접근 권한이 필요합니다',
+  'report.failed': '신고 실패 - 다시 시도해 주세요',
+
+  // Zone map
+  'map.title': '{city} 시위 구역',
+  'map.active': '활동 중',
+  'map.danger': '위험',
+  'map.empty': '비어 있음',
+  'map.yourZone': '내 구역',
+  'map.prev': '이전',
+  'map.play': '재생',
+  'map.pause': '일시정지',
+  'map.next': '다음',
+  'map.rotation': '{number}번째 교대 • {time} • 크루 {moved}개 이동',
+  'map.noRotations': '아직 기록된 교대가 없습니다',
+  'map.hint': '구역을 탭하면 자세히 볼 수 있습니다 • 드래그하고 확대해 이동하세요',
+
+  // Rotation debrief
+  'debrief.title': '로테이션 돌아보기',
+  'debrief.subtitle': '지난 24시간 동안 크루가 이동한 경로',
+  'debrief.loading': '로테이션을 불러오는 중...',
+  'debrief.rotations': '로테이션',
+  'debrief.time': '시간',
+  'debrief.crew': '크루',
+  'debrief.move': '이동',
+  'debrief.reason': '이유',
+  'debrief.heldAt': '{zone}에 머무름',
+  'debrief.zone': '구역 {id}',
+  'debrief.unknownZone': '알 수 없음',
+  'debrief.empty': '지난 24시간 동안 기록된 로테이션이 없습니다',
+
+  // Next rotation countdown
+  'rotation.now': '지금 교대 중!',
+  'rotation.nextIn': '다음 크루 이동까지',
+  'rotation.getReady': '이동할 준비를 하세요!',
+
+  // Crew stats
+  'stats.crews': '크루',
+  'stats.total': '전체',
+  'stats.zones': '구역',
+  'stats.growing': '빠르게 늘고 있어요!',
+
+  // Notifications
+  'notify.move.title': '📍 이동할 시간',
+  'notify.move.body': '크루가 새 구역으로 이동합니다. 앱에서 자세히 확인하세요.',
+  'notify.danger.title': '⚠️ 위험 경보',
+  'notify.danger.body': '경찰 활동이 많이 보고되었습니다. 앱에서 안전한 구역을 확인하세요.',
+
+  // Why a crew moved or held, from lib/config/rotation-reasons.ts
+  'reason.separator': ', ',
+  'reason.leaving-police': '경찰 활동 지역 이탈',
+  'reason.short-walk': '짧은 도보',
+  'reason.high-visibility': '높은 가시성',
+  'reason.empty-zone': '빈 구역',
+  'reason.police-activity': '경찰 활동',
+  'reason.possible-police-activity': '경찰 활동 가능성',
+  'reason.metro-access': '지하철 접근',
+  'reason.large-group': '대규모 그룹의 가시성',
+  'reason.rebalancing': '크루 재배치',
+  'reason.no-accessible-route': '접근 가능한 경로 없음',
+  'reason.holding': '위치 유지',
+  'reason.anchor-holds': '앵커 크루 위치 유지',
+  'reason.no-accessible-zone': '이용 가능한 접근 가능 구역 없음',
+  'reason.no-walkable-zone': '걸어갈 수 있는 구역 없음',
+  'reason.evacuation': '대피',
+
+  // Safety alerts in the crew's zone
+  'alert.report': '{category} - {reporters}명이 신고함',
+  'alert.policeActivity': '내 구역에서 경찰 활동이 보고되었습니다',
+
+  // Web Push, sent by the server in each subscriber's language
+  'push.move.title': '이동할 시간',
+  'push.move.body': '{zone}(으)로 이동하세요 ({walk})',
+  'push.evacuate.body': '{from}에서 벗어나세요. {go}: {to} ({walk})',
+  'push.alert.title': '안전 경보'
+};
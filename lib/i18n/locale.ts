@@ -0,0 +1,123 @@
+/**
+ * Locales - message catalogs, language detection and distance units
+ * Language is picked on the phone (browser languages, then the city's default)
+ * and can be switched by hand; the choice stays in this browser only.
+ */
+
+import type { CityConfig } from '../config/cities';
+import { getCurrentCity } from '../config/cities';
+import { en, type Messages } from './en';
+import { es } from './es';
+import { ko } from './ko';
+import { zh } from './zh';
+
+export type Locale = 'en' | 'es' | 'zh' | 'ko';
+export type MessageKey = keyof Messages;
+export type DistanceUnits = 'metric' | 'imperial';
+
+// translate() bound to one locale, as useLocale() and the push sender hand it out
+export type Translate = (key: MessageKey, params?: Record<string, string | number>) => string;
+
+export const DEFAULT_LOCALE: Locale = 'en';
+
+export const LOCALES: Record<Locale, { name: string; messages: Messages }> = {
+  en: { name: 'English', messages: en },
+  es: { name: 'Español', messages: es },
+  zh: { name: '中文', messages: zh },
+  ko: { name: '한국어', messages: ko }
+};
+
+export const LOCALE_CHANGE_EVENT = 'overwhelm-locale-change';
+
+const LOCALE_KEY = 'overwhelm-locale';
+
+// Regions that still walk in miles
+const IMPERIAL_REGIONS = ['US', 'LR', 'MM'];
+
+export function isLocale(value: unknown): value is Locale {
+  return typeof value === 'string' && value in LOCALES;
+}
+
+/**
+ * Message for a key with {name} placeholders filled in
+ * Falls back to English, then to the key itself
+ */
+export function translate(
+  locale: Locale,
+  key: MessageKey,
+  params: Record<string, string | number> = {}
+): string {
+  const message = LOCALES[locale]?.messages[key] ?? en[key] ?? key;
+  return message.replace(/\{(\w+)\}/g, (placeholder, name) =>
+    name in params ? String(params[name]) : placeholder
+  );
+}
+
+/**
+ * First supported language from a browser's preference list (zh-TW counts as zh)
+ * Falls back to the city's default language, then English
+ */
+export function detectLocale(
+  languages: readonly string[] = [],
+  city?: Pick<CityConfig, 'languages'>
+): Locale {
+  for (const language of languages) {
+    const primary = language.toLowerCase().split('-')[0];
+    if (isLocale(primary)) return primary;
+  }
+  return city?.languages?.[0] || DEFAULT_LOCALE;
+}
+
+/**
+ * This browser's locale - the saved choice, otherwise detected
+ */
+export function getLocale(city: CityConfig = getCurrentCity()): Locale {
+  if (typeof window === 'undefined') return city.languages?.[0] || DEFAULT_LOCALE;
+
+  try {
+    const saved = localStorage.getItem(LOCALE_KEY);
+    if (isLocale(saved)) return saved;
+  } catch {
+    // Storage blocked - detect instead
+  }
+
+  const languages = navigator.languages?.length
+    ? navigator.languages
+    : navigator.language ? [navigator.language] : [];
+  return detectLocale(languages, city);
+}
+
+/**
+ * Save a manual choice and tell mounted components to re-render
+ */
+export function saveLocale(locale: Locale): void {
+  localStorage.setItem(LOCALE_KEY, locale);
+  window.dispatchEvent(new CustomEvent(LOCALE_CHANGE_EVENT, { detail: locale }));
+}
+
+/**
+ * Languages to offer in a city: its own list first, then the rest
+ */
+export function getCityLocales(city: Pick<CityConfig, 'languages'>): Locale[] {
+  const preferred = city.languages || [DEFAULT_LOCALE];
+  return [
+    ...preferred,
+    ...(Object.keys(LOCALES) as Locale[]).filter(locale => !preferred.includes(locale))
+  ];
+}
+
+/**
+ * Miles in the US (and Liberia and Myanmar), kilometers everywhere else
+ * Read from the region of a language tag like en-GB or es-US; a bare
+ * language counts as US only for English
+ */
+export function getDistanceUnits(languageTag?: string): DistanceUnits {
+  const tag = languageTag ?? (typeof navigator !== 'undefined' ? navigator.language : undefined);
+  if (!tag) return 'imperial';
+
+  const [language, ...subtags] = tag.split('-');
+  const region = subtags.find(subtag => /^[A-Za-z]{2}$/.test(subtag));
+  if (region) return IMPERIAL_REGIONS.includes(region.toUpperCase()) ? 'imperial' : 'metric';
+
+  return language.toLowerCase() === 'en' ? 'imperial' : 'metric';
+}
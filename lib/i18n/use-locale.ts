@@ -0,0 +1,46 @@
+/**
+ * Locale hook for client components
+ * Renders English on the server and first paint, then switches to the
+ * phone's language and units after mount and whenever the switcher changes it.
+ */
+
+import { useCallback, useEffect, useState } from 'react';
+import { getCurrentCity, getDeploymentCity } from '../config/cities';
+import { FormatContext, getFormatContext } from './format';
+import {
+  DEFAULT_LOCALE,
+  LOCALE_CHANGE_EVENT,
+  MessageKey,
+  getLocale,
+  saveLocale,
+  translate
+} from './locale';
+
+export function useLocale() {
+  // Nothing from the browser yet, so the server and first paint match
+  const [format, setFormat] = useState<FormatContext>(() => {
+    const city = getDeploymentCity();
+    return { locale: DEFAULT_LOCALE, units: city.units || 'imperial', timezone: city.timezone };
+  });
+  const locale = format.locale;
+
+  useEffect(() => {
+    const update = () => {
+      const city = getCurrentCity();
+      const next = getFormatContext(city, getLocale(city));
+      document.documentElement.lang = next.locale;
+      setFormat(next);
+    };
+    update();
+
+    window.addEventListener(LOCALE_CHANGE_EVENT, update);
+    return () => window.removeEventListener(LOCALE_CHANGE_EVENT, update);
+  }, []);
+
+  const t = useCallback(
+    (key: MessageKey, params?: Record<string, string | number>) => translate(locale, key, params),
+    [locale]
+  );
+
+  return { locale, format, t, setLocale: saveLocale };
+}
@@ -0,0 +1,224 @@
+/**
+ * Chinese (Simplified) messages
+ */
+
+import type { Messages } from './en';
+
+export const zh: Messages = {
+  // Shared
+  'common.solidarity': '团结',
+  'common.tryAgain': '重试',
+  'common.withCrew': '我已和小组在一起',
+  'common.goTo': '前往',
+  'common.zone': '{letter} 区',
+  'common.crewName': '第 {number} 组',
+  'common.language': '语言',
+
+  // Distances and walking times
+  'distance.feet': '{value} 英尺',
+  'distance.miles': '{value} 英里',
+  'distance.meters': '{value} 米',
+  'distance.kilometers': '{value} 公里',
+  'walk.minutes': '步行 {minutes} 分钟',
+  'walk.hours': '步行 {hours} 小时 {minutes} 分钟',
+
+  // Durations and countdowns
+  'time.now': '现在',
+  'time.minutes': '{minutes} 分钟',
+  'time.hours': '{hours} 小时 {minutes} 分钟',
+
+  // Compass directions for walking steps
+  'direction.north': '向北',
+  'direction.northeast': '向东北',
+  'direction.east': '向东',
+  'direction.southeast': '向东南',
+  'direction.south': '向南',
+  'direction.southwest': '向西南',
+  'direction.west': '向西',
+  'direction.northwest': '向西北',
+
+  // Location check (geofence.ts)
+  'geofence.testMode': '测试模式已开启',
+  'geofence.unsupported': '使用本工具需要开启定位服务',
+  'geofence.outsideCity': '你距离{city} {distance}。本工具仅供现场抗议者使用。',
+  'geofence.tooFar': '你需要在活动抗议区的步行范围（{radius}）内。最近的区域距离你 {distance}。',
+  'geofence.denied': '需要位置权限。请开启定位服务后重新加载。',
+
+  // Location gate
+  'gate.checking': '正在检查位置...',
+  'gate.checkingHint': '正在验证你的位置，请稍候',
+  'gate.title': '需要验证位置',
+  'gate.why': '为什么使用 Overwhelm？',
+  'gate.together.title': '团结在一起：',
+  'gate.together.text': '把抗议者分成小组，发挥最大影响力，保障安全，协调行动。',
+  'gate.safely.title': '安全移动：',
+  'gate.safely.text': '协调各小组的移动，避开危险，扩大行动的影响。',
+  'gate.streets.title': '占满街道：',
+  'gate.streets.text': '把人群分散到各个区域，形成统一而醒目的行动。',
+  'gate.anonymous.title': '保持匿名：',
+  'gate.anonymous.text': '无需注册，不追踪，不存储数据，没有废话。去他的大科技公司。',
+  'gate.verify': '验证我的位置',
+  'gate.privacy': '你的位置只用于分配区域，绝不会被存储。每次参加抗议时都需要重新验证位置，这样只有现场的人才能使用。',
+  'gate.blockedTitle': '需要验证位置——绝不存储。',
+  'gate.mustBeWithin': '你必须在步行范围内',
+  'gate.radius': '半径 {distance}',
+  'gate.youAreAway': '你距离这里{time}',
+  'gate.openSource': '这是一个开源工具。',
+  'gate.deploy': '为你的城市部署',
+  'gate.checkFailed': '位置检查失败，请重试。',
+  'gate.welcome': '欢迎加入行动',
+  'gate.joinCrewHere': '在此处加入{crew}',
+  'gate.crewSize': '你的小组有 {count} 人',
+  'gate.rotationInterval': '小组每 {minutes} 分钟轮换一次',
+  'gate.assignFailedTitle': '小组分配失败',
+  'gate.assignFailed': '小组分配失败',
+  'gate.assignError': '无法分配小组，请重试。',
+  'gate.assigning': '正在分配小组...',
+  'gate.assigningHint': '正在为你的位置寻找最合适的小组',
+
+  // Crew assignment
+  'crew.finding': '正在寻找最近的小组...',
+  'crew.join': '加入小组',
+  'crew.noLogin': '无需登录 • 不存储个人数据',
+  'crew.mobility.legend': '行动需求（可选）',
+  'crew.mobility.hint': '让你的小组留在无障碍区域，并走较短、无台阶的路线。仅保存在这部手机上。',
+  'crew.locationRequired': '需要位置权限。请开启定位服务后重试。',
+  'crew.joinFailed': '无法加入小组。请确认你在抗议区域附近。',
+  'crew.zoneReopened': '区域已重新开放',
+  'crew.zoneReopenedText': '{zone} 已重新开放。',
+  'crew.zoneClosed': '区域已关闭',
+  'crew.zoneClosedText': '组织者关闭了 {zone}。在下次移动前请和小组待在一起。',
+  'crew.safetyAlert': '安全警报：{zone}',
+  'crew.dismiss': '关闭',
+  'crew.yourAssignment': '你的分配',
+  'crew.participants': '{count} 名参与者',
+  'crew.notAccessible': '附近还没有标记为无障碍的区域——这个小组可能需要走楼梯或较远的路。请向组织者求助。',
+  'crew.joinHere': '在此处与小组会合',
+  'crew.timeToMove': '该前往新区域了',
+  'crew.currentZone': '你当前的区域',
+  'crew.offline': '你已离线。请和小组待在一起——重新联网后会显示新区域。',
+  'crew.getNewZone': '获取新区域',
+  'crew.mapTitle': '你的区域',
+  'crew.movesIn': '小组移动倒计时',
+  'crew.movementInProgress': '正在移动',
+  'crew.timeUntilMove': '距离下次移动',
+  'crew.joinBeforeMove': '在移动前加入，或等待下一轮',
+  'crew.rotationInterval': '小组每 {minutes} 分钟移动到新区域',
+  'crew.cancel': '取消',
+  'crew.leave': '离开小组',
+  'crew.loading': '加载中...',
+  'crew.holding': '原地坚守',
+  'crew.moveNow': '该移动了！',
+
+  // Walking directions
+  'directions.title': '怎么走',
+  'directions.step': '{direction}走到 {zone}',
+  'directions.lastStep': '{direction}走到 {zone}——你的新区域',
+  'directions.arrive': '约 {time} 到达',
+  'directions.holdTime': '下次移动前在那里停留 {time}',
+  'directions.avoids': '路线避开了有警察活动报告的区域',
+  'directions.notStepFree': '没有找到无台阶路线——这条路可能有楼梯或路缘',
+
+  // Mobility needs
+  'mobility.wheelchair': '轮椅或助行器',
+  'mobility.limited-walking': '行走不便',
+  'mobility.seating-shade': '需要座位或阴凉处',
+
+  // Evacuation order
+  'evacuate.title': '立即撤离',
+  'evacuate.leave': '离开 {zone}',
+  'evacuate.go': '{direction}走',
+  'evacuate.goTo': '前往',
+  'evacuate.directions': '步行路线',
+  'evacuate.moving': '我正在撤离',
+
+  // Incident reports
+  'report.open': '报告此处的问题',
+  'report.cancel': '取消',
+  'report.category.medical': '需要医疗帮助',
+  'report.category.blocked_route': '道路被封锁',
+  'report.category.hazard': '危险情况',
+  'report.category.crowd_crush': '有踩踏风险',
+  'report.category.supply_shortage': '物资短缺',
+  'report.queued': '已离线——重新联网后会发送报告',
+  'report.confirmed': '已由其他人确认——小组会绕开这里',
+  'report.received': '已收到报告（{reporters}/{needed} 人报告后确认）',
+  'report.outsideZone': '你必须在该区域内才能报告',
+  'report.notPresent': '只有在该区域停留了几分钟的小组成员才能报告',
+  'report.tooMany': '报告过多——请几分钟后再试',
+  'report.locationRequired': '报告需要位置权限',
+  'report.failed': '报告失败——请重试',
+
+  // Zone map
+  'map.title': '{city}抗议区域',
+  'map.active': '有人',
+  'map.danger': '危险',
+  'map.empty': '空',
+  'map.yourZone': '你的区域',
+  'map.prev': '上一个',
+  'map.play': '播放',
+  'map.pause': '暂停',
+  'map.next': '下一个',
+  'map.rotation': '第 {number} 次轮换 • {time} • {moved} 个小组移动',
+  'map.noRotations': '还没有轮换记录',
+  'map.hint': '点击区域查看详情 • 拖动和缩放来移动地图',
+
+  // Rotation debrief
+  'debrief.title': '轮换回顾',
+  'debrief.subtitle': '过去 24 小时各小组的移动情况',
+  'debrief.loading': '正在加载轮换记录...',
+  'debrief.rotations': '轮换记录',
+  'debrief.time': '时间',
+  'debrief.crew': '小组',
+  'debrief.move': '移动',
+  'debrief.reason': '原因',
+  'debrief.heldAt': '留在{zone}',
+  'debrief.zone': '区域 {id}',
+  'debrief.unknownZone': '未知',
+  'debrief.empty': '过去 24 小时没有轮换记录',
+
+  // Next rotation countdown
+  'rotation.now': '正在轮换！',
+  'rotation.nextIn': '距离下次小组移动',
+  'rotation.getReady': '准备移动！',
+
+  // Crew stats
+  'stats.crews': '小组',
+  'stats.total': '总人数',
+  'stats.zones': '区域',
+  'stats.growing': '快速增长中！',
+
+  // Notifications
+  'notify.move.title': '📍 该移动了',
+  'notify.move.body': '你的小组正在前往新区域。请打开应用查看详情。',
+  'notify.danger.title': '⚠️ 危险警报',
+  'notify.danger.body': '有大量警察活动的报告。请打开应用查看安全区域。',
+
+  // Why a crew moved or held, from lib/config/rotation-reasons.ts
+  'reason.separator': '，',
+  'reason.leaving-police': '离开警察活动区域',
+  'reason.short-walk': '步行距离短',
+  'reason.high-visibility': '高可见度',
+  'reason.empty-zone': '空区域',
+  'reason.police-activity': '警察活动',
+  'reason.possible-police-activity': '可能有警察活动',
+  'reason.metro-access': '靠近地铁',
+  'reason.large-group': '适合大型小组的可见度',
+  'reason.rebalancing': '重新平衡各小组',
+  'reason.no-accessible-route': '没有无障碍路线',
+  'reason.holding': '原地坚守',
+  'reason.anchor-holds': '核心小组原地坚守',
+  'reason.no-accessible-zone': '没有可用的无障碍区域',
+  'reason.no-walkable-zone': '没有可步行到达的区域',
+  'reason.evacuation': '撤离',
+
+  // Safety alerts in the crew's zone
+  'alert.report': '{reporters}人报告：{category}',
+  'alert.policeActivity': '你所在的区域有警察活动报告',
+
+  // Web Push, sent by the server in each subscriber's language
+  'push.move.title': '该移动了',
+  'push.move.body': '前往{zone}（{walk}）',
+  'push.evacuate.body': '离开{from}。{go}：{to}（{walk}）',
+  'push.alert.title': '安全警报'
+};
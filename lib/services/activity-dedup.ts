@@ -0,0 +1,118 @@
+/**
+ * Activity report deduplication
+ * The collector sees the same stories on every run, and often from more
+ * than one source. Each story gets a fingerprint (zone plus normalized
+ * title) so it counts once per zone, however many times it is fetched.
+ */
+
+import { createHash } from 'crypto';
+import type { ActivitySignal } from './severity';
+import type { PoliceEvent, Severity } from './signal-source';
+
+export const DEDUP_WINDOW_MS = 60 * 60 * 1000; // Same title this close together is the same story
+export const MAX_ROW_SOURCES = 50; // Reports kept on one police_activity row
+
+// One story in police_activity.sources
+export interface ActivitySourceEntry {
+  fingerprint: string;
+  via: string[]; // Signal sources that reported it
+  title: string;
+  url?: string;
+  severity: Severity;
+  weight: number;
+  seen_at: string; // When the story was published
+}
+
+/**
+ * Stable id for a story in a zone
+ */
+export function fingerprintEvent(event: Pick<PoliceEvent, 'description'>, zoneId: number): string {
+  return createHash('sha256')
+    .update(`${zoneId}|${normalizeTitle(event.description)}`)
+    .digest('hex')
+    .slice(0, 16);
+}
+
+/**
+ * Entry for an event the gazetteer placed in a zone
+ */
+export function toActivitySource(event: PoliceEvent, zoneId: number): ActivitySourceEntry {
+  return {
+    fingerprint: fingerprintEvent(event, zoneId),
+    via: [event.source],
+    title: event.description,
+    ...(event.url && { url: normalizeUrl(event.url) }),
+    severity: event.severity,
+    weight: event.weight ?? 1,
+    seen_at: event.timestamp.toISOString()
+  };
+}
+
+/**
+ * Add new entries to a row's existing ones, folding repeats together
+ * A repeat is the same fingerprint within DEDUP_WINDOW_MS, or the same URL;
+ * it keeps the higher weight and remembers every source that carried it.
+ * Entries older than `since` are dropped.
+ */
+export function mergeActivitySources(
+  existing: ActivitySourceEntry[],
+  incoming: ActivitySourceEntry[],
+  since: Date
+): ActivitySourceEntry[] {
+  const merged: ActivitySourceEntry[] = [];
+
+  for (const entry of [...existing, ...incoming]) {
+    if (new Date(entry.seen_at) < since) continue;
+
+    const repeat = merged.find(kept => isSameStory(kept, entry));
+    if (!repeat) {
+      merged.push({ ...entry, via: [...entry.via] });
+      continue;
+    }
+
+    repeat.weight = Math.max(repeat.weight, entry.weight);
+    entry.via.forEach(source => {
+      if (!repeat.via.includes(source)) repeat.via.push(source);
+    });
+  }
+
+  return merged
+    .sort((a, b) => b.seen_at.localeCompare(a.seen_at))
+    .slice(0, MAX_ROW_SOURCES);
+}
+
+/**
+ * Severity signal for a stored entry
+ */
+export function entrySignal(entry: ActivitySourceEntry): ActivitySignal {
+  return { severity: entry.severity, reliability: entry.weight, observedAt: new Date(entry.seen_at) };
+}
+
+/**
+ * Lowercase words only, without a trailing " - Outlet Name"
+ */
+export function normalizeTitle(title: string): string {
+  return title
+    .replace(/\s+[-|–—]\s+[^-|–—]{1,40}$/, '')
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, ' ')
+    .trim();
+}
+
+// Host and path only: no scheme, "www.", query, fragment or trailing slash
+function normalizeUrl(url: string): string {
+  return url
+    .trim()
+    .replace(/^[a-z]+:\/\//i, '')
+    .replace(/^www\./i, '')
+    .replace(/[?#].*$/, '')
+    .replace(/\/+$/, '')
+    .replace(/^[^/]+/, host => host.toLowerCase());
+}
+
+function isSameStory(a: ActivitySourceEntry, b: ActivitySourceEntry): boolean {
+  if (a.url && a.url === b.url) return true;
+
+  return a.fingerprint === b.fingerprint &&
+    Math.abs(new Date(a.seen_at).getTime() - new Date(b.seen_at).getTime()) <= DEDUP_WINDOW_MS;
+}
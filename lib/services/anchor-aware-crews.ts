@@ -4,27 +4,26 @@
  */
 
 import { createClient, SupabaseClient } from '@supabase/supabase-js';
+import { getDeploymentCity } from '../config/cities';
+import {
+  AnchorState,
+  ANCHOR_CHECK_INTERVAL,
+  ANCHOR_SIZE_MIN,
+  ANCHOR_SIZE_TARGET,
+  claimAnchorAssignment,
+  getAnchorPhase,
+  getAnchorState,
+  updateAnchorState
+} from './anchor-state';
+import {
+  AssignmentStrategy,
+  CrewAssignment,
+  CREW_FILL_THRESHOLD,
+  getCrewName
+} from './assignment-strategy';
+import { getNextRotation } from './rotation-schedule';
 
 const MAX_CREWS = parseInt(process.env.NEXT_PUBLIC_MAX_CREWS || '20');
-const ANCHOR_SIZE_MIN = 500;    // Minimum anchor size before splitting
-const ANCHOR_SIZE_TARGET = 1000; // Target anchor crew size
-const SUPPORT_CREW_SIZE = 150;   // Smaller support crews
-
-interface CrewAssignment {
-  crewId: number;
-  crewName: string;
-  estimatedSize: number;
-  zoneId: string;
-  zoneName: string;
-  nextRotation: Date;
-}
-
-interface AnchorState {
-  anchorCrewId: number | null;
-  anchorZoneId: number | null;
-  assignmentCount: number;
-  lastAnchorCheck: Date;
-}
 
 interface CurrentCrew {
   crew_id: number;
@@ -39,43 +38,62 @@ interface CurrentCrew {
   };
 }
 
-// Module-level state (persists across requests)
-let anchorState: AnchorState = {
-  anchorCrewId: null,
-  anchorZoneId: null,
-  assignmentCount: 0,
-  lastAnchorCheck: new Date(0)
-};
-
 /**
  * Get crew assignment with invisible anchor logic
  */
 export async function getCrewAssignment(
   supabase: SupabaseClient,
   preferredZoneId?: string,
-  userCoords?: { lat: number; lng: number }
+  userCoords?: { lat: number; lng: number },
+  cityId: string = getDeploymentCity().id
 ): Promise<CrewAssignment> {
   const now = new Date();
   
-  // Initialize anchor as Crew 1 at City Hall if not set
+  // Count this assignment and see if we won the periodic anchor check
+  const claim = await claimAnchorAssignment(supabase, ANCHOR_CHECK_INTERVAL, cityId);
+  let anchorState = claim.state;
+  
+  // Initialize anchor as Crew 1 at the city's first primary zone if not set
   if (!anchorState.anchorCrewId) {
-    anchorState.anchorCrewId = 1;
-    anchorState.anchorZoneId = 1; // Zone A - City Hall
+    const { data: firstZone } = await supabase
+      .from('zones')
+      .select('id')
+      .eq('city_id', cityId)
+      .eq('active', true)
+      .eq('type', 'primary')
+      .order('id')
+      .limit(1)
+      .maybeSingle();
+    
+    anchorState = await updateAnchorState(supabase, {
+      anchorCrewId: 1,
+      anchorZoneId: firstZone?.id ?? null,
+      phase: 'build'
+    }, cityId);
   }
   
   // Refresh anchor selection every 10 minutes (but only after we have 500+ people)
-  if (now.getTime() - anchorState.lastAnchorCheck.getTime() > 10 * 60 * 1000) {
+  if (claim.shouldCheck) {
     const { data: anchorCrew } = await supabase
       .from('current_crews')
       .select('estimated_size')
+      .eq('city_id', cityId)
       .eq('crew_id', anchorState.anchorCrewId)
       .single();
     
     // Only consider changing anchor if current one is large enough
     if (anchorCrew?.estimated_size >= ANCHOR_SIZE_MIN) {
-      await selectAnchorCrew(supabase);
+      anchorState = await selectAnchorCrew(supabase, anchorState, cityId);
+    } else if (anchorCrew) {
+      const phase = getAnchorPhase(anchorCrew.estimated_size);
+      if (phase !== anchorState.phase) {
+        anchorState = await updateAnchorState(supabase, {
+          anchorCrewId: anchorState.anchorCrewId,
+          anchorZoneId: anchorState.anchorZoneId,
+          phase
+        }, cityId);
+      }
     }
-    anchorState.lastAnchorCheck = now;
   }
 
   // Get all current crews
@@ -93,14 +111,13 @@ export async function getCrewAssignment(
         center_lng
       )
     `)
+    .eq('city_id', cityId)
     .order('crew_id') as { data: CurrentCrew[] | null };
 
-  // Increment assignment counter
-  anchorState.assignmentCount++;
-
   // Determine if this person should go to anchor
   const shouldJoinAnchor = await decideAnchorAssignment(
     supabase,
+    anchorState,
     currentCrews || [],
     preferredZoneId,
     userCoords
@@ -116,7 +133,7 @@ export async function getCrewAssignment(
     targetZoneId = anchorCrew?.zone_id?.toString() || preferredZoneId || '1';
   } else {
     // Normal assignment to support crews
-    const assignment = selectSupportCrew(currentCrews, preferredZoneId);
+    const assignment = selectSupportCrew(anchorState, currentCrews, preferredZoneId);
     targetCrewId = assignment.crewId;
     targetZoneId = assignment.zoneId;
   }
@@ -128,30 +145,39 @@ export async function getCrewAssignment(
     .eq('id', targetZoneId)
     .single();
 
-  // Calculate next rotation
-  const rotationInterval = 30 * 60 * 1000;
-  const currentCycle = Math.floor(now.getTime() / rotationInterval);
-  const nextRotationTime = (currentCycle + 1) * rotationInterval;
-
   // Get current size
   const currentCrew = currentCrews?.find((c: CurrentCrew) => c.crew_id === targetCrewId);
   const estimatedSize = (currentCrew?.estimated_size || 0) + 1;
 
   return {
     crewId: targetCrewId,
-    crewName: `Crew ${targetCrewId}`,
+    crewName: getCrewName(targetCrewId),
     estimatedSize,
     zoneId: targetZoneId,
     zoneName: zone?.name || 'Downtown',
-    nextRotation: new Date(nextRotationTime)
+    nextRotation: getNextRotation(cityId, now)
   };
 }
 
+/**
+ * Anchor-aware strategy: funnels nearby arrivals to the shared anchor crew
+ */
+export const anchorAwareStrategy: AssignmentStrategy = {
+  id: 'anchor-aware',
+  description: 'Build up the anchor crew by phase, respecting walking distance',
+  assign: (supabase, context) =>
+    getCrewAssignment(supabase, context.preferredZoneId, context.userCoords, context.cityId)
+};
+
 /**
  * Select which crew should be the anchor
  * Called periodically, not on every assignment
  */
-async function selectAnchorCrew(supabase: SupabaseClient) {
+async function selectAnchorCrew(
+  supabase: SupabaseClient,
+  anchorState: AnchorState,
+  cityId: string
+): Promise<AnchorState> {
   const { data: crews } = await supabase
     .from('current_crews')
     .select(`
@@ -164,6 +190,7 @@ async function selectAnchorCrew(supabase: SupabaseClient) {
         type
       )
     `)
+    .eq('city_id', cityId)
     .gt('estimated_size', 100)
     .eq('zones.type', 'primary')
     .order('estimated_size', { ascending: false })
@@ -171,9 +198,11 @@ async function selectAnchorCrew(supabase: SupabaseClient) {
 
   if (!crews || crews.length === 0) {
     // No suitable anchor yet
-    anchorState.anchorCrewId = null;
-    anchorState.anchorZoneId = null;
-    return;
+    return updateAnchorState(supabase, {
+      anchorCrewId: null,
+      anchorZoneId: null,
+      phase: 'build'
+    }, cityId);
   }
 
   // Score each potential anchor
@@ -216,10 +245,15 @@ async function selectAnchorCrew(supabase: SupabaseClient) {
     }
   }
 
-  if (bestCrew) {
-    anchorState.anchorCrewId = bestCrew.crew_id;
-    anchorState.anchorZoneId = bestCrew.zone_id;
+  if (!bestCrew) {
+    return anchorState;
   }
+
+  return updateAnchorState(supabase, {
+    anchorCrewId: bestCrew.crew_id,
+    anchorZoneId: bestCrew.zone_id,
+    phase: getAnchorPhase(bestCrew.estimated_size)
+  }, cityId);
 }
 
 /**
@@ -228,6 +262,7 @@ async function selectAnchorCrew(supabase: SupabaseClient) {
  */
 async function decideAnchorAssignment(
   supabase: SupabaseClient,
+  anchorState: AnchorState,
   currentCrews: CurrentCrew[],
   preferredZoneId?: string,
   userCoords?: { lat: number; lng: number }
@@ -278,13 +313,15 @@ async function decideAnchorAssignment(
   }
 
   // NEW ANCHOR STRATEGY (only applies when geographic constraints allow):
+  const phase = getAnchorPhase(anchorSize);
+
   // Phase 1: BUILD (0-500) - Send most people to anchor
-  if (anchorSize < 500) {
+  if (phase === 'build') {
     return true; // Send to anchor if they're within reasonable distance
   }
   
   // Phase 2: GROWTH (500-1000) - Send 50% to anchor
-  if (anchorSize < 1000) {
+  if (phase === 'growth') {
     return Math.random() < 0.5; // 50% to anchor
   }
   
@@ -312,10 +349,15 @@ async function decideAnchorAssignment(
 /**
  * Get a random walkable zone (not the anchor zone)
  */
-async function getRandomWalkableZone(supabase: SupabaseClient, excludeZoneId: string): Promise<string> {
+async function getRandomWalkableZone(
+  supabase: SupabaseClient,
+  excludeZoneId: string,
+  cityId: string
+): Promise<string> {
   const { data: zones } = await supabase
     .from('zones')
     .select('id')
+    .eq('city_id', cityId)
     .eq('active', true)
     .neq('type', 'avoid')
     .neq('id', excludeZoneId);
@@ -331,6 +373,7 @@ async function getRandomWalkableZone(supabase: SupabaseClient, excludeZoneId: st
  * Select a support crew for non-anchor assignment
  */
 function selectSupportCrew(
+  anchorState: AnchorState,
   currentCrews: CurrentCrew[] | null,
   preferredZoneId?: string
 ): { crewId: number; zoneId: string } {
@@ -343,7 +386,7 @@ function selectSupportCrew(
   if (preferredZoneId) {
     const zoneCrews = supportCrews.filter(
       (c: CurrentCrew) => c.zone_id === parseInt(preferredZoneId) && 
-           c.estimated_size < SUPPORT_CREW_SIZE
+           c.estimated_size < CREW_FILL_THRESHOLD
     );
     
     if (zoneCrews.length > 0) {
@@ -366,7 +409,7 @@ function selectSupportCrew(
 
   // No preferred zone or can't create new crew - find existing crew with space
   const availableCrews = supportCrews.filter(
-    (c: CurrentCrew) => c.estimated_size < SUPPORT_CREW_SIZE
+    (c: CurrentCrew) => c.estimated_size < CREW_FILL_THRESHOLD
   );
 
   if (availableCrews.length > 0) {
@@ -412,13 +455,16 @@ interface RotationPlan {
  * Get rotation plan that protects anchor
  */
 export async function getAnchorAwareRotation(
-  supabase: SupabaseClient
+  supabase: SupabaseClient,
+  cityId: string = getDeploymentCity().id
 ): Promise<RotationPlan[]> {
   const { data: currentCrews } = await supabase
     .from('current_crews')
     .select('crew_id, zone_id, estimated_size')
+    .eq('city_id', cityId)
     .gt('estimated_size', 0);
 
+  const anchorState = await getAnchorState(supabase, cityId);
   const rotationPlan: RotationPlan[] = [];
 
   for (const crew of currentCrews || []) {
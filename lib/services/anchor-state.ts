@@ -0,0 +1,157 @@
+/**
+ * Shared anchor state
+ * Keeps the anchor crew, zone and phase in the database so every
+ * server instance (cold starts, parallel lambdas) agrees on the anchor.
+ * Each city has its own anchor.
+ */
+
+import { SupabaseClient } from '@supabase/supabase-js';
+import { getDeploymentCity } from '../config/cities';
+
+export const ANCHOR_SIZE_MIN = 500;     // Anchor leaves BUILD phase at this size
+export const ANCHOR_SIZE_TARGET = 1000; // Anchor enters SUSTAIN phase at this size
+export const ANCHOR_CHECK_INTERVAL = 10 * 60 * 1000; // Re-evaluate anchor every 10 minutes
+
+export type AnchorPhase = 'build' | 'growth' | 'sustain';
+
+export interface AnchorState {
+  anchorCrewId: number | null;
+  anchorZoneId: number | null;
+  phase: AnchorPhase;
+  assignmentCount: number;
+  lastCheckedAt: Date;
+  pinned: boolean; // Set by organizers; automatic re-selection leaves it alone
+}
+
+interface AnchorStateRow {
+  anchor_crew_id: number | null;
+  anchor_zone_id: number | null;
+  phase: AnchorPhase | null;
+  assignment_count: number | null;
+  last_checked_at: string | null;
+  pinned?: boolean | null;
+}
+
+const EMPTY_ANCHOR_STATE: AnchorState = {
+  anchorCrewId: null,
+  anchorZoneId: null,
+  phase: 'build',
+  assignmentCount: 0,
+  lastCheckedAt: new Date(0),
+  pinned: false
+};
+
+/**
+ * Phase of the anchor strategy for a given anchor size
+ */
+export function getAnchorPhase(anchorSize: number): AnchorPhase {
+  if (anchorSize < ANCHOR_SIZE_MIN) return 'build';
+  if (anchorSize < ANCHOR_SIZE_TARGET) return 'growth';
+  return 'sustain';
+}
+
+/**
+ * Read the current anchor without modifying it
+ */
+export async function getAnchorState(
+  supabase: SupabaseClient,
+  cityId: string = getDeploymentCity().id
+): Promise<AnchorState> {
+  try {
+    const { data, error } = await supabase
+      .from('anchor_state')
+      .select('anchor_crew_id, anchor_zone_id, phase, assignment_count, last_checked_at, pinned')
+      .eq('city_id', cityId)
+      .maybeSingle();
+
+    if (error) throw error;
+
+    return data ? toAnchorState(data) : { ...EMPTY_ANCHOR_STATE };
+  } catch (error) {
+    console.error('Anchor state read failed:', error);
+    return { ...EMPTY_ANCHOR_STATE };
+  }
+}
+
+/**
+ * Count a new assignment and find out whether this instance
+ * should re-evaluate the anchor. Only one caller per interval wins.
+ */
+export async function claimAnchorAssignment(
+  supabase: SupabaseClient,
+  checkIntervalMs: number = ANCHOR_CHECK_INTERVAL,
+  cityId: string = getDeploymentCity().id
+): Promise<{ state: AnchorState; shouldCheck: boolean }> {
+  const { data, error } = await supabase
+    .rpc('claim_anchor_assignment', {
+      p_check_interval_seconds: Math.round(checkIntervalMs / 1000),
+      p_city_id: cityId
+    })
+    .single();
+
+  if (error || !data) {
+    console.error('Anchor claim failed:', error);
+    return { state: await getAnchorState(supabase, cityId), shouldCheck: false };
+  }
+
+  const row = data as AnchorStateRow & { should_check: boolean };
+
+  return {
+    state: toAnchorState(row),
+    shouldCheck: row.should_check
+  };
+}
+
+/**
+ * Atomically replace the anchor crew, zone and phase
+ * Without `pinned`, a pinned anchor only follows its own crew's moves
+ */
+export async function updateAnchorState(
+  supabase: SupabaseClient,
+  update: {
+    anchorCrewId: number | null;
+    anchorZoneId: number | null;
+    phase?: AnchorPhase;
+    pinned?: boolean;
+  },
+  cityId: string = getDeploymentCity().id
+): Promise<AnchorState> {
+  const { data, error } = await supabase
+    .rpc('set_anchor_state', {
+      p_crew_id: update.anchorCrewId,
+      p_zone_id: update.anchorZoneId,
+      p_phase: update.phase || null,
+      p_city_id: cityId,
+      p_pinned: update.pinned ?? null
+    })
+    .single();
+
+  if (error || !data) {
+    throw new Error(`Anchor update failed: ${error?.message || 'no state returned'}`);
+  }
+
+  return toAnchorState(data as AnchorStateRow);
+}
+
+/**
+ * Check whether a crew is currently the anchor
+ */
+export async function isAnchorCrew(
+  supabase: SupabaseClient,
+  crewId: number,
+  cityId: string = getDeploymentCity().id
+): Promise<boolean> {
+  const state = await getAnchorState(supabase, cityId);
+  return state.anchorCrewId === crewId;
+}
+
+function toAnchorState(row: AnchorStateRow): AnchorState {
+  return {
+    anchorCrewId: row.anchor_crew_id,
+    anchorZoneId: row.anchor_zone_id,
+    phase: row.phase || 'build',
+    assignmentCount: row.assignment_count || 0,
+    lastCheckedAt: row.last_checked_at ? new Date(row.last_checked_at) : new Date(0),
+    pinned: row.pinned ?? false
+  };
+}
@@ -6,6 +6,10 @@
 
 import { SupabaseClient } from '@supabase/supabase-js';
 import { Database } from '../supabase/client';
+import { getDeploymentCity } from '../config/cities';
+import { getAnchorPhase, getAnchorState, updateAnchorState } from './anchor-state';
+import { AssignmentStrategy, getCrewName } from './assignment-strategy';
+import { getNextRotation } from './rotation-schedule';
 
 interface AnchorStrategy {
   anchorZoneId: number | null;
@@ -15,7 +19,14 @@ interface AnchorStrategy {
   lastRotation: Date;
 }
 
+/**
+ * Anchor crew and zone are persisted via anchor-state so that every
+ * instance of this service agrees; the rest of the strategy is a local cache
+ * One service per city - crews and anchors never cross cities
+ */
 export class AnchorCrewService {
+  constructor(private cityId: string = getDeploymentCity().id) {}
+
   private strategy: AnchorStrategy = {
     anchorZoneId: null,
     anchorCrewId: null,
@@ -47,6 +58,7 @@ export class AnchorCrewService {
           center_lng
         )
       `)
+      .eq('city_id', this.cityId)
       .gt('estimated_size', 50) // Need critical mass
       .eq('zones.type', 'primary') // Only primary zones
       .order('estimated_size', { ascending: false });
@@ -71,14 +83,28 @@ export class AnchorCrewService {
     }
 
     if (bestCrew) {
-      this.strategy.anchorCrewId = bestCrew.crew_id;
-      this.strategy.anchorZoneId = bestCrew.zone_id;
+      const state = await updateAnchorState(supabase, {
+        anchorCrewId: bestCrew.crew_id,
+        anchorZoneId: bestCrew.zone_id,
+        phase: getAnchorPhase(bestCrew.estimated_size)
+      }, this.cityId);
+      this.strategy.anchorCrewId = state.anchorCrewId;
+      this.strategy.anchorZoneId = state.anchorZoneId;
       
       // Identify support crews (nearby crews)
       await this.identifySupportCrews(supabase, bestCrew.zone_id);
     }
   }
 
+  /**
+   * Load the shared anchor crew and zone into the local strategy
+   */
+  private async syncAnchor(supabase: SupabaseClient<Database>): Promise<void> {
+    const state = await getAnchorState(supabase, this.cityId);
+    this.strategy.anchorCrewId = state.anchorCrewId;
+    this.strategy.anchorZoneId = state.anchorZoneId;
+  }
+
   /**
    * Score a crew's potential as anchor
    * Higher score = better anchor candidate
@@ -157,6 +183,7 @@ export class AnchorCrewService {
     const { data: supportCrews } = await supabase
       .from('current_crews')
       .select('crew_id')
+      .eq('city_id', this.cityId)
       .in('zone_id', nearbyZoneIds)
       .gt('estimated_size', 0);
 
@@ -171,9 +198,10 @@ export class AnchorCrewService {
    */
   async assignNewParticipant(
     supabase: SupabaseClient<Database>,
-    userLat: number,
-    userLng: number
+    userCoords?: { lat: number; lng: number }
   ): Promise<number> {
+    await this.syncAnchor(supabase);
+
     // If no anchor selected yet, use normal assignment
     if (!this.strategy.anchorCrewId) {
       await this.selectAnchorCrew(supabase);
@@ -183,6 +211,7 @@ export class AnchorCrewService {
     const { data: anchorCrew } = await supabase
       .from('current_crews')
       .select('estimated_size')
+      .eq('city_id', this.cityId)
       .eq('crew_id', this.strategy.anchorCrewId)
       .single();
 
@@ -206,7 +235,7 @@ export class AnchorCrewService {
     }
 
     // Geographic priority - if user is already near anchor zone
-    if (!sendToAnchor && this.strategy.anchorZoneId) {
+    if (!sendToAnchor && this.strategy.anchorZoneId && userCoords) {
       const { data: anchorZone } = await supabase
         .from('zones')
         .select('center_lat, center_lng')
@@ -215,7 +244,7 @@ export class AnchorCrewService {
 
       if (anchorZone) {
         const distanceToAnchor = this.calculateDistance(
-          userLat, userLng,
+          userCoords.lat, userCoords.lng,
           anchorZone.center_lat,
           anchorZone.center_lng
         );
@@ -227,8 +256,8 @@ export class AnchorCrewService {
       }
     }
 
-    return sendToAnchor 
-      ? this.strategy.anchorCrewId! 
+    return sendToAnchor && this.strategy.anchorCrewId
+      ? this.strategy.anchorCrewId
       : this.selectSupportCrew();
   }
 
@@ -252,6 +281,7 @@ export class AnchorCrewService {
    * Support crews rotate around them
    */
   async planAnchorAwareRotation(
+    supabase: SupabaseClient<Database>,
     currentCrews: Array<{
       crew_id: number;
       zone_id: number;
@@ -280,6 +310,8 @@ export class AnchorCrewService {
       reason: string;
     }> = [];
 
+    await this.syncAnchor(supabase);
+
     for (const crew of currentCrews) {
       // NEVER rotate the anchor crew
       if (crew.crew_id === this.strategy.anchorCrewId) {
@@ -307,8 +339,12 @@ export class AnchorCrewService {
             reason: 'ANCHOR EMERGENCY RELOCATION'
           });
           
-          // Update anchor zone
-          this.strategy.anchorZoneId = safeZone;
+          // Update anchor zone for every instance
+          const state = await updateAnchorState(supabase, {
+            anchorCrewId: crew.crew_id,
+            anchorZoneId: safeZone
+          }, this.cityId);
+          this.strategy.anchorZoneId = state.anchorZoneId;
         }
       }
 
@@ -353,6 +389,7 @@ export class AnchorCrewService {
 
   /**
    * Get anchor status (for internal monitoring only)
+   * Reflects the shared anchor as of the last sync
    * NEVER expose this to frontend
    */
   getAnchorStatus(): {
@@ -392,4 +429,53 @@ export class AnchorCrewService {
     const c = 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
     return R * c;
   }
-}
\ No newline at end of file
+}
+
+// Shared service per city for the funnel strategy (anchor itself lives in anchor-state)
+const funnelServices = new Map<string, AnchorCrewService>();
+
+function getFunnelService(cityId: string): AnchorCrewService {
+  let service = funnelServices.get(cityId);
+  if (!service) {
+    service = new AnchorCrewService(cityId);
+    funnelServices.set(cityId, service);
+  }
+  return service;
+}
+
+/**
+ * Anchor funnel strategy: sends a size-dependent share of arrivals
+ * to the anchor and spreads the rest across nearby support crews
+ */
+export const anchorFunnelStrategy: AssignmentStrategy = {
+  id: 'anchor-funnel',
+  description: 'Funnel a share of arrivals to the anchor, the rest to support crews around it',
+  async assign(supabase, context) {
+    const cityId = context.cityId || getDeploymentCity().id;
+    const crewId = await getFunnelService(cityId).assignNewParticipant(supabase, context.userCoords);
+
+    const { data: crew } = await supabase
+      .from('current_crews')
+      .select('zone_id, estimated_size')
+      .eq('city_id', cityId)
+      .eq('crew_id', crewId)
+      .maybeSingle();
+
+    const zoneId = crew?.zone_id?.toString() || context.preferredZoneId || '1';
+
+    const { data: zone } = await supabase
+      .from('zones')
+      .select('name')
+      .eq('id', zoneId)
+      .single();
+
+    return {
+      crewId,
+      crewName: getCrewName(crewId),
+      estimatedSize: (crew?.estimated_size || 0) + 1,
+      zoneId,
+      zoneName: zone?.name || 'Downtown',
+      nextRotation: getNextRotation(cityId)
+    };
+  }
+};
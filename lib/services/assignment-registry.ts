@@ -0,0 +1,55 @@
+/**
+ * Registry of crew assignment strategies
+ * Cities pick one by id in CityConfig.assignmentStrategy
+ */
+
+import { CityConfig } from '../config/cities';
+import { AssignmentStrategy } from './assignment-strategy';
+import { balancedStrategy } from './crews';
+import { anchorAwareStrategy } from './anchor-aware-crews';
+import { anchorFunnelStrategy } from './anchor-strategy';
+
+export const DEFAULT_ASSIGNMENT_STRATEGY = 'anchor-aware';
+
+const strategies = new Map<string, AssignmentStrategy>();
+
+/**
+ * Register a strategy (replaces any existing one with the same id)
+ */
+export function registerAssignmentStrategy(strategy: AssignmentStrategy): void {
+  strategies.set(strategy.id, strategy);
+}
+
+/**
+ * Look up a strategy by id
+ */
+export function getAssignmentStrategy(id: string): AssignmentStrategy | null {
+  return strategies.get(id) || null;
+}
+
+/**
+ * All registered strategies
+ */
+export function listAssignmentStrategies(): AssignmentStrategy[] {
+  return Array.from(strategies.values());
+}
+
+/**
+ * Strategy configured for a city, falling back to the default
+ */
+export function getStrategyForCity(city: CityConfig | null): AssignmentStrategy {
+  const configured = city?.assignmentStrategy
+    ? getAssignmentStrategy(city.assignmentStrategy)
+    : null;
+
+  if (city?.assignmentStrategy && !configured) {
+    console.warn(`Unknown assignment strategy "${city.assignmentStrategy}" for ${city.name}, using default`);
+  }
+
+  return configured || getAssignmentStrategy(DEFAULT_ASSIGNMENT_STRATEGY)!;
+}
+
+// Built-in strategies
+registerAssignmentStrategy(balancedStrategy);
+registerAssignmentStrategy(anchorAwareStrategy);
+registerAssignmentStrategy(anchorFunnelStrategy);
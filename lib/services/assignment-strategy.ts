@@ -0,0 +1,39 @@
+/**
+ * Crew assignment strategy contract
+ * Every assignment engine returns the same result so /api/crew
+ * can swap engines per city without the frontend noticing
+ */
+
+import { SupabaseClient } from '@supabase/supabase-js';
+
+export const CREW_FILL_THRESHOLD = 150; // Start a new crew after this many people
+
+export type AssignmentStrategyId = 'balanced' | 'anchor-aware' | 'anchor-funnel';
+
+export interface CrewAssignment {
+  crewId: number;
+  crewName: string;
+  estimatedSize: number;
+  zoneId: string;
+  zoneName: string;
+  nextRotation: Date | null; // Null once the event window has ended
+}
+
+export interface AssignmentContext {
+  preferredZoneId?: string; // Nearest zone reported by the client
+  userCoords?: { lat: number; lng: number };
+  cityId?: string; // Request city; defaults to the deployment city
+}
+
+export interface AssignmentStrategy {
+  id: AssignmentStrategyId;
+  description: string;
+  assign(supabase: SupabaseClient, context: AssignmentContext): Promise<CrewAssignment>;
+}
+
+/**
+ * Public crew name - identical across every strategy
+ */
+export function getCrewName(crewId: number): string {
+  return `Crew ${crewId}`;
+}
@@ -0,0 +1,261 @@
+/**
+ * Crew channels
+ * Each crew has its own private realtime broadcast channel for rotation
+ * orders, zone changes and safety alerts. The topic carries a token derived
+ * from CREW_CHANNEL_SECRET, and listening also takes a short-lived realtime
+ * token bound to the member's presence session. Both are only handed out to
+ * counted members of the crew, so other crews (and onlookers) cannot listen
+ * in, even with a leaked topic.
+ */
+
+import { createHmac } from 'crypto';
+import { SupabaseClient } from '@supabase/supabase-js';
+import { getDeploymentCity } from '../config/cities';
+import { hashSessionId, PRESENCE_TTL_SECONDS } from './headcount';
+import {
+  CREW_EVENT,
+  type CrewAlertMessage,
+  type CrewMessage,
+  type CrewMessageBase,
+  type CrewRotationMessage,
+  type CrewZoneChangeMessage,
+  type MemberCrewChannel,
+  type ZoneAlert
+} from './crew-messages';
+import type { CrewRotationDecision } from './smart-rotation';
+
+export { CREW_EVENT } from './crew-messages';
+export type {
+  CrewAlertMessage,
+  CrewMessage,
+  CrewRotationMessage,
+  CrewZoneChangeMessage,
+  MemberCrewChannel,
+  ZoneAlert,
+  ZoneAlertReason
+} from './crew-messages';
+
+/**
+ * Whether CREW_CHANNEL_SECRET and SUPABASE_JWT_SECRET are set; without them crews rely on polling
+ */
+export function isCrewChannelEnabled(): boolean {
+  return Boolean(process.env.CREW_CHANNEL_SECRET && process.env.SUPABASE_JWT_SECRET);
+}
+
+/**
+ * Private broadcast topic for one crew, or null when crew channels are not configured
+ */
+export function getCrewChannel(
+  crewId: number,
+  cityId: string = getDeploymentCity().id
+): string | null {
+  if (!isCrewChannelEnabled()) return null;
+
+  const token = createHmac('sha256', process.env.CREW_CHANNEL_SECRET!)
+    .update(`${cityId}:${crewId}`)
+    .digest('hex')
+    .slice(0, 24);
+
+  return `crew:${cityId}:${crewId}:${token}`;
+}
+
+/**
+ * A counted member's crew channel, only while the crew is at the zone the
+ * member was assigned to it in, so a crew id alone is not enough to listen in
+ * The access token names the member's session, and the "Members listen crew
+ * channels" policy only accepts it while that session is counted in the crew
+ */
+export async function getMemberCrewChannel(
+  supabase: SupabaseClient,
+  sessionId: string,
+  crewId: number,
+  zoneId: number,
+  cityId: string = getDeploymentCity().id
+): Promise<MemberCrewChannel | null> {
+  if (!isCrewChannelEnabled()) return null;
+
+  const { data, error } = await supabase
+    .from('current_crews')
+    .select('zone_id')
+    .eq('city_id', cityId)
+    .eq('crew_id', crewId)
+    .maybeSingle();
+
+  if (error) throw error;
+  if (!data || Number(data.zone_id) !== zoneId) return null;
+
+  const topic = getCrewChannel(crewId, cityId)!;
+  const issuedAt = Math.floor(Date.now() / 1000);
+  const expiresAt = issuedAt + PRESENCE_TTL_SECONDS;
+
+  return {
+    topic,
+    token: signRealtimeToken({
+      role: 'anon',
+      iat: issuedAt,
+      exp: expiresAt,
+      session_hash: hashSessionId(sessionId),
+      crew_topic: topic
+    }),
+    expiresAt: new Date(expiresAt * 1000).toISOString()
+  };
+}
+
+// HS256 JWT with the project's JWT secret, which realtime accepts in place of the anon key
+function signRealtimeToken(claims: Record<string, string | number>): string {
+  const encode = (part: object) => Buffer.from(JSON.stringify(part)).toString('base64url');
+  const unsigned = `${encode({ alg: 'HS256', typ: 'JWT' })}.${encode(claims)}`;
+  const signature = createHmac('sha256', process.env.SUPABASE_JWT_SECRET!)
+    .update(unsigned)
+    .digest('base64url');
+
+  return `${unsigned}.${signature}`;
+}
+
+/**
+ * Rotation messages for every crew in a planned rotation
+ */
+export async function buildRotationMessages(
+  supabase: SupabaseClient,
+  crews: CrewRotationDecision[],
+  nextRotation: string | null,
+  cityId: string = getDeploymentCity().id
+): Promise<CrewRotationMessage[]> {
+  if (crews.length === 0) return [];
+
+  const zoneNames = await getZoneNames(supabase, crews.map(crew => crew.to_zone_id), cityId);
+  const issuedAt = new Date().toISOString();
+
+  return crews.map(crew => ({
+    type: 'rotation',
+    crewId: crew.crew_id,
+    zoneId: crew.to_zone_id,
+    zoneName: zoneNames.get(crew.to_zone_id) || `Zone ${crew.to_zone_id}`,
+    walkTime: crew.moved ? crew.walk_time : null,
+    reason: crew.reason,
+    nextRotation,
+    issuedAt
+  }));
+}
+
+/**
+ * Messages for every crew currently assigned to the given zones
+ * Used for zone changes and alerts, which only concern the crews standing there
+ */
+export async function buildZoneCrewMessages<M extends CrewZoneChangeMessage | CrewAlertMessage>(
+  supabase: SupabaseClient,
+  zoneIds: number[],
+  toMessage: (base: CrewMessageBase) => M,
+  cityId: string = getDeploymentCity().id
+): Promise<M[]> {
+  if (zoneIds.length === 0) return [];
+
+  const { data: crews, error } = await supabase
+    .from('current_crews')
+    .select('crew_id, zone_id')
+    .eq('city_id', cityId)
+    .in('zone_id', zoneIds);
+
+  if (error) throw error;
+  if (!crews || crews.length === 0) return [];
+
+  const zoneNames = await getZoneNames(supabase, zoneIds, cityId);
+  const issuedAt = new Date().toISOString();
+
+  return crews.map((crew: any) => toMessage({
+    crewId: crew.crew_id,
+    zoneId: crew.zone_id,
+    zoneName: zoneNames.get(crew.zone_id) || `Zone ${crew.zone_id}`,
+    issuedAt
+  }));
+}
+
+/**
+ * Send each message on its crew's channel; returns how many were delivered
+ * Sent over HTTP like evacuation orders. Crews that miss a message still
+ * get the change from their fallback poll.
+ */
+export async function broadcastToCrews(
+  supabase: SupabaseClient,
+  messages: CrewMessage[],
+  cityId: string = getDeploymentCity().id
+): Promise<number> {
+  if (!isCrewChannelEnabled()) return 0;
+
+  let delivered = 0;
+  for (const message of messages) {
+    const channel = supabase.channel(getCrewChannel(message.crewId, cityId)!, { config: { private: true } });
+    try {
+      const status = await channel.send({ type: 'broadcast', event: CREW_EVENT, payload: message });
+      if (status === 'ok') delivered++;
+    } catch (error) {
+      console.error(`Crew ${message.crewId} broadcast error:`, error);
+    } finally {
+      supabase.removeChannel(channel);
+    }
+  }
+
+  return delivered;
+}
+
+/**
+ * Tell the crews in a zone that organizers opened or closed it
+ */
+export async function notifyZoneChange(
+  supabase: SupabaseClient,
+  zoneId: number,
+  active: boolean,
+  cityId: string = getDeploymentCity().id
+): Promise<number> {
+  if (!isCrewChannelEnabled()) return 0;
+
+  const messages = await buildZoneCrewMessages(
+    supabase,
+    [zoneId],
+    (base): CrewZoneChangeMessage => ({ ...base, type: 'zone-change', active }),
+    cityId
+  );
+
+  return broadcastToCrews(supabase, messages, cityId);
+}
+
+/**
+ * Alert the crews in each zone, e.g. when reports or news push it into danger
+ */
+export async function alertZoneCrews(
+  supabase: SupabaseClient,
+  alerts: ZoneAlert[],
+  cityId: string = getDeploymentCity().id
+): Promise<number> {
+  if (alerts.length === 0 || !isCrewChannelEnabled()) return 0;
+
+  const alertByZone = new Map(alerts.map(alert => [alert.zoneId, alert]));
+  const messages = await buildZoneCrewMessages(
+    supabase,
+    Array.from(alertByZone.keys()),
+    (base): CrewAlertMessage => ({
+      ...base,
+      type: 'alert',
+      severity: alertByZone.get(base.zoneId)!.severity,
+      reason: alertByZone.get(base.zoneId)!.reason
+    }),
+    cityId
+  );
+
+  return broadcastToCrews(supabase, messages, cityId);
+}
+
+async function getZoneNames(
+  supabase: SupabaseClient,
+  zoneIds: number[],
+  cityId: string
+): Promise<Map<number, string>> {
+  const { data: zones, error } = await supabase
+    .from('zones')
+    .select('id, name')
+    .eq('city_id', cityId)
+    .in('id', Array.from(new Set(zoneIds)));
+
+  if (error) throw error;
+  return new Map((zones || []).map((zone: any) => [zone.id, zone.name]));
+}
@@ -0,0 +1,75 @@
+/**
+ * Crew channel messages
+ * What arrives on a crew's private channel. Kept apart from crew-channel.ts,
+ * which is server-only (it signs topics with Node's crypto), so the browser
+ * client can subscribe without bundling it.
+ */
+
+import type { ReportCategory } from '../config/reports';
+import type { MessageKey, Translate } from '../i18n/locale';
+import type { Severity } from './signal-source';
+
+export const CREW_EVENT = 'crew';
+
+// A member's way in: the crew's topic and a realtime token for their session
+export interface MemberCrewChannel {
+  topic: string;
+  token: string; // Realtime access token for this member's session only
+  expiresAt: string; // Renewed by each heartbeat; the crew's RLS policy also checks presence
+}
+
+export interface CrewMessageBase {
+  crewId: number;
+  zoneId: number;
+  zoneName: string;
+  issuedAt: string;
+}
+
+// Move (or hold) for the next rotation period
+export interface CrewRotationMessage extends CrewMessageBase {
+  type: 'rotation';
+  walkTime: number | null; // Minutes, null when holding
+  reason: string | null; // Rotation reason codes (config/rotation-reasons.ts)
+  nextRotation: string | null;
+}
+
+// Organizers changed the crew's current zone
+export interface CrewZoneChangeMessage extends CrewMessageBase {
+  type: 'zone-change';
+  active: boolean;
+}
+
+// What a safety alert is about, worded on each phone in its own language
+export type ZoneAlertReason =
+  | { code: 'report'; category: ReportCategory; reporters: number } // Corroborated incident reports
+  | { code: 'police-activity' }; // Signal sources put the zone over the danger score
+
+export interface ZoneAlert {
+  zoneId: number;
+  severity: Severity;
+  reason: ZoneAlertReason;
+}
+
+// Danger reported in the crew's current zone
+export interface CrewAlertMessage extends CrewMessageBase {
+  type: 'alert';
+  severity: Severity;
+  reason: ZoneAlertReason;
+}
+
+export type CrewMessage = CrewRotationMessage | CrewZoneChangeMessage | CrewAlertMessage;
+
+/**
+ * An alert's text in the reader's language
+ */
+export function describeZoneAlert(reason: ZoneAlertReason, t: Translate): string {
+  switch (reason.code) {
+    case 'report':
+      return t('alert.report', {
+        category: t(`report.category.${reason.category}` as MessageKey),
+        reporters: reason.reporters
+      });
+    case 'police-activity':
+      return t('alert.policeActivity');
+  }
+}
@@ -4,25 +4,18 @@
  */
 
 import { createClient, SupabaseClient } from '@supabase/supabase-js';
-import { AnchorCrewService } from './anchor-strategy';
 import { Database } from '../supabase/client';
+import { getDeploymentCity } from '../config/cities';
+import {
+  AssignmentStrategy,
+  CrewAssignment,
+  CREW_FILL_THRESHOLD,
+  getCrewName
+} from './assignment-strategy';
+import { getNextRotation } from './rotation-schedule';
 
 const MAX_CREWS = parseInt(process.env.NEXT_PUBLIC_MAX_CREWS || '20');
 const MAX_CREW_SIZE = parseInt(process.env.NEXT_PUBLIC_MAX_CREW_SIZE || '200');
-const CREW_FILL_THRESHOLD = 150; // Start new crew after this many people
-
-// Singleton anchor service (invisible to frontend)
-const anchorService = new AnchorCrewService();
-
-export interface CrewAssignment {
-  crewId: number;
-  crewName: string;
-  estimatedSize: number;
-  zoneId: string;
-  zoneName: string;
-  nextRotation: Date;
-  preferredZoneId?: string; // Based on user location
-}
 
 /**
  * Get crew assignment for a user based on current time and location
@@ -30,7 +23,8 @@ export interface CrewAssignment {
  */
 export async function getCrewAssignment(
   supabase: SupabaseClient<Database>,
-  preferredZoneId?: string
+  preferredZoneId?: string,
+  cityId: string = getDeploymentCity().id
 ): Promise<CrewAssignment> {
   // Time bucket: 10-second windows for crew assignment
   const now = new Date();
@@ -38,21 +32,19 @@ export async function getCrewAssignment(
   
   // Get current crew stats from database
   const { data: crewStats } = await supabase
-    .rpc('get_crew_stats')
+    .rpc('get_crew_stats', { p_city_id: cityId })
     .single();
   
   const activeCrews = (crewStats as Database['public']['Functions']['get_crew_stats']['Returns'] | null)?.active_crews || 0;
   
-  // Calculate next rotation time (every 30 minutes)
-  const rotationInterval = 30 * 60 * 1000; // 30 minutes
-  const currentRotationCycle = Math.floor(now.getTime() / rotationInterval);
-  const nextRotationTime = (currentRotationCycle + 1) * rotationInterval;
-  const nextRotation = new Date(nextRotationTime);
+  // Next move on the city's rotation schedule
+  const nextRotation = getNextRotation(cityId, now);
   
   // Get current crew sizes
   const { data: currentCrews } = await supabase
     .from('current_crews')
     .select('crew_id, estimated_size, zone_id')
+    .eq('city_id', cityId)
     .order('crew_id');
   
   // Find crew to assign based on current distribution
@@ -114,6 +106,7 @@ export async function getCrewAssignment(
       const { data: zones } = await supabase
         .from('zones')
         .select('id, name, center_lat, center_lng')
+        .eq('city_id', cityId)
         .eq('active', true);
       
       if (zones && preferredZoneId) {
@@ -192,17 +185,18 @@ export async function getCrewAssignment(
     estimatedSize,
     zoneId,
     zoneName: zone?.name || 'Downtown',
-    nextRotation,
-    preferredZoneId
+    nextRotation
   };
 }
 
 /**
- * Get simple group identifier
+ * Balanced strategy: fills crews in order, preferring the user's nearest zone
  */
-function getCrewName(crewId: number): string {
-  return `Group ${crewId}`;
-}
+export const balancedStrategy: AssignmentStrategy = {
+  id: 'balanced',
+  description: 'Fill crews evenly, preferring the nearest zone with space',
+  assign: (supabase, context) => getCrewAssignment(supabase, context.preferredZoneId, context.cityId)
+};
 
 /**
  * Simple hash function for consistent randomness
@@ -241,9 +235,12 @@ function calculateDistance(
  * Estimate current active protesters across all crews
  * This is intentionally fuzzy for privacy
  */
-export async function estimateTotalProtesters(supabase: SupabaseClient<Database>): Promise<number> {
+export async function estimateTotalProtesters(
+  supabase: SupabaseClient<Database>,
+  cityId: string = getDeploymentCity().id
+): Promise<number> {
   const { data: stats } = await supabase
-    .rpc('get_crew_stats')
+    .rpc('get_crew_stats', { p_city_id: cityId })
     .single();
   
   const baseCount = (stats as Database['public']['Functions']['get_crew_stats']['Returns'] | null)?.total_protesters || 0;
@@ -260,7 +257,10 @@ export async function estimateTotalProtesters(supabase: SupabaseClient<Database>
  * Get all active crews with their current zones
  * This is public information - transparency is our strength
  */
-export async function getAllActiveCrews(supabase: SupabaseClient<Database>) {
+export async function getAllActiveCrews(
+  supabase: SupabaseClient<Database>,
+  cityId: string = getDeploymentCity().id
+) {
   const { data: crews } = await supabase
     .from('current_crews')
     .select(`
@@ -268,8 +268,11 @@ export async function getAllActiveCrews(supabase: SupabaseClient<Database>) {
       estimated_size,
       assigned_at,
       next_rotation,
+      walk_time_minutes,
+      rotation_reason,
       zone:zones(id, name, center_lat, center_lng)
     `)
+    .eq('city_id', cityId)
     .gt('estimated_size', 0)
     .order('crew_id');
   
@@ -279,6 +282,8 @@ export async function getAllActiveCrews(supabase: SupabaseClient<Database>) {
     size: crew.estimated_size,
     zone: crew.zone,
     assignedAt: crew.assigned_at,
-    nextRotation: crew.next_rotation
+    nextRotation: crew.next_rotation,
+    walkTime: crew.walk_time_minutes !== null ? Number(crew.walk_time_minutes) : null,
+    rotationReason: crew.rotation_reason
   })) || [];
 }
\ No newline at end of file
@@ -0,0 +1,119 @@
+/**
+ * Evacuation orders
+ * After an evacuation is planned, each moved crew gets an order with its
+ * new zone, the direction to walk and the walking time, pushed over a
+ * Supabase realtime broadcast so phones react without waiting for a poll.
+ */
+
+import { SupabaseClient } from '@supabase/supabase-js';
+import { getDeploymentCity } from '../config/cities';
+import type { RotationPlan } from './smart-rotation';
+
+export const EVACUATION_EVENT = 'evacuate';
+
+const COMPASS_POINTS = ['north', 'northeast', 'east', 'southeast', 'south', 'southwest', 'west', 'northwest'];
+
+export interface EvacuationOrder {
+  crewId: number;
+  fromZoneId: number;
+  fromZoneName: string;
+  toZoneId: number;
+  toZoneName: string;
+  walkTime: number; // Minutes
+  direction: string | null; // Compass direction from the old zone to the new one
+  issuedAt: string;
+}
+
+/**
+ * Broadcast channel for a city's evacuation orders
+ */
+export function getEvacuationChannel(cityId: string = getDeploymentCity().id): string {
+  return `evacuation:${cityId}`;
+}
+
+/**
+ * Turn evacuation moves into orders crews can act on
+ */
+export async function buildEvacuationOrders(
+  supabase: SupabaseClient,
+  moves: RotationPlan[],
+  cityId: string = getDeploymentCity().id
+): Promise<EvacuationOrder[]> {
+  if (moves.length === 0) return [];
+
+  const zoneIds = Array.from(new Set(moves.flatMap(move => [move.from_zone_id, move.to_zone_id])));
+  const { data: zones, error } = await supabase
+    .from('zones')
+    .select('id, name, center_lat, center_lng')
+    .eq('city_id', cityId)
+    .in('id', zoneIds);
+
+  if (error) throw error;
+
+  const zoneById = new Map<number, any>((zones || []).map((zone: any) => [zone.id, zone]));
+  const issuedAt = new Date().toISOString();
+
+  return moves.map(move => {
+    const from = zoneById.get(move.from_zone_id);
+    const to = zoneById.get(move.to_zone_id);
+
+    return {
+      crewId: move.crew_id,
+      fromZoneId: move.from_zone_id,
+      fromZoneName: from?.name || `Zone ${move.from_zone_id}`,
+      toZoneId: move.to_zone_id,
+      toZoneName: to?.name || `Zone ${move.to_zone_id}`,
+      walkTime: move.walk_time,
+      direction: from && to
+        ? getCompassDirection(Number(from.center_lat), Number(from.center_lng), Number(to.center_lat), Number(to.center_lng))
+        : null,
+      issuedAt
+    };
+  });
+}
+
+/**
+ * Push orders to every client listening in the city
+ * Sent over HTTP, so the server never holds a socket open. The channel is
+ * private so only the service role can send (see realtime.messages policy)
+ */
+export async function broadcastEvacuation(
+  supabase: SupabaseClient,
+  orders: EvacuationOrder[],
+  cityId: string = getDeploymentCity().id
+): Promise<boolean> {
+  if (orders.length === 0) return true;
+
+  const channel = supabase.channel(getEvacuationChannel(cityId), { config: { private: true } });
+  try {
+    const status = await channel.send({
+      type: 'broadcast',
+      event: EVACUATION_EVENT,
+      payload: { orders }
+    });
+    return status === 'ok';
+  } finally {
+    supabase.removeChannel(channel);
+  }
+}
+
+/**
+ * Eight-point compass direction of travel between two points
+ */
+export function getCompassDirection(
+  fromLat: number,
+  fromLng: number,
+  toLat: number,
+  toLng: number
+): string {
+  const toRadians = (degrees: number) => (degrees * Math.PI) / 180;
+  const dLng = toRadians(toLng - fromLng);
+
+  // Initial bearing, clockwise from north
+  const y = Math.sin(dLng) * Math.cos(toRadians(toLat));
+  const x = Math.cos(toRadians(fromLat)) * Math.sin(toRadians(toLat)) -
+    Math.sin(toRadians(fromLat)) * Math.cos(toRadians(toLat)) * Math.cos(dLng);
+  const bearing = (Math.atan2(y, x) * 180 / Math.PI + 360) % 360;
+
+  return COMPASS_POINTS[Math.round(bearing / 45) % 8];
+}
@@ -0,0 +1,255 @@
+/**
+ * Place gazetteer
+ * Finds place mentions in news text using the city's own zones: their
+ * names, aliases and street intersections. A mention resolves to
+ * coordinates, and the coordinates map to whichever zone contains them,
+ * so the lookup works in any city without a hardcoded place list.
+ */
+
+import { SupabaseClient } from '@supabase/supabase-js';
+import { getDeploymentCity } from '../config/cities';
+import { ZoneGeometry, findContainingZone } from './zone-geometry';
+
+export interface ZoneIntersection {
+  streets: [string, string];
+  lat?: number; // Defaults to the zone center
+  lng?: number;
+}
+
+export interface GazetteerZone {
+  id: number;
+  name: string;
+  center_lat: number | string;
+  center_lng: number | string;
+  radius_meters?: number | null;
+  geometry?: ZoneGeometry | null;
+  aliases?: string[] | null;
+  intersections?: ZoneIntersection[] | null;
+}
+
+export interface Place {
+  name: string;
+  kind: 'intersection' | 'alias' | 'zone'; // Most specific first
+  lat: number;
+  lng: number;
+}
+
+export interface Gazetteer {
+  zones: GazetteerZone[];
+  places: Map<string, Place>; // Normalized term -> place
+}
+
+const KIND_RANK: Record<Place['kind'], number> = { intersection: 0, alias: 1, zone: 2 };
+
+const MIN_TERM_LENGTH = 4; // Skip terms like "ave" that match everywhere
+
+const ABBREVIATIONS: Record<string, string> = {
+  street: 'st', avenue: 'ave', boulevard: 'blvd', drive: 'dr', road: 'rd',
+  place: 'pl', lane: 'ln', court: 'ct', parkway: 'pkwy', highway: 'hwy', square: 'sq',
+  north: 'n', south: 's', east: 'e', west: 'w',
+  first: '1st', second: '2nd', third: '3rd', fourth: '4th', fifth: '5th',
+  sixth: '6th', seventh: '7th', eighth: '8th', ninth: '9th', tenth: '10th'
+};
+
+const STREET_SUFFIXES = new Set(['st', 'ave', 'blvd', 'dr', 'rd', 'pl', 'ln', 'ct', 'pkwy', 'hwy', 'way']);
+const DIRECTIONS = new Set(['n', 's', 'e', 'w']);
+
+/**
+ * Gazetteer for a city's active zones
+ */
+export async function loadGazetteer(
+  supabase: SupabaseClient,
+  cityId: string = getDeploymentCity().id
+): Promise<Gazetteer> {
+  const { data, error } = await supabase
+    .from('zones')
+    .select('id, name, center_lat, center_lng, radius_meters, geometry, aliases, intersections')
+    .eq('city_id', cityId)
+    .eq('active', true);
+
+  if (error) throw error;
+  return buildGazetteer(data || []);
+}
+
+/**
+ * Index every way a zone can be named
+ * Zone names like "S Hill St & W 5th St (Pershing Square)" give both an
+ * intersection and an alias without any extra data
+ */
+export function buildGazetteer(zones: GazetteerZone[]): Gazetteer {
+  const places = new Map<string, Place>();
+
+  const add = (terms: string[], place: Place) => {
+    for (const term of terms) {
+      if (term.length < MIN_TERM_LENGTH) continue;
+
+      const existing = places.get(term);
+      if (!existing || KIND_RANK[place.kind] < KIND_RANK[existing.kind]) {
+        places.set(term, place);
+      }
+    }
+  };
+
+  for (const zone of zones) {
+    const lat = Number(zone.center_lat);
+    const lng = Number(zone.center_lng);
+    const [, main, parenthetical] = zone.name.match(/^(.*?)\s*(?:\((.*)\))?\s*$/) || [];
+
+    add([normalizePlaceName(zone.name), normalizePlaceName(main)], { name: zone.name, kind: 'zone', lat, lng });
+
+    if (parenthetical) {
+      add(nameTerms(parenthetical), { name: parenthetical, kind: 'alias', lat, lng });
+    }
+    for (const alias of zone.aliases || []) {
+      add(nameTerms(alias), { name: alias, kind: 'alias', lat, lng });
+    }
+
+    const streets = main.split(/\s*&\s*/);
+    const intersections: ZoneIntersection[] = [
+      ...(streets.length === 2 ? [{ streets: streets as [string, string] }] : []),
+      ...(zone.intersections || [])
+    ];
+
+    for (const intersection of intersections) {
+      if (!Array.isArray(intersection?.streets) || intersection.streets.length !== 2) continue;
+
+      const [a, b] = intersection.streets;
+      add(intersectionTerms(a, b), {
+        name: `${a} & ${b}`,
+        kind: 'intersection',
+        lat: Number.isFinite(intersection.lat) ? intersection.lat! : lat,
+        lng: Number.isFinite(intersection.lng) ? intersection.lng! : lng
+      });
+    }
+  }
+
+  return { zones, places };
+}
+
+/**
+ * Every known place mentioned in the text, most specific first
+ */
+export function extractPlaces(text: string, gazetteer: Gazetteer): Place[] {
+  const haystack = ` ${normalizePlaceName(text)} `;
+  const found: Array<{ term: string; place: Place }> = [];
+
+  gazetteer.places.forEach((place, term) => {
+    if (haystack.includes(` ${term} `) && !found.some(match => match.place === place)) {
+      found.push({ term, place });
+    }
+  });
+
+  return found
+    .sort((a, b) => KIND_RANK[a.place.kind] - KIND_RANK[b.place.kind] || b.term.length - a.term.length)
+    .map(match => match.place);
+}
+
+/**
+ * Coordinates of the most specific place mentioned, or null
+ */
+export function resolveLocation(text: string, gazetteer: Gazetteer): Place | null {
+  return extractPlaces(text, gazetteer)[0] || null;
+}
+
+/**
+ * Zone containing a point: by boundary, else the nearest circle zone in range
+ */
+export function findZoneAt(zones: GazetteerZone[], lat: number, lng: number): GazetteerZone | null {
+  const containing = findContainingZone(zones, lat, lng);
+  if (containing) return containing;
+
+  let nearest: GazetteerZone | null = null;
+  let nearestDistance = Infinity;
+
+  for (const zone of zones) {
+    if (zone.geometry) continue;
+
+    const distance = calculateDistance(lat, lng, Number(zone.center_lat), Number(zone.center_lng));
+    if (distance <= (zone.radius_meters || 500) && distance < nearestDistance) {
+      nearest = zone;
+      nearestDistance = distance;
+    }
+  }
+
+  return nearest;
+}
+
+/**
+ * Zone an event happened in, from its location and then its description
+ */
+export function locateEvent(
+  event: { location: string; description: string },
+  gazetteer: Gazetteer
+): number | null {
+  for (const text of [event.location, event.description]) {
+    const place = resolveLocation(text, gazetteer);
+    const zone = place && findZoneAt(gazetteer.zones, place.lat, place.lng);
+    if (zone) return zone.id;
+  }
+
+  return null;
+}
+
+/**
+ * Lowercase words with street types and ordinals abbreviated, and
+ * "and", "at", "/" and "@" between streets written as "&"
+ */
+export function normalizePlaceName(text: string): string {
+  return text
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/\s+(?:and|at)\s+|[/@]/g, ' & ')
+    .replace(/[^a-z0-9&]+/g, ' ')
+    .replace(/&/g, ' & ')
+    .split(' ')
+    .filter(Boolean)
+    .map(word => ABBREVIATIONS[word] || word)
+    .join(' ');
+}
+
+// A name as written, and without a leading "The"
+function nameTerms(name: string): string[] {
+  const normalized = normalizePlaceName(name);
+  return [normalized, normalized.replace(/^the /, '')];
+}
+
+// "S Hill St" -> ["s hill st", "hill st", "hill"]
+function streetVariants(street: string): string[] {
+  const words = normalizePlaceName(street).split(' ');
+  const withoutDirection = DIRECTIONS.has(words[0]) && words.length > 1 ? words.slice(1) : words;
+  const bare = STREET_SUFFIXES.has(withoutDirection[withoutDirection.length - 1]) && withoutDirection.length > 1
+    ? withoutDirection.slice(0, -1)
+    : withoutDirection;
+
+  return Array.from(new Set([words, withoutDirection, bare].map(variant => variant.join(' '))));
+}
+
+// Both street orders, with and without directions and street types
+function intersectionTerms(a: string, b: string): string[] {
+  const terms: string[] = [];
+
+  for (const first of streetVariants(a)) {
+    for (const second of streetVariants(b)) {
+      terms.push(`${first} & ${second}`, `${second} & ${first}`);
+    }
+  }
+
+  return terms;
+}
+
+function calculateDistance(
+  lat1: number, lon1: number,
+  lat2: number, lon2: number
+): number {
+  const R = 6371000; // Meters
+  const dLat = (lat2 - lat1) * Math.PI / 180;
+  const dLon = (lon2 - lon1) * Math.PI / 180;
+
+  const a =
+    Math.sin(dLat / 2) * Math.sin(dLat / 2) +
+    Math.cos(lat1 * Math.PI / 180) * Math.cos(lat2 * Math.PI / 180) *
+    Math.sin(dLon / 2) * Math.sin(dLon / 2);
+
+  return R * 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
+}
@@ -3,13 +3,10 @@
  * No location data sent to server
  */
 
-interface GeofenceConfig {
-  centerLat: number;
-  centerLng: number;
-  radiusKm: number;
-  walkingRadiusKm: number; // Much tighter radius for crew assignment
-  cityName: string;
-}
+import { ZoneGeometry, findContainingZone } from './zone-geometry';
+import { CityConfig, getCurrentCity } from '../config/cities';
+import { Locale, getLocale, translate } from '../i18n/locale';
+import { formatDistance, getFormatContext } from '../i18n/format';
 
 interface Zone {
   id: string;
@@ -17,18 +14,27 @@ interface Zone {
   center_lat: number;
   center_lng: number;
   type: string;
+  geometry?: ZoneGeometry | null;
+  status?: { crews: unknown[] };
 }
 
 /**
  * Check if user is within walking distance of active protest
  * Uses much tighter radius than city-wide check
+ * Defaults to the city the page is showing (/la, nyc.overwhelm.city)
+ * Reasons are in the phone's language, with distances in the city's units
  */
-export async function checkIfNearProtest(): Promise<{
+export async function checkIfNearProtest(
+  city: CityConfig = getCurrentCity(),
+  locale: Locale = getLocale(city)
+): Promise<{
   allowed: boolean;
   nearestZone?: Zone;
   distance?: number;
   reason?: string;
 }> {
+  const format = getFormatContext(city, locale);
+
   // Check for test mode
   if (typeof window !== 'undefined') {
     const urlParams = new URLSearchParams(window.location.search);
@@ -39,31 +45,17 @@ export async function checkIfNearProtest(): Promise<{
     if (testMode === 'true' && testKey === process.env.NEXT_PUBLIC_TEST_KEY) {
       return {
         allowed: true,
-        nearestZone: {
-          id: '1',
-          name: 'City Hall',
-          center_lat: 34.0537,
-          center_lng: -118.2427,
-          type: 'primary'
-        },
+        nearestZone: getDefaultActiveZones(city)[0],
         distance: 0.5,
-        reason: 'Test mode enabled'
+        reason: translate(locale, 'geofence.testMode')
       };
     }
   }
 
-  const config: GeofenceConfig = {
-    centerLat: parseFloat(process.env.NEXT_PUBLIC_CITY_CENTER_LAT || '34.0522'),
-    centerLng: parseFloat(process.env.NEXT_PUBLIC_CITY_CENTER_LNG || '-118.2437'),
-    radiusKm: parseFloat(process.env.NEXT_PUBLIC_CITY_RADIUS_KM || '50'),
-    walkingRadiusKm: parseFloat(process.env.NEXT_PUBLIC_WALKING_RADIUS_KM || '2'), // 2km = ~25 min walk
-    cityName: process.env.NEXT_PUBLIC_CITY_NAME || 'Los Angeles'
-  };
-
   if (!('geolocation' in navigator)) {
     return { 
       allowed: false, 
-      reason: 'Location services are required to use this tool' 
+      reason: translate(locale, 'geofence.unsupported')
     };
   }
 
@@ -82,26 +74,39 @@ export async function checkIfNearProtest(): Promise<{
     // First check if in city at all
     const cityDistance = calculateDistance(
       userLat, userLng,
-      config.centerLat, config.centerLng
+      city.center.lat, city.center.lng
     );
 
-    if (cityDistance > config.radiusKm) {
-      const miles = Math.round(cityDistance * 0.621371);
+    if (cityDistance > city.radiusKm) {
       return {
         allowed: false,
-        reason: `You're ${miles} miles from ${config.cityName}. This tool is for on-the-ground protesters only.`,
+        reason: translate(locale, 'geofence.outsideCity', {
+          distance: formatDistance(cityDistance, format),
+          city: city.name
+        }),
         distance: cityDistance
       };
     }
 
     // Get active zones from API
-    const zones = await fetchActiveZones();
+    const zones = await fetchActiveZones(city);
     
-    // Find nearest zone
+    // Standing inside any active zone's boundary always counts, however large
+    // the zone and whether or not a crew is there yet
+    const containingZone = findContainingZone(zones, userLat, userLng);
+    if (containingZone) {
+      return {
+        allowed: true,
+        nearestZone: containingZone,
+        distance: 0
+      };
+    }
+    
+    // Find nearest zone with crews on it (or a primary zone)
     let nearestZone: Zone | null = null;
     let nearestDistance = Infinity;
 
-    for (const zone of zones) {
+    for (const zone of zones.filter(isStaffedZone)) {
       const distance = calculateDistance(
         userLat, userLng,
         zone.center_lat, zone.center_lng
@@ -114,18 +119,19 @@ export async function checkIfNearProtest(): Promise<{
     }
 
     // Check if within walking distance of nearest zone
-    if (nearestZone && nearestDistance <= config.walkingRadiusKm) {
+    if (nearestZone && nearestDistance <= city.walkingRadiusKm) {
       return {
         allowed: true,
         nearestZone,
         distance: nearestDistance
       };
     } else {
-      const walkingMiles = (config.walkingRadiusKm * 0.621371).toFixed(1);
-      const nearestMiles = Math.round(nearestDistance * 0.621371);
       return {
         allowed: false,
-        reason: `You need to be within walking distance (${walkingMiles} miles) of an active protest zone. Nearest zone is ${nearestMiles} miles away.`,
+        reason: translate(locale, 'geofence.tooFar', {
+          radius: formatDistance(city.walkingRadiusKm, format),
+          distance: formatDistance(nearestDistance, format)
+        }),
         distance: nearestDistance
       };
     }
@@ -135,7 +141,7 @@ export async function checkIfNearProtest(): Promise<{
     // If user denies location, block access for security
     return { 
       allowed: false, 
-      reason: 'Location access required. Please enable location services and reload.' 
+      reason: translate(locale, 'geofence.denied')
     };
   }
 }
@@ -147,8 +153,12 @@ export async function checkIfNearProtest(): Promise<{
 export async function getNearestZone(
   userLat: number,
   userLng: number,
-  zones: Zone[]
+  zones: Zone[],
+  city: CityConfig = getCurrentCity()
 ): Promise<Zone | null> {
+  const containingZone = findContainingZone(zones, userLat, userLng);
+  if (containingZone) return containingZone;
+
   let nearestZone: Zone | null = null;
   let nearestDistance = Infinity;
 
@@ -165,8 +175,7 @@ export async function getNearestZone(
   }
 
   // Only return if within walking distance
-  const walkingRadius = parseFloat(process.env.NEXT_PUBLIC_WALKING_RADIUS_KM || '2');
-  if (nearestDistance <= walkingRadius) {
+  if (nearestDistance <= city.walkingRadiusKm) {
     return nearestZone;
   }
 
@@ -200,63 +209,45 @@ function toRad(degrees: number): number {
   return degrees * (Math.PI / 180);
 }
 
+/**
+ * Zones worth walking to from outside: ones with crews, and the primary zones
+ */
+function isStaffedZone(zone: Zone): boolean {
+  return (zone.status?.crews.length ?? 0) > 0 || zone.type === 'primary';
+}
+
 /**
  * Fetch active zones from API
  */
-async function fetchActiveZones(): Promise<Zone[]> {
+async function fetchActiveZones(city: CityConfig): Promise<Zone[]> {
   try {
-    const response = await fetch('/api/zones');
+    const response = await fetch(`/api/zones?city=${city.id}`);
     const data = await response.json();
     
     if (data.success && data.zones) {
-      // Filter to only active zones with crews
-      return data.zones.filter((z: any) => 
-        z.status.crews.length > 0 || z.type === 'primary'
-      );
+      return data.zones;
     }
   } catch (error) {
     console.error('Failed to fetch zones:', error);
   }
   
   // Return default zones if fetch fails
-  return getDefaultActiveZones();
+  return getDefaultActiveZones(city);
 }
 
 /**
- * Default zones for LA (fallback)
+ * Default zones (fallback) - LA's known zones, otherwise the city center
  */
-function getDefaultActiveZones(): Zone[] {
+function getDefaultActiveZones(city: CityConfig): Zone[] {
+  if (city.id !== 'la') {
+    return [
+      { id: city.id, name: city.primaryZones[0] || city.name, center_lat: city.center.lat, center_lng: city.center.lng, type: 'primary' },
+    ];
+  }
+  
   return [
     { id: 'downtown', name: 'Downtown', center_lat: 34.0522, center_lng: -118.2437, type: 'primary' },
     { id: 'hollywood', name: 'Hollywood', center_lat: 34.0928, center_lng: -118.3287, type: 'primary' },
     { id: 'westwood', name: 'Westwood', center_lat: 34.0689, center_lng: -118.4452, type: 'primary' },
   ];
 }
-
-/**
- * Format distance for display in miles
- */
-export function formatDistance(km: number): string {
-  const miles = km * 0.621371;
-  if (miles < 0.1) {
-    const feet = Math.round(miles * 5280);
-    return `${feet} feet`;
-  }
-  if (miles < 1) {
-    return `${miles.toFixed(1)} miles`;
-  }
-  return `${Math.round(miles)} miles`;
-}
-
-/**
- * Estimate walking time
- */
-export function estimateWalkingTime(km: number): string {
-  const minutes = Math.round(km * 12); // ~5km/h walking speed
-  if (minutes < 60) {
-    return `${minutes} min walk`;
-  }
-  const hours = Math.floor(minutes / 60);
-  const mins = minutes % 60;
-  return `${hours}h ${mins}min walk`;
-}
\ No newline at end of file
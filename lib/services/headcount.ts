@@ -0,0 +1,150 @@
+/**
+ * Server-side crew headcount
+ * Joins, leaves and heartbeats feed an atomic counter in the database.
+ * Only a hash of the anonymous session id is ever stored.
+ */
+
+import { createHash } from 'crypto';
+import { SupabaseClient } from '@supabase/supabase-js';
+import { getDeploymentCity } from '../config/cities';
+import { MobilityNeed, parseMobilityNeeds } from './mobility';
+import { getNextRotation } from './rotation-schedule';
+
+// Members that miss three heartbeats (sent every 2 minutes) are dropped
+export const PRESENCE_TTL_SECONDS = 6 * 60;
+
+export const MAX_CREW_ID = 50; // Matches crew_zones CHECK constraint
+export const MAX_CREW_SIZE = 2000; // Matches valid_crew_size; above ANCHOR_SIZE_TARGET
+const SESSION_ID_PATTERN = /^[A-Za-z0-9_-]{16,128}$/;
+
+export interface PresenceRequest {
+  sessionId: string;
+  crewId: number;
+  zoneId: number;
+  cityId?: string; // Crew numbers are per city; defaults to the deployment city
+  mobility?: MobilityNeed[]; // Constrains the crew's rotations while this member is in it
+}
+
+/**
+ * Validate an untrusted request body
+ * Returns an error message, or null if the body is usable
+ */
+export function validatePresenceRequest(
+  body: any,
+  requireCrew: boolean = true
+): string | null {
+  if (!body || typeof body.sessionId !== 'string' || !SESSION_ID_PATTERN.test(body.sessionId)) {
+    return 'Invalid session id';
+  }
+
+  if (!requireCrew) return null;
+
+  const crewId = Number(body.crewId);
+  if (!Number.isInteger(crewId) || crewId < 1 || crewId > MAX_CREW_ID) {
+    return 'Invalid crew id';
+  }
+
+  const zoneId = Number(body.zoneId);
+  if (!Number.isInteger(zoneId) || zoneId < 1) {
+    return 'Invalid zone id';
+  }
+
+  if (parseMobilityNeeds(body.mobility) === null) {
+    return 'Unknown mobility need';
+  }
+
+  return null;
+}
+
+/**
+ * Add a member to a crew (idempotent per session)
+ * Returns the crew's new size, or null if the crew is full
+ */
+export async function recordJoin(
+  supabase: SupabaseClient,
+  request: PresenceRequest
+): Promise<number | null> {
+  const { data, error } = await supabase.rpc('join_crew', {
+    p_session_hash: hashSessionId(request.sessionId),
+    p_crew_id: request.crewId,
+    p_zone_id: request.zoneId,
+    p_mobility: request.mobility ?? [],
+    p_max_size: MAX_CREW_SIZE,
+    ...getCityArgs(request.cityId)
+  });
+
+  if (error) throw error;
+  return data;
+}
+
+/**
+ * Remove a member from their crew
+ * Returns the crew's new size, or null if the session wasn't in a crew
+ */
+export async function recordLeave(
+  supabase: SupabaseClient,
+  sessionId: string
+): Promise<number | null> {
+  const { data, error } = await supabase.rpc('leave_crew', {
+    p_session_hash: hashSessionId(sessionId)
+  });
+
+  if (error) throw error;
+  return data ?? null;
+}
+
+/**
+ * Keep a member counted; expired members are re-joined
+ * Returns null if an expired member's crew filled up in the meantime
+ */
+export async function recordHeartbeat(
+  supabase: SupabaseClient,
+  request: PresenceRequest
+): Promise<number | null> {
+  const { data, error } = await supabase.rpc('crew_heartbeat', {
+    p_session_hash: hashSessionId(request.sessionId),
+    p_crew_id: request.crewId,
+    p_zone_id: request.zoneId,
+    p_ttl_seconds: PRESENCE_TTL_SECONDS,
+    p_mobility: request.mobility ?? [],
+    p_max_size: MAX_CREW_SIZE,
+    ...getCityArgs(request.cityId)
+  });
+
+  if (error) throw error;
+  return data;
+}
+
+/**
+ * City scope for presence calls; a crew created by this call starts
+ * on the city's rotation schedule
+ */
+function getCityArgs(cityId: string = getDeploymentCity().id) {
+  return {
+    p_city_id: cityId,
+    p_next_rotation: getNextRotation(cityId)?.toISOString() || null
+  };
+}
+
+/**
+ * Drop members who stopped sending heartbeats
+ */
+export async function expireStalePresence(supabase: SupabaseClient): Promise<number> {
+  const { data, error } = await supabase.rpc('expire_stale_presence', {
+    p_ttl_seconds: PRESENCE_TTL_SECONDS
+  });
+
+  if (error) {
+    console.error('Presence expiry failed:', error);
+    return 0;
+  }
+
+  return data ?? 0;
+}
+
+/**
+ * One-way hash so the database never holds a replayable session id
+ */
+export function hashSessionId(sessionId: string): string {
+  return createHash('sha256').update(sessionId).digest('hex');
+}
@@ -0,0 +1,136 @@
+/**
+ * Map view helpers
+ * What ZoneMap draws: the tile source, each zone's shape and the bounds
+ * that fit a city's zones. Tiles come from /tiles on this server by default
+ * (fetched ahead of time with `npm run tiles`) so the map keeps working on
+ * a box with no internet and never tells a tile server who is looking.
+ */
+
+import type { CityConfig } from '../config/cities';
+import { calculateBounds, getPolygons, isZoneGeometry } from './zone-geometry';
+
+export type LatLng = [number, number]; // [lat, lng] like Leaflet, unlike GeoJSON
+export type MapBounds = [LatLng, LatLng]; // [SW, NE]
+
+export const DEFAULT_TILE_URL = '/tiles/{z}/{x}/{y}.png';
+export const DEFAULT_ZONE_RADIUS_METERS = 500; // zones.radius_meters default
+export const MIN_TILE_ZOOM = 12;
+export const MAX_TILE_ZOOM = 17;
+
+const METERS_PER_DEGREE = 111000;
+
+export interface MapTiles {
+  url: string; // {z}/{x}/{y} template
+  attribution: string;
+  minZoom: number;
+  maxZoom: number;
+}
+
+// Fields the map needs from an /api/zones row
+export interface MapZone {
+  id: number;
+  name: string;
+  center_lat: number;
+  center_lng: number;
+  radius_meters?: number | null;
+  geometry?: unknown;
+}
+
+export type ZoneShape =
+  | { kind: 'polygon'; rings: LatLng[][][] } // Parts, each outer ring then holes
+  | { kind: 'circle'; center: LatLng; radiusMeters: number };
+
+/**
+ * Tile layer settings, overridable for a hosted tile server
+ */
+export function getMapTiles(): MapTiles {
+  return {
+    url: process.env.NEXT_PUBLIC_MAP_TILE_URL || DEFAULT_TILE_URL,
+    attribution: process.env.NEXT_PUBLIC_MAP_ATTRIBUTION || '&copy; OpenStreetMap contributors',
+    minZoom: MIN_TILE_ZOOM,
+    maxZoom: MAX_TILE_ZOOM
+  };
+}
+
+/**
+ * A zone's boundary, or a circle of its radius when it has none
+ */
+export function getZoneShape(zone: MapZone): ZoneShape {
+  if (isZoneGeometry(zone.geometry)) {
+    return {
+      kind: 'polygon',
+      rings: getPolygons(zone.geometry).map(polygon =>
+        polygon.map(ring => ring.map(([lng, lat]): LatLng => [lat, lng]))
+      )
+    };
+  }
+
+  return {
+    kind: 'circle',
+    center: [zone.center_lat, zone.center_lng],
+    radiusMeters: zone.radius_meters || DEFAULT_ZONE_RADIUS_METERS
+  };
+}
+
+/**
+ * Bounds that show every zone whole
+ * With no zones, the city's walking radius around its center
+ */
+export function getMapBounds(zones: MapZone[], city: CityConfig): MapBounds {
+  if (zones.length === 0) {
+    return boxAround(city.center.lat, city.center.lng, city.walkingRadiusKm * 1000);
+  }
+
+  let [[minLat, minLng], [maxLat, maxLng]] = zoneBounds(zones[0]);
+  zones.slice(1).forEach(zone => {
+    const [[south, west], [north, east]] = zoneBounds(zone);
+    minLat = Math.min(minLat, south);
+    minLng = Math.min(minLng, west);
+    maxLat = Math.max(maxLat, north);
+    maxLng = Math.max(maxLng, east);
+  });
+
+  return [[minLat, minLng], [maxLat, maxLng]];
+}
+
+/**
+ * Slippy-map tiles covering the bounds at a zoom level (inclusive ranges)
+ * Used by scripts/tiles.js to fetch a city's tiles ahead of time
+ */
+export function getTileRange(
+  bounds: MapBounds,
+  zoom: number
+): { minX: number; maxX: number; minY: number; maxY: number } {
+  const [[south, west], [north, east]] = bounds;
+  return {
+    minX: lngToTileX(west, zoom),
+    maxX: lngToTileX(east, zoom),
+    minY: latToTileY(north, zoom), // Tile rows count down from the north
+    maxY: latToTileY(south, zoom)
+  };
+}
+
+function zoneBounds(zone: MapZone): MapBounds {
+  if (isZoneGeometry(zone.geometry)) {
+    const [[west, south], [east, north]] = calculateBounds(zone.geometry);
+    return [[south, west], [north, east]];
+  }
+
+  const { center_lat, center_lng, radius_meters } = zone;
+  return boxAround(center_lat, center_lng, radius_meters || DEFAULT_ZONE_RADIUS_METERS);
+}
+
+function boxAround(lat: number, lng: number, radiusMeters: number): MapBounds {
+  const dLat = radiusMeters / METERS_PER_DEGREE;
+  const dLng = radiusMeters / (METERS_PER_DEGREE * Math.cos(lat * Math.PI / 180));
+  return [[lat - dLat, lng - dLng], [lat + dLat, lng + dLng]];
+}
+
+function lngToTileX(lng: number, zoom: number): number {
+  return Math.floor((lng + 180) / 360 * Math.pow(2, zoom));
+}
+
+function latToTileY(lat: number, zoom: number): number {
+  const rad = lat * Math.PI / 180;
+  return Math.floor((1 - Math.log(Math.tan(rad) + 1 / Math.cos(rad)) / Math.PI) / 2 * Math.pow(2, zoom));
+}
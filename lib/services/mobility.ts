@@ -0,0 +1,244 @@
+/**
+ * Mobility-aware assignment
+ * People who can't walk 1-2 km between zones choose a mobility profile on
+ * their phone. It travels only with join/heartbeat (next to the hashed
+ * session id) and the assignment request, and keeps their crew on zones
+ * tagged accessible and on step-free, shorter walks between them.
+ */
+
+import { SupabaseClient } from '@supabase/supabase-js';
+import { getDeploymentCity } from '../config/cities';
+import {
+  AssignmentContext,
+  CrewAssignment,
+  CREW_FILL_THRESHOLD,
+  getCrewName
+} from './assignment-strategy';
+import { getAnchorState } from './anchor-state';
+import { getNextRotation } from './rotation-schedule';
+
+export type MobilityNeed = 'wheelchair' | 'limited-walking' | 'seating-shade';
+
+export interface MobilityConstraints {
+  stepFree: boolean; // Zones and walks without stairs or curbs
+  restArea: boolean; // Zones with seating or shade
+  maxWalkMinutes: number; // Longest walk in one rotation
+}
+
+export const MOBILITY_NEEDS: Record<MobilityNeed, { label: string; constraints: Partial<MobilityConstraints> }> = {
+  wheelchair: {
+    label: 'Wheelchair or mobility aid',
+    constraints: { stepFree: true, maxWalkMinutes: 6 }
+  },
+  'limited-walking': {
+    label: 'Limited walking',
+    constraints: { stepFree: true, maxWalkMinutes: 4 }
+  },
+  'seating-shade': {
+    label: 'Need seating or shade',
+    constraints: { restArea: true, maxWalkMinutes: 6 }
+  }
+};
+
+const MAX_CREWS = parseInt(process.env.NEXT_PUBLIC_MAX_CREWS || '20');
+
+// Zone accessibility columns
+export interface AccessibleZone {
+  id: number;
+  name: string;
+  center_lat: number | string;
+  center_lng: number | string;
+  step_free?: boolean | null;
+  has_seating?: boolean | null;
+  has_shade?: boolean | null;
+}
+
+// Connection accessibility columns
+export interface AccessibleConnection {
+  walk_time_minutes: number | string;
+  step_free?: boolean | null;
+}
+
+/**
+ * Known needs from untrusted input (query string or JSON), deduplicated
+ * Returns null if anything unknown was sent
+ */
+export function parseMobilityNeeds(value: unknown): MobilityNeed[] | null {
+  if (value === undefined || value === null || value === '') return [];
+
+  const items = typeof value === 'string' ? value.split(',') : value;
+  if (!Array.isArray(items)) return null;
+
+  const needs: MobilityNeed[] = [];
+  for (const item of items) {
+    const need = typeof item === 'string' ? item.trim() : item;
+    if (!isMobilityNeed(need)) return null;
+    if (!needs.includes(need)) needs.push(need);
+  }
+
+  return needs;
+}
+
+export function isMobilityNeed(value: unknown): value is MobilityNeed {
+  return typeof value === 'string' && value in MOBILITY_NEEDS;
+}
+
+/**
+ * Strictest combination of the given needs; null when there are none
+ */
+export function getMobilityConstraints(needs: MobilityNeed[]): MobilityConstraints | null {
+  if (needs.length === 0) return null;
+
+  return needs.reduce<MobilityConstraints>((merged, need) => {
+    const constraints = MOBILITY_NEEDS[need].constraints;
+    return {
+      stepFree: merged.stepFree || !!constraints.stepFree,
+      restArea: merged.restArea || !!constraints.restArea,
+      maxWalkMinutes: Math.min(merged.maxWalkMinutes, constraints.maxWalkMinutes ?? Infinity)
+    };
+  }, { stepFree: false, restArea: false, maxWalkMinutes: Infinity });
+}
+
+/**
+ * Combined constraints for each crew from its members' presence rows
+ * Crews without members who chose a need are left out
+ */
+export function getCrewMobility(
+  presence: Array<{ crew_id: number; mobility: string[] | null }>
+): Map<number, MobilityConstraints> {
+  const needsByCrew = new Map<number, MobilityNeed[]>();
+  presence.forEach(row => {
+    const needs = needsByCrew.get(row.crew_id) || [];
+    (row.mobility || []).filter(isMobilityNeed).forEach(need => {
+      if (!needs.includes(need)) needs.push(need);
+    });
+    needsByCrew.set(row.crew_id, needs);
+  });
+
+  const constraints = new Map<number, MobilityConstraints>();
+  needsByCrew.forEach((needs, crewId) => {
+    const merged = getMobilityConstraints(needs);
+    if (merged) constraints.set(crewId, merged);
+  });
+  return constraints;
+}
+
+/**
+ * Whether a zone is usable with these constraints
+ */
+export function isZoneAccessible(zone: AccessibleZone, constraints: MobilityConstraints): boolean {
+  if (constraints.stepFree && !zone.step_free) return false;
+  if (constraints.restArea && !zone.has_seating && !zone.has_shade) return false;
+  return true;
+}
+
+/**
+ * Whether a walk between zones is usable with these constraints
+ */
+export function isConnectionAccessible(
+  connection: AccessibleConnection,
+  constraints: MobilityConstraints
+): boolean {
+  if (Number(connection.walk_time_minutes) > constraints.maxWalkMinutes) return false;
+  return !constraints.stepFree || !!connection.step_free;
+}
+
+/**
+ * Assign someone with mobility needs to a crew at the nearest accessible zone
+ * Never funnels to the anchor crew, and prefers crews that already carry
+ * mobility needs so fewer crews have their rotations constrained.
+ * Returns null when the city has no accessible zone or no room for a new crew.
+ */
+export async function assignAccessibleCrew(
+  supabase: SupabaseClient,
+  needs: MobilityNeed[],
+  context: AssignmentContext
+): Promise<CrewAssignment | null> {
+  const cityId = context.cityId || getDeploymentCity().id;
+  const constraints = getMobilityConstraints(needs);
+  if (!constraints) return null;
+
+  const { data: zones } = await supabase
+    .from('zones')
+    .select('id, name, center_lat, center_lng, step_free, has_seating, has_shade')
+    .eq('city_id', cityId)
+    .eq('active', true)
+    .neq('type', 'avoid') as { data: AccessibleZone[] | null };
+
+  const accessibleZones = (zones || []).filter(zone => isZoneAccessible(zone, constraints));
+  if (accessibleZones.length === 0) return null;
+
+  // Their own zone if it qualifies, otherwise the closest one
+  const preferred = accessibleZones.find(zone => zone.id.toString() === context.preferredZoneId);
+  const zone = preferred || (context.userCoords
+    ? accessibleZones.reduce((closest, candidate) =>
+        distanceTo(candidate, context.userCoords!) < distanceTo(closest, context.userCoords!) ? candidate : closest
+      )
+    : accessibleZones[0]);
+
+  const { data: crews } = await supabase
+    .from('current_crews')
+    .select('crew_id, zone_id, estimated_size')
+    .eq('city_id', cityId)
+    .order('crew_id') as { data: Array<{ crew_id: number; zone_id: number; estimated_size: number }> | null };
+
+  const { data: mobilityPresence } = await supabase
+    .from('crew_presence')
+    .select('crew_id')
+    .eq('city_id', cityId)
+    .overlaps('mobility', Object.keys(MOBILITY_NEEDS)) as { data: Array<{ crew_id: number }> | null };
+
+  const anchor = await getAnchorState(supabase, cityId);
+  const crewsWithNeeds = new Set((mobilityPresence || []).map(row => row.crew_id));
+  const openCrews = (crews || [])
+    .filter(crew =>
+      crew.zone_id === zone.id &&
+      crew.crew_id !== anchor.anchorCrewId &&
+      crew.estimated_size < CREW_FILL_THRESHOLD
+    )
+    .sort((a, b) => Number(crewsWithNeeds.has(b.crew_id)) - Number(crewsWithNeeds.has(a.crew_id)));
+
+  let crewId: number;
+  let estimatedSize: number;
+
+  if (openCrews.length > 0) {
+    crewId = openCrews[0].crew_id;
+    estimatedSize = openCrews[0].estimated_size + 1;
+  } else {
+    // Start a new crew at the zone; join_crew creates its assignment
+    const maxCrewId = Math.max(...(crews || []).map(crew => crew.crew_id), 0);
+    if (maxCrewId >= MAX_CREWS) return null;
+    crewId = maxCrewId + 1;
+    estimatedSize = 1;
+  }
+
+  return {
+    crewId,
+    crewName: getCrewName(crewId),
+    estimatedSize,
+    zoneId: zone.id.toString(),
+    zoneName: zone.name,
+    nextRotation: getNextRotation(cityId)
+  };
+}
+
+function distanceTo(zone: AccessibleZone, coords: { lat: number; lng: number }): number {
+  return calculateDistance(coords.lat, coords.lng, Number(zone.center_lat), Number(zone.center_lng));
+}
+
+function calculateDistance(
+  lat1: number, lon1: number,
+  lat2: number, lon2: number
+): number {
+  const R = 6371;
+  const dLat = (lat2 - lat1) * Math.PI / 180;
+  const dLon = (lon2 - lon1) * Math.PI / 180;
+
+  const a =
+    Math.sin(dLat / 2) * Math.sin(dLat / 2) +
+    Math.cos(lat1 * Math.PI / 180) * Math.cos(lat2 * Math.PI / 180) *
+    Math.sin(dLon / 2) * Math.sin(dLon / 2);
+
+  const c = 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
+  return R * c;
+}
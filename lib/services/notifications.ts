@@ -1,8 +1,16 @@
 /**
  * Browser push notifications - completely anonymous
- * No server storage, all client-side
+ * The server keeps the push subscription tagged only with this phone's
+ * crew and zone, so rotation and evacuation orders arrive with the app closed
  */
 
+import { getLocale, translate } from '../i18n/locale';
+
+interface PushCrew {
+  crewId: number;
+  zoneId: string;
+}
+
 export interface NotificationPreferences {
   enabled: boolean;
   crewUpdates: boolean;
@@ -32,7 +40,7 @@ export async function requestNotificationPermission(): Promise<boolean> {
 
 /**
  * Subscribe to push notifications
- * Stores subscription in localStorage only - no server storage
+ * Without a VAPID key (NEXT_PUBLIC_VAPID_PUBLIC_KEY) alerts only show while the page is open
  */
 export async function subscribeToPush(): Promise<boolean> {
   try {
@@ -42,25 +50,28 @@ export async function subscribeToPush(): Promise<boolean> {
     const registration = await navigator.serviceWorker.register('/sw.js');
     await navigator.serviceWorker.ready;
 
-    // Get subscription
-    const subscription = await registration.pushManager.subscribe({
-      userVisibleOnly: true,
-      // This is a fake VAPID key - in production you'd generate real ones
-      // But since we're not storing subscriptions server-side, it doesn't matter
-      applicationServerKey: urlBase64ToUint8Array(
-        'BNQVrJHqKR_gEzlFKRtcv5HXgJ1pqueFxbvJqRDLUXvU_9WGg-LTUyqJ8ujAqPjmWKLRm0scPzGELhEFGVzpxYo'
-      )
-    });
-
-    // Store in localStorage only
+    const vapidKey = process.env.NEXT_PUBLIC_VAPID_PUBLIC_KEY;
+    const subscription = vapidKey
+      ? await registration.pushManager.subscribe({
+          userVisibleOnly: true,
+          applicationServerKey: urlBase64ToUint8Array(vapidKey)
+        })
+      : null;
+
     const prefs: NotificationPreferences = {
       enabled: true,
       crewUpdates: true,
       dangerAlerts: true,
-      subscription: subscription.toJSON() as any
+      ...(subscription && { subscription: subscription.toJSON() as any })
     };
     
     localStorage.setItem('overwhelm-notifications', JSON.stringify(prefs));
+
+    // Already in a crew: start receiving its orders now
+    const savedCrew = localStorage.getItem('overwhelm-crew');
+    if (subscription && savedCrew) {
+      await registerPushTopics(subscription, JSON.parse(savedCrew).crew);
+    }
     
     return true;
   } catch (error) {
@@ -78,6 +89,7 @@ export async function unsubscribeFromPush(): Promise<boolean> {
     const subscription = await registration.pushManager.getSubscription();
     
     if (subscription) {
+      await removePushTopics(subscription);
       await subscription.unsubscribe();
     }
     
@@ -89,6 +101,41 @@ export async function unsubscribeFromPush(): Promise<boolean> {
   }
 }
 
+/**
+ * Point this phone's push subscription at its current crew and zone
+ * Call whenever either changes; it also renews the subscription's expiry
+ */
+export async function updatePushTopics(crew: PushCrew): Promise<void> {
+  if (!isPushSupported() || !getNotificationPreferences()?.enabled) return;
+
+  try {
+    const registration = await navigator.serviceWorker.ready;
+    const subscription = await registration.pushManager.getSubscription();
+    if (subscription) {
+      await registerPushTopics(subscription, crew);
+    }
+  } catch (error) {
+    console.error('Failed to update push topics:', error);
+  }
+}
+
+/**
+ * Stop pushes for a crew this phone has left (alerts stay on for the next one)
+ */
+export async function clearPushTopics(): Promise<void> {
+  if (!isPushSupported() || !getNotificationPreferences()?.enabled) return;
+
+  try {
+    const registration = await navigator.serviceWorker.ready;
+    const subscription = await registration.pushManager.getSubscription();
+    if (subscription) {
+      await removePushTopics(subscription);
+    }
+  } catch (error) {
+    console.error('Failed to clear push topics:', error);
+  }
+}
+
 /**
  * Get notification preferences from localStorage
  */
@@ -139,9 +186,10 @@ export async function checkForCrewUpdates(
   if (!prefs?.enabled || !prefs.crewUpdates) return;
   
   if (currentZoneId !== newZoneId) {
+    const locale = getLocale();
     await showLocalNotification(
-      '📍 TIME TO MOVE',
-      `Your crew is moving to a new zone. Check the app for details.`,
+      translate(locale, 'notify.move.title'),
+      translate(locale, 'notify.move.body'),
       {
         requireInteraction: true
       }
@@ -161,9 +209,10 @@ export async function checkForDangerAlerts(
   const criticalAlerts = policeActivity.filter(a => a.severity === 'critical');
   
   if (criticalAlerts.length > 0) {
+    const locale = getLocale();
     await showLocalNotification(
-      '⚠️ DANGER ALERT',
-      `Heavy police activity reported. Check app for safe zones.`,
+      translate(locale, 'notify.danger.title'),
+      translate(locale, 'notify.danger.body'),
       {
         requireInteraction: true
       }
@@ -171,6 +220,29 @@ export async function checkForDangerAlerts(
   }
 }
 
+async function registerPushTopics(subscription: PushSubscription, crew: PushCrew): Promise<void> {
+  if (!crew?.crewId || !crew.zoneId) return;
+
+  await fetch('/api/push', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({
+      subscription: subscription.toJSON(),
+      crewId: crew.crewId,
+      zoneId: crew.zoneId,
+      locale: getLocale()
+    })
+  });
+}
+
+async function removePushTopics(subscription: PushSubscription): Promise<void> {
+  await fetch('/api/push', {
+    method: 'DELETE',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ endpoint: subscription.endpoint })
+  }).catch(() => null);
+}
+
 /**
  * Helper to convert VAPID key
  */
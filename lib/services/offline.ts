@@ -0,0 +1,65 @@
+/**
+ * Offline support - client-side
+ * public/sw.js keeps the latest zone list and crew assignment and queues
+ * reports/heartbeats sent without a connection. These helpers let the page
+ * show how old cached data is and keep the countdown running offline.
+ */
+
+import { getDeploymentCity } from '../config/cities';
+import { getNextRotation } from './rotation-schedule';
+
+// Set by the service worker on API responses it caches
+export const CACHED_AT_HEADER = 'X-Cached-At';
+
+/**
+ * When a response was fetched from the server
+ * Fresh responses were fetched just now; cached ones carry the time they were stored
+ */
+export function getCachedAt(response: Response, now: Date = new Date()): Date {
+  const cachedAt = response.headers.get(CACHED_AT_HEADER);
+  const time = cachedAt ? new Date(cachedAt) : null;
+  return time && !isNaN(time.getTime()) ? time : now;
+}
+
+/**
+ * The crew's next rotation, worked out from the city schedule once the saved one has passed
+ * Organizer holds are not known offline, so the server's time wins on reconnect
+ */
+export function getOfflineNextRotation(
+  nextRotation: string | null,
+  cityId: string = getDeploymentCity().id,
+  now: Date = new Date()
+): string | null {
+  // Null means the event's last rotation has passed
+  if (!nextRotation) return null;
+  if (new Date(nextRotation).getTime() > now.getTime()) return nextRotation;
+
+  const next = getNextRotation(cityId, now);
+  return next ? next.toISOString() : null;
+}
+
+/**
+ * Ask the service worker to send queued reports and heartbeats now
+ * For browsers without background sync; harmless where it exists
+ */
+export function flushOutbox(): void {
+  if (typeof navigator === 'undefined' || !('serviceWorker' in navigator)) return;
+  navigator.serviceWorker.controller?.postMessage({ type: 'flush-outbox' });
+}
+
+/**
+ * Hand the service worker the build chunks this page has loaded, including
+ * ones loaded on demand, so the app can start offline with all of them
+ */
+export function cacheLoadedAssets(): void {
+  if (typeof navigator === 'undefined' || !('serviceWorker' in navigator)) return;
+
+  const urls = performance.getEntriesByType('resource')
+    .map(entry => new URL(entry.name))
+    .filter(url => url.origin === location.origin && url.pathname.startsWith('/_next/static/'))
+    .map(url => url.pathname);
+
+  navigator.serviceWorker.ready
+    .then(registration => registration.active?.postMessage({ type: 'cache-assets', urls }))
+    .catch(() => {});
+}
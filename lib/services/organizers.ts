@@ -0,0 +1,359 @@
+/**
+ * Organizer console
+ * Token auth for the /admin area, the live state it shows and the actions
+ * organizers can take. Every action is written to audit_log, failed ones too.
+ */
+
+import { createHash, timingSafeEqual } from 'crypto';
+import { SupabaseClient } from '@supabase/supabase-js';
+import { getDeploymentCity } from '../config/cities';
+import { getAnchorState, updateAnchorState, AnchorState } from './anchor-state';
+import { notifyZoneChange } from './crew-channel';
+import { broadcastEvacuation, buildEvacuationOrders } from './evacuation';
+import { MAX_CREW_ID } from './headcount';
+import { pushEvacuationOrders } from './push';
+import { getNextRotation, getRotationHold, postponeRotation } from './rotation-schedule';
+import { SmartRotationService } from './smart-rotation';
+
+export const AUDIT_LOG_LIMIT = 50;
+export const MAX_POSTPONE_MINUTES = 120;
+
+export type OrganizerAction =
+  | { type: 'rotate' }
+  | { type: 'postpone'; minutes: number } // 0 resumes the schedule
+  | { type: 'set-zone-active'; zoneId: number; active: boolean }
+  | { type: 'pin-anchor'; crewId: number | null } // null returns the anchor to automatic
+  | { type: 'evacuate'; zoneIds: number[] };
+
+export interface ActionResult {
+  success: boolean;
+  message: string;
+  details?: Record<string, any>;
+}
+
+export interface AuditEntry {
+  id: number;
+  organizer: string;
+  action: string;
+  details: Record<string, any>;
+  success: boolean;
+  createdAt: string;
+}
+
+export interface OrganizerState {
+  zones: Array<{ id: number; name: string; type: string; active: boolean }>;
+  crews: Array<{ crewId: number; zoneId: number; estimatedSize: number; nextRotation: string }>;
+  anchor: AnchorState;
+  nextRotation: string | null;
+  postponedUntil: string | null;
+  audit: AuditEntry[];
+}
+
+/**
+ * Organizer name for an `Authorization: Bearer <token>` header, or null
+ * Tokens come from ORGANIZER_TOKENS as comma-separated name:token pairs
+ */
+export function authenticateOrganizer(
+  authorization: string | null,
+  tokens: string | undefined = process.env.ORGANIZER_TOKENS
+): string | null {
+  const match = authorization?.match(/^Bearer\s+(\S+)$/);
+  if (!match || !tokens) return null;
+
+  // Compare digests so the check takes the same time whatever the token length
+  const given = hashToken(match[1]);
+
+  for (const entry of tokens.split(',')) {
+    const separator = entry.indexOf(':');
+    const name = entry.slice(0, separator).trim();
+    const token = entry.slice(separator + 1).trim();
+
+    if (separator > 0 && name && token && timingSafeEqual(given, hashToken(token))) {
+      return name;
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Validate an untrusted action body
+ * Returns an error message, or null if the action can run
+ */
+export function validateOrganizerAction(body: any): string | null {
+  const isZoneId = (value: any) => Number.isInteger(value) && value > 0;
+
+  switch (body?.type) {
+    case 'rotate':
+      return null;
+
+    case 'postpone':
+      return Number.isInteger(body.minutes) && body.minutes >= 0 && body.minutes <= MAX_POSTPONE_MINUTES
+        ? null
+        : `Postpone by 0-${MAX_POSTPONE_MINUTES} minutes`;
+
+    case 'set-zone-active':
+      if (!isZoneId(body.zoneId)) return 'Invalid zone id';
+      return typeof body.active === 'boolean' ? null : 'Missing active flag';
+
+    case 'pin-anchor':
+      return body.crewId === null || (Number.isInteger(body.crewId) && body.crewId >= 1 && body.crewId <= MAX_CREW_ID)
+        ? null
+        : 'Invalid crew id';
+
+    case 'evacuate':
+      return Array.isArray(body.zoneIds) && body.zoneIds.length > 0 && body.zoneIds.every(isZoneId)
+        ? null
+        : 'Select at least one zone to evacuate';
+
+    default:
+      return 'Unknown action';
+  }
+}
+
+/**
+ * Everything the console shows for one city, including inactive zones
+ */
+export async function getOrganizerState(
+  supabase: SupabaseClient,
+  cityId: string = getDeploymentCity().id
+): Promise<OrganizerState> {
+  const [zonesResult, crewsResult, anchor, hold, audit] = await Promise.all([
+    supabase
+      .from('zones')
+      .select('id, name, type, active')
+      .eq('city_id', cityId)
+      .order('name'),
+    supabase
+      .from('current_crews')
+      .select('crew_id, zone_id, estimated_size, next_rotation')
+      .eq('city_id', cityId)
+      .order('crew_id'),
+    getAnchorState(supabase, cityId),
+    getRotationHold(supabase, cityId),
+    getAuditLog(supabase, cityId)
+  ]);
+
+  if (zonesResult.error) throw zonesResult.error;
+  if (crewsResult.error) throw crewsResult.error;
+
+  return {
+    zones: zonesResult.data || [],
+    crews: (crewsResult.data || []).map((crew: any) => ({
+      crewId: crew.crew_id,
+      zoneId: crew.zone_id,
+      estimatedSize: crew.estimated_size,
+      nextRotation: crew.next_rotation
+    })),
+    anchor,
+    nextRotation: getNextRotation(cityId, new Date(), hold)?.toISOString() || null,
+    postponedUntil: hold?.toISOString() || null,
+    audit
+  };
+}
+
+/**
+ * Run an organizer action and record it in the audit log
+ * Errors are caught and reported as a failed result so they are audited too.
+ * The action has already happened by the time it is audited, so a failed
+ * audit write is logged rather than reported as a failed action.
+ */
+export async function runOrganizerAction(
+  supabase: SupabaseClient,
+  organizer: string,
+  action: OrganizerAction,
+  cityId: string = getDeploymentCity().id
+): Promise<ActionResult> {
+  let result: ActionResult;
+
+  try {
+    result = await applyAction(supabase, action, cityId);
+  } catch (error) {
+    console.error('Organizer action error:', error);
+    result = {
+      success: false,
+      message: `${action.type} failed: ${error instanceof Error ? error.message : String(error)}`
+    };
+  }
+
+  const { type, ...request } = action;
+  try {
+    await recordAudit(supabase, {
+      cityId,
+      organizer,
+      action: type,
+      details: { request, ...result.details, message: result.message },
+      success: result.success
+    });
+  } catch (error) {
+    console.error(`Audit log error (${organizer} ${type}):`, error);
+  }
+
+  return result;
+}
+
+/**
+ * Append an entry to the audit log
+ */
+export async function recordAudit(
+  supabase: SupabaseClient,
+  entry: {
+    cityId: string;
+    organizer: string;
+    action: string;
+    details?: Record<string, any>;
+    success: boolean;
+  }
+): Promise<void> {
+  const { error } = await supabase.from('audit_log').insert({
+    city_id: entry.cityId,
+    organizer: entry.organizer,
+    action: entry.action,
+    details: entry.details || {},
+    success: entry.success
+  });
+
+  if (error) throw error;
+}
+
+/**
+ * Most recent audit entries for a city, newest first
+ */
+export async function getAuditLog(
+  supabase: SupabaseClient,
+  cityId: string = getDeploymentCity().id,
+  limit: number = AUDIT_LOG_LIMIT
+): Promise<AuditEntry[]> {
+  const { data, error } = await supabase
+    .from('audit_log')
+    .select('id, organizer, action, details, success, created_at')
+    .eq('city_id', cityId)
+    .order('created_at', { ascending: false })
+    .limit(limit);
+
+  if (error) throw error;
+
+  return (data || []).map((row: any) => ({
+    id: row.id,
+    organizer: row.organizer,
+    action: row.action,
+    details: row.details || {},
+    success: row.success,
+    createdAt: row.created_at
+  }));
+}
+
+async function applyAction(
+  supabase: SupabaseClient,
+  action: OrganizerAction,
+  cityId: string
+): Promise<ActionResult> {
+  switch (action.type) {
+    case 'rotate': {
+      const result = await new SmartRotationService(supabase, cityId).rotate();
+      return {
+        success: result.success,
+        message: result.message,
+        details: { rotations: result.rotations, seed: result.seed }
+      };
+    }
+
+    case 'postpone': {
+      const until = action.minutes > 0 ? new Date(Date.now() + action.minutes * 60 * 1000) : null;
+      const nextRotation = await postponeRotation(supabase, until, cityId);
+      return {
+        success: true,
+        message: until
+          ? `Rotations held until ${until.toISOString()}`
+          : 'Rotations back on schedule',
+        details: { postponedUntil: until?.toISOString() || null, nextRotation: nextRotation?.toISOString() || null }
+      };
+    }
+
+    case 'set-zone-active': {
+      const { data, error } = await supabase
+        .from('zones')
+        .update({ active: action.active })
+        .eq('id', action.zoneId)
+        .eq('city_id', cityId)
+        .select('name');
+
+      if (error) throw error;
+      if (!data || data.length === 0) {
+        return { success: false, message: `Zone ${action.zoneId} not found` };
+      }
+
+      // Crews standing in the zone hear about it before their next rotation
+      const notified = await notifyZoneChange(supabase, action.zoneId, action.active, cityId);
+
+      return {
+        success: true,
+        message: `${data[0].name} marked ${action.active ? 'active' : 'inactive'}`,
+        details: { notified }
+      };
+    }
+
+    case 'pin-anchor': {
+      if (action.crewId === null) {
+        const anchor = await getAnchorState(supabase, cityId);
+        await updateAnchorState(supabase, {
+          anchorCrewId: anchor.anchorCrewId,
+          anchorZoneId: anchor.anchorZoneId,
+          pinned: false
+        }, cityId);
+        return { success: true, message: 'Anchor returned to automatic selection' };
+      }
+
+      // The anchor's zone is wherever that crew currently stands
+      const { data: crew, error } = await supabase
+        .from('current_crews')
+        .select('zone_id')
+        .eq('city_id', cityId)
+        .eq('crew_id', action.crewId)
+        .maybeSingle();
+
+      if (error) throw error;
+      if (!crew) {
+        return { success: false, message: `Crew ${action.crewId} has no current assignment` };
+      }
+
+      await updateAnchorState(supabase, {
+        anchorCrewId: action.crewId,
+        anchorZoneId: crew.zone_id,
+        pinned: true
+      }, cityId);
+
+      return {
+        success: true,
+        message: `Anchor pinned to crew ${action.crewId}`,
+        details: { zoneId: crew.zone_id }
+      };
+    }
+
+    case 'evacuate': {
+      const result = await new SmartRotationService(supabase, cityId).evacuate(action.zoneIds);
+      if (!result.success) {
+        return { success: false, message: result.message };
+      }
+
+      // Crews already have their new zones; a failed broadcast still reaches them on their next poll
+      // Web Push delivery to closed apps runs on after the response
+      const orders = await buildEvacuationOrders(supabase, result.moves, cityId);
+      const broadcast = await broadcastEvacuation(supabase, orders, cityId);
+      pushEvacuationOrders(supabase, orders, cityId)
+        .catch(error => console.error('Evacuation push error:', error));
+
+      return {
+        success: true,
+        message: broadcast
+          ? `${result.message}; ${orders.length} crew(s) notified`
+          : `${result.message}; broadcast failed, crews will see the move on their next update`,
+        details: { rotations: result.rotations, orders, broadcast }
+      };
+    }
+  }
+}
+
+function hashToken(token: string): Buffer {
+  return createHash('sha256').update(token).digest();
+}
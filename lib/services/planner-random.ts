@@ -0,0 +1,59 @@
+/**
+ * Seeded randomness and clock for rotation planners
+ * A plan made with the same seed, time and data can be replayed exactly
+ */
+
+export type RandomSource = () => number;
+export type Clock = () => Date;
+
+export interface PlannerOptions {
+  seed?: string;          // Replay a previous plan
+  random?: RandomSource;  // Overrides seed (tests)
+  now?: Clock;
+}
+
+export interface ResolvedPlannerOptions {
+  seed: string | null;
+  random: RandomSource;
+  now: Clock;
+}
+
+/**
+ * Fresh seed for a plan that doesn't need to match an earlier one
+ */
+export function createSeed(): string {
+  return Math.floor(Math.random() * 0xffffffff).toString(16).padStart(8, '0');
+}
+
+/**
+ * Deterministic RNG (mulberry32) seeded from any string
+ */
+export function createSeededRandom(seed: string): RandomSource {
+  // FNV-1a hash to turn the seed into 32-bit state
+  let state = 0x811c9dc5;
+  for (let i = 0; i < seed.length; i++) {
+    state ^= seed.charCodeAt(i);
+    state = Math.imul(state, 0x01000193);
+  }
+
+  return () => {
+    state = (state + 0x6d2b79f5) | 0;
+    let t = Math.imul(state ^ (state >>> 15), 1 | state);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/**
+ * Fill in planner defaults - every plan gets a seed unless an RNG is injected
+ */
+export function resolvePlannerOptions(options: PlannerOptions = {}): ResolvedPlannerOptions {
+  const now = options.now || (() => new Date());
+
+  if (options.random) {
+    return { seed: null, random: options.random, now };
+  }
+
+  const seed = options.seed || createSeed();
+  return { seed, random: createSeededRandom(seed), now };
+}
@@ -0,0 +1,110 @@
+/**
+ * Crew presence - client-side
+ * Tells the server when this device joins, stays with or leaves a crew.
+ * The session id is random, per device, and never linked to a person.
+ */
+
+import type { MemberCrewChannel } from './crew-messages';
+import { parseMobilityNeeds, type MobilityNeed } from './mobility';
+
+export const HEARTBEAT_INTERVAL = 2 * 60 * 1000; // 2 minutes
+
+const SESSION_KEY = 'overwhelm-session';
+const MOBILITY_KEY = 'overwhelm-mobility';
+
+interface PresenceCrew {
+  crewId: number;
+  zoneId: string;
+}
+
+export interface JoinedCrew {
+  estimatedSize: number;
+  channel: MemberCrewChannel | null; // Private realtime channel, null when the server has none
+}
+
+/**
+ * Get (or create) this device's anonymous session id
+ */
+export function getSessionId(): string {
+  let sessionId = localStorage.getItem(SESSION_KEY);
+
+  if (!sessionId) {
+    const bytes = new Uint8Array(16);
+    crypto.getRandomValues(bytes);
+    sessionId = Array.from(bytes, b => b.toString(16).padStart(2, '0')).join('');
+    localStorage.setItem(SESSION_KEY, sessionId);
+  }
+
+  return sessionId;
+}
+
+/**
+ * Mobility needs chosen on this device (kept only in this browser)
+ */
+export function getMobilityNeeds(): MobilityNeed[] {
+  try {
+    return parseMobilityNeeds(JSON.parse(localStorage.getItem(MOBILITY_KEY) || '[]')) || [];
+  } catch {
+    return [];
+  }
+}
+
+export function saveMobilityNeeds(needs: MobilityNeed[]): void {
+  if (needs.length > 0) {
+    localStorage.setItem(MOBILITY_KEY, JSON.stringify(needs));
+  } else {
+    localStorage.removeItem(MOBILITY_KEY);
+  }
+}
+
+/**
+ * Join a crew - returns the crew's real size and its private channel, or null on failure
+ */
+export async function joinCrewPresence(crew: PresenceCrew): Promise<JoinedCrew | null> {
+  const data = await postPresence('/api/crew/join', {
+    sessionId: getSessionId(),
+    crewId: crew.crewId,
+    zoneId: crew.zoneId,
+    mobility: getMobilityNeeds()
+  });
+
+  return data && { estimatedSize: data.estimatedSize, channel: data.channel ?? null };
+}
+
+/**
+ * Keep this device counted in its crew - returns the size and a renewed
+ * channel token, or null on failure
+ */
+export async function sendHeartbeat(crew: PresenceCrew): Promise<JoinedCrew | null> {
+  const data = await postPresence('/api/crew/heartbeat', {
+    sessionId: getSessionId(),
+    crewId: crew.crewId,
+    zoneId: crew.zoneId,
+    mobility: getMobilityNeeds()
+  });
+
+  return data && { estimatedSize: data.estimatedSize, channel: data.channel ?? null };
+}
+
+/**
+ * Leave the current crew
+ */
+export async function leaveCrewPresence(): Promise<void> {
+  await postPresence('/api/crew/leave', { sessionId: getSessionId() });
+}
+
+async function postPresence(url: string, body: Record<string, unknown>): Promise<any | null> {
+  try {
+    const response = await fetch(url, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(body)
+    });
+    const data = await response.json();
+
+    return data.success ? data : null;
+  } catch (error) {
+    console.error('Presence update failed:', error);
+    return null;
+  }
+}
@@ -0,0 +1,323 @@
+/**
+ * Web Push sender
+ * Phones that turn on alerts leave a push subscription tagged only with
+ * topics (their crew and its zone) and the language to alert in. Nothing
+ * ties a subscription to a person, and each one expires unless the phone
+ * renews it, so alerts reach phones with the app closed without keeping a
+ * list of participants.
+ */
+
+import { createHash } from 'crypto';
+import { SupabaseClient } from '@supabase/supabase-js';
+import webpush from 'web-push';
+import { getCityConfig, getDeploymentCity } from '../config/cities';
+import { FormatContext, formatWalkingTime, getFormatContext } from '../i18n/format';
+import { DEFAULT_LOCALE, Locale, MessageKey, Translate, isLocale, translate } from '../i18n/locale';
+import type { CrewRotationMessage, ZoneAlert } from './crew-channel';
+import { describeZoneAlert } from './crew-messages';
+import type { EvacuationOrder } from './evacuation';
+import { MAX_CREW_ID } from './headcount';
+
+export const PUSH_SUBSCRIPTION_TTL_HOURS = 12; // Renewed whenever the phone's crew or zone changes
+const PUSH_MESSAGE_TTL_SECONDS = 15 * 60; // Push services drop orders nobody picked up in time
+const PUSH_SEND_CONCURRENCY = 25; // Requests in flight to push services at once
+
+// Push services of the browsers we support, subdomains included
+const PUSH_SERVICE_HOSTS = [
+  'fcm.googleapis.com', // Chrome, Edge on Android, Opera, Samsung Internet
+  'android.googleapis.com', // Older Chrome subscriptions
+  'push.services.mozilla.com', // Firefox (autopush)
+  'push.apple.com', // Safari
+  'notify.windows.com' // Edge on Windows (WNS)
+];
+
+export interface PushSubscriptionKeys {
+  endpoint: string;
+  keys: { p256dh: string; auth: string };
+}
+
+export interface PushSubscriptionRequest {
+  subscription: PushSubscriptionKeys;
+  crewId: number;
+  zoneId: number;
+  locale?: Locale; // Defaults to English
+  cityId?: string; // Defaults to the deployment city
+}
+
+// Payload public/sw.js turns into a notification
+export interface PushNotification {
+  title: string;
+  body: string;
+  tag: string; // A newer notification with the same tag replaces the old one
+  url?: string; // Opened on tap, defaults to the home page
+  urgent?: boolean;
+}
+
+// Builds a notification in each subscriber's language
+export type LocalizedPushNotification = (t: Translate, format: FormatContext) => PushNotification;
+
+/**
+ * Whether VAPID keys are configured; without them only in-page alerts work
+ */
+export function isPushEnabled(): boolean {
+  return Boolean(
+    process.env.NEXT_PUBLIC_VAPID_PUBLIC_KEY &&
+    process.env.VAPID_PRIVATE_KEY &&
+    process.env.VAPID_SUBJECT
+  );
+}
+
+/**
+ * Topics a phone in this crew and zone listens to
+ */
+export function getPushTopics(crewId: number, zoneId: number): string[] {
+  return [`crew:${crewId}`, `zone:${zoneId}`];
+}
+
+/**
+ * Validate an untrusted subscription body
+ * Returns an error message, or null if the body is usable
+ */
+export function validatePushSubscriptionRequest(body: any): string | null {
+  const subscription = body?.subscription;
+  if (!subscription || !isPushEndpoint(subscription.endpoint)) {
+    return 'Invalid push subscription';
+  }
+
+  if (typeof subscription.keys?.p256dh !== 'string' || typeof subscription.keys?.auth !== 'string') {
+    return 'Push subscription is missing its keys';
+  }
+
+  const crewId = Number(body.crewId);
+  if (!Number.isInteger(crewId) || crewId < 1 || crewId > MAX_CREW_ID) {
+    return 'Invalid crew id';
+  }
+
+  const zoneId = Number(body.zoneId);
+  if (!Number.isInteger(zoneId) || zoneId < 1) {
+    return 'Invalid zone id';
+  }
+
+  if (body.locale !== undefined && !isLocale(body.locale)) {
+    return 'Invalid locale';
+  }
+
+  return null;
+}
+
+/**
+ * Store (or renew) a subscription for its crew and zone topics
+ * Returns when it expires
+ */
+export async function savePushSubscription(
+  supabase: SupabaseClient,
+  request: PushSubscriptionRequest
+): Promise<Date> {
+  const expiresAt = new Date(Date.now() + PUSH_SUBSCRIPTION_TTL_HOURS * 60 * 60 * 1000);
+  const { endpoint, keys } = request.subscription;
+
+  const { error } = await supabase
+    .from('push_subscriptions')
+    .upsert({
+      endpoint_hash: hashEndpoint(endpoint),
+      city_id: request.cityId || getDeploymentCity().id,
+      subscription: { endpoint, keys: { p256dh: keys.p256dh, auth: keys.auth } },
+      topics: getPushTopics(request.crewId, request.zoneId),
+      locale: request.locale || DEFAULT_LOCALE,
+      expires_at: expiresAt.toISOString()
+    }, { onConflict: 'endpoint_hash' });
+
+  if (error) throw error;
+  return expiresAt;
+}
+
+/**
+ * Forget a subscription right away
+ */
+export async function removePushSubscription(
+  supabase: SupabaseClient,
+  endpoint: string
+): Promise<void> {
+  const { error } = await supabase
+    .from('push_subscriptions')
+    .delete()
+    .eq('endpoint_hash', hashEndpoint(endpoint));
+
+  if (error) throw error;
+}
+
+/**
+ * Send a notification to every live subscription on any of the topics
+ * A localized notification is built once per language among the
+ * subscribers. Subscriptions the push service reports as gone are deleted.
+ */
+export async function sendPush(
+  supabase: SupabaseClient,
+  topics: string[],
+  notification: PushNotification | LocalizedPushNotification,
+  cityId: string = getDeploymentCity().id
+): Promise<{ sent: number; removed: number }> {
+  if (!isPushEnabled() || topics.length === 0) return { sent: 0, removed: 0 };
+
+  const { data: subscriptions, error } = await supabase
+    .from('push_subscriptions')
+    .select('id, subscription, locale')
+    .eq('city_id', cityId)
+    .overlaps('topics', topics)
+    .gt('expires_at', new Date().toISOString());
+
+  if (error) throw error;
+
+  webpush.setVapidDetails(
+    process.env.VAPID_SUBJECT!,
+    process.env.NEXT_PUBLIC_VAPID_PUBLIC_KEY!,
+    process.env.VAPID_PRIVATE_KEY!
+  );
+
+  const byLocale = new Map<Locale, any[]>();
+  for (const row of subscriptions || []) {
+    const locale = isLocale(row.locale) ? row.locale : DEFAULT_LOCALE;
+    byLocale.set(locale, [...(byLocale.get(locale) || []), row]);
+  }
+
+  const city = getCityConfig(cityId) || getDeploymentCity();
+  const deliveries: Array<{ row: any; payload: PushNotification }> = [];
+
+  for (const [locale, rows] of Array.from(byLocale)) {
+    const payload = typeof notification === 'function'
+      ? notification((key, params) => translate(locale, key, params), getFormatContext(city, locale))
+      : notification;
+
+    for (const row of rows) deliveries.push({ row, payload });
+  }
+
+  let sent = 0;
+  const gone: number[] = [];
+
+  // Bounded batches: one slow push service never holds up the rest
+  for (let i = 0; i < deliveries.length; i += PUSH_SEND_CONCURRENCY) {
+    const batch = deliveries.slice(i, i + PUSH_SEND_CONCURRENCY);
+    const results = await Promise.allSettled(batch.map(({ row, payload }) =>
+      webpush.sendNotification(row.subscription, JSON.stringify(payload), {
+        TTL: PUSH_MESSAGE_TTL_SECONDS,
+        urgency: payload.urgent ? 'high' : 'normal'
+      })
+    ));
+
+    results.forEach((result, index) => {
+      if (result.status === 'fulfilled') {
+        sent++;
+        return;
+      }
+
+      const sendError = result.reason;
+      if (sendError?.statusCode === 404 || sendError?.statusCode === 410) {
+        gone.push(batch[index].row.id);
+      } else {
+        console.error('Push send error:', sendError?.message || sendError);
+      }
+    });
+  }
+
+  if (gone.length > 0) {
+    await supabase.from('push_subscriptions').delete().in('id', gone);
+  }
+
+  return { sent, removed: gone.length };
+}
+
+/**
+ * Tell each moved crew where to go next; crews holding position are not woken
+ */
+export async function pushRotationOrders(
+  supabase: SupabaseClient,
+  messages: CrewRotationMessage[],
+  cityId: string = getDeploymentCity().id
+): Promise<number> {
+  let sent = 0;
+
+  for (const message of messages) {
+    if (message.walkTime === null) continue;
+
+    const walkTime = message.walkTime;
+    const result = await sendPush(supabase, [`crew:${message.crewId}`], (t, format) => ({
+      title: t('push.move.title'),
+      body: t('push.move.body', { zone: message.zoneName, walk: formatWalkingTime(walkTime, format) }),
+      tag: `crew-${message.crewId}`
+    }), cityId);
+    sent += result.sent;
+  }
+
+  return sent;
+}
+
+/**
+ * Send each evacuated crew its order
+ */
+export async function pushEvacuationOrders(
+  supabase: SupabaseClient,
+  orders: EvacuationOrder[],
+  cityId: string = getDeploymentCity().id
+): Promise<number> {
+  let sent = 0;
+
+  for (const order of orders) {
+    const result = await sendPush(supabase, [`crew:${order.crewId}`], (t, format) => ({
+      title: t('evacuate.title'),
+      body: t('push.evacuate.body', {
+        from: order.fromZoneName,
+        go: order.direction
+          ? t('evacuate.go', { direction: t(`direction.${order.direction}` as MessageKey) })
+          : t('evacuate.goTo'),
+        to: order.toZoneName,
+        walk: formatWalkingTime(order.walkTime, format)
+      }),
+      tag: `crew-${order.crewId}`,
+      urgent: true
+    }), cityId);
+    sent += result.sent;
+  }
+
+  return sent;
+}
+
+/**
+ * Warn every phone in each zone, whichever crew it is with
+ */
+export async function pushZoneAlerts(
+  supabase: SupabaseClient,
+  alerts: ZoneAlert[],
+  cityId: string = getDeploymentCity().id
+): Promise<number> {
+  let sent = 0;
+
+  for (const alert of alerts) {
+    const result = await sendPush(supabase, [`zone:${alert.zoneId}`], t => ({
+      title: t('push.alert.title'),
+      body: describeZoneAlert(alert.reason, t),
+      tag: `zone-${alert.zoneId}`,
+      urgent: alert.severity === 'high' || alert.severity === 'critical'
+    }), cityId);
+    sent += result.sent;
+  }
+
+  return sent;
+}
+
+// Only the browsers' push services, over HTTPS, so a subscription can't point our pushes anywhere else
+function isPushEndpoint(endpoint: unknown): endpoint is string {
+  if (typeof endpoint !== 'string' || endpoint.length > 1024) return false;
+
+  try {
+    const url = new URL(endpoint);
+    return url.protocol === 'https:' && url.port === '' && PUSH_SERVICE_HOSTS.some(host =>
+      url.hostname === host || url.hostname.endsWith(`.${host}`)
+    );
+  } catch {
+    return false;
+  }
+}
+
+function hashEndpoint(endpoint: string): string {
+  return createHash('sha256').update(endpoint).digest('hex');
+}
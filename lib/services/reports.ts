@@ -0,0 +1,191 @@
+/**
+ * Incident reports
+ * Anonymous, categorized reports from participants standing in a zone.
+ * Only counted crew members who have been at the zone for a while can
+ * report. A report only changes police_activity once several different
+ * people agree, and everything expires on its own.
+ */
+
+import { createHash } from 'crypto';
+import { SupabaseClient } from '@supabase/supabase-js';
+import { getDeploymentCity } from '../config/cities';
+import { REPORT_CATEGORIES, ReportCategory } from '../config/reports';
+import { alertZoneCrews, type ZoneAlert } from './crew-channel';
+import { hashSessionId, PRESENCE_TTL_SECONDS, validatePresenceRequest } from './headcount';
+import { pushZoneAlerts } from './push';
+import { containsPoint, isZoneGeometry, ZoneGeometry } from './zone-geometry';
+
+export const REPORT_TTL_MINUTES = 45;
+export const REPORT_CORROBORATION = 3; // Different reporters before a report counts
+export const REPORT_RATE_LIMIT = 3; // Reports per session...
+export const REPORT_RATE_WINDOW_MINUTES = 10; // ...in this many minutes
+export const REPORT_IP_LIMIT = 30; // Reports per address in the same window; generous for carrier NAT
+export const REPORT_MIN_PRESENCE_MINUTES = 5; // With a crew at the zone this long before reporting
+
+export interface IncidentReport {
+  sessionId: string;
+  zoneId: number;
+  category: ReportCategory;
+  lat: number;
+  lng: number;
+  cityId?: string; // Defaults to the deployment city
+}
+
+export type ReportResult =
+  | { status: 'accepted'; reporters: number; escalated: boolean }
+  | { status: 'outside-zone' }
+  | { status: 'not-present' }
+  | { status: 'rate-limited' };
+
+// Recent report times per hashed client address (this server instance only)
+const reportsByAddress = new Map<string, number[]>();
+
+/**
+ * Validate an untrusted report body
+ * Returns an error message, or null if the body is usable
+ */
+export function validateReportRequest(body: any): string | null {
+  const sessionError = validatePresenceRequest(body, false);
+  if (sessionError) return sessionError;
+
+  if (!Object.prototype.hasOwnProperty.call(REPORT_CATEGORIES, body.category)) {
+    return `Unknown category (use ${Object.keys(REPORT_CATEGORIES).join(', ')})`;
+  }
+
+  const zoneId = Number(body.zoneId);
+  if (!Number.isInteger(zoneId) || zoneId < 1) {
+    return 'Invalid zone id';
+  }
+
+  const lat = Number(body.lat);
+  const lng = Number(body.lng);
+  if (!isFinite(lat) || !isFinite(lng) || Math.abs(lat) > 90 || Math.abs(lng) > 180) {
+    return 'Location required to report';
+  }
+
+  return null;
+}
+
+/**
+ * Record a report from someone inside the zone
+ * The location is only used for the check and never stored
+ */
+export async function submitReport(
+  supabase: SupabaseClient,
+  report: IncidentReport
+): Promise<ReportResult> {
+  const cityId = report.cityId || getDeploymentCity().id;
+
+  const { data: zone, error: zoneError } = await supabase
+    .from('zones')
+    .select('id, center_lat, center_lng, radius_meters, geometry')
+    .eq('id', report.zoneId)
+    .eq('city_id', cityId)
+    .eq('active', true)
+    .maybeSingle();
+
+  if (zoneError) throw zoneError;
+  if (!zone || !isInsideZone(zone, report.lat, report.lng)) {
+    return { status: 'outside-zone' };
+  }
+
+  const category = REPORT_CATEGORIES[report.category];
+  const { data, error } = await supabase
+    .rpc('submit_incident_report', {
+      p_session_hash: hashSessionId(report.sessionId),
+      p_zone_id: report.zoneId,
+      p_category: report.category,
+      p_severity: category.severity,
+      p_label: category.label,
+      p_city_id: cityId,
+      p_ttl_minutes: REPORT_TTL_MINUTES,
+      p_rate_limit: REPORT_RATE_LIMIT,
+      p_rate_window_minutes: REPORT_RATE_WINDOW_MINUTES,
+      p_corroboration: REPORT_CORROBORATION,
+      p_min_presence_minutes: REPORT_MIN_PRESENCE_MINUTES,
+      p_presence_ttl_seconds: PRESENCE_TTL_SECONDS
+    })
+    .single();
+
+  if (error || !data) {
+    throw new Error(`Report failed: ${error?.message || 'no result returned'}`);
+  }
+
+  const result = data as { accepted: boolean; present: boolean; reporters: number; escalated: boolean };
+  if (!result.present) return { status: 'not-present' };
+  if (!result.accepted) return { status: 'rate-limited' };
+
+  // Crews standing in the zone hear once, when enough people first agree
+  if (result.escalated) {
+    const alerts: ZoneAlert[] = [{
+      zoneId: report.zoneId,
+      severity: category.severity,
+      reason: { code: 'report', category: report.category, reporters: result.reporters }
+    }];
+
+    await Promise.all([alertZoneCrews(supabase, alerts, cityId), pushZoneAlerts(supabase, alerts, cityId)])
+      .catch(alertError => console.error('Report alert error:', alertError));
+  }
+
+  return { status: 'accepted', reporters: result.reporters, escalated: result.escalated };
+}
+
+/**
+ * Count a report against its client address; true once the address has
+ * sent REPORT_IP_LIMIT reports in the rate window
+ * Addresses are only held hashed, in memory, for the window
+ */
+export function isAddressRateLimited(address: string, now: number = Date.now()): boolean {
+  const key = createHash('sha256').update(address).digest('hex');
+  const windowStart = now - REPORT_RATE_WINDOW_MINUTES * 60 * 1000;
+
+  reportsByAddress.forEach((times, other) => {
+    if (times[times.length - 1] <= windowStart) reportsByAddress.delete(other);
+  });
+
+  const recent = (reportsByAddress.get(key) || []).filter(time => time > windowStart);
+  if (recent.length >= REPORT_IP_LIMIT) {
+    reportsByAddress.set(key, recent);
+    return true;
+  }
+
+  reportsByAddress.set(key, [...recent, now]);
+  return false;
+}
+
+/**
+ * Whether a point is inside a zone's boundary, or its radius for circle zones
+ */
+export function isInsideZone(
+  zone: {
+    center_lat: number | string;
+    center_lng: number | string;
+    radius_meters?: number | null;
+    geometry?: ZoneGeometry | null;
+  },
+  lat: number,
+  lng: number
+): boolean {
+  if (isZoneGeometry(zone.geometry)) {
+    return containsPoint(zone.geometry, lat, lng);
+  }
+
+  const distance = calculateDistance(Number(zone.center_lat), Number(zone.center_lng), lat, lng);
+  return distance <= (zone.radius_meters || 500);
+}
+
+function calculateDistance(
+  lat1: number, lon1: number,
+  lat2: number, lon2: number
+): number {
+  const R = 6371000; // Meters
+  const dLat = (lat2 - lat1) * Math.PI / 180;
+  const dLon = (lon2 - lon1) * Math.PI / 180;
+
+  const a =
+    Math.sin(dLat / 2) * Math.sin(dLat / 2) +
+    Math.cos(lat1 * Math.PI / 180) * Math.cos(lat2 * Math.PI / 180) *
+    Math.sin(dLon / 2) * Math.sin(dLon / 2);
+
+  return R * 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
+}
@@ -0,0 +1,86 @@
+/**
+ * Rotation history
+ * Rebuilds each rotation's from→to moves for debriefs and map replays.
+ * Only covers the 24 hours of crew_zones kept by cleanup_old_data.
+ */
+
+import { SupabaseClient } from '@supabase/supabase-js';
+import { getDeploymentCity } from '../config/cities';
+import { getCrewName } from './assignment-strategy';
+
+export const ROTATION_HISTORY_LIMIT = 48; // A day of 30-minute rotations
+
+export interface RotationMove {
+  crewId: number;
+  crewName: string;
+  fromZoneId: number | null; // Unknown once the earlier row is pruned
+  toZoneId: number;
+  walkTime: number | null;
+  reason: string | null;
+  moved: boolean;
+}
+
+export interface RotationRecord {
+  rotationNumber: number;
+  rotatedAt: string;
+  moves: RotationMove[];
+}
+
+interface RotationHistoryRow {
+  rotation_number: number;
+  rotated_at: string;
+  crew_id: number;
+  from_zone_id: number | null;
+  to_zone_id: number;
+  walk_time_minutes: number | string | null;
+  rotation_reason: string | null;
+}
+
+/**
+ * Most recent rotations, oldest first
+ */
+export async function getRotationHistory(
+  supabase: SupabaseClient,
+  limit: number = ROTATION_HISTORY_LIMIT,
+  cityId: string = getDeploymentCity().id
+): Promise<RotationRecord[]> {
+  const { data, error } = await supabase.rpc('get_rotation_history', {
+    p_limit: Math.max(1, Math.min(limit, ROTATION_HISTORY_LIMIT)),
+    p_city_id: cityId
+  });
+
+  if (error) throw error;
+  return groupRotationHistory(data || []);
+}
+
+/**
+ * Group per-crew rows into one record per rotation
+ */
+export function groupRotationHistory(rows: RotationHistoryRow[]): RotationRecord[] {
+  const rotations = new Map<number, RotationRecord>();
+
+  rows.forEach(row => {
+    let record = rotations.get(row.rotation_number);
+    if (!record) {
+      record = { rotationNumber: row.rotation_number, rotatedAt: row.rotated_at, moves: [] };
+      rotations.set(row.rotation_number, record);
+    }
+
+    record.moves.push({
+      crewId: row.crew_id,
+      crewName: getCrewName(row.crew_id),
+      fromZoneId: row.from_zone_id,
+      toZoneId: row.to_zone_id,
+      walkTime: row.walk_time_minutes !== null ? Number(row.walk_time_minutes) : null,
+      reason: row.rotation_reason,
+      moved: row.from_zone_id !== null && row.from_zone_id !== row.to_zone_id
+    });
+  });
+
+  return Array.from(rotations.values())
+    .sort((a, b) => a.rotationNumber - b.rotationNumber)
+    .map(record => ({
+      ...record,
+      moves: record.moves.sort((a, b) => a.crewId - b.crewId)
+    }));
+}
@@ -0,0 +1,210 @@
+/**
+ * Rotation schedule
+ * When each city's crews move: every N minutes counted from local midnight,
+ * only inside the event window and never during quiet hours.
+ * Routes use it for nextRotation, the cron for deciding when to rotate.
+ * Organizers can hold rotations for a while (rotation_control).
+ */
+
+import { SupabaseClient } from '@supabase/supabase-js';
+import { getCityConfig, getDeploymentCity } from '../config/cities';
+
+export const DEFAULT_ROTATION_INTERVAL_MINUTES = 30;
+
+// How late the cron may run and still perform a scheduled rotation
+export const ROTATION_GRACE_MS = 5 * 60 * 1000;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface RotationSchedule {
+  cityId: string;
+  timezone: string;
+  intervalMinutes: number;
+  eventStart: number | null; // ms since epoch
+  eventEnd: number | null;
+  quietHours: { start: number; end: number } | null; // Minutes after local midnight
+}
+
+/**
+ * A city's schedule with defaults applied
+ * Throws on invalid config so a typo doesn't silently stop rotations
+ */
+export function getRotationSchedule(cityId: string = getDeploymentCity().id): RotationSchedule {
+  const city = getCityConfig(cityId) || getDeploymentCity();
+  const config = city.rotation || {};
+
+  const intervalMinutes = config.intervalMinutes ?? DEFAULT_ROTATION_INTERVAL_MINUTES;
+  if (!Number.isInteger(intervalMinutes) || intervalMinutes < 1 || intervalMinutes > 24 * 60) {
+    throw new Error(`Invalid rotation interval for ${city.id}: ${intervalMinutes}`);
+  }
+
+  return {
+    cityId: city.id,
+    timezone: city.timezone,
+    intervalMinutes,
+    eventStart: parseTimestamp(city.id, config.eventStart),
+    eventEnd: parseTimestamp(city.id, config.eventEnd),
+    quietHours: config.quietHours
+      ? { start: parseTimeOfDay(city.id, config.quietHours.start), end: parseTimeOfDay(city.id, config.quietHours.end) }
+      : null
+  };
+}
+
+/**
+ * First scheduled rotation after now, or null once the event is over
+ * Pass an organizer hold as notBefore to skip the slots it covers
+ */
+export function getNextRotation(
+  cityId: string = getDeploymentCity().id,
+  now: Date = new Date(),
+  notBefore: Date | null = null
+): Date | null {
+  const schedule = getRotationSchedule(cityId);
+  const intervalMs = schedule.intervalMinutes * 60 * 1000;
+
+  // Enough slots to get past a full day of quiet hours
+  const maxSlots = Math.ceil((2 * DAY_MS) / intervalMs) + 1;
+  let time = Math.max(now.getTime(), notBefore ? notBefore.getTime() - 1 : -Infinity);
+
+  for (let i = 0; i < maxSlots; i++) {
+    // Slots restart at local midnight when the interval doesn't divide the day
+    const localMs = getLocalTimeOfDay(time, schedule.timezone);
+    const untilSlot = (Math.floor(localMs / intervalMs) + 1) * intervalMs - localMs;
+    time += Math.min(untilSlot, DAY_MS - localMs);
+
+    if (schedule.eventEnd !== null && time > schedule.eventEnd) return null;
+
+    if (schedule.eventStart !== null && time < schedule.eventStart) {
+      time = schedule.eventStart - 1;
+      continue;
+    }
+
+    if (!isQuietTime(schedule, time)) return new Date(time);
+  }
+
+  return null;
+}
+
+/**
+ * Most recent scheduled rotation at or before now
+ * Null when that slot fell outside the event window or in quiet hours
+ */
+export function getCurrentRotationSlot(
+  cityId: string = getDeploymentCity().id,
+  now: Date = new Date()
+): Date | null {
+  const schedule = getRotationSchedule(cityId);
+  const intervalMs = schedule.intervalMinutes * 60 * 1000;
+
+  const time = now.getTime();
+  const slot = time - getLocalTimeOfDay(time, schedule.timezone) % intervalMs;
+
+  return isActiveTime(schedule, slot) ? new Date(slot) : null;
+}
+
+/**
+ * End of the organizer hold on a city's rotations, if one is active
+ */
+export async function getRotationHold(
+  supabase: SupabaseClient,
+  cityId: string = getDeploymentCity().id,
+  now: Date = new Date()
+): Promise<Date | null> {
+  const { data, error } = await supabase
+    .from('rotation_control')
+    .select('postponed_until')
+    .eq('city_id', cityId)
+    .maybeSingle();
+
+  if (error) throw error;
+
+  const until = data?.postponed_until ? new Date(data.postponed_until) : null;
+  return until && until > now ? until : null;
+}
+
+/**
+ * Hold a city's rotations until the given time (null resumes the schedule)
+ * Crews' countdowns move to the first slot after the hold
+ */
+export async function postponeRotation(
+  supabase: SupabaseClient,
+  until: Date | null,
+  cityId: string = getDeploymentCity().id
+): Promise<Date | null> {
+  const nextRotation = getNextRotation(cityId, new Date(), until);
+
+  const { error } = await supabase.rpc('postpone_rotation', {
+    p_city_id: cityId,
+    p_until: until?.toISOString() || null,
+    p_next_rotation: nextRotation?.toISOString() || null
+  });
+
+  if (error) throw error;
+  return nextRotation;
+}
+
+/**
+ * Whether crews rotate at this moment (inside the event window, not quiet)
+ */
+export function isActiveTime(schedule: RotationSchedule, time: number): boolean {
+  if (schedule.eventStart !== null && time < schedule.eventStart) return false;
+  if (schedule.eventEnd !== null && time > schedule.eventEnd) return false;
+  return !isQuietTime(schedule, time);
+}
+
+function isQuietTime(schedule: RotationSchedule, time: number): boolean {
+  if (!schedule.quietHours) return false;
+
+  const { start, end } = schedule.quietHours;
+  const minutes = Math.floor(getLocalTimeOfDay(time, schedule.timezone) / 60000);
+
+  // Windows like 23:00-07:00 wrap past midnight
+  return start <= end
+    ? minutes >= start && minutes < end
+    : minutes >= start || minutes < end;
+}
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+/**
+ * Milliseconds since midnight in the given timezone
+ */
+function getLocalTimeOfDay(time: number, timezone: string): number {
+  let formatter = formatters.get(timezone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone: timezone,
+      hourCycle: 'h23',
+      hour: 'numeric',
+      minute: 'numeric',
+      second: 'numeric'
+    });
+    formatters.set(timezone, formatter);
+  }
+
+  const parts: Record<string, number> = {};
+  formatter.formatToParts(time).forEach(part => {
+    if (part.type !== 'literal') parts[part.type] = parseInt(part.value, 10);
+  });
+
+  const millis = ((time % 1000) + 1000) % 1000;
+  return ((parts.hour * 60 + parts.minute) * 60 + parts.second) * 1000 + millis;
+}
+
+function parseTimestamp(cityId: string, value?: string): number | null {
+  if (!value) return null;
+
+  const time = Date.parse(value);
+  if (isNaN(time)) {
+    throw new Error(`Invalid event time for ${cityId}: ${value}`);
+  }
+  return time;
+}
+
+function parseTimeOfDay(cityId: string, value: string): number {
+  const match = value.match(/^(\d{1,2}):(\d{2})$/);
+  if (!match || parseInt(match[1], 10) > 23 || parseInt(match[2], 10) > 59) {
+    throw new Error(`Invalid quiet hours time for ${cityId}: ${value} (use HH:MM)`);
+  }
+  return parseInt(match[1], 10) * 60 + parseInt(match[2], 10);
+}
@@ -1,26 +1,15 @@
 /**
  * Data collection service
- * Monitors police activity from news and social sources
+ * Reads police activity out of news and social text and maps it to zones.
+ * Sources are wired up in signal-sources.ts.
  */
 
-interface NewsArticle {
-  title: string;
-  description: string;
-  url: string;
-  publishedAt: string;
-  source: string;
-}
-
-interface PoliceEvent {
-  location: string;
-  description: string;
-  severity: 'low' | 'medium' | 'high' | 'critical';
-  source: 'news' | 'citizen' | 'social';
-  timestamp: Date;
-}
+import { Gazetteer, locateEvent } from './gazetteer';
+import { severityFromIntensity } from './severity';
+import { PoliceEvent } from './signal-source';
 
 // Keywords that indicate police activity
-const POLICE_KEYWORDS = [
+export const POLICE_KEYWORDS = [
   'police', 'lapd', 'sheriff', 'officer',
   'arrest', 'detained', 'custody', 'handcuff',
   'kettle', 'kettling', 'surrounded', 'trapped',
@@ -28,15 +17,19 @@ const POLICE_KEYWORDS = [
   'riot', 'swat', 'tactical', 'unit'
 ];
 
-// Keywords that indicate high severity
-const HIGH_SEVERITY_KEYWORDS = [
-  'kettle', 'kettling', 'mass arrest', 'surrounded',
-  'tear gas', 'rubber bullet', 'injured', 'hospitalized',
-  'swat', 'tactical unit', 'riot squad'
-];
+// How strongly each phrase signals danger to a crowd (0-1)
+const SEVERITY_KEYWORDS: Record<string, number> = {
+  'police': 0.1, 'lapd': 0.1, 'sheriff': 0.1, 'officer': 0.1, 'unit': 0.05,
+  'arrest': 0.3, 'detained': 0.3, 'custody': 0.2, 'handcuff': 0.3,
+  'disperse': 0.35, 'unlawful assembly': 0.4, 'riot': 0.3, 'tactical': 0.2, 'swat': 0.35,
+  'surrounded': 0.45, 'trapped': 0.5, 'kettle': 0.6, 'kettling': 0.6, 'mass arrest': 0.6,
+  'baton': 0.45, 'pepper spray': 0.5, 'flash bang': 0.6, 'riot squad': 0.5,
+  'tear gas': 0.7, 'rubber bullet': 0.7, 'injured': 0.3, 'hospitalized': 0.5
+};
 
 /**
  * Fetch news about protests and police activity
+ * Throws on API errors so the collector can track the source's health
  */
 export async function fetchNewsData(
   apiKey: string,
@@ -47,58 +40,43 @@ export async function fetchNewsData(
     return [];
   }
   
-  try {
-    const query = `protest OR police OR demonstration "${cityName}"`;
-    const url = new URL('https://newsapi.org/v2/everything');
-    url.searchParams.append('q', query);
-    url.searchParams.append('sortBy', 'publishedAt');
-    url.searchParams.append('pageSize', '50');
-    url.searchParams.append('apiKey', apiKey);
-    
-    // Only get articles from last 2 hours
-    const twoHoursAgo = new Date();
-    twoHoursAgo.setHours(twoHoursAgo.getHours() - 2);
-    url.searchParams.append('from', twoHoursAgo.toISOString());
-    
-    const response = await fetch(url.toString());
-    const data = await response.json();
-    
-    if (data.status !== 'ok') {
-      console.error('NewsAPI error:', data.message);
-      return [];
-    }
-    
-    // Extract police events from articles
-    const events: PoliceEvent[] = [];
+  const query = `protest OR police OR demonstration "${cityName}"`;
+  const url = new URL('https://newsapi.org/v2/everything');
+  url.searchParams.append('q', query);
+  url.searchParams.append('sortBy', 'publishedAt');
+  url.searchParams.append('pageSize', '50');
+  url.searchParams.append('apiKey', apiKey);
+  
+  // Only get articles from last 2 hours
+  const twoHoursAgo = new Date();
+  twoHoursAgo.setHours(twoHoursAgo.getHours() - 2);
+  url.searchParams.append('from', twoHoursAgo.toISOString());
+  
+  const response = await fetch(url.toString());
+  const data = await response.json();
+  
+  if (data.status !== 'ok') {
+    throw new Error(`NewsAPI error: ${data.message || response.status}`);
+  }
+  
+  // Extract police events from articles
+  const events: PoliceEvent[] = [];
+  
+  for (const article of data.articles || []) {
+    const event = parsePoliceText(
+      article.title,
+      article.description || '',
+      cityName,
+      'news',
+      new Date(article.publishedAt)
+    );
     
-    for (const article of data.articles || []) {
-      const fullText = `${article.title} ${article.description}`.toLowerCase();
-      
-      // Check if article mentions police activity
-      const mentionsPolice = POLICE_KEYWORDS.some(keyword => 
-        fullText.includes(keyword)
-      );
-      
-      if (mentionsPolice) {
-        const severity = determineSeverity(fullText);
-        const location = extractLocation(fullText, cityName);
-        
-        events.push({
-          location,
-          description: article.title,
-          severity,
-          source: 'news',
-          timestamp: new Date(article.publishedAt)
-        });
-      }
+    if (event) {
+      events.push({ ...event, url: article.url });
     }
-    
-    return events;
-    
-  } catch (error) {
-    console.error('News fetch error:', error);
-    return [];
   }
+  
+  return events;
 }
 
 /**
@@ -127,150 +105,87 @@ export async function fetchCitizenData(cityName: string): Promise<PoliceEvent[]>
 }
 
 /**
- * Determine severity level from text content
+ * Police event from a headline and summary, or null if it isn't about police
  */
-function determineSeverity(text: string): PoliceEvent['severity'] {
-  const lowerText = text.toLowerCase();
-  
-  // Check for critical keywords
-  if (HIGH_SEVERITY_KEYWORDS.some(keyword => lowerText.includes(keyword))) {
-    return 'critical';
-  }
+export function parsePoliceText(
+  title: string,
+  summary: string,
+  cityName: string,
+  source: string,
+  timestamp: Date
+): PoliceEvent | null {
+  const text = `${title}. ${summary}`;
+  const fullText = text.toLowerCase();
   
-  // Count police-related keyword mentions
-  const policeCount = POLICE_KEYWORDS.filter(keyword => 
-    lowerText.includes(keyword)
-  ).length;
+  // Check if the text mentions police activity
+  const mentionsPolice = POLICE_KEYWORDS.some(keyword => 
+    fullText.includes(keyword)
+  );
+  if (!mentionsPolice) return null;
   
-  if (policeCount >= 4) return 'high';
-  if (policeCount >= 2) return 'medium';
-  return 'low';
+  return {
+    location: extractLocation(text, cityName),
+    description: title,
+    severity: determineSeverity(fullText),
+    source,
+    timestamp
+  };
 }
 
 /**
- * Extract location from text (basic implementation)
+ * Severity from the phrases in a text
+ * Each phrase adds part of the remaining distance to 1, so several mild
+ * mentions never outweigh one serious one
  */
-function extractLocation(text: string, cityName: string): string {
+export function determineSeverity(text: string): PoliceEvent['severity'] {
   const lowerText = text.toLowerCase();
+  let calm = 1;
   
-  // Common LA locations
-  const locations = [
-    'downtown', 'hollywood', 'venice', 'westwood', 'santa monica',
-    'beverly hills', 'echo park', 'silver lake', 'koreatown',
-    'city hall', 'pershing square', 'macarthur park', 'griffith park'
-  ];
-  
-  for (const location of locations) {
-    if (lowerText.includes(location)) {
-      return location.split(' ').map(w => 
-        w.charAt(0).toUpperCase() + w.slice(1)
-      ).join(' ');
+  for (const [keyword, weight] of Object.entries(SEVERITY_KEYWORDS)) {
+    if (new RegExp(`\\b${keyword}`).test(lowerText)) {
+      calm *= 1 - weight;
     }
   }
   
-  return 'Unknown';
+  return severityFromIntensity(1 - calm);
 }
 
 /**
- * Map location names to zone IDs
+ * Place phrase in text: the capitalized words after "near", "at", "on"...
+ * e.g. "Officers gathered near Hill St and 5th" -> "Hill St and 5th"
+ * The gazetteer decides whether it is a known place
  */
-export function mapLocationToZone(location: string, zones: any[]): string | null {
-  const lowerLocation = location.toLowerCase();
+export function extractLocation(text: string, cityName: string): string {
+  const pattern = /\b(?:near|at|in|on|outside|around|by|along)\s+((?:the\s+)?[A-Z0-9][\w'-]*(?:\s+(?:(?:&|and|of|\/)\s+)?[A-Z0-9][\w'-]*)*)/g;
   
-  for (const zone of zones) {
-    if (zone.name.toLowerCase().includes(lowerLocation) ||
-        lowerLocation.includes(zone.name.toLowerCase())) {
-      return zone.id;
+  for (const match of Array.from(text.matchAll(pattern))) {
+    const place = match[1].replace(/['-]+$/, '');
+    if (place.toLowerCase() !== cityName.toLowerCase()) {
+      return place;
     }
   }
   
-  return null;
+  return 'Unknown';
 }
 
 /**
- * Aggregate police events by zone
+ * Police events by the zone the gazetteer places them in
+ * Events that mention no known place are dropped
  */
-export function aggregateEventsByZone(
+export function groupEventsByZone(
   events: PoliceEvent[],
-  zones: any[]
-): Map<string, { severity: string; count: number }> {
-  const zoneActivity = new Map<string, { severity: string; count: number }>();
+  gazetteer: Gazetteer
+): Map<number, PoliceEvent[]> {
+  const eventsByZone = new Map<number, PoliceEvent[]>();
   
   for (const event of events) {
-    const zoneId = mapLocationToZone(event.location, zones);
+    const zoneId = locateEvent(event, gazetteer);
     if (!zoneId) continue;
     
-    const current = zoneActivity.get(zoneId);
-    if (!current || compareSeverity(event.severity, current.severity) > 0) {
-      zoneActivity.set(zoneId, {
-        severity: event.severity,
-        count: (current?.count || 0) + 1
-      });
-    } else {
-      current.count++;
-    }
+    const zoneEvents = eventsByZone.get(zoneId) || [];
+    zoneEvents.push(event);
+    eventsByZone.set(zoneId, zoneEvents);
   }
   
-  return zoneActivity;
-}
-
-/**
- * Compare severity levels
- */
-function compareSeverity(a: string, b: string): number {
-  const levels = { low: 1, medium: 2, high: 3, critical: 4 };
-  return (levels[a as keyof typeof levels] || 0) - 
-         (levels[b as keyof typeof levels] || 0);
+  return eventsByZone;
 }
-
-/**
- * Main collection function - called by cron job
- */
-export async function collectPoliceActivity(
-  supabase: any,
-  newsApiKey: string,
-  cityName: string,
-  zones: any[]
-): Promise<{ success: boolean; eventsFound: number }> {
-  try {
-    // Collect from all sources
-    const [newsEvents, citizenEvents] = await Promise.all([
-      fetchNewsData(newsApiKey, cityName),
-      fetchCitizenData(cityName)
-    ]);
-    
-    const allEvents = [...newsEvents, ...citizenEvents];
-    
-    if (allEvents.length === 0) {
-      return { success: true, eventsFound: 0 };
-    }
-    
-    // Aggregate by zone
-    const zoneActivity = aggregateEventsByZone(allEvents, zones);
-    
-    // Insert into database
-    const inserts = Array.from(zoneActivity.entries()).map(([zoneId, activity]) => ({
-      zone_id: zoneId,
-      severity: activity.severity,
-      description: `${activity.count} police activity reports`,
-      source: 'aggregated'
-    }));
-    
-    if (inserts.length > 0) {
-      const { error } = await supabase
-        .from('police_activity')
-        .insert(inserts);
-      
-      if (error) {
-        console.error('Database insert error:', error);
-        return { success: false, eventsFound: 0 };
-      }
-    }
-    
-    return { success: true, eventsFound: allEvents.length };
-    
-  } catch (error) {
-    console.error('Collection error:', error);
-    return { success: false, eventsFound: 0 };
-  }
-}
\ No newline at end of file
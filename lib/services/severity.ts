@@ -0,0 +1,154 @@
+/**
+ * Police activity scoring
+ * Every report is a signal with an intensity (how bad it is) and a
+ * reliability (how far to trust where it came from). Signals fade with
+ * age and corroborate each other, so each zone gets a severity, a
+ * confidence and one score the rotation planners act on.
+ */
+
+import type { Severity } from './signal-source';
+
+export const SEVERITY_INTENSITY: Record<Severity, number> = {
+  low: 0.25,
+  medium: 0.5,
+  high: 0.75,
+  critical: 1
+};
+
+export const DANGER_SCORE = 0.45; // Crews leave the zone and others steer clear
+export const CRITICAL_SCORE = 0.7; // The zone is taken out of rotation entirely
+export const MIN_ACTIVE_SCORE = 0.1; // Below this a zone no longer counts as active
+export const HALF_LIFE_MINUTES = 60; // Intensity and reliability both halve every hour
+
+// How far to trust each police_activity source
+export const SOURCE_PROFILES: Record<string, { reliability: number; decays: boolean }> = {
+  organizer: { reliability: 1, decays: false }, // Holds until the row expires
+  citizen: { reliability: 0.8, decays: true }, // Corroborated incident reports
+  aggregated: { reliability: 1, decays: true }, // Row confidence already weighs its sources
+  news: { reliability: 0.6, decays: true },
+  social: { reliability: 0.4, decays: true }
+};
+
+const DEFAULT_PROFILE = { reliability: 1, decays: true };
+
+export interface ActivitySignal {
+  severity: Severity;
+  reliability: number; // 0-1
+  observedAt: Date;
+  decays?: boolean; // Defaults to true
+}
+
+export interface ThreatAssessment {
+  severity: Severity; // From the strongest signal after decay
+  confidence: number; // 0-1, from reliability, recency and corroboration
+  score: number; // Intensity weighted by confidence
+}
+
+/**
+ * Severity band for an intensity between 0 and 1
+ */
+export function severityFromIntensity(intensity: number): Severity {
+  if (intensity >= 0.8) return 'critical';
+  if (intensity >= 0.55) return 'high';
+  if (intensity >= 0.3) return 'medium';
+  return 'low';
+}
+
+/**
+ * Share of a signal left after its age, 1 when fresh
+ */
+export function decayFactor(observedAt: Date, now: Date, decays: boolean = true): number {
+  if (!decays) return 1;
+
+  const ageMinutes = Math.max(0, (now.getTime() - observedAt.getTime()) / 60000);
+  return Math.pow(0.5, ageMinutes / HALF_LIFE_MINUTES);
+}
+
+/**
+ * Combine signals about one zone, or null once they have faded out
+ * Independent reports corroborate: each one closes part of the remaining doubt
+ */
+export function assessSignals(signals: ActivitySignal[], now: Date = new Date()): ThreatAssessment | null {
+  let intensity = 0;
+  let doubt = 1;
+
+  for (const signal of signals) {
+    const decay = decayFactor(signal.observedAt, now, signal.decays);
+    const reliability = Math.min(1, Math.max(0, signal.reliability));
+
+    intensity = Math.max(intensity, SEVERITY_INTENSITY[signal.severity] * decay);
+    doubt *= 1 - reliability * decay;
+  }
+
+  const confidence = 1 - doubt;
+  const score = intensity * confidence;
+  if (score < MIN_ACTIVE_SCORE) return null;
+
+  return {
+    severity: severityFromIntensity(intensity),
+    confidence: round(confidence),
+    score: round(score)
+  };
+}
+
+/**
+ * Signal for a police_activity row
+ * Rows missing a source, confidence or time count as fresh and fully trusted
+ */
+export function activitySignal(row: {
+  severity: string;
+  source?: string | null;
+  confidence?: number | string | null;
+  reported_at?: string | null;
+}, now: Date = new Date()): ActivitySignal {
+  const profile = (row.source && SOURCE_PROFILES[row.source]) || DEFAULT_PROFILE;
+  const confidence = row.confidence === undefined || row.confidence === null ? 1 : Number(row.confidence);
+
+  return {
+    severity: row.severity in SEVERITY_INTENSITY ? row.severity as Severity : 'medium',
+    reliability: profile.reliability * confidence,
+    observedAt: row.reported_at ? new Date(row.reported_at) : now,
+    decays: profile.decays
+  };
+}
+
+/**
+ * Assessment of every zone with live police_activity rows
+ */
+export function assessZoneActivity<K>(
+  rows: Array<{ zone_id: K } & Parameters<typeof activitySignal>[0]>,
+  now: Date = new Date()
+): Map<K, ThreatAssessment> {
+  const signalsByZone = new Map<K, ActivitySignal[]>();
+
+  for (const row of rows) {
+    const signals = signalsByZone.get(row.zone_id) || [];
+    signals.push(activitySignal(row, now));
+    signalsByZone.set(row.zone_id, signals);
+  }
+
+  const assessments = new Map<K, ThreatAssessment>();
+  signalsByZone.forEach((signals, zoneId) => {
+    const assessment = assessSignals(signals, now);
+    if (assessment) assessments.set(zoneId, assessment);
+  });
+
+  return assessments;
+}
+
+/**
+ * When a row with this severity and confidence fades below MIN_ACTIVE_SCORE
+ * Intensity and reliability decay together, so the score halves twice per half-life
+ */
+export function getActivityExpiry(severity: Severity, confidence: number, from: Date = new Date()): Date {
+  const score = SEVERITY_INTENSITY[severity] * confidence;
+  const minutes = score > MIN_ACTIVE_SCORE
+    ? (HALF_LIFE_MINUTES / 2) * Math.log2(score / MIN_ACTIVE_SCORE)
+    : 0;
+
+  return new Date(from.getTime() + minutes * 60000);
+}
+
+function round(value: number): number {
+  return Math.round(value * 100) / 100;
+}
@@ -0,0 +1,223 @@
+/**
+ * Built-in activity signal sources
+ * NewsAPI and the Citizen placeholder, plus adapters cities configure
+ * themselves: RSS/Atom feeds, a local JSON drop folder and a webhook inbox
+ */
+
+import { promises as fs } from 'fs';
+import path from 'path';
+import {
+  determineSeverity,
+  extractLocation,
+  fetchCitizenData,
+  fetchNewsData,
+  parsePoliceText
+} from './scraper';
+import {
+  PoliceEvent,
+  Severity,
+  SignalSource,
+  SignalSourceConfig
+} from './signal-source';
+
+const SEVERITIES: Severity[] = ['low', 'medium', 'high', 'critical'];
+
+export const newsApiSource: SignalSource = {
+  id: 'news',
+  description: 'NewsAPI articles mentioning police near the city (needs NEWS_API_KEY)',
+  weight: 1,
+  isEnabled: () => !!process.env.NEWS_API_KEY,
+  fetch: ({ city }) => fetchNewsData(process.env.NEWS_API_KEY || '', city.name)
+};
+
+export const citizenSource: SignalSource = {
+  id: 'citizen',
+  description: 'Citizen app reports (placeholder until an integration exists)',
+  weight: 1,
+  fetch: ({ city }) => fetchCitizenData(city.name)
+};
+
+/**
+ * Adapter for a source listed in CityConfig.signalSources
+ */
+export function createSignalSource(config: SignalSourceConfig): SignalSource {
+  switch (config.type) {
+    case 'rss':
+      return createRssSource(config);
+    case 'json-drop':
+      return createJsonDropSource(config);
+    case 'webhook':
+      return createWebhookSource(config);
+  }
+}
+
+/**
+ * RSS or Atom feed; items that mention police become events
+ */
+export function createRssSource(config: {
+  id: string;
+  url: string;
+  weight?: number;
+  timeoutMs?: number;
+}): SignalSource {
+  return {
+    id: config.id,
+    description: `RSS feed ${config.url}`,
+    weight: config.weight ?? 1,
+    timeoutMs: config.timeoutMs,
+    async fetch({ city }) {
+      const response = await fetch(config.url);
+      if (!response.ok) {
+        throw new Error(`Feed returned ${response.status}`);
+      }
+
+      const events: PoliceEvent[] = [];
+      for (const item of parseFeed(await response.text())) {
+        const event = parsePoliceText(item.title, item.summary, city.name, config.id, item.published);
+        if (event) events.push({ ...event, url: item.link });
+      }
+      return events;
+    }
+  };
+}
+
+/**
+ * Folder of .json files, each an array of events (or { events: [...] })
+ * Handy for teams relaying reports from a chat channel or a spreadsheet export
+ */
+export function createJsonDropSource(config: {
+  id: string;
+  directory: string;
+  weight?: number;
+  timeoutMs?: number;
+}): SignalSource {
+  return {
+    id: config.id,
+    description: `JSON drop folder ${config.directory}`,
+    weight: config.weight ?? 1,
+    timeoutMs: config.timeoutMs,
+    async fetch({ city, since }) {
+      const files = (await fs.readdir(config.directory)).filter(file => file.endsWith('.json'));
+      const events: PoliceEvent[] = [];
+
+      for (const file of files) {
+        const filePath = path.join(config.directory, file);
+        const stats = await fs.stat(filePath);
+        if (stats.mtime < since) continue;
+
+        try {
+          const content = JSON.parse(await fs.readFile(filePath, 'utf8'));
+          const rawEvents = Array.isArray(content) ? content : content?.events;
+
+          (Array.isArray(rawEvents) ? rawEvents : []).forEach(raw => {
+            const event = parseSignalEvent(raw, config.id, city.name);
+            if (event) events.push(event);
+          });
+        } catch (error) {
+          console.warn(`Skipping unreadable drop file ${filePath}:`, error);
+        }
+      }
+
+      return events;
+    }
+  };
+}
+
+/**
+ * Events pushed to POST /api/signals/<id>, collected from signal_inbox
+ */
+export function createWebhookSource(config: {
+  id: string;
+  weight?: number;
+  timeoutMs?: number;
+}): SignalSource {
+  return {
+    id: config.id,
+    description: `Webhook /api/signals/${config.id}`,
+    weight: config.weight ?? 1,
+    timeoutMs: config.timeoutMs,
+    async fetch({ supabase, city, since }) {
+      const { data, error } = await supabase
+        .from('signal_inbox')
+        .select('id, event')
+        .eq('city_id', city.id)
+        .eq('source_id', config.id)
+        .is('processed_at', null)
+        .gte('received_at', since.toISOString())
+        .order('received_at');
+
+      if (error) throw error;
+      if (!data || data.length === 0) return [];
+
+      const { error: updateError } = await supabase
+        .from('signal_inbox')
+        .update({ processed_at: new Date().toISOString() })
+        .in('id', data.map(row => row.id));
+
+      if (updateError) throw updateError;
+
+      return data
+        .map(row => parseSignalEvent(row.event, config.id, city.name))
+        .filter((event): event is PoliceEvent => event !== null);
+    }
+  };
+}
+
+/**
+ * Event from untrusted JSON: { description, location?, severity?, timestamp?, url? }
+ * Missing location and severity are read from the description
+ */
+export function parseSignalEvent(raw: any, sourceId: string, cityName: string): PoliceEvent | null {
+  if (!raw || typeof raw.description !== 'string' || !raw.description.trim()) {
+    return null;
+  }
+
+  const description = raw.description.trim().slice(0, 500);
+  const timestamp = raw.timestamp ? new Date(raw.timestamp) : new Date();
+  if (isNaN(timestamp.getTime())) return null;
+
+  return {
+    location: typeof raw.location === 'string' && raw.location.trim()
+      ? raw.location.trim()
+      : extractLocation(description, cityName),
+    description,
+    severity: SEVERITIES.includes(raw.severity) ? raw.severity : determineSeverity(description),
+    source: sourceId,
+    timestamp,
+    ...(typeof raw.url === 'string' && { url: raw.url })
+  };
+}
+
+/**
+ * Items of an RSS 2.0 or Atom feed
+ */
+function parseFeed(xml: string): Array<{ title: string; summary: string; link?: string; published: Date }> {
+  const items = xml.match(/<item\b[\s\S]*?<\/item>/g) || xml.match(/<entry\b[\s\S]*?<\/entry>/g) || [];
+
+  return items.map(item => {
+    const published = new Date(
+      feedText(item, 'pubDate') || feedText(item, 'published') || feedText(item, 'updated') || Date.now()
+    );
+
+    return {
+      title: feedText(item, 'title') || '',
+      summary: (feedText(item, 'description') || feedText(item, 'summary') || '').replace(/<[^>]+>/g, ' '),
+      link: feedText(item, 'link') || item.match(/<link[^>]*href="([^"]+)"/)?.[1],
+      published: isNaN(published.getTime()) ? new Date() : published
+    };
+  });
+}
+
+function feedText(item: string, tag: string): string | undefined {
+  const text = item.match(new RegExp(`<${tag}(?:\\s[^>]*)?>([\\s\\S]*?)</${tag}>`))?.[1];
+  if (text === undefined) return undefined;
+
+  return text
+    .replace(/<!\[CDATA\[([\s\S]*?)\]\]>/g, '$1')
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&amp;/g, '&')
+    .trim();
+}
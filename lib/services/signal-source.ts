@@ -0,0 +1,67 @@
+/**
+ * Activity signal source contract
+ * Every feed of police activity (news, RSS, a drop folder, a webhook)
+ * returns the same events so the collector can weigh and merge them
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { CityConfig } from '../config/cities';
+
+export const DEFAULT_SOURCE_TIMEOUT_MS = 10 * 1000;
+
+export type Severity = 'low' | 'medium' | 'high' | 'critical';
+
+export interface PoliceEvent {
+  location: string;
+  description: string;
+  severity: Severity;
+  source: string; // Id of the signal source that produced it
+  timestamp: Date;
+  url?: string;
+  weight?: number; // Set by the collector from the source's weight
+}
+
+export interface SignalContext {
+  supabase: SupabaseClient;
+  city: CityConfig;
+  since: Date; // Ignore events older than this
+}
+
+export interface SignalSource {
+  id: string;
+  description: string;
+  weight: number; // How much one event counts; 1 = enough on its own
+  timeoutMs?: number; // Defaults to DEFAULT_SOURCE_TIMEOUT_MS
+  cities?: string[]; // Limit to these city ids; all cities when unset
+  isEnabled?(context: SignalContext): boolean; // e.g. false without an API key
+  fetch(context: SignalContext): Promise<PoliceEvent[]>;
+}
+
+/**
+ * Sources a city adds in CityConfig.signalSources
+ */
+export type SignalSourceConfig =
+  | { type: 'rss'; id: string; url: string; weight?: number; timeoutMs?: number }
+  | { type: 'json-drop'; id: string; directory: string; weight?: number; timeoutMs?: number }
+  | { type: 'webhook'; id: string; weight?: number; timeoutMs?: number };
+
+export type SourceStatus = 'healthy' | 'degraded' | 'down' | 'unknown';
+
+export interface SourceHealth {
+  status: SourceStatus;
+  consecutiveFailures: number;
+  lastRunAt: string | null;
+  lastSuccessAt: string | null;
+  lastFailureAt: string | null;
+  lastError: string | null;
+}
+
+export interface SourceRunReport {
+  id: string;
+  success: boolean;
+  skipped: boolean;
+  latencyMs: number;
+  events: number;
+  error?: string;
+  health: SourceHealth;
+}
@@ -0,0 +1,376 @@
+/**
+ * Registry and collector for activity signal sources
+ * Sources register once (or per city via CityConfig.signalSources); each
+ * cron run fetches them in parallel with a timeout, records their health
+ * in signal_source_health and keeps one weighted police_activity row per
+ * zone up to date
+ */
+
+import { SupabaseClient } from '@supabase/supabase-js';
+import { CityConfig, getDeploymentCity } from '../config/cities';
+import {
+  ActivitySourceEntry,
+  entrySignal,
+  mergeActivitySources,
+  toActivitySource
+} from './activity-dedup';
+import { alertZoneCrews, type ZoneAlert } from './crew-channel';
+import { loadGazetteer } from './gazetteer';
+import { pushZoneAlerts } from './push';
+import { groupEventsByZone } from './scraper';
+import { DANGER_SCORE, assessSignals, getActivityExpiry } from './severity';
+import { citizenSource, createSignalSource, newsApiSource } from './signal-adapters';
+import {
+  DEFAULT_SOURCE_TIMEOUT_MS,
+  PoliceEvent,
+  SignalContext,
+  SignalSource,
+  SourceHealth,
+  SourceRunReport
+} from './signal-source';
+
+export const COLLECTION_WINDOW_MS = 2 * 60 * 60 * 1000; // Only events from the last 2 hours
+export const MIN_ZONE_CONFIDENCE = 0.6; // Before a zone gets an activity row; two 0.5-weight sources reach 0.75
+
+const DEGRADED_AFTER_FAILURES = 1;
+const DOWN_AFTER_FAILURES = 3;
+
+// Live aggregated row a collection run folds new stories into
+interface LiveActivityRow {
+  id: number;
+  zone_id: number;
+  sources: ActivitySourceEntry[] | null;
+  expires_at: string;
+}
+
+// A source's last runs in a city, one row per source
+interface SourceHealthRow {
+  source_id: string;
+  consecutive_failures: number;
+  last_run_at: string | null;
+  last_success_at: string | null;
+  last_failure_at: string | null;
+  last_error: string | null;
+}
+
+const sources = new Map<string, SignalSource>();
+
+/**
+ * Register a source (replaces any existing one with the same id)
+ */
+export function registerSignalSource(source: SignalSource): void {
+  sources.set(source.id, source);
+}
+
+/**
+ * Remove a registered source
+ */
+export function unregisterSignalSource(id: string): void {
+  sources.delete(id);
+}
+
+/**
+ * All registered sources
+ */
+export function listSignalSources(): SignalSource[] {
+  return Array.from(sources.values());
+}
+
+/**
+ * Registered sources that apply to a city, plus the city's own configured sources
+ */
+export function getSignalSourcesForCity(city: CityConfig): SignalSource[] {
+  const registered = listSignalSources().filter(source =>
+    !source.cities || source.cities.includes(city.id)
+  );
+  const configured = (city.signalSources || []).map(createSignalSource);
+
+  // A city's own source wins over a registered one with the same id
+  const ids = new Set(configured.map(source => source.id));
+  return [...registered.filter(source => !ids.has(source.id)), ...configured];
+}
+
+/**
+ * Health of a source in a city, as of the last collection run
+ */
+export async function getSourceHealth(
+  supabase: SupabaseClient,
+  id: string,
+  cityId: string = getDeploymentCity().id
+): Promise<SourceHealth> {
+  const health = await loadSourceHealth(supabase, cityId, [id]);
+  return toSourceHealth(health.get(id));
+}
+
+/**
+ * Fetch every source in parallel; one slow or failing source never blocks the rest
+ * Events are tagged with their source id and weight. Each source's health
+ * is carried over from its last run and saved for the next one.
+ */
+export async function runSignalSources(
+  sourceList: SignalSource[],
+  context: SignalContext
+): Promise<{ events: PoliceEvent[]; report: SourceRunReport[] }> {
+  const { supabase, city } = context;
+
+  // Health is bookkeeping; a database hiccup never stops collection
+  const previous = await loadSourceHealth(supabase, city.id, sourceList.map(source => source.id))
+    .catch(error => {
+      console.error('Source health read error:', error);
+      return new Map<string, SourceHealthRow>();
+    });
+
+  const results = await Promise.all(sourceList.map(source =>
+    runSource(source, context, previous.get(source.id))
+  ));
+
+  const runs = results.flatMap(result => result.run ? [result.run] : []);
+  if (runs.length > 0) {
+    const { error } = await supabase
+      .from('signal_source_health')
+      .upsert(runs.map(run => ({ ...run, city_id: city.id })), { onConflict: 'city_id,source_id' });
+    if (error) console.error('Source health write error:', error);
+  }
+
+  return {
+    events: results.flatMap(result => result.events),
+    report: results.map(result => result.report)
+  };
+}
+
+/**
+ * Main collection function - called by cron job
+ * Each zone keeps one live 'aggregated' row: stories already on it are
+ * folded in rather than inserted again, and the row's expiry moves out
+ */
+export async function collectPoliceActivity(
+  supabase: SupabaseClient,
+  city: CityConfig
+): Promise<{
+  success: boolean;
+  eventsFound: number;
+  inserted: number;
+  updated: number;
+  sources: SourceRunReport[];
+  error?: string; // Why the run stopped early, when success is false
+}> {
+  const since = new Date(Date.now() - COLLECTION_WINDOW_MS);
+
+  try {
+    const { events, report } = await runSignalSources(getSignalSourcesForCity(city), {
+      supabase,
+      city,
+      since
+    });
+
+    if (events.length === 0) {
+      return { success: true, eventsFound: 0, inserted: 0, updated: 0, sources: report };
+    }
+
+    // Place events with the city's zone gazetteer
+    const now = new Date();
+    const eventsByZone = groupEventsByZone(events, await loadGazetteer(supabase, city.id));
+    if (eventsByZone.size === 0) {
+      return { success: true, eventsFound: events.length, inserted: 0, updated: 0, sources: report };
+    }
+
+    // Live rows to fold into (the latest per zone wins)
+    const { data: liveRows, error: liveError } = await supabase
+      .from('police_activity')
+      .select('id, zone_id, sources, expires_at')
+      .eq('source', 'aggregated')
+      .in('zone_id', Array.from(eventsByZone.keys()))
+      .gt('expires_at', now.toISOString())
+      .order('reported_at');
+
+    if (liveError) throw liveError;
+
+    const liveByZone = new Map<number, LiveActivityRow>(
+      ((liveRows || []) as LiveActivityRow[]).map(row => [row.zone_id, row])
+    );
+
+    let inserted = 0;
+    let updated = 0;
+    const alerts: ZoneAlert[] = [];
+
+    for (const [zoneId, zoneEvents] of Array.from(eventsByZone)) {
+      const live = liveByZone.get(zoneId);
+      const entries = mergeActivitySources(
+        live?.sources || [],
+        zoneEvents.map(event => toActivitySource(event, zoneId)),
+        since
+      );
+
+      // Low-weight sources need corroboration before a zone gets a row
+      const assessment = assessSignals(entries.map(entrySignal), now);
+      if (!assessment || assessment.confidence < MIN_ZONE_CONFIDENCE) continue;
+
+      const expiresAt = getActivityExpiry(assessment.severity, assessment.confidence, now);
+      const row = {
+        severity: assessment.severity,
+        confidence: assessment.confidence,
+        description: `${entries.length} police activity reports`,
+        sources: entries,
+        reported_at: now.toISOString(),
+        expires_at: live && new Date(live.expires_at) > expiresAt ? live.expires_at : expiresAt.toISOString()
+      };
+
+      const { error } = live
+        ? await supabase.from('police_activity').update(row).eq('id', live.id)
+        : await supabase.from('police_activity').insert({ ...row, zone_id: zoneId, source: 'aggregated' });
+
+      if (error) {
+        console.error('Database write error:', error);
+        return { success: false, eventsFound: events.length, inserted, updated, sources: report, error: error.message };
+      }
+
+      if (live) {
+        updated++;
+      } else {
+        inserted++;
+      }
+
+      // New stories that make the zone dangerous go straight to the crews there
+      const known = new Set((live?.sources || []).map(entry => entry.fingerprint));
+      if (assessment.score >= DANGER_SCORE && entries.some(entry => !known.has(entry.fingerprint))) {
+        alerts.push({ zoneId, severity: assessment.severity, reason: { code: 'police-activity' } });
+      }
+    }
+
+    await Promise.all([alertZoneCrews(supabase, alerts, city.id), pushZoneAlerts(supabase, alerts, city.id)])
+      .catch(alertError => console.error('Activity alert error:', alertError));
+
+    return { success: true, eventsFound: events.length, inserted, updated, sources: report };
+
+  } catch (error) {
+    console.error('Collection error:', error);
+    const message = (error as { message?: string } | null)?.message || String(error);
+    return { success: false, eventsFound: 0, inserted: 0, updated: 0, sources: [], error: message };
+  }
+}
+
+async function loadSourceHealth(
+  supabase: SupabaseClient,
+  cityId: string,
+  ids: string[]
+): Promise<Map<string, SourceHealthRow>> {
+  if (ids.length === 0) return new Map();
+
+  const { data, error } = await supabase
+    .from('signal_source_health')
+    .select('source_id, consecutive_failures, last_run_at, last_success_at, last_failure_at, last_error')
+    .eq('city_id', cityId)
+    .in('source_id', ids);
+
+  if (error) throw error;
+  return new Map(((data || []) as SourceHealthRow[]).map(row => [row.source_id, row]));
+}
+
+async function runSource(
+  source: SignalSource,
+  context: SignalContext,
+  previous: SourceHealthRow | undefined
+): Promise<{ events: PoliceEvent[]; report: SourceRunReport; run?: SourceHealthRow }> {
+  const startedAt = Date.now();
+
+  if (source.isEnabled && !source.isEnabled(context)) {
+    return {
+      events: [],
+      report: { id: source.id, success: true, skipped: true, latencyMs: 0, events: 0, health: toSourceHealth(previous) }
+    };
+  }
+
+  try {
+    const fetched = await withTimeout(
+      source.fetch(context),
+      source.timeoutMs ?? DEFAULT_SOURCE_TIMEOUT_MS,
+      source.id
+    );
+    const events = fetched
+      .filter(event => event.timestamp >= context.since)
+      .map(event => ({ ...event, source: source.id, weight: source.weight }));
+    const run = recordRun(source.id, previous, null);
+
+    return {
+      events,
+      report: {
+        id: source.id,
+        success: true,
+        skipped: false,
+        latencyMs: Date.now() - startedAt,
+        events: events.length,
+        health: toSourceHealth(run)
+      },
+      run
+    };
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    console.error(`Signal source ${source.id} failed:`, message);
+    const run = recordRun(source.id, previous, message);
+
+    return {
+      events: [],
+      report: {
+        id: source.id,
+        success: false,
+        skipped: false,
+        latencyMs: Date.now() - startedAt,
+        events: 0,
+        error: message,
+        health: toSourceHealth(run)
+      },
+      run
+    };
+  }
+}
+
+function recordRun(id: string, previous: SourceHealthRow | undefined, error: string | null): SourceHealthRow {
+  const now = new Date().toISOString();
+
+  return {
+    source_id: id,
+    consecutive_failures: error ? (previous?.consecutive_failures || 0) + 1 : 0,
+    last_run_at: now,
+    last_success_at: error ? previous?.last_success_at ?? null : now,
+    last_failure_at: error ? now : previous?.last_failure_at ?? null,
+    last_error: error || previous?.last_error || null
+  };
+}
+
+function toSourceHealth(row: SourceHealthRow | undefined): SourceHealth {
+  if (!row?.last_run_at) {
+    return {
+      status: 'unknown',
+      consecutiveFailures: 0,
+      lastRunAt: null,
+      lastSuccessAt: null,
+      lastFailureAt: null,
+      lastError: null
+    };
+  }
+
+  const failures = row.consecutive_failures;
+  return {
+    status: failures >= DOWN_AFTER_FAILURES
+      ? 'down'
+      : failures >= DEGRADED_AFTER_FAILURES ? 'degraded' : 'healthy',
+    consecutiveFailures: failures,
+    lastRunAt: row.last_run_at,
+    lastSuccessAt: row.last_success_at,
+    lastFailureAt: row.last_failure_at,
+    lastError: row.last_error
+  };
+}
+
+function withTimeout<T>(promise: Promise<T>, timeoutMs: number, id: string): Promise<T> {
+  let timer: ReturnType<typeof setTimeout>;
+  const timeout = new Promise<never>((_, reject) => {
+    timer = setTimeout(() => reject(new Error(`${id} timed out after ${timeoutMs}ms`)), timeoutMs);
+  });
+
+  return Promise.race([promise, timeout]).finally(() => clearTimeout(timer));
+}
+
+// Built-in sources
+registerSignalSource(newsApiSource);
+registerSignalSource(citizenSource);
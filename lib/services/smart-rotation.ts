@@ -1,9 +1,34 @@
 /**
  * Smart Zone Rotation System
- * Ensures crews only move to walkable zones (4-6 minutes)
+ * Ensures crews only move to walkable zones along zone_connections
+ * Each instance plans for one city's crews and zones
  */
 
-import { createClient } from '@supabase/supabase-js';
+import { SupabaseClient } from '@supabase/supabase-js';
+import { getDeploymentCity } from '../config/cities';
+import type { RotationReason } from '../config/rotation-reasons';
+import { getAnchorState, updateAnchorState } from './anchor-state';
+import { broadcastToCrews, buildRotationMessages, isCrewChannelEnabled } from './crew-channel';
+import { isPushEnabled, pushRotationOrders } from './push';
+import {
+  MOBILITY_NEEDS,
+  MobilityConstraints,
+  getCrewMobility,
+  isConnectionAccessible,
+  isZoneAccessible
+} from './mobility';
+import { getNextRotation, getRotationHold } from './rotation-schedule';
+import { DANGER_SCORE, ThreatAssessment, assessZoneActivity } from './severity';
+import {
+  Clock,
+  PlannerOptions,
+  RandomSource,
+  ResolvedPlannerOptions,
+  resolvePlannerOptions
+} from './planner-random';
+
+// Longest walk a crew is asked to make in one rotation
+export const MAX_WALK_MINUTES = 10;
 
 interface Zone {
   id: number;
@@ -11,6 +36,9 @@ interface Zone {
   type: 'primary' | 'secondary' | 'avoid';
   center_lat: number;
   center_lng: number;
+  step_free?: boolean;
+  has_seating?: boolean;
+  has_shade?: boolean;
 }
 
 interface ZoneConnection {
@@ -19,82 +47,352 @@ interface ZoneConnection {
   walk_time_minutes: number;
   distance_meters: number;
   route_type: 'direct' | 'street' | 'underground';
+  step_free?: boolean;
 }
 
-interface CrewAssignment {
+interface CrewPosition {
   crew_id: number;
   zone_id: number;
   estimated_size: number;
-  assigned_at: Date;
 }
 
-interface RotationPlan {
+type ZoneGraph = Map<number, {
+  zone: Zone;
+  neighbors: Map<number, ZoneConnection>;
+}>;
+
+export interface RotationPlan {
+  crew_id: number;
+  from_zone_id: number;
+  to_zone_id: number;
+  walk_time: number;
+  reason: string; // Rotation reason codes, comma separated (config/rotation-reasons.ts)
+}
+
+export interface MoveCandidate {
+  zone_id: number;
+  walk_time: number;
+  score: number;
+  reason: string;
+}
+
+export interface CrewRotationDecision {
   crew_id: number;
   from_zone_id: number;
   to_zone_id: number;
+  estimated_size: number;
   walk_time: number;
   reason: string;
+  moved: boolean;
+  score: number | null;
+  candidates: MoveCandidate[]; // Best first
+}
+
+export interface ZoneThreat extends ThreatAssessment {
+  zone_id: number;
+}
+
+export interface RotationPreview {
+  seed: string | null;
+  plannedAt: string;
+  nextRotation: string | null; // Following slot on the city's schedule
+  anchorCrewId: number | null;
+  threats: ZoneThreat[]; // Zones with live police activity, highest score first
+  rotationRate: number;
+  crewsToRotate: number;
+  crews: CrewRotationDecision[];
+}
+
+export interface RotationResult {
+  success: boolean;
+  rotations: number;
+  moves: RotationPlan[];
+  seed: string | null;
+  message: string;
 }
 
 export class SmartRotationService {
-  constructor(private supabase: ReturnType<typeof createClient>) {}
+  constructor(
+    private supabase: SupabaseClient,
+    private cityId: string = getDeploymentCity().id
+  ) {}
 
   /**
    * Calculate next rotation ensuring all moves are walkable
+   * The anchor crew only moves when its zone becomes dangerous
+   */
+  async planRotation(
+    anchorCrewId: number | null = null,
+    options: PlannerOptions = {}
+  ): Promise<RotationPlan[]> {
+    const preview = await this.buildPreview(anchorCrewId, resolvePlannerOptions(options));
+    return toRotationPlan(preview.crews);
+  }
+
+  /**
+   * Full proposed rotation around the shared anchor, with every crew's scores
+   * Read-only: use it for dry runs and to replay a seed after an event
+   */
+  async previewRotation(options: PlannerOptions = {}): Promise<RotationPreview> {
+    const anchor = await getAnchorState(this.supabase, this.cityId);
+    return this.buildPreview(anchor.anchorCrewId, resolvePlannerOptions(options));
+  }
+
+  /**
+   * Plan and apply a rotation around the shared anchor
+   * Every active crew gets a new assignment row with its walk time and reason
+   */
+  async rotate(options: PlannerOptions = {}): Promise<RotationResult> {
+    return this.applyRotation(resolvePlannerOptions(options));
+  }
+
+  /**
+   * Move every crew out of the given zones right away
+   * The zones are flagged as critical police activity so later rotations avoid them too;
+   * crews elsewhere hold position
    */
-  async planRotation(): Promise<RotationPlan[]> {
+  async evacuate(zoneIds: number[], options: PlannerOptions = {}): Promise<RotationResult> {
+    const planner = resolvePlannerOptions(options);
+
+    const { error } = await this.supabase.from('police_activity').insert(
+      zoneIds.map(zoneId => ({
+        zone_id: zoneId,
+        severity: 'critical',
+        description: 'Evacuation ordered by organizers',
+        source: 'organizer'
+      }))
+    );
+
+    if (error) {
+      console.error('Evacuation error:', error);
+      return { success: false, rotations: 0, moves: [], seed: planner.seed, message: `Evacuation failed: ${error.message}` };
+    }
+
+    return this.applyRotation(planner, zoneIds);
+  }
+
+  /**
+   * Plan a rotation and persist it through rotate_crews
+   */
+  private async applyRotation(
+    planner: ResolvedPlannerOptions,
+    evacuateZoneIds: number[] = []
+  ): Promise<RotationResult> {
+    try {
+      const anchor = await getAnchorState(this.supabase, this.cityId);
+      const preview = await this.buildPreview(anchor.anchorCrewId, planner, evacuateZoneIds);
+
+      if (preview.crews.length === 0) {
+        return { success: true, rotations: 0, moves: [], seed: planner.seed, message: 'No active crews to rotate' };
+      }
+
+      // Crews that hold position still get a row so their next_rotation advances
+      const assignments = preview.crews.map(crew => ({
+        crew_id: crew.crew_id,
+        zone_id: crew.to_zone_id,
+        estimated_size: crew.estimated_size,
+        walk_time: crew.walk_time,
+        reason: crew.reason
+      }));
+
+      const { error } = await this.supabase.rpc('rotate_crews', {
+        rotation_plan: JSON.stringify(assignments),
+        plan_seed: planner.seed,
+        p_city_id: this.cityId,
+        p_next_rotation: preview.nextRotation
+      });
+
+      if (error) throw error;
+
+      // Persist anchor relocation so every instance follows it
+      const moves = toRotationPlan(preview.crews);
+      const anchorMove = moves.find(move => move.crew_id === anchor.anchorCrewId);
+      if (anchorMove) {
+        await updateAnchorState(this.supabase, {
+          anchorCrewId: anchorMove.crew_id,
+          anchorZoneId: anchorMove.to_zone_id
+        }, this.cityId);
+      }
+
+      await this.notifyCrews(preview);
+
+      return {
+        success: true,
+        rotations: moves.length,
+        moves,
+        seed: planner.seed,
+        message: `Moved ${moves.length} of ${preview.crews.length} crews along walkable routes`
+      };
+    } catch (error) {
+      console.error('Smart rotation error:', error);
+      return {
+        success: false,
+        rotations: 0,
+        moves: [],
+        seed: planner.seed,
+        message: `Rotation failed: ${error instanceof Error ? error.message : String(error)}`
+      };
+    }
+  }
+
+  /**
+   * Push each crew its new assignment on its own channel, and over Web Push
+   * to phones with the app closed
+   * The rotation is already saved, so a failed push only means crews learn
+   * about it from their next poll; Web Push delivery runs on without holding
+   * up the rotation
+   */
+  private async notifyCrews(preview: RotationPreview): Promise<void> {
+    if (!isCrewChannelEnabled() && !isPushEnabled()) return;
+
+    try {
+      const messages = await buildRotationMessages(this.supabase, preview.crews, preview.nextRotation, this.cityId);
+      await broadcastToCrews(this.supabase, messages, this.cityId);
+      pushRotationOrders(this.supabase, messages, this.cityId)
+        .catch(error => console.error('Rotation push error:', error));
+    } catch (error) {
+      console.error('Crew notification error:', error);
+    }
+  }
+
+  /**
+   * Estimate connections between zones from their centers
+   * Run after adding or moving zones; measured routes are left alone
+   */
+  async seedConnections(maxWalkMinutes: number = MAX_WALK_MINUTES): Promise<number> {
+    const { data, error } = await this.supabase.rpc('seed_zone_connections', {
+      p_max_walk_minutes: maxWalkMinutes
+    });
+
+    if (error) throw error;
+    return data ?? 0;
+  }
+
+  /**
+   * Load current state and decide every crew's next zone
+   */
+  private async buildPreview(
+    anchorCrewId: number | null,
+    planner: ResolvedPlannerOptions,
+    evacuateZoneIds: number[] = []
+  ): Promise<RotationPreview> {
+    const plannedAt = planner.now();
+    const state = await this.loadRotationState(planner.now);
+    const hold = await getRotationHold(this.supabase, this.cityId, plannedAt);
+
+    // Evacuated zones count as dangerous even before the activity rows are visible
+    evacuateZoneIds.forEach(zoneId => {
+      state?.dangerZones.add(zoneId);
+      state?.threats.set(zoneId, { severity: 'critical', confidence: 1, score: 1 });
+    });
+
+    const plan = state
+      ? this.calculateOptimalRotation(
+          state.crews,
+          state.zoneGraph,
+          state.dangerZones,
+          state.threats,
+          anchorCrewId,
+          planner.random,
+          evacuateZoneIds.length > 0,
+          state.crewMobility
+        )
+      : { rotationRate: 0, crewsToRotate: 0, crews: [] };
+
+    return {
+      seed: planner.seed,
+      plannedAt: plannedAt.toISOString(),
+      nextRotation: getNextRotation(this.cityId, plannedAt, hold)?.toISOString() || null,
+      anchorCrewId,
+      threats: Array.from(state?.threats || [])
+        .map(([zoneId, threat]) => ({ zone_id: zoneId, ...threat }))
+        .sort((a, b) => b.score - a.score || a.zone_id - b.zone_id),
+      ...plan
+    };
+  }
+
+  /**
+   * Load crews, the walkable zone graph, scored police activity and
+   * members' mobility needs
+   * Rows are ordered so the same seed always yields the same plan
+   */
+  private async loadRotationState(now: Clock): Promise<{
+    crews: CrewPosition[];
+    zoneGraph: ZoneGraph;
+    dangerZones: Set<number>;
+    threats: Map<number, ThreatAssessment>;
+    crewMobility: Map<number, MobilityConstraints>;
+  } | null> {
     // 1. Get current crew positions
     const { data: currentCrews } = await this.supabase
       .from('current_crews')
       .select('crew_id, zone_id, estimated_size')
-      .gt('estimated_size', 0) as { data: Array<{ crew_id: number; zone_id: number; estimated_size: number }> | null };
+      .eq('city_id', this.cityId)
+      .gt('estimated_size', 0)
+      .order('crew_id') as { data: CrewPosition[] | null };
 
     if (!currentCrews || currentCrews.length === 0) {
-      return [];
+      return null;
     }
 
     // 2. Get zone connections (walkable paths)
     const { data: connections } = await this.supabase
       .from('zone_connections')
       .select('*')
-      .lte('walk_time_minutes', 6) as { data: ZoneConnection[] | null }; // Max 6 minute walk
+      .lte('walk_time_minutes', MAX_WALK_MINUTES)
+      .order('from_zone_id')
+      .order('to_zone_id') as { data: ZoneConnection[] | null };
 
-    // 3. Get current zone statuses
+    // 3. Get current zone statuses (only this city's zones enter the graph)
     const { data: zones } = await this.supabase
       .from('zones')
       .select('*')
+      .eq('city_id', this.cityId)
+      .eq('active', true)
       .neq('type', 'avoid') as { data: Zone[] | null };
 
     // 4. Get police activity
     const { data: policeActivity } = await this.supabase
       .from('police_activity')
-      .select('zone_id, severity')
-      .gt('expires_at', new Date().toISOString()) as { data: Array<{ zone_id: number; severity: string }> | null };
+      .select('zone_id, severity, source, confidence, reported_at')
+      .gt('expires_at', now().toISOString()) as {
+        data: Array<{ zone_id: number; severity: string; source: string; confidence: number; reported_at: string }> | null
+      };
+
+    // 5. Get mobility needs of crew members
+    const { data: mobilityPresence } = await this.supabase
+      .from('crew_presence')
+      .select('crew_id, mobility')
+      .eq('city_id', this.cityId)
+      .overlaps('mobility', Object.keys(MOBILITY_NEEDS)) as {
+        data: Array<{ crew_id: number; mobility: string[] | null }> | null
+      };
 
     // Build zone graph
     const zoneGraph = this.buildZoneGraph(zones || [], connections || []);
+
+    // Crews leave zones whose confidence-weighted score reaches DANGER_SCORE
+    const threats = assessZoneActivity(policeActivity || [], now());
     const dangerZones = new Set<number>(
-      policeActivity
-        ?.filter(p => p.severity === 'high' || p.severity === 'critical')
-        .map(p => p.zone_id) || []
+      Array.from(threats)
+        .filter(([, threat]) => threat.score >= DANGER_SCORE)
+        .map(([zoneId]) => zoneId)
     );
 
-    // 5. Calculate rotation plan
-    return this.calculateOptimalRotation(
-      currentCrews || [],
+    return {
+      crews: currentCrews,
       zoneGraph,
-      dangerZones
-    );
+      dangerZones,
+      threats,
+      crewMobility: getCrewMobility(mobilityPresence || [])
+    };
   }
 
   /**
    * Build graph of walkable connections between zones
    */
-  private buildZoneGraph(zones: Zone[], connections: ZoneConnection[]) {
-    const graph = new Map<number, {
-      zone: Zone;
-      neighbors: Map<number, ZoneConnection>;
-    }>();
+  private buildZoneGraph(zones: Zone[], connections: ZoneConnection[]): ZoneGraph {
+    const graph: ZoneGraph = new Map();
 
     // Initialize zones
     zones.forEach(zone => {
@@ -121,16 +419,21 @@ export class SmartRotationService {
    * - Strategic zone coverage
    * - Police activity avoidance
    * - Crowd distribution
+   * - Anchor stability
+   * - Members' mobility needs (accessible zones, step-free shorter walks)
+   * During an evacuation only crews in danger zones move
    */
   private calculateOptimalRotation(
-    currentCrews: Array<{ crew_id: number; zone_id: number; estimated_size: number }>,
-    zoneGraph: Map<number, {
-      zone: Zone;
-      neighbors: Map<number, ZoneConnection>;
-    }>,
-    dangerZones: Set<number>
-  ): RotationPlan[] {
-    const rotationPlan: RotationPlan[] = [];
+    currentCrews: CrewPosition[],
+    zoneGraph: ZoneGraph,
+    dangerZones: Set<number>,
+    threats: Map<number, ThreatAssessment>,
+    anchorCrewId: number | null,
+    random: RandomSource,
+    evacuating: boolean = false,
+    crewMobility: Map<number, MobilityConstraints> = new Map()
+  ): { rotationRate: number; crewsToRotate: number; crews: CrewRotationDecision[] } {
+    const decisions = new Map<number, CrewRotationDecision>();
     const targetZoneOccupancy = new Map<number, number>();
 
     // Initialize current occupancy
@@ -139,105 +442,174 @@ export class SmartRotationService {
       targetZoneOccupancy.set(crew.zone_id, current + 1);
     });
 
+    // The anchor holds its zone unless police move in
+    const candidates = currentCrews.filter(crew =>
+      crew.crew_id !== anchorCrewId || dangerZones.has(crew.zone_id)
+    );
+    const supportCrewCount = currentCrews.filter(crew => crew.crew_id !== anchorCrewId).length;
+
     // Determine rotation percentage (40-60% for unpredictability)
-    const rotationRate = 0.4 + Math.random() * 0.2;
-    const crewsToRotate = Math.ceil(currentCrews.length * rotationRate);
+    const rotationRate = 0.4 + random() * 0.2;
+    const crewsToRotate = evacuating ? 0 : Math.ceil(supportCrewCount * rotationRate);
 
     // Sort crews by rotation priority
-    const prioritizedCrews = [...currentCrews].sort((a, b) => {
-      // Priority 1: Crews in danger zones must move
+    const prioritizedCrews = [...candidates].sort((a, b) => {
+      // Priority 1: Crews in danger zones must move, worst first
       if (dangerZones.has(a.zone_id) && !dangerZones.has(b.zone_id)) return -1;
       if (!dangerZones.has(a.zone_id) && dangerZones.has(b.zone_id)) return 1;
+      if (dangerZones.has(a.zone_id)) {
+        const threatOrder = (threats.get(b.zone_id)?.score || 0) - (threats.get(a.zone_id)?.score || 0);
+        if (threatOrder !== 0) return threatOrder;
+      }
 
-      // Priority 2: Larger crews (more visible)
-      return b.estimated_size - a.estimated_size;
+      // Priority 2: Larger crews (more visible), then crew id so replays match
+      return b.estimated_size - a.estimated_size || a.crew_id - b.crew_id;
     });
 
     // Plan moves for each crew
     prioritizedCrews.forEach((crew, index) => {
       const mustMove = dangerZones.has(crew.zone_id);
       const shouldMove = mustMove || index < crewsToRotate;
+      const mobility = crewMobility.get(crew.crew_id) || null;
+
+      // Scored for every crew so dry runs show why a crew held position
+      let moveOptions = this.scoreCandidates(
+        crew,
+        zoneGraph,
+        targetZoneOccupancy,
+        dangerZones,
+        threats,
+        mustMove,
+        mobility
+      );
+
+      // Getting away from police comes first, even without an accessible route
+      if (mustMove && mobility && moveOptions.length === 0) {
+        moveOptions = this.scoreCandidates(crew, zoneGraph, targetZoneOccupancy, dangerZones, threats, mustMove)
+          .map(option => ({ ...option, reason: `${option.reason},no-accessible-route` }));
+      }
+      const bestMove = moveOptions[0];
 
-      if (!shouldMove) return;
+      if (!shouldMove || !bestMove) {
+        decisions.set(crew.crew_id, holdPosition(
+          crew,
+          !shouldMove ? 'holding' : mobility ? 'no-accessible-zone' : 'no-walkable-zone',
+          moveOptions
+        ));
+        return;
+      }
 
-      const currentNode = zoneGraph.get(crew.zone_id);
-      if (!currentNode) return;
+      decisions.set(crew.crew_id, {
+        crew_id: crew.crew_id,
+        from_zone_id: crew.zone_id,
+        to_zone_id: bestMove.zone_id,
+        estimated_size: crew.estimated_size,
+        walk_time: bestMove.walk_time,
+        reason: bestMove.reason,
+        moved: true,
+        score: bestMove.score,
+        candidates: moveOptions
+      });
 
-      // Find best neighboring zone
-      let bestMove: RotationPlan | undefined;
-      let bestScore = -Infinity;
-      let bestReason = '';
+      // Update target occupancy
+      const currentOcc = targetZoneOccupancy.get(crew.zone_id) || 0;
+      targetZoneOccupancy.set(crew.zone_id, Math.max(0, currentOcc - 1));
 
-      currentNode.neighbors.forEach((connection: ZoneConnection, neighborId: number) => {
-        const neighbor = zoneGraph.get(neighborId);
-        if (!neighbor) return;
+      const newOcc = targetZoneOccupancy.get(bestMove.zone_id) || 0;
+      targetZoneOccupancy.set(bestMove.zone_id, newOcc + 1);
+    });
 
-        // Skip danger zones unless no choice
-        if (dangerZones.has(neighborId) && !mustMove) return;
+    return {
+      rotationRate,
+      crewsToRotate,
+      crews: currentCrews.map(crew =>
+        decisions.get(crew.crew_id) ||
+        holdPosition(crew, crew.crew_id === anchorCrewId ? 'anchor-holds' : 'holding', [])
+      )
+    };
+  }
 
-        // Calculate move score
-        const score = this.calculateMoveScore(
-          crew,
-          neighborId,
-          neighbor.zone,
-          connection,
-          targetZoneOccupancy,
-          dangerZones
-        );
-
-        if (score.total > bestScore) {
-          bestScore = score.total;
-          bestMove = {
-            crew_id: crew.crew_id,
-            from_zone_id: crew.zone_id,
-            to_zone_id: neighborId,
-            walk_time: connection.walk_time_minutes,
-            reason: score.reason
-          } as RotationPlan;
-          bestReason = score.reason;
-        }
-      });
+  /**
+   * Score every walkable neighbor of a crew's zone, best first
+   * With mobility constraints, only accessible zones over step-free, short enough walks
+   */
+  private scoreCandidates(
+    crew: CrewPosition,
+    zoneGraph: ZoneGraph,
+    occupancy: Map<number, number>,
+    dangerZones: Set<number>,
+    threats: Map<number, ThreatAssessment>,
+    mustMove: boolean,
+    mobility: MobilityConstraints | null = null
+  ): MoveCandidate[] {
+    const currentNode = zoneGraph.get(crew.zone_id);
+    if (!currentNode) return [];
 
-      if (bestMove) {
-        rotationPlan.push(bestMove);
-        
-        // Update target occupancy
-        const currentOcc = targetZoneOccupancy.get(crew.zone_id) || 0;
-        targetZoneOccupancy.set(crew.zone_id, Math.max(0, currentOcc - 1));
-        
-        const newOcc = targetZoneOccupancy.get(bestMove.to_zone_id) || 0;
-        targetZoneOccupancy.set(bestMove.to_zone_id, newOcc + 1);
+    const candidates: MoveCandidate[] = [];
+
+    currentNode.neighbors.forEach((connection: ZoneConnection, neighborId: number) => {
+      const neighbor = zoneGraph.get(neighborId);
+      if (!neighbor) return;
+
+      // Skip danger zones unless no choice
+      if (dangerZones.has(neighborId) && !mustMove) return;
+
+      if (mobility && (!isZoneAccessible(neighbor.zone, mobility) || !isConnectionAccessible(connection, mobility))) {
+        return;
       }
+
+      const score = this.calculateMoveScore(
+        crew,
+        neighborId,
+        neighbor.zone,
+        connection,
+        occupancy,
+        dangerZones,
+        threats
+      );
+
+      candidates.push({
+        zone_id: neighborId,
+        walk_time: Number(connection.walk_time_minutes),
+        score: Math.round(score.total * 10) / 10,
+        reason: score.reason || 'rebalancing'
+      });
     });
 
-    return rotationPlan;
+    // Stable sort keeps connection order for ties
+    return candidates.sort((a, b) => b.score - a.score);
   }
 
   /**
    * Score a potential move based on multiple factors
    */
   private calculateMoveScore(
-    crew: { crew_id: number; zone_id: number; estimated_size: number },
+    crew: CrewPosition,
     targetZoneId: number,
     targetZone: Zone,
     connection: ZoneConnection,
     occupancy: Map<number, number>,
-    dangerZones: Set<number>
+    dangerZones: Set<number>,
+    threats: Map<number, ThreatAssessment>
   ) {
     let score = 0;
-    let reasons = [];
+    const reasons: RotationReason[] = [];
+
+    if (dangerZones.has(crew.zone_id)) {
+      reasons.push('leaving-police');
+    }
 
     // Distance penalty (prefer shorter walks)
-    const distanceScore = (6 - connection.walk_time_minutes) * 10;
+    const distanceScore = (1 - connection.walk_time_minutes / MAX_WALK_MINUTES) * 60;
     score += distanceScore;
     if (connection.walk_time_minutes <= 4) {
-      reasons.push('short walk');
+      reasons.push('short-walk');
     }
 
     // Zone type bonus
     if (targetZone.type === 'primary') {
       score += 20;
-      reasons.push('high visibility');
+      reasons.push('high-visibility');
     }
 
     // Avoid overcrowding
@@ -245,72 +617,34 @@ export class SmartRotationService {
     const crowdScore = Math.max(0, 30 - (targetOccupancy * 10));
     score += crowdScore;
     if (targetOccupancy === 0) {
-      reasons.push('empty zone');
+      reasons.push('empty-zone');
     }
 
-    // Safety considerations
-    if (dangerZones.has(targetZoneId)) {
-      score -= 50;
-      reasons.push('police activity');
+    // Safety considerations, scaled by how sure we are of the activity
+    const threat = threats.get(targetZoneId);
+    if (threat) {
+      score -= threat.score * 100;
+      reasons.push(dangerZones.has(targetZoneId) ? 'police-activity' : 'possible-police-activity');
     }
 
     // Underground route bonus (quick escape)
     if (connection.route_type === 'underground') {
       score += 15;
-      reasons.push('metro access');
+      reasons.push('metro-access');
     }
 
     // Large crew considerations
     if (crew.estimated_size > 100 && targetZone.type === 'primary') {
       score += 15;
-      reasons.push('visibility for large group');
+      reasons.push('large-group');
     }
 
     return {
       total: score,
-      reason: reasons.join(', ')
+      reason: reasons.join(',')
     };
   }
 
-  /**
-   * Emergency dispersal - find safe zones for all crews
-   */
-  async emergencyDispersal(threatZoneId: number): Promise<RotationPlan[]> {
-    // Get all crews
-    const { data: allCrews } = await this.supabase
-      .from('current_crews')
-      .select('crew_id, zone_id, estimated_size')
-      .gt('estimated_size', 0) as { data: Array<{ crew_id: number; zone_id: number; estimated_size: number }> | null };
-
-    // Get safe zones with metro access
-    const { data: safeZones } = await this.supabase
-      .from('zone_connections')
-      .select('to_zone_id')
-      .eq('route_type', 'underground')
-      .eq('from_zone_id', threatZoneId) as { data: Array<{ to_zone_id: number }> | null };
-
-    // Quick dispersal plan
-    const dispersalPlan: RotationPlan[] = [];
-    
-    allCrews?.forEach(crew => {
-      if (crew.zone_id === threatZoneId) {
-        // Urgent evacuation
-        const safeZone = safeZones?.[0]?.to_zone_id || null;
-        if (safeZone) {
-          dispersalPlan.push({
-            crew_id: crew.crew_id,
-            from_zone_id: crew.zone_id,
-            to_zone_id: safeZone,
-            walk_time: 2, // Assume running
-            reason: 'EMERGENCY EVACUATION'
-          });
-        }
-      }
-    });
-
-    return dispersalPlan;
-  }
-
   /**
    * Dynamic zone creation based on crowd gathering
    */
@@ -351,4 +685,40 @@ export class SmartRotationService {
       reason: `Strategic location with ${zones?.length || 0} walkable connections`
     };
   }
-}
\ No newline at end of file
+}
+
+/**
+ * Decision for a crew that stays where it is
+ */
+function holdPosition(
+  crew: CrewPosition,
+  reason: RotationReason,
+  candidates: MoveCandidate[]
+): CrewRotationDecision {
+  return {
+    crew_id: crew.crew_id,
+    from_zone_id: crew.zone_id,
+    to_zone_id: crew.zone_id,
+    estimated_size: crew.estimated_size,
+    walk_time: 0,
+    reason,
+    moved: false,
+    score: null,
+    candidates
+  };
+}
+
+/**
+ * Moves only, in the shape rotate_crews callers expect
+ */
+function toRotationPlan(crews: CrewRotationDecision[]): RotationPlan[] {
+  return crews
+    .filter(crew => crew.moved)
+    .map(crew => ({
+      crew_id: crew.crew_id,
+      from_zone_id: crew.from_zone_id,
+      to_zone_id: crew.to_zone_id,
+      walk_time: crew.walk_time,
+      reason: crew.reason
+    }));
+}
@@ -0,0 +1,199 @@
+/**
+ * Walking routes
+ * Step-by-step directions from a crew's zone to its next one along the
+ * zone_connections walk graph, going around zones with active high-severity
+ * police activity. Legs are zone to zone, so each step names a place the
+ * crew can find rather than a street-level turn.
+ */
+
+import { SupabaseClient } from '@supabase/supabase-js';
+import { getDeploymentCity } from '../config/cities';
+import { getCompassDirection } from './evacuation';
+import type { LatLng } from './map-view';
+import {
+  AccessibleZone,
+  MobilityConstraints,
+  isConnectionAccessible,
+  isZoneAccessible
+} from './mobility';
+import { assessZoneActivity } from './severity';
+
+export interface RouteZone {
+  id: number;
+  name: string;
+  center_lat: number | string;
+  center_lng: number | string;
+}
+
+export interface WalkConnection {
+  from_zone_id: number;
+  to_zone_id: number;
+  walk_time_minutes: number | string; // DECIMAL columns arrive as strings
+  distance_meters: number;
+  step_free?: boolean | null;
+}
+
+export interface RouteStep {
+  zoneId: number; // Where this leg ends
+  zoneName: string;
+  direction: string; // Compass direction of the leg
+  distanceMeters: number;
+  walkMinutes: number;
+  instruction: string;
+}
+
+export interface WalkingRoute {
+  fromZoneId: number;
+  toZoneId: number;
+  steps: RouteStep[];
+  polyline: LatLng[]; // Zone centers along the way, for the map
+  distanceMeters: number;
+  walkMinutes: number;
+  avoidedZoneIds: number[]; // Dangerous zones kept off the route
+}
+
+/**
+ * Shortest walk between two zones that never passes through an avoided zone
+ * The start and destination themselves are allowed; null when no such walk exists
+ */
+export function findWalkingRoute(
+  zones: RouteZone[],
+  connections: WalkConnection[],
+  fromZoneId: number,
+  toZoneId: number,
+  avoidZoneIds: number[] = []
+): WalkingRoute | null {
+  const zoneById = new Map(zones.map(zone => [zone.id, zone]));
+  if (!zoneById.has(fromZoneId) || !zoneById.has(toZoneId)) return null;
+
+  const avoid = new Set(avoidZoneIds.filter(id => id !== fromZoneId && id !== toZoneId));
+  const neighbors = new Map<number, WalkConnection[]>();
+  connections.forEach(connection => {
+    if (!zoneById.has(connection.to_zone_id) || avoid.has(connection.to_zone_id)) return;
+    const list = neighbors.get(connection.from_zone_id) || [];
+    list.push(connection);
+    neighbors.set(connection.from_zone_id, list);
+  });
+
+  // Dijkstra on walking minutes - zone graphs are small, so a linear scan is enough
+  const minutes = new Map<number, number>([[fromZoneId, 0]]);
+  const via = new Map<number, WalkConnection>();
+  const done = new Set<number>();
+
+  while (!done.has(toZoneId)) {
+    let current: number | null = null;
+    minutes.forEach((time, zoneId) => {
+      if (!done.has(zoneId) && (current === null || time < minutes.get(current)!)) current = zoneId;
+    });
+    if (current === null) return null;
+
+    done.add(current);
+    for (const connection of neighbors.get(current) || []) {
+      const time = minutes.get(current)! + Number(connection.walk_time_minutes);
+      if (time < (minutes.get(connection.to_zone_id) ?? Infinity)) {
+        minutes.set(connection.to_zone_id, time);
+        via.set(connection.to_zone_id, connection);
+      }
+    }
+  }
+
+  // Walk back from the destination to list the legs in order
+  const legs: WalkConnection[] = [];
+  for (let zoneId = toZoneId; zoneId !== fromZoneId; zoneId = via.get(zoneId)!.from_zone_id) {
+    legs.unshift(via.get(zoneId)!);
+  }
+
+  const center = (zoneId: number): LatLng => {
+    const zone = zoneById.get(zoneId)!;
+    return [Number(zone.center_lat), Number(zone.center_lng)];
+  };
+
+  const steps = legs.map((leg, index): RouteStep => {
+    const [fromLat, fromLng] = center(leg.from_zone_id);
+    const [toLat, toLng] = center(leg.to_zone_id);
+    const direction = getCompassDirection(fromLat, fromLng, toLat, toLng);
+    const zoneName = zoneById.get(leg.to_zone_id)!.name;
+
+    return {
+      zoneId: leg.to_zone_id,
+      zoneName,
+      direction,
+      distanceMeters: leg.distance_meters,
+      walkMinutes: Number(leg.walk_time_minutes),
+      instruction: index === legs.length - 1
+        ? `Head ${direction} to ${zoneName} - your new zone`
+        : `Head ${direction} to ${zoneName}`
+    };
+  });
+
+  return {
+    fromZoneId,
+    toZoneId,
+    steps,
+    polyline: [center(fromZoneId), ...legs.map(leg => center(leg.to_zone_id))],
+    distanceMeters: steps.reduce((sum, step) => sum + step.distanceMeters, 0),
+    walkMinutes: Math.round(steps.reduce((sum, step) => sum + step.walkMinutes, 0) * 10) / 10,
+    avoidedZoneIds: Array.from(avoid)
+  };
+}
+
+/**
+ * Route between two of a city's zones around its current high-severity activity
+ * With mobility constraints, only through accessible zones along step-free, short enough walks
+ */
+export async function planWalkingRoute(
+  supabase: SupabaseClient,
+  fromZoneId: number,
+  toZoneId: number,
+  cityId: string = getDeploymentCity().id,
+  mobility: MobilityConstraints | null = null
+): Promise<WalkingRoute | null> {
+  const { data: zones, error: zonesError } = await supabase
+    .from('zones')
+    .select('id, name, center_lat, center_lng, step_free, has_seating, has_shade')
+    .eq('city_id', cityId)
+    .eq('active', true);
+
+  if (zonesError) throw zonesError;
+
+  const zoneIds = (zones || []).map((zone: RouteZone) => zone.id);
+  const { data: connections, error: connectionsError } = await supabase
+    .from('zone_connections')
+    .select('from_zone_id, to_zone_id, walk_time_minutes, distance_meters, step_free')
+    .in('from_zone_id', zoneIds);
+
+  if (connectionsError) throw connectionsError;
+
+  const { data: activity } = await supabase
+    .from('police_activity')
+    .select('zone_id, severity, source, confidence, reported_at')
+    .in('zone_id', zoneIds)
+    .gt('expires_at', new Date().toISOString());
+
+  const dangerZones = Array.from(assessZoneActivity(activity || []))
+    .filter(([, threat]) => threat.severity === 'high' || threat.severity === 'critical')
+    .map(([zoneId]) => zoneId as number);
+
+  if (!mobility) {
+    return findWalkingRoute(zones || [], connections || [], fromZoneId, toZoneId, dangerZones);
+  }
+
+  const inaccessibleZones = (zones || [])
+    .filter((zone: AccessibleZone) => !isZoneAccessible(zone, mobility))
+    .map((zone: AccessibleZone) => zone.id);
+
+  return findWalkingRoute(
+    zones || [],
+    (connections || []).filter((connection: WalkConnection) => isConnectionAccessible(connection, mobility)),
+    fromZoneId,
+    toZoneId,
+    [...dangerZones, ...inaccessibleZones]
+  );
+}
+
+/**
+ * When the crew gets there, leaving at departAt
+ */
+export function getRouteEta(route: Pick<WalkingRoute, 'walkMinutes'>, departAt: Date): Date {
+  return new Date(departAt.getTime() + route.walkMinutes * 60 * 1000);
+}
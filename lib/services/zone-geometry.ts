@@ -0,0 +1,158 @@
+/**
+ * Zone geometry helpers
+ * GeoJSON Polygon/MultiPolygon zones (all parts, with holes) for
+ * centroids, bounds and "is this person inside the zone" checks
+ */
+
+export type Position = [number, number]; // [lng, lat] like GeoJSON
+export type PolygonCoordinates = Position[][]; // Outer ring, then holes
+
+export type ZoneGeometry =
+  | { type: 'Polygon'; coordinates: PolygonCoordinates }
+  | { type: 'MultiPolygon'; coordinates: PolygonCoordinates[] };
+
+/**
+ * Accept only geometry types zones can use
+ */
+export function isZoneGeometry(geometry: any): geometry is ZoneGeometry {
+  return (
+    !!geometry &&
+    (geometry.type === 'Polygon' || geometry.type === 'MultiPolygon') &&
+    Array.isArray(geometry.coordinates) &&
+    geometry.coordinates.length > 0
+  );
+}
+
+/**
+ * Every polygon part of a geometry
+ */
+export function getPolygons(geometry: ZoneGeometry): PolygonCoordinates[] {
+  return geometry.type === 'Polygon' ? [geometry.coordinates] : geometry.coordinates;
+}
+
+/**
+ * Area-weighted centroid across all parts, with holes subtracted
+ * Longitudes are scaled by cos(lat) so shapes aren't stretched east-west
+ */
+export function calculateCentroid(geometry: ZoneGeometry): Position {
+  const polygons = getPolygons(geometry);
+  const outerRings = polygons.map(polygon => polygon[0]).filter(ring => ring && ring.length > 0);
+  if (outerRings.length === 0) return [0, 0];
+
+  const scale = Math.cos(outerRings[0][0][1] * Math.PI / 180);
+  let totalArea = 0;
+  let sumX = 0;
+  let sumY = 0;
+
+  polygons.forEach(polygon => {
+    polygon.forEach((ring, index) => {
+      const { area, x, y } = ringMoments(ring, scale);
+      // Outer rings add, holes subtract - regardless of winding order
+      const weight = (index === 0 ? 1 : -1) * Math.abs(area);
+      totalArea += weight;
+      sumX += x * weight;
+      sumY += y * weight;
+    });
+  });
+
+  // Degenerate shapes (lines, repeated points) fall back to the vertex average
+  if (Math.abs(totalArea) < 1e-12) {
+    const vertices = outerRings.flat();
+    return [
+      vertices.reduce((sum, [lng]) => sum + lng, 0) / vertices.length,
+      vertices.reduce((sum, [, lat]) => sum + lat, 0) / vertices.length
+    ];
+  }
+
+  return [sumX / totalArea / scale, sumY / totalArea];
+}
+
+/**
+ * Bounding box of all parts as [SW, NE]
+ */
+export function calculateBounds(geometry: ZoneGeometry): [[number, number], [number, number]] {
+  let minLng = Infinity;
+  let minLat = Infinity;
+  let maxLng = -Infinity;
+  let maxLat = -Infinity;
+
+  getPolygons(geometry).forEach(polygon => {
+    // Holes are inside the outer ring, so it alone sets the bounds
+    for (const [lng, lat] of polygon[0] || []) {
+      minLng = Math.min(minLng, lng);
+      minLat = Math.min(minLat, lat);
+      maxLng = Math.max(maxLng, lng);
+      maxLat = Math.max(maxLat, lat);
+    }
+  });
+
+  return [[minLng, minLat], [maxLng, maxLat]];
+}
+
+/**
+ * Whether a point is inside any part of the geometry (and not in a hole)
+ */
+export function containsPoint(geometry: ZoneGeometry, lat: number, lng: number): boolean {
+  return getPolygons(geometry).some(polygon => {
+    const [outer, ...holes] = polygon;
+    if (!outer || !pointInRing(lng, lat, outer)) return false;
+    return !holes.some(hole => pointInRing(lng, lat, hole));
+  });
+}
+
+/**
+ * First zone whose geometry contains the point
+ */
+export function findContainingZone<T extends { geometry?: ZoneGeometry | null }>(
+  zones: T[],
+  lat: number,
+  lng: number
+): T | null {
+  return zones.find(zone =>
+    isZoneGeometry(zone.geometry) && containsPoint(zone.geometry, lat, lng)
+  ) || null;
+}
+
+/**
+ * Ray casting test against one ring
+ */
+function pointInRing(lng: number, lat: number, ring: Position[]): boolean {
+  let inside = false;
+
+  for (let i = 0, j = ring.length - 1; i < ring.length; j = i++) {
+    const [xi, yi] = ring[i];
+    const [xj, yj] = ring[j];
+
+    if ((yi > lat) !== (yj > lat) && lng < ((xj - xi) * (lat - yi)) / (yj - yi) + xi) {
+      inside = !inside;
+    }
+  }
+
+  return inside;
+}
+
+/**
+ * Signed area and centroid of a ring (shoelace formula)
+ */
+function ringMoments(ring: Position[], scale: number): { area: number; x: number; y: number } {
+  let area = 0;
+  let x = 0;
+  let y = 0;
+
+  for (let i = 0; i < ring.length; i++) {
+    const [lng1, lat1] = ring[i];
+    const [lng2, lat2] = ring[(i + 1) % ring.length];
+    const x1 = lng1 * scale;
+    const x2 = lng2 * scale;
+    const cross = x1 * lat2 - x2 * lat1;
+
+    area += cross;
+    x += (x1 + x2) * cross;
+    y += (lat1 + lat2) * cross;
+  }
+
+  area /= 2;
+  if (area === 0) return { area: 0, x: 0, y: 0 };
+
+  return { area, x: x / (6 * area), y: y / (6 * area) };
+}
@@ -0,0 +1,619 @@
+/**
+ * Zone import and export
+ * Turns GeoJSON, KML or CSV files into validated rows for the zones table,
+ * and the table back into GeoJSON for review
+ */
+
+import { SupabaseClient } from '@supabase/supabase-js';
+import { Zone, classifyZone } from '../config/zones';
+import { getDeploymentCity } from '../config/cities';
+import {
+  Position,
+  ZoneGeometry,
+  calculateCentroid,
+  getPolygons,
+  isZoneGeometry
+} from './zone-geometry';
+import { SmartRotationService } from './smart-rotation';
+import type { ZoneIntersection } from './gazetteer';
+
+export type ZoneFileFormat = 'geojson' | 'kml' | 'csv';
+
+export interface ZoneImportRow {
+  name: string;
+  center_lat: number;
+  center_lng: number;
+  type: Zone['type'];
+  radius_meters?: number;
+  geometry?: ZoneGeometry;
+  aliases?: string[]; // Other names news reports use, for the gazetteer
+  intersections?: ZoneIntersection[];
+  step_free?: boolean; // Accessibility, for mobility-aware assignment
+  has_seating?: boolean;
+  has_shade?: boolean;
+}
+
+export interface ZoneImportResult {
+  zones: ZoneImportRow[];
+  errors: string[];   // Any error means nothing should be written
+  warnings: string[];
+}
+
+// One feature, placemark or row before validation
+interface RawZone {
+  label: string;
+  name?: string;
+  lat?: number;
+  lng?: number;
+  type?: string;
+  radius?: number;
+  geometry?: any;
+  aliases?: any;
+  intersections?: any;
+  stepFree?: any;
+  seating?: any;
+  shade?: any;
+}
+
+const ZONE_TYPES: Zone['type'][] = ['primary', 'secondary', 'avoid'];
+
+/**
+ * Guess the format from a file name
+ */
+export function detectZoneFormat(filename: string): ZoneFileFormat | null {
+  const extension = filename.toLowerCase().split('.').pop();
+
+  if (extension === 'geojson' || extension === 'json') return 'geojson';
+  if (extension === 'kml') return 'kml';
+  if (extension === 'csv') return 'csv';
+  return null;
+}
+
+/**
+ * Parse and validate a zone file
+ */
+export function parseZoneFile(content: string, format: ZoneFileFormat): ZoneImportResult {
+  let rawZones: RawZone[];
+
+  try {
+    rawZones = format === 'geojson'
+      ? parseGeoJSON(content)
+      : format === 'kml'
+        ? parseKML(content)
+        : parseCSV(content);
+  } catch (error) {
+    return {
+      zones: [],
+      errors: [`Could not read ${format.toUpperCase()}: ${error instanceof Error ? error.message : String(error)}`],
+      warnings: []
+    };
+  }
+
+  return validateZones(rawZones);
+}
+
+/**
+ * Write zones into one city, matching existing ones by name so re-imports update in place
+ * With replace, the city's zones missing from the file are deactivated (never deleted,
+ * so crew history stays intact). Walking connections are re-seeded after.
+ */
+export async function importZones(
+  supabase: SupabaseClient,
+  zones: ZoneImportRow[],
+  options: { replace?: boolean; cityId?: string } = {}
+): Promise<{ inserted: number; updated: number; deactivated: number; connections: number }> {
+  const cityId = options.cityId || getDeploymentCity().id;
+  const { data: existing, error } = await supabase
+    .from('zones')
+    .select('id, name')
+    .eq('city_id', cityId);
+
+  if (error) throw error;
+
+  const idsByName = new Map<string, number>(
+    (existing || []).map((zone: { id: number; name: string }) => [zone.name.toLowerCase(), zone.id])
+  );
+  const importedIds = new Set<number>();
+  let inserted = 0;
+  let updated = 0;
+
+  for (const zone of zones) {
+    const row = {
+      ...zone,
+      city_id: cityId,
+      geometry: zone.geometry ?? null,
+      aliases: zone.aliases ?? [],
+      intersections: zone.intersections ?? [],
+      active: true
+    };
+    const existingId = idsByName.get(zone.name.toLowerCase());
+
+    if (existingId !== undefined) {
+      const { error: updateError } = await supabase.from('zones').update(row).eq('id', existingId);
+      if (updateError) throw updateError;
+      importedIds.add(existingId);
+      updated++;
+    } else {
+      const { error: insertError } = await supabase.from('zones').insert(row);
+      if (insertError) throw insertError;
+      inserted++;
+    }
+  }
+
+  let deactivated = 0;
+  if (options.replace) {
+    const staleIds = (existing || [])
+      .map((zone: { id: number }) => zone.id)
+      .filter((id: number) => !importedIds.has(id));
+
+    if (staleIds.length > 0) {
+      const { error: deactivateError } = await supabase
+        .from('zones')
+        .update({ active: false })
+        .in('id', staleIds);
+      if (deactivateError) throw deactivateError;
+      deactivated = staleIds.length;
+    }
+  }
+
+  const connections = await new SmartRotationService(supabase).seedConnections();
+
+  return { inserted, updated, deactivated, connections };
+}
+
+/**
+ * A city's zones as a GeoJSON FeatureCollection
+ */
+export async function exportZones(
+  supabase: SupabaseClient,
+  cityId: string = getDeploymentCity().id
+) {
+  const { data, error } = await supabase
+    .from('zones')
+    .select('id, city_id, name, type, center_lat, center_lng, radius_meters, geometry, aliases, intersections, step_free, has_seating, has_shade, active')
+    .eq('city_id', cityId)
+    .order('id');
+
+  if (error) throw error;
+  return zonesToGeoJSON(data || []);
+}
+
+/**
+ * Zones as GeoJSON - boundary if known, otherwise the center point
+ */
+export function zonesToGeoJSON(zones: Array<{
+  id: number;
+  city_id?: string;
+  name: string;
+  type: string;
+  center_lat: number | string;
+  center_lng: number | string;
+  radius_meters?: number | null;
+  geometry?: ZoneGeometry | null;
+  aliases?: string[] | null;
+  intersections?: ZoneIntersection[] | null;
+  step_free?: boolean | null;
+  has_seating?: boolean | null;
+  has_shade?: boolean | null;
+  active?: boolean;
+}>) {
+  return {
+    type: 'FeatureCollection' as const,
+    features: zones.map(zone => ({
+      type: 'Feature' as const,
+      geometry: zone.geometry || {
+        type: 'Point' as const,
+        coordinates: [Number(zone.center_lng), Number(zone.center_lat)]
+      },
+      properties: {
+        id: zone.id,
+        city_id: zone.city_id,
+        name: zone.name,
+        type: zone.type,
+        center_lat: Number(zone.center_lat),
+        center_lng: Number(zone.center_lng),
+        radius_meters: zone.radius_meters ?? null,
+        aliases: zone.aliases ?? [],
+        intersections: zone.intersections ?? [],
+        step_free: zone.step_free ?? false,
+        has_seating: zone.has_seating ?? false,
+        has_shade: zone.has_shade ?? false,
+        active: zone.active ?? true
+      }
+    }))
+  };
+}
+
+/**
+ * Check every zone and fill in center and type
+ */
+function validateZones(rawZones: RawZone[]): ZoneImportResult {
+  const zones: ZoneImportRow[] = [];
+  const errors: string[] = [];
+  const warnings: string[] = [];
+  const seenNames = new Set<string>();
+
+  if (rawZones.length === 0) {
+    errors.push('No zones found in file');
+  }
+
+  rawZones.forEach(raw => {
+    const name = raw.name?.trim();
+    if (!name) {
+      errors.push(`${raw.label}: missing name`);
+      return;
+    }
+
+    const label = `${raw.label} (${name})`;
+
+    if (seenNames.has(name.toLowerCase())) {
+      errors.push(`${label}: duplicate name - zones are matched by name`);
+      return;
+    }
+    seenNames.add(name.toLowerCase());
+
+    // Boundary, if any
+    let geometry: ZoneGeometry | undefined;
+    if (raw.geometry) {
+      const problem = checkGeometry(raw.geometry);
+      if (problem) {
+        errors.push(`${label}: ${problem}`);
+        return;
+      }
+      geometry = raw.geometry as ZoneGeometry;
+    }
+
+    // Center comes from the boundary when there is one
+    const [lng, lat] = geometry ? calculateCentroid(geometry) : [raw.lng, raw.lat];
+    if (!isValidCoordinate(lat, lng)) {
+      errors.push(`${label}: missing or invalid coordinates`);
+      return;
+    }
+
+    // Per-feature type wins over name matching
+    let type: Zone['type'];
+    if (raw.type) {
+      const requested = raw.type.trim().toLowerCase() as Zone['type'];
+      if (!ZONE_TYPES.includes(requested)) {
+        errors.push(`${label}: unknown type "${raw.type}" (use ${ZONE_TYPES.join(', ')})`);
+        return;
+      }
+      type = requested;
+    } else {
+      type = classifyZone(name);
+    }
+
+    if (raw.radius !== undefined && (!Number.isInteger(raw.radius) || raw.radius <= 0)) {
+      errors.push(`${label}: radius must be a positive whole number of meters`);
+      return;
+    }
+
+    const aliases = parseAliases(raw.aliases);
+    if (!aliases) {
+      errors.push(`${label}: aliases must be a list of names`);
+      return;
+    }
+
+    const intersections = parseIntersections(raw.intersections);
+    if (typeof intersections === 'string') {
+      errors.push(`${label}: ${intersections}`);
+      return;
+    }
+
+    const stepFree = parseFlag(raw.stepFree);
+    const seating = parseFlag(raw.seating);
+    const shade = parseFlag(raw.shade);
+    if (stepFree === null || seating === null || shade === null) {
+      errors.push(`${label}: step_free, has_seating and has_shade must be true or false`);
+      return;
+    }
+
+    if (!geometry && raw.radius === undefined) {
+      warnings.push(`${label}: no boundary or radius, using the default 500m circle`);
+    }
+
+    zones.push({
+      name,
+      center_lat: roundCoordinate(lat!),
+      center_lng: roundCoordinate(lng!),
+      type,
+      ...(raw.radius !== undefined && { radius_meters: raw.radius }),
+      ...(geometry && { geometry }),
+      ...(aliases.length > 0 && { aliases }),
+      ...(intersections.length > 0 && { intersections }),
+      ...(stepFree !== undefined && { step_free: stepFree }),
+      ...(seating !== undefined && { has_seating: seating }),
+      ...(shade !== undefined && { has_shade: shade })
+    });
+  });
+
+  return { zones, errors, warnings };
+}
+
+/**
+ * Describe what's wrong with a geometry, or null if it's usable
+ */
+function checkGeometry(geometry: any): string | null {
+  if (!isZoneGeometry(geometry)) {
+    return `unsupported geometry ${geometry?.type || 'type'} (use Point, Polygon or MultiPolygon)`;
+  }
+
+  for (const polygon of getPolygons(geometry)) {
+    for (const ring of polygon) {
+      if (!Array.isArray(ring) || ring.length < 4) {
+        return 'polygon rings need at least 4 positions';
+      }
+      if (!ring.every(position => isValidCoordinate(position?.[1], position?.[0]))) {
+        return 'polygon has invalid coordinates';
+      }
+      const first = ring[0];
+      const last = ring[ring.length - 1];
+      if (first[0] !== last[0] || first[1] !== last[1]) {
+        return 'polygon rings must be closed (first and last positions equal)';
+      }
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Aliases as a list or a "Grand Park; Civic Center Park" string, or null if unusable
+ */
+function parseAliases(value: any): string[] | null {
+  if (value === undefined || value === null) return [];
+
+  const names = typeof value === 'string' ? value.split(/[;,]/) : value;
+  if (!Array.isArray(names) || !names.every(name => typeof name === 'string')) {
+    return null;
+  }
+
+  return names.map(name => name.trim()).filter(Boolean);
+}
+
+/**
+ * Yes/no property from JSON, KML or CSV; undefined when not given, null when unreadable
+ */
+function parseFlag(value: any): boolean | undefined | null {
+  if (value === undefined || value === null || value === '') return undefined;
+  if (typeof value === 'boolean') return value;
+
+  const text = String(value).trim().toLowerCase();
+  if (['true', 'yes', 'y', '1'].includes(text)) return true;
+  if (['false', 'no', 'n', '0'].includes(text)) return false;
+  return null;
+}
+
+/**
+ * Intersections as "Hill St & 5th St" strings or { streets, lat?, lng? },
+ * or a description of what's wrong
+ */
+function parseIntersections(value: any): ZoneIntersection[] | string {
+  if (value === undefined || value === null) return [];
+  if (!Array.isArray(value)) return 'intersections must be a list';
+
+  const intersections: ZoneIntersection[] = [];
+
+  for (let i = 0; i < value.length; i++) {
+    const item = value[i];
+    const streets = typeof item === 'string'
+      ? item.split(/\s*(?:&|\/|\band\b)\s*/)
+      : item?.streets;
+
+    if (!Array.isArray(streets) || streets.length !== 2 ||
+        !streets.every(street => typeof street === 'string' && street.trim())) {
+      return `intersection ${i + 1} needs two streets (e.g. "Hill St & 5th St")`;
+    }
+
+    const intersection: ZoneIntersection = { streets: [streets[0].trim(), streets[1].trim()] };
+    if (typeof item === 'object' && (item.lat !== undefined || item.lng !== undefined)) {
+      if (!isValidCoordinate(item.lat, item.lng)) {
+        return `intersection ${i + 1} has invalid coordinates`;
+      }
+      intersection.lat = item.lat;
+      intersection.lng = item.lng;
+    }
+
+    intersections.push(intersection);
+  }
+
+  return intersections;
+}
+
+function isValidCoordinate(lat: unknown, lng: unknown): boolean {
+  return (
+    typeof lat === 'number' && typeof lng === 'number' &&
+    Number.isFinite(lat) && Number.isFinite(lng) &&
+    lat >= -90 && lat <= 90 && lng >= -180 && lng <= 180
+  );
+}
+
+// Matches DECIMAL(10, 8) / DECIMAL(11, 8) in the schema
+function roundCoordinate(value: number): number {
+  return Math.round(value * 1e8) / 1e8;
+}
+
+function parseGeoJSON(content: string): RawZone[] {
+  const data = JSON.parse(content);
+  const features = data.type === 'FeatureCollection' ? data.features : [data];
+
+  if (!Array.isArray(features)) {
+    throw new Error('expected a FeatureCollection or Feature');
+  }
+
+  return features.map((feature: any, index: number) => {
+    const properties = feature?.properties || {};
+    const geometry = feature?.geometry;
+    const raw: RawZone = {
+      label: `Feature ${index + 1}`,
+      name: properties.name ?? properties.NAME ?? properties.Name,
+      type: properties.type ?? properties.zone_type,
+      radius: properties.radius_meters !== undefined && properties.radius_meters !== null
+        ? Number(properties.radius_meters)
+        : undefined,
+      aliases: properties.aliases,
+      intersections: properties.intersections,
+      stepFree: properties.step_free,
+      seating: properties.has_seating,
+      shade: properties.has_shade
+    };
+
+    if (geometry?.type === 'Point') {
+      raw.lng = Number(geometry.coordinates?.[0]);
+      raw.lat = Number(geometry.coordinates?.[1]);
+    } else if (geometry) {
+      raw.geometry = geometry;
+    }
+
+    return raw;
+  });
+}
+
+function parseKML(content: string): RawZone[] {
+  const placemarks = content.match(/<Placemark\b[\s\S]*?<\/Placemark>/g) || [];
+
+  return placemarks.map((placemark, index) => {
+    const radius = kmlData(placemark, 'radius_meters');
+    const raw: RawZone = {
+      label: `Placemark ${index + 1}`,
+      name: kmlText(placemark.match(/<name>([\s\S]*?)<\/name>/)?.[1]),
+      type: kmlData(placemark, 'type'),
+      radius: radius !== undefined ? Number(radius) : undefined,
+      stepFree: kmlData(placemark, 'step_free'),
+      seating: kmlData(placemark, 'has_seating'),
+      shade: kmlData(placemark, 'has_shade')
+    };
+
+    const polygons = (placemark.match(/<Polygon\b[\s\S]*?<\/Polygon>/g) || []).map(polygon => {
+      const outer = polygon.match(/<outerBoundaryIs>[\s\S]*?<coordinates>([\s\S]*?)<\/coordinates>/)?.[1] || '';
+      const holes = polygon.match(/<innerBoundaryIs>[\s\S]*?<\/innerBoundaryIs>/g) || [];
+      return [
+        parseKMLCoordinates(outer),
+        ...holes.map(hole => parseKMLCoordinates(hole.match(/<coordinates>([\s\S]*?)<\/coordinates>/)?.[1] || ''))
+      ];
+    });
+
+    if (polygons.length === 1) {
+      raw.geometry = { type: 'Polygon', coordinates: polygons[0] };
+    } else if (polygons.length > 1) {
+      raw.geometry = { type: 'MultiPolygon', coordinates: polygons };
+    } else {
+      const point = placemark.match(/<Point\b[\s\S]*?<coordinates>([\s\S]*?)<\/coordinates>/)?.[1];
+      const [position] = parseKMLCoordinates(point || '');
+      if (position) {
+        [raw.lng, raw.lat] = position;
+      }
+    }
+
+    return raw;
+  });
+}
+
+// "lng,lat[,alt] lng,lat[,alt] ..."
+function parseKMLCoordinates(text: string): Position[] {
+  return text
+    .trim()
+    .split(/\s+/)
+    .filter(Boolean)
+    .map(tuple => {
+      const [lng, lat] = tuple.split(',').map(Number);
+      return [lng, lat] as Position;
+    });
+}
+
+// <Data name="x"><value>..</value></Data> or <SimpleData name="x">..</SimpleData>
+function kmlData(placemark: string, key: string): string | undefined {
+  const data = placemark.match(new RegExp(`<Data name="${key}">\\s*<value>([\\s\\S]*?)</value>`))
+    || placemark.match(new RegExp(`<SimpleData name="${key}">([\\s\\S]*?)</SimpleData>`));
+  return kmlText(data?.[1]);
+}
+
+function kmlText(text: string | undefined): string | undefined {
+  if (text === undefined) return undefined;
+
+  return text
+    .replace(/<!\[CDATA\[([\s\S]*?)\]\]>/g, '$1')
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&amp;/g, '&')
+    .trim();
+}
+
+function parseCSV(content: string): RawZone[] {
+  const [header, ...rows] = content
+    .split(/\r?\n/)
+    .filter(line => line.trim().length > 0)
+    .map(parseCSVLine);
+
+  if (!header) return [];
+
+  const columns = header.map(column => column.trim().toLowerCase());
+  const find = (...names: string[]) => columns.findIndex(column => names.includes(column));
+  const nameColumn = find('name');
+  const latColumn = find('lat', 'latitude', 'center_lat');
+  const lngColumn = find('lng', 'lon', 'long', 'longitude', 'center_lng');
+  const typeColumn = find('type', 'zone_type');
+  const radiusColumn = find('radius_meters', 'radius');
+  const stepFreeColumn = find('step_free');
+  const seatingColumn = find('has_seating', 'seating');
+  const shadeColumn = find('has_shade', 'shade');
+
+  if (nameColumn < 0 || latColumn < 0 || lngColumn < 0) {
+    throw new Error('CSV needs name, lat and lng columns');
+  }
+
+  const cell = (row: string[], column: number) =>
+    column >= 0 && row[column]?.trim() ? row[column].trim() : undefined;
+
+  return rows.map((row, index) => {
+    const lat = cell(row, latColumn);
+    const lng = cell(row, lngColumn);
+    const radius = cell(row, radiusColumn);
+
+    return {
+      label: `Row ${index + 2}`,
+      name: cell(row, nameColumn),
+      lat: lat !== undefined ? Number(lat) : undefined,
+      lng: lng !== undefined ? Number(lng) : undefined,
+      type: cell(row, typeColumn),
+      radius: radius !== undefined ? Number(radius) : undefined,
+      stepFree: cell(row, stepFreeColumn),
+      seating: cell(row, seatingColumn),
+      shade: cell(row, shadeColumn)
+    };
+  });
+}
+
+// Handles quoted fields with commas and "" escapes
+function parseCSVLine(line: string): string[] {
+  const cells: string[] = [];
+  let current = '';
+  let quoted = false;
+
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i];
+
+    if (quoted) {
+      if (char === '"' && line[i + 1] === '"') {
+        current += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        current += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      cells.push(current);
+      current = '';
+    } else {
+      current += char;
+    }
+  }
+
+  cells.push(current);
+  return cells;
+}
@@ -4,6 +4,17 @@
  */
 
 import { createClient } from '@supabase/supabase-js';
+import type { ZoneGeometry } from '../services/zone-geometry';
+import type { ZoneIntersection } from '../services/gazetteer';
+import type { ActivitySourceEntry } from '../services/activity-dedup';
+import { CREW_EVENT, type CrewMessage } from '../services/crew-messages';
+import type { Locale } from '../i18n/locale';
+import type { PushSubscriptionKeys } from '../services/push';
+import {
+  EVACUATION_EVENT,
+  EvacuationOrder,
+  getEvacuationChannel
+} from '../services/evacuation';
 
 // Database types (generated from schema)
 export interface Database {
@@ -12,38 +23,54 @@ export interface Database {
       zones: {
         Row: {
           id: number;
+          city_id: string;
           name: string;
           center_lat: number;
           center_lng: number;
           radius_meters: number;
+          geometry: ZoneGeometry | null;
+          aliases: string[];
+          intersections: ZoneIntersection[];
           type: 'primary' | 'secondary' | 'avoid';
+          step_free: boolean;
+          has_seating: boolean;
+          has_shade: boolean;
           active: boolean;
           created_at: string;
         };
-        Insert: Omit<Database['public']['Tables']['zones']['Row'], 'id' | 'created_at'>;
+        Insert: Omit<Database['public']['Tables']['zones']['Row'], 'id' | 'created_at' | 'city_id' | 'aliases' | 'intersections' | 'step_free' | 'has_seating' | 'has_shade'> &
+          Partial<Pick<Database['public']['Tables']['zones']['Row'], 'city_id' | 'aliases' | 'intersections' | 'step_free' | 'has_seating' | 'has_shade'>>;
         Update: Partial<Database['public']['Tables']['zones']['Insert']>;
       };
       crew_zones: {
         Row: {
+          city_id: string;
           crew_id: number;
           zone_id: number;
           assigned_at: string;
           next_rotation: string;
           estimated_size: number;
+          walk_time_minutes: number | null;
+          rotation_reason: string | null;
+          rotation_number: number | null;
         };
-        Insert: Omit<Database['public']['Tables']['crew_zones']['Row'], 'assigned_at' | 'next_rotation'>;
+        Insert: Omit<Database['public']['Tables']['crew_zones']['Row'], 'city_id' | 'assigned_at' | 'next_rotation' | 'walk_time_minutes' | 'rotation_reason' | 'rotation_number'> &
+          Partial<Pick<Database['public']['Tables']['crew_zones']['Row'], 'city_id' | 'walk_time_minutes' | 'rotation_reason' | 'rotation_number'>>;
         Update: Partial<Database['public']['Tables']['crew_zones']['Insert']>;
       };
       movement_stats: {
         Row: {
           id: number;
+          city_id: string;
           timestamp: string;
           total_crews_active: number;
           total_estimated_protesters: number;
           zones_occupied: number[];
           rotation_number: number;
+          plan_seed: string | null;
         };
-        Insert: Omit<Database['public']['Tables']['movement_stats']['Row'], 'id' | 'timestamp'>;
+        Insert: Omit<Database['public']['Tables']['movement_stats']['Row'], 'id' | 'city_id' | 'timestamp' | 'plan_seed'> &
+          Partial<Pick<Database['public']['Tables']['movement_stats']['Row'], 'city_id' | 'plan_seed'>>;
         Update: Partial<Database['public']['Tables']['movement_stats']['Insert']>;
       };
       police_activity: {
@@ -52,28 +79,153 @@ export interface Database {
           zone_id: number;
           severity: 'low' | 'medium' | 'high' | 'critical';
           description: string;
-          source: 'citizen' | 'news' | 'social';
+          source: 'citizen' | 'news' | 'social' | 'organizer' | 'aggregated';
           reported_at: string;
           expires_at: string;
+          report_category: string | null;
+          confidence: number;
+          sources: ActivitySourceEntry[];
+        };
+        Insert: Omit<Database['public']['Tables']['police_activity']['Row'], 'id' | 'reported_at' | 'expires_at' | 'report_category' | 'confidence' | 'sources'> & {
+          reported_at?: string;
+          expires_at?: string;
+          report_category?: string | null;
+          confidence?: number;
+          sources?: ActivitySourceEntry[];
         };
-        Insert: Omit<Database['public']['Tables']['police_activity']['Row'], 'id' | 'reported_at' | 'expires_at'>;
         Update: Partial<Database['public']['Tables']['police_activity']['Insert']>;
       };
+      anchor_state: {
+        Row: {
+          city_id: string;
+          anchor_crew_id: number | null;
+          anchor_zone_id: number | null;
+          phase: 'build' | 'growth' | 'sustain';
+          assignment_count: number;
+          last_checked_at: string;
+          pinned: boolean;
+          updated_at: string;
+        };
+        Insert: Partial<Omit<Database['public']['Tables']['anchor_state']['Row'], 'updated_at'>>;
+        Update: Partial<Database['public']['Tables']['anchor_state']['Insert']>;
+      };
+      crew_presence: {
+        Row: {
+          session_hash: string;
+          city_id: string;
+          crew_id: number;
+          mobility: string[];
+          joined_at: string;
+          last_seen: string;
+        };
+        Insert: Omit<Database['public']['Tables']['crew_presence']['Row'], 'city_id' | 'mobility' | 'joined_at' | 'last_seen'> &
+          Partial<Pick<Database['public']['Tables']['crew_presence']['Row'], 'city_id' | 'mobility'>>;
+        Update: Partial<Database['public']['Tables']['crew_presence']['Insert']>;
+      };
+      zone_connections: {
+        Row: {
+          from_zone_id: number;
+          to_zone_id: number;
+          walk_time_minutes: number;
+          distance_meters: number;
+          route_type: 'direct' | 'street' | 'underground';
+          step_free: boolean;
+        };
+        Insert: Omit<Database['public']['Tables']['zone_connections']['Row'], 'step_free'> &
+          Partial<Pick<Database['public']['Tables']['zone_connections']['Row'], 'step_free'>>;
+        Update: Partial<Database['public']['Tables']['zone_connections']['Insert']>;
+      };
+      rotation_control: {
+        Row: {
+          city_id: string;
+          postponed_until: string | null;
+          updated_at: string;
+        };
+        Insert: Omit<Database['public']['Tables']['rotation_control']['Row'], 'updated_at'>;
+        Update: Partial<Database['public']['Tables']['rotation_control']['Insert']>;
+      };
+      audit_log: {
+        Row: {
+          id: number;
+          city_id: string;
+          organizer: string;
+          action: string;
+          details: Record<string, unknown>;
+          success: boolean;
+          created_at: string;
+        };
+        Insert: Omit<Database['public']['Tables']['audit_log']['Row'], 'id' | 'created_at'>;
+        Update: Partial<Database['public']['Tables']['audit_log']['Insert']>;
+      };
+      incident_reports: {
+        Row: {
+          id: number;
+          city_id: string;
+          zone_id: number;
+          category: 'medical' | 'blocked_route' | 'hazard' | 'crowd_crush' | 'supply_shortage';
+          session_hash: string;
+          reported_at: string;
+          expires_at: string;
+        };
+        Insert: Omit<Database['public']['Tables']['incident_reports']['Row'], 'id' | 'reported_at'>;
+        Update: Partial<Database['public']['Tables']['incident_reports']['Insert']>;
+      };
+      signal_inbox: {
+        Row: {
+          id: number;
+          city_id: string;
+          source_id: string;
+          event: Record<string, unknown>;
+          received_at: string;
+          processed_at: string | null;
+        };
+        Insert: Omit<Database['public']['Tables']['signal_inbox']['Row'], 'id' | 'received_at' | 'processed_at'>;
+        Update: Partial<Database['public']['Tables']['signal_inbox']['Row']>;
+      };
+      signal_source_health: {
+        Row: {
+          city_id: string;
+          source_id: string;
+          consecutive_failures: number;
+          last_run_at: string | null;
+          last_success_at: string | null;
+          last_failure_at: string | null;
+          last_error: string | null;
+        };
+        Insert: Partial<Database['public']['Tables']['signal_source_health']['Row']> & { city_id: string; source_id: string };
+        Update: Partial<Database['public']['Tables']['signal_source_health']['Row']>;
+      };
+      push_subscriptions: {
+        Row: {
+          id: number;
+          city_id: string;
+          endpoint_hash: string;
+          subscription: PushSubscriptionKeys;
+          topics: string[];
+          locale: Locale;
+          expires_at: string;
+        };
+        Insert: Omit<Database['public']['Tables']['push_subscriptions']['Row'], 'id'>;
+        Update: Partial<Database['public']['Tables']['push_subscriptions']['Row']>;
+      };
     };
     Views: {
       current_crews: {
         Row: {
+          city_id: string;
           crew_id: number;
           zone_id: number;
           assigned_at: string;
           next_rotation: string;
           estimated_size: number;
+          walk_time_minutes: number | null;
+          rotation_reason: string | null;
         };
       };
     };
     Functions: {
       get_crew_stats: {
-        Args: Record<string, never>;
+        Args: { p_city_id?: string };
         Returns: {
           active_crews: number;
           total_protesters: number;
@@ -82,9 +234,78 @@ export interface Database {
         };
       };
       rotate_crews: {
-        Args: { rotation_plan: string };
+        Args: { rotation_plan: string; plan_seed?: string | null; p_city_id?: string; p_next_rotation?: string | null };
+        Returns: void;
+      };
+      claim_anchor_assignment: {
+        Args: { p_check_interval_seconds?: number; p_city_id?: string };
+        Returns: {
+          anchor_crew_id: number | null;
+          anchor_zone_id: number | null;
+          phase: 'build' | 'growth' | 'sustain';
+          assignment_count: number;
+          last_checked_at: string;
+          pinned: boolean;
+          should_check: boolean;
+        }[];
+      };
+      join_crew: {
+        Args: { p_session_hash: string; p_crew_id: number; p_zone_id: number; p_city_id?: string; p_next_rotation?: string | null; p_mobility?: string[]; p_max_size?: number };
+        Returns: number | null; // Null when the crew is full
+      };
+      leave_crew: {
+        Args: { p_session_hash: string };
+        Returns: number | null;
+      };
+      crew_heartbeat: {
+        Args: { p_session_hash: string; p_crew_id: number; p_zone_id: number; p_ttl_seconds?: number; p_city_id?: string; p_next_rotation?: string | null; p_mobility?: string[]; p_max_size?: number };
+        Returns: number | null; // Null when a lapsed member's crew has filled up
+      };
+      expire_stale_presence: {
+        Args: { p_ttl_seconds?: number };
+        Returns: number;
+      };
+      get_rotation_history: {
+        Args: { p_limit?: number; p_city_id?: string };
+        Returns: {
+          rotation_number: number;
+          rotated_at: string;
+          crew_id: number;
+          from_zone_id: number | null;
+          to_zone_id: number;
+          walk_time_minutes: number | null;
+          rotation_reason: string | null;
+        }[];
+      };
+      seed_zone_connections: {
+        Args: { p_max_walk_minutes?: number; p_minutes_per_km?: number };
+        Returns: number;
+      };
+      set_anchor_state: {
+        Args: { p_crew_id: number | null; p_zone_id: number | null; p_phase: string | null; p_city_id?: string; p_pinned?: boolean | null };
+        Returns: Database['public']['Tables']['anchor_state']['Row'][];
+      };
+      postpone_rotation: {
+        Args: { p_city_id: string; p_until: string | null; p_next_rotation: string | null };
         Returns: void;
       };
+      submit_incident_report: {
+        Args: {
+          p_session_hash: string;
+          p_zone_id: number;
+          p_category: string;
+          p_severity: string;
+          p_label: string;
+          p_city_id?: string;
+          p_ttl_minutes?: number;
+          p_rate_limit?: number;
+          p_rate_window_minutes?: number;
+          p_corroboration?: number;
+          p_min_presence_minutes?: number;
+          p_presence_ttl_seconds?: number;
+        };
+        Returns: { accepted: boolean; present: boolean; reporters: number; escalated: boolean }[];
+      };
     };
   };
 }
@@ -170,4 +391,40 @@ export function subscribeToStats(
       callback
     )
     .subscribe();
-}
\ No newline at end of file
+}
+
+export function subscribeToEvacuations(
+  cityId: string,
+  callback: (orders: EvacuationOrder[]) => void
+) {
+  return supabase
+    .channel(getEvacuationChannel(cityId), { config: { private: true } })
+    .on(
+      'broadcast',
+      { event: EVACUATION_EVENT },
+      ({ payload }) => callback(payload?.orders || [])
+    )
+    .subscribe();
+}
+
+// A crew member's realtime token (from join and each heartbeat) for private crew channels
+// Realtime re-sends it to channels already joined, so renewing keeps the subscription alive
+export function setCrewChannelToken(token: string) {
+  supabase.realtime.setAuth(token);
+}
+
+// Connected is false until the socket subscribes, and again if it drops
+export function subscribeToCrew(
+  channelName: string,
+  callback: (message: CrewMessage) => void,
+  onStatus?: (connected: boolean) => void
+) {
+  return supabase
+    .channel(channelName, { config: { private: true } })
+    .on(
+      'broadcast',
+      { event: CREW_EVENT },
+      ({ payload }) => callback(payload as CrewMessage)
+    )
+    .subscribe(status => onStatus?.(status === 'SUBSCRIBED'));
+}
@@ -1,34 +1,57 @@
 import { NextResponse } from 'next/server';
 import type { NextRequest } from 'next/server';
+import {
+  CITIES,
+  CITY_COOKIE,
+  CITY_HEADER,
+  getCityFromUrl,
+  resolveRequestCity
+} from '@/lib/config/cities';
 
 export function middleware(request: NextRequest) {
   const url = request.nextUrl;
   const pathname = url.pathname;
-  
-  // Redirect root to /la
-  if (pathname === '/') {
-    return NextResponse.redirect(new URL('/la', request.url));
+
+  const city = resolveRequestCity({
+    url: request.url,
+    referer: request.headers.get('referer'),
+    cookie: request.cookies.get(CITY_COOKIE)?.value
+  });
+
+  // Downstream routes read the city from this header (never trust the client's)
+  const headers = new Headers(request.headers);
+  headers.set(CITY_HEADER, city.id);
+
+  // Redirect root to the city's path, unless a subdomain already names it
+  if (pathname === '/' && !getCityFromUrl(request.url)) {
+    return NextResponse.redirect(new URL(`/${city.id}`, request.url));
   }
-  
-  // For city paths like /la, /nyc, etc - just serve the app
-  if (pathname.match(/^\/[a-z]{2,3}$/)) {
-    // Rewrite to root but keep the URL as /la
-    return NextResponse.rewrite(new URL('/', request.url));
+
+  // For city paths like /la, /nyc/debrief - serve the app with the city set
+  const [, segment, ...rest] = pathname.split('/');
+  if (segment && CITIES[segment.toLowerCase()]) {
+    // Rewrite to the page without the prefix but keep the URL as /la
+    const response = NextResponse.rewrite(
+      new URL(`/${rest.join('/')}${url.search}`, request.url),
+      { request: { headers } }
+    );
+    response.cookies.set(CITY_COOKIE, city.id, { path: '/', sameSite: 'lax' });
+    return response;
   }
-  
-  return NextResponse.next();
+
+  return NextResponse.next({ request: { headers } });
 }
 
 export const config = {
   matcher: [
     /*
      * Match all request paths except:
-     * - api (API routes)
      * - _next/static (static files)
      * - _next/image (image optimization files)
      * - favicon.ico, favicon.svg (favicon files)
      * - public files with extensions
+     * API routes are included so they receive the city header
      */
-    '/((?!api|_next/static|_next/image|favicon\\.ico|favicon\\.svg|.*\\.[a-z]+$).*)',
+    '/((?!_next/static|_next/image|favicon\\.ico|favicon\\.svg|.*\\.[a-z]+$).*)',
   ],
-};
\ No newline at end of file
+};
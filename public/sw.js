@@ -1,33 +1,82 @@
 /**
  * Service Worker for OVERWHELM
- * Handles push notifications without any server storage
+ * Keeps the app usable when the network drops at a crowded event:
+ * the app shell, the latest zone list and crew assignment are served from
+ * cache, and reports/heartbeats sent offline are queued until it returns.
+ * Also shows rotation, evacuation and safety pushes sent by the server.
  */
 
-// Cache name
-const CACHE_NAME = 'overwhelm-v1';
+// Cache names - bump the shell version when the precached files change
+const SHELL_CACHE = 'overwhelm-shell-v3';
+const DATA_CACHE = 'overwhelm-data';
+const TILE_CACHE = 'overwhelm-tiles';
 
-// Files to cache for offline use
+// App shell, cached on install along with the build chunks the home page names
 const urlsToCache = [
   '/',
+  '/manifest.json',
   '/favicon.svg',
+  '/fist.png',
 ];
 
-// Install event - cache essential files
+// API reads kept for offline use (latest response wins); callers put ?city= in
+// the URL, since the cache key is the URL alone
+const CACHED_API = ['/api/zones', '/api/crew', '/api/directions'];
+
+// API writes queued while offline and replayed by background sync
+const QUEUED_API = ['/api/reports', '/api/crew/heartbeat'];
+
+const OUTBOX_DB = 'overwhelm-outbox';
+const OUTBOX_STORE = 'requests';
+const OUTBOX_SYNC_TAG = 'overwhelm-outbox';
+const OUTBOX_MAX_AGE_MS = 30 * 60 * 1000; // A report older than this is stale news
+
+// Install event - cache the app shell
 self.addEventListener('install', (event) => {
-  event.waitUntil(
-    caches.open(CACHE_NAME)
-      .then((cache) => cache.addAll(urlsToCache))
-  );
+  event.waitUntil(precacheShell());
   self.skipWaiting();
 });
 
+// The home page and every build chunk it names, so the first offline start
+// doesn't depend on which chunks the last visit happened to load
+async function precacheShell() {
+  const cache = await caches.open(SHELL_CACHE);
+  await cache.addAll(urlsToCache);
+
+  const page = await cache.match('/');
+  if (page) {
+    await cacheBuildAssets(getBuildAssets(await page.text()));
+  }
+}
+
+// Build assets in a page: script and style tags, and the app router's chunk list
+function getBuildAssets(html) {
+  const assets = new Set();
+  for (const match of html.matchAll(/(?:\/_next\/)?(static\/(?:chunks|css|media)\/[^"'\\\s)]+)/g)) {
+    assets.add(`/_next/${match[1]}`);
+  }
+  return Array.from(assets);
+}
+
+// Build assets are content-hashed, so anything already cached is kept as is
+async function cacheBuildAssets(urls) {
+  const cache = await caches.open(SHELL_CACHE);
+
+  await Promise.all(urls
+    .filter((url) => new URL(url, self.location.origin).pathname.startsWith('/_next/static/'))
+    .map(async (url) => {
+      if (await cache.match(url)) return;
+      await cache.add(url).catch(() => {}); // A missing chunk shouldn't fail the rest
+    }));
+}
+
 // Activate event - clean up old caches
 self.addEventListener('activate', (event) => {
   event.waitUntil(
     caches.keys().then((cacheNames) => {
       return Promise.all(
         cacheNames.map((cacheName) => {
-          if (cacheName !== CACHE_NAME) {
+          if (![SHELL_CACHE, DATA_CACHE, TILE_CACHE].includes(cacheName)) {
             return caches.delete(cacheName);
           }
         })
@@ -37,56 +86,216 @@ self.addEventListener('activate', (event) => {
   self.clients.claim();
 });
 
-// Fetch event - serve from cache when offline
+// Fetch event - pick a strategy per kind of request
 self.addEventListener('fetch', (event) => {
+  const request = event.request;
+  const url = new URL(request.url);
+  if (url.origin !== self.location.origin) return;
+
+  if (request.method === 'POST' && QUEUED_API.includes(url.pathname)) {
+    event.respondWith(sendOrQueue(request));
+    return;
+  }
+
   // Only cache GET requests
-  if (event.request.method !== 'GET') return;
-
-  event.respondWith(
-    caches.match(event.request)
-      .then((response) => {
-        // Return cached version or fetch new
-        return response || fetch(event.request);
-      })
-      .catch(() => {
-        // Offline fallback for HTML pages
-        if (event.request.destination === 'document') {
-          return caches.match('/');
-        }
-      })
-  );
+  if (request.method !== 'GET') return;
+
+  if (isCachedApi(url)) {
+    event.respondWith(networkFirst(request, DATA_CACHE, true));
+  } else if (url.pathname.startsWith('/api/')) {
+    return;
+  } else if (request.mode === 'navigate') {
+    event.respondWith(
+      networkFirst(request, SHELL_CACHE, false)
+        .catch(() => caches.match('/'))
+    );
+  } else if (url.pathname.startsWith('/_next/static/') || url.pathname.startsWith('/_next/image')) {
+    // Build assets are content-hashed, so a cached copy never goes stale
+    event.respondWith(cacheFirst(request, SHELL_CACHE));
+  } else if (url.pathname.startsWith('/tiles/')) {
+    // Map tiles seen once stay available offline
+    event.respondWith(cacheFirst(request, TILE_CACHE));
+  } else {
+    event.respondWith(
+      caches.match(request).then((response) => response || fetch(request))
+    );
+  }
+});
+
+// Zone list and crew status polls; other API reads are never cached
+function isCachedApi(url) {
+  if (!CACHED_API.includes(url.pathname)) return false;
+  // Only the crew status poll - getNextZone answers depend on the caller's position
+  return url.pathname !== '/api/crew' || (url.searchParams.has('crewId') && !url.searchParams.has('getNextZone'));
+}
+
+// Try the network and refresh the cache, fall back to the cached copy
+async function networkFirst(request, cacheName, stamp) {
+  const cache = await caches.open(cacheName);
+
+  try {
+    const response = await fetch(request);
+    if (response.ok) {
+      await cache.put(request, stamp ? await withCachedAt(response.clone()) : response.clone());
+    }
+    return response;
+  } catch (error) {
+    const cached = await cache.match(request);
+    if (cached) return cached;
+    throw error;
+  }
+}
+
+async function cacheFirst(request, cacheName) {
+  const cached = await caches.match(request);
+  if (cached) return cached;
+
+  const response = await fetch(request);
+  if (response.ok) {
+    const cache = await caches.open(cacheName);
+    await cache.put(request, response.clone());
+  }
+  return response;
+}
+
+// Record when a response was cached so the page can show how old it is
+async function withCachedAt(response) {
+  const headers = new Headers(response.headers);
+  headers.set('X-Cached-At', new Date().toISOString());
+  return new Response(await response.blob(), {
+    status: response.status,
+    statusText: response.statusText,
+    headers,
+  });
+}
+
+// Send a write, or keep it for later and tell the page it was queued
+async function sendOrQueue(request) {
+  const body = await request.clone().text();
+
+  try {
+    return await fetch(request);
+  } catch {
+    await addToOutbox({ url: request.url, body, queuedAt: Date.now() });
+    if (self.registration.sync) {
+      await self.registration.sync.register(OUTBOX_SYNC_TAG).catch(() => {});
+    }
+
+    return new Response(JSON.stringify({ success: true, queued: true }), {
+      status: 202,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  }
+}
+
+// Outbox - a tiny IndexedDB store of queued POSTs
+function openOutbox() {
+  return new Promise((resolve, reject) => {
+    const open = indexedDB.open(OUTBOX_DB, 1);
+    open.onupgradeneeded = () => {
+      open.result.createObjectStore(OUTBOX_STORE, { keyPath: 'id', autoIncrement: true });
+    };
+    open.onsuccess = () => resolve(open.result);
+    open.onerror = () => reject(open.error);
+  });
+}
+
+function outboxRequest(mode, run) {
+  return openOutbox().then((db) => new Promise((resolve, reject) => {
+    const tx = db.transaction(OUTBOX_STORE, mode);
+    const result = run(tx.objectStore(OUTBOX_STORE));
+    tx.oncomplete = () => resolve(result && result.result);
+    tx.onerror = () => reject(tx.error);
+  }));
+}
+
+async function addToOutbox(entry) {
+  // Only the newest heartbeat matters
+  if (entry.url.endsWith('/api/crew/heartbeat')) {
+    const queued = await outboxRequest('readonly', (store) => store.getAll());
+    for (const old of queued.filter((item) => item.url === entry.url)) {
+      await outboxRequest('readwrite', (store) => store.delete(old.id));
+    }
+  }
+
+  await outboxRequest('readwrite', (store) => store.add(entry));
+}
+
+// Replay queued writes; anything the server answered is done with
+async function flushOutbox() {
+  const queued = await outboxRequest('readonly', (store) => store.getAll());
+
+  for (const entry of queued) {
+    if (Date.now() - entry.queuedAt > OUTBOX_MAX_AGE_MS) {
+      await outboxRequest('readwrite', (store) => store.delete(entry.id));
+      continue;
+    }
+
+    try {
+      await fetch(entry.url, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: entry.body,
+      });
+    } catch {
+      // Still offline - keep the rest for the next sync
+      throw new Error('Outbox replay failed');
+    }
+    await outboxRequest('readwrite', (store) => store.delete(entry.id));
+  }
+}
+
+// Background sync - replay the outbox once connectivity returns
+self.addEventListener('sync', (event) => {
+  if (event.tag === OUTBOX_SYNC_TAG) {
+    event.waitUntil(flushOutbox());
+  }
+});
+
+// Browsers without background sync ask from the page when they come back online;
+// the page also hands over the chunks it loaded on demand (the map, for one)
+self.addEventListener('message', (event) => {
+  if (event.data && event.data.type === 'flush-outbox') {
+    event.waitUntil(flushOutbox().catch(() => {}));
+  } else if (event.data && event.data.type === 'cache-assets' && Array.isArray(event.data.urls)) {
+    event.waitUntil(cacheBuildAssets(event.data.urls.filter((url) => typeof url === 'string')));
+  }
 });
 
-// Push event - we don't actually receive server pushes
-// This is just for future extension if needed
+// Push event - payload is { title, body, tag, url?, urgent? } from lib/services/push.ts
 self.addEventListener('push', (event) => {
+  let payload = {};
+  try {
+    payload = event.data ? event.data.json() : {};
+  } catch {
+    payload = { body: event.data.text() };
+  }
+
   const options = {
-    body: event.data ? event.data.text() : 'Check the app for updates',
+    body: payload.body || 'Check the app for updates',
     icon: '/favicon.svg',
     badge: '/favicon.svg',
-    vibrate: [200, 100, 200],
-    tag: 'overwhelm-update',
+    vibrate: payload.urgent ? [400, 200, 400, 200, 400] : [200, 100, 200],
+    tag: payload.tag || 'overwhelm-update',
     renotify: true,
+    requireInteraction: Boolean(payload.urgent),
+    data: { url: payload.url || '/' },
   };
 
   event.waitUntil(
-    self.registration.showNotification('OVERWHELM Update', options)
+    self.registration.showNotification(payload.title || 'OVERWHELM Update', options)
   );
 });
 
-// Notification click - open the app
+// Notification click - focus an open tab, or open the app
 self.addEventListener('notificationclick', (event) => {
   event.notification.close();
+  const url = (event.notification.data && event.notification.data.url) || '/';
 
   event.waitUntil(
-    clients.openWindow('/')
+    clients.matchAll({ type: 'window', includeUncontrolled: true }).then((windows) => {
+      const open = windows.find((client) => 'focus' in client);
+      return open ? open.focus() : clients.openWindow(url);
+    })
   );
 });
-
-// Background sync for checking updates (future feature)
-self.addEventListener('sync', (event) => {
-  if (event.tag === 'check-rotation') {
-    // Could check for zone rotations in background
-    // But keeping it simple for now
-  }
-});
\ No newline at end of file
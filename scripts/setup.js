@@ -49,14 +49,24 @@ async function setup() {
     const supabaseUrl = await question('Supabase URL: ');
     const supabaseAnonKey = await question('Supabase Anon Key: ');
     const supabaseServiceKey = await question('Supabase Service Role Key: ');
+    const supabaseJwtSecret = await question('Supabase JWT Secret (for crew channels, optional): ') || '';
 
     console.log('\n📰 OPTIONAL: NEWS API');
     console.log('Get a free key at https://newsapi.org (or press Enter to skip)\n');
     
     const newsApiKey = await question('NewsAPI Key (optional): ') || '';
 
+    console.log('\n🔔 PUSH NOTIFICATIONS');
+    console.log('Push services only use this to reach you if your pushes misbehave\n');
+    
+    const pushContact = await question('Contact email for push services: ') || 'organizers@example.org';
+
     // Generate secure random secrets
     const cronSecret = crypto.randomBytes(32).toString('hex');
+    const organizerToken = crypto.randomBytes(24).toString('hex');
+    const signalWebhookSecret = crypto.randomBytes(32).toString('hex');
+    const crewChannelSecret = crypto.randomBytes(32).toString('hex');
+    const vapidKeys = generateVapidKeys();
 
     // Create .env.local file
     const envContent = `# OVERWHELM ${cityShort.toUpperCase()} - Environment Variables
@@ -75,9 +85,20 @@ NEXT_PUBLIC_CITY_CENTER_LNG=${cityLng}
 
 # Data Sources
 NEWS_API_KEY=${newsApiKey}
+SIGNAL_WEBHOOK_SECRET=${signalWebhookSecret}
 
 # Security
 CRON_SECRET=${cronSecret}
+CREW_CHANNEL_SECRET=${crewChannelSecret}
+SUPABASE_JWT_SECRET=${supabaseJwtSecret}
+
+# Web Push (VAPID) - regenerating these drops every existing subscription
+NEXT_PUBLIC_VAPID_PUBLIC_KEY=${vapidKeys.publicKey}
+VAPID_PRIVATE_KEY=${vapidKeys.privateKey}
+VAPID_SUBJECT=mailto:${pushContact}
+
+# Organizer console (/admin) - add more as name:token, comma-separated
+ORGANIZER_TOKENS=lead:${organizerToken}
 
 # Feature Flags
 NEXT_PUBLIC_ENABLE_POLICE_TRACKING=true
@@ -112,6 +133,10 @@ Next steps:
    - Add all environment variables from .env.local
    - Redeploy
 
+5. Organizer console:
+   Open /admin and sign in with this token (keep it private):
+   ${organizerToken}
+
 Your Overwhelm ${cityShort.toUpperCase()} instance is ready!
 
 Remember: The revolution doesn't need permission.
@@ -124,4 +149,17 @@ Remember: The revolution doesn't need permission.
   }
 }
 
+/**
+ * P-256 key pair for Web Push, base64url-encoded as browsers and web-push expect
+ */
+function generateVapidKeys() {
+  const { publicKey, privateKey } = crypto.generateKeyPairSync('ec', { namedCurve: 'prime256v1' });
+
+  return {
+    // Uncompressed point: the last 65 bytes of the SPKI encoding
+    publicKey: publicKey.export({ type: 'spki', format: 'der' }).subarray(-65).toString('base64url'),
+    privateKey: privateKey.export({ format: 'jwk' }).d
+  };
+}
+
 setup();
\ No newline at end of file
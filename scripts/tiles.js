@@ -0,0 +1,155 @@
+#!/usr/bin/env node
+
+/**
+ * OVERWHELM - Map Tile Download
+ * Fetches the map tiles covering a city's zones into public/tiles so the
+ * app serves its own map (no third-party tile server at the event)
+ *
+ *   npm run tiles -- --source=https://tiles.example.org/{z}/{x}/{y}.png [--city=la] [--max-zoom=17]
+ */
+
+const fs = require('fs');
+const path = require('path');
+const ts = require('typescript');
+
+// Load the app's TypeScript helpers directly, no build step needed
+require.extensions['.ts'] = (module, filename) => {
+  const { outputText } = ts.transpileModule(fs.readFileSync(filename, 'utf8'), {
+    compilerOptions: { module: ts.ModuleKind.CommonJS, target: ts.ScriptTarget.ES2019, esModuleInterop: true },
+    fileName: filename
+  });
+  module._compile(outputText, filename);
+};
+
+const {
+  getMapBounds,
+  getTileRange,
+  MIN_TILE_ZOOM,
+  MAX_TILE_ZOOM
+} = require('../lib/services/map-view.ts');
+const { getCityConfig, getDeploymentCity } = require('../lib/config/cities.ts');
+
+const TILES_DIR = path.join(__dirname, '..', 'public', 'tiles');
+const MAX_TILES = 5000; // Keep well inside tile servers' bulk download limits
+
+const USAGE = `
+Usage:
+  npm run tiles -- --source=<url template> [--city=la] [--max-zoom=${MAX_TILE_ZOOM}]
+
+--source is a {z}/{x}/{y} tile URL you are allowed to download from in bulk
+(your own tile server, or a provider whose terms allow offline use).
+It defaults to MAP_TILE_SOURCE. Tiles already in public/tiles are skipped.
+--city defaults to NEXT_PUBLIC_CITY_SHORT (see lib/config/cities.ts).
+`;
+
+async function main() {
+  const flags = process.argv.slice(2);
+  const city = getCity(flags);
+  const source = getFlag(flags, 'source') || process.env.MAP_TILE_SOURCE;
+  const maxZoom = Number(getFlag(flags, 'max-zoom') || MAX_TILE_ZOOM);
+
+  if (!source || !source.includes('{z}')) {
+    console.log(USAGE);
+    process.exit(1);
+  }
+
+  const supabase = await getSupabase();
+  const { data: zones, error } = await supabase
+    .from('zones')
+    .select('id, name, center_lat, center_lng, radius_meters, geometry')
+    .eq('city_id', city.id)
+    .eq('active', true);
+
+  if (error) throw error;
+
+  const bounds = getMapBounds(zones || [], city);
+  const tiles = [];
+  for (let zoom = MIN_TILE_ZOOM; zoom <= maxZoom; zoom++) {
+    const range = getTileRange(bounds, zoom);
+    for (let x = range.minX; x <= range.maxX; x++) {
+      for (let y = range.minY; y <= range.maxY; y++) {
+        tiles.push({ z: zoom, x, y });
+      }
+    }
+  }
+
+  if (tiles.length > MAX_TILES) {
+    console.error(`❌ ${tiles.length} tiles is too many - lower --max-zoom (limit ${MAX_TILES})`);
+    process.exit(1);
+  }
+
+  console.log(`${city.name}: ${(zones || []).length} zone(s), ${tiles.length} tiles at zoom ${MIN_TILE_ZOOM}-${maxZoom}`);
+
+  let fetched = 0;
+  let failed = 0;
+  for (const { z, x, y } of tiles) {
+    const file = path.join(TILES_DIR, String(z), String(x), `${y}.png`);
+    if (fs.existsSync(file)) continue;
+
+    const url = source.replace('{z}', z).replace('{x}', x).replace('{y}', y);
+    const response = await fetch(url, { headers: { 'User-Agent': 'overwhelm-tiles' } });
+    if (!response.ok) {
+      failed++;
+      console.warn(`⚠️  ${url}: ${response.status}`);
+      continue;
+    }
+
+    fs.mkdirSync(path.dirname(file), { recursive: true });
+    fs.writeFileSync(file, Buffer.from(await response.arrayBuffer()));
+    fetched++;
+  }
+
+  console.log(`\n✅ ${fetched} downloaded, ${tiles.length - fetched - failed} already present, ${failed} failed`);
+}
+
+function getFlag(flags, name) {
+  const flag = flags.find(arg => arg.startsWith(`--${name}=`));
+  return flag ? flag.slice(name.length + 3) : null;
+}
+
+function getCity(flags) {
+  loadEnv();
+
+  const cityId = getFlag(flags, 'city');
+  if (!cityId) return getDeploymentCity();
+
+  const city = getCityConfig(cityId);
+  if (!city) {
+    console.error(`Unknown city: ${cityId} (add it to lib/config/cities.ts)`);
+    process.exit(1);
+  }
+  return city;
+}
+
+async function getSupabase() {
+  loadEnv();
+
+  const url = process.env.NEXT_PUBLIC_SUPABASE_URL;
+  const key = process.env.SUPABASE_SERVICE_ROLE_KEY;
+
+  if (!url || !key) {
+    console.error('❌ NEXT_PUBLIC_SUPABASE_URL and SUPABASE_SERVICE_ROLE_KEY are required (run npm run setup)');
+    process.exit(1);
+  }
+
+  const { createClient } = require('@supabase/supabase-js');
+  return createClient(url, key, { auth: { persistSession: false } });
+}
+
+// Same .env.local the app uses; real environment variables win
+function loadEnv() {
+  const envPath = path.join(__dirname, '..', '.env.local');
+  if (!fs.existsSync(envPath)) return;
+
+  fs.readFileSync(envPath, 'utf8').split(/\r?\n/).forEach(line => {
+    const match = line.match(/^\s*([A-Z0-9_]+)\s*=\s*(.*)\s*$/);
+    if (match && process.env[match[1]] === undefined) {
+      process.env[match[1]] = match[2].replace(/^["']|["']$/g, '');
+    }
+  });
+}
+
+main().catch(error => {
+  console.error('❌ Tile download failed:', error.message || error);
+  process.exit(1);
+});
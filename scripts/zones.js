@@ -0,0 +1,175 @@
+#!/usr/bin/env node
+
+/**
+ * OVERWHELM - Zone Import/Export
+ * Validates zone files (GeoJSON, KML, CSV), loads them into the zones table,
+ * and exports the table back to GeoJSON for review
+ *
+ *   npm run zones -- validate zones.kml
+ *   npm run zones -- import zones.geojson [--city=la] [--replace] [--dry-run]
+ *   npm run zones -- export [zones.geojson] [--city=la]
+ */
+
+const fs = require('fs');
+const path = require('path');
+const ts = require('typescript');
+
+// Load the app's TypeScript helpers directly, no build step needed
+require.extensions['.ts'] = (module, filename) => {
+  const { outputText } = ts.transpileModule(fs.readFileSync(filename, 'utf8'), {
+    compilerOptions: { module: ts.ModuleKind.CommonJS, target: ts.ScriptTarget.ES2019, esModuleInterop: true },
+    fileName: filename
+  });
+  module._compile(outputText, filename);
+};
+
+const {
+  detectZoneFormat,
+  parseZoneFile,
+  importZones,
+  exportZones
+} = require('../lib/services/zone-import.ts');
+const { getCityConfig, getDeploymentCity } = require('../lib/config/cities.ts');
+
+const USAGE = `
+Usage:
+  npm run zones -- validate <file>                                   Check a GeoJSON, KML or CSV file
+  npm run zones -- import <file> [--city=la] [--replace] [--dry-run] Load zones into Supabase
+  npm run zones -- export [out.geojson] [--city=la]                  Write a city's zones as GeoJSON
+
+Zone types come from a "type" property/column (primary, secondary, avoid),
+otherwise from PRIMARY_ZONES / AVOID_ZONES in lib/config/zones.ts.
+--city defaults to NEXT_PUBLIC_CITY_SHORT (see lib/config/cities.ts).
+--replace deactivates the city's zones that are not in the file.
+`;
+
+async function main() {
+  const [command, ...rest] = process.argv.slice(2);
+  const flags = rest.filter(arg => arg.startsWith('--'));
+  const [file] = rest.filter(arg => !arg.startsWith('--'));
+  const city = getCity(flags);
+
+  switch (command) {
+    case 'validate': {
+      const result = readZoneFile(file);
+      printResult(result);
+      process.exit(result.errors.length > 0 ? 1 : 0);
+    }
+
+    case 'import': {
+      const result = readZoneFile(file);
+      printResult(result);
+
+      if (result.errors.length > 0) {
+        console.error('\n❌ Fix the errors above before importing. Nothing was written.');
+        process.exit(1);
+      }
+
+      if (flags.includes('--dry-run')) {
+        console.log('\nDry run - nothing was written.');
+        return;
+      }
+
+      const supabase = await getSupabase();
+      const summary = await importZones(supabase, result.zones, {
+        replace: flags.includes('--replace'),
+        cityId: city.id
+      });
+
+      console.log(`\n✅ ${city.name}: ${summary.inserted} added, ${summary.updated} updated, ${summary.deactivated} deactivated`);
+      console.log(`   ${summary.connections} walking connections seeded`);
+      return;
+    }
+
+    case 'export': {
+      const supabase = await getSupabase();
+      const geojson = JSON.stringify(await exportZones(supabase, city.id), null, 2);
+
+      if (file) {
+        fs.writeFileSync(file, geojson + '\n');
+        console.log(`✅ Wrote ${file}`);
+      } else {
+        process.stdout.write(geojson + '\n');
+      }
+      return;
+    }
+
+    default:
+      console.log(USAGE);
+      process.exit(command ? 1 : 0);
+  }
+}
+
+function getCity(flags) {
+  loadEnv();
+
+  const cityFlag = flags.find(flag => flag.startsWith('--city='));
+  if (!cityFlag) return getDeploymentCity();
+
+  const city = getCityConfig(cityFlag.slice('--city='.length));
+  if (!city) {
+    console.error(`Unknown city: ${cityFlag} (add it to lib/config/cities.ts)`);
+    process.exit(1);
+  }
+  return city;
+}
+
+function readZoneFile(file) {
+  if (!file) {
+    console.error('Missing file.\n' + USAGE);
+    process.exit(1);
+  }
+
+  const format = detectZoneFormat(file);
+  if (!format) {
+    console.error(`Unknown file type: ${file} (use .geojson, .json, .kml or .csv)`);
+    process.exit(1);
+  }
+
+  return parseZoneFile(fs.readFileSync(file, 'utf8'), format);
+}
+
+function printResult({ zones, errors, warnings }) {
+  zones.forEach(zone => {
+    const shape = zone.geometry ? zone.geometry.type : `${zone.radius_meters || 500}m circle`;
+    console.log(`  ${zone.type.padEnd(9)} ${zone.name} (${zone.center_lat}, ${zone.center_lng}) ${shape}`);
+  });
+
+  warnings.forEach(warning => console.warn(`⚠️  ${warning}`));
+  errors.forEach(error => console.error(`❌ ${error}`));
+
+  console.log(`\n${zones.length} valid zone(s), ${errors.length} error(s), ${warnings.length} warning(s)`);
+}
+
+async function getSupabase() {
+  loadEnv();
+
+  const url = process.env.NEXT_PUBLIC_SUPABASE_URL;
+  const key = process.env.SUPABASE_SERVICE_ROLE_KEY;
+
+  if (!url || !key) {
+    console.error('❌ NEXT_PUBLIC_SUPABASE_URL and SUPABASE_SERVICE_ROLE_KEY are required (run npm run setup)');
+    process.exit(1);
+  }
+
+  const { createClient } = require('@supabase/supabase-js');
+  return createClient(url, key, { auth: { persistSession: false } });
+}
+
+// Same .env.local the app uses; real environment variables win
+function loadEnv() {
+  const envPath = path.join(__dirname, '..', '.env.local');
+  if (!fs.existsSync(envPath)) return;
+
+  fs.readFileSync(envPath, 'utf8').split(/\r?\n/).forEach(line => {
+    const match = line.match(/^\s*([A-Z0-9_]+)\s*=\s*(.*)\s*$/);
+    if (match && process.env[match[1]] === undefined) {
+      process.env[match[1]] = match[2].replace(/^["']|["']$/g, '');
+    }
+  });
+}
+
+main().catch(error => {
+  console.error('❌ Zone command failed:', error.message || error);
+  process.exit(1);
+});
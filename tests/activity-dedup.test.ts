@@ -0,0 +1,62 @@
+import {
+  fingerprintEvent,
+  mergeActivitySources,
+  normalizeTitle,
+  toActivitySource
+} from '../lib/services/activity-dedup';
+
+describe('Activity Deduplication', () => {
+  const now = new Date('2025-06-14T20:00:00Z');
+  const since = new Date(now.getTime() - 2 * 60 * 60 * 1000);
+  const minutesAgo = (minutes: number) => new Date(now.getTime() - minutes * 60000);
+
+  function story(description: string, source: string, timestamp = now, url?: string, weight?: number) {
+    return { location: 'Pershing Square', description, severity: 'high' as const, source, timestamp, url, weight };
+  }
+
+  test('normalizes titles and drops the outlet suffix', () => {
+    expect(normalizeTitle('Police KETTLE marchers at 5th & Hill - LA Daily News')).toBe('police kettle marchers at 5th hill');
+    expect(normalizeTitle('Tear gas fired | KTLA')).toBe('tear gas fired');
+  });
+
+  test('fingerprints a story by zone and title', () => {
+    const a = fingerprintEvent({ description: 'Police kettle marchers - LA Daily' }, 3);
+
+    expect(fingerprintEvent({ description: 'police kettle marchers' }, 3)).toBe(a);
+    expect(fingerprintEvent({ description: 'police kettle marchers' }, 4)).not.toBe(a);
+    expect(a).toMatch(/^[0-9a-f]{16}$/);
+  });
+
+  test('folds the same story from several sources into one entry', () => {
+    const merged = mergeActivitySources([], [
+      toActivitySource(story('Police kettle marchers', 'news', now, 'https://www.Example.org/a/?ref=x', 0.6), 3),
+      toActivitySource(story('Police kettle marchers - KTLA', 'relay', minutesAgo(20), undefined, 0.9), 3),
+      toActivitySource(story('Different headline, same link', 'rss', now, 'http://example.org/a'), 3),
+    ], since);
+
+    expect(merged).toEqual([expect.objectContaining({
+      via: ['news', 'relay', 'rss'],
+      url: 'example.org/a',
+      weight: 1,
+    })]);
+  });
+
+  test('keeps repeats outside the time window and drops stale entries', () => {
+    const existing = [
+      toActivitySource(story('Police kettle marchers', 'news', minutesAgo(100)), 3),
+      toActivitySource(story('Arrests near the library', 'news', minutesAgo(150)), 3),
+    ];
+
+    const merged = mergeActivitySources(existing, [toActivitySource(story('Police kettle marchers', 'news'), 3)], since);
+
+    expect(merged.map(entry => entry.seen_at)).toEqual([now.toISOString(), minutesAgo(100).toISOString()]);
+  });
+
+  test('merging an entry again changes nothing', () => {
+    const entry = toActivitySource(story('Police kettle marchers', 'news'), 3);
+    const once = mergeActivitySources([], [entry], since);
+
+    expect(mergeActivitySources(once, [entry], since)).toEqual(once);
+    expect(entry.via).toEqual(['news']);
+  });
+});
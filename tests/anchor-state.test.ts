@@ -0,0 +1,89 @@
+import {
+  claimAnchorAssignment,
+  getAnchorPhase,
+  getAnchorState,
+  updateAnchorState,
+} from '../lib/services/anchor-state';
+
+describe('Anchor State', () => {
+  const mockSupabase = {
+    from: jest.fn(),
+    rpc: jest.fn(),
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  test('derives phase from anchor size', () => {
+    expect(getAnchorPhase(120)).toBe('build');
+    expect(getAnchorPhase(500)).toBe('growth');
+    expect(getAnchorPhase(999)).toBe('growth');
+    expect(getAnchorPhase(1500)).toBe('sustain');
+  });
+
+  test('reads shared anchor from the database', async () => {
+    mockSupabase.from.mockReturnValue({
+      select: jest.fn().mockReturnValue({
+        eq: jest.fn().mockReturnValue({
+          maybeSingle: jest.fn().mockResolvedValue({
+            data: {
+              anchor_crew_id: 4,
+              anchor_zone_id: 2,
+              phase: 'growth',
+              assignment_count: 37,
+              last_checked_at: '2024-01-01T12:00:00Z',
+            },
+            error: null,
+          }),
+        }),
+      }),
+    });
+
+    const state = await getAnchorState(mockSupabase as any);
+
+    expect(mockSupabase.from).toHaveBeenCalledWith('anchor_state');
+    expect(state.anchorCrewId).toBe(4);
+    expect(state.anchorZoneId).toBe(2);
+    expect(state.phase).toBe('growth');
+    expect(state.assignmentCount).toBe(37);
+  });
+
+  test('claims the anchor check through a single atomic call', async () => {
+    mockSupabase.rpc.mockReturnValue({
+      single: jest.fn().mockResolvedValue({
+        data: {
+          anchor_crew_id: 1,
+          anchor_zone_id: 1,
+          phase: 'build',
+          assignment_count: 12,
+          last_checked_at: '2024-01-01T12:00:00Z',
+          should_check: true,
+        },
+        error: null,
+      }),
+    });
+
+    const claim = await claimAnchorAssignment(mockSupabase as any, 10 * 60 * 1000, 'nyc');
+
+    expect(mockSupabase.rpc).toHaveBeenCalledWith('claim_anchor_assignment', {
+      p_check_interval_seconds: 600,
+      p_city_id: 'nyc',
+    });
+    expect(claim.shouldCheck).toBe(true);
+    expect(claim.state.assignmentCount).toBe(12);
+  });
+
+  test('throws when the anchor update is rejected', async () => {
+    mockSupabase.rpc.mockReturnValue({
+      single: jest.fn().mockResolvedValue({
+        data: null,
+        error: { message: 'permission denied' },
+      }),
+    });
+
+    await expect(
+      updateAnchorState(mockSupabase as any, { anchorCrewId: 3, anchorZoneId: 5 })
+    ).rejects.toThrow('permission denied');
+  });
+});
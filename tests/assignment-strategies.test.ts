@@ -0,0 +1,48 @@
+import {
+  getStrategyForCity,
+  listAssignmentStrategies,
+} from '../lib/services/assignment-registry';
+import { CITIES } from '../lib/config/cities';
+import { createSupabaseFixture, downtownFixture } from './fixtures/supabase';
+
+describe('Assignment Strategies', () => {
+  const strategies = listAssignmentStrategies();
+  const context = {
+    preferredZoneId: '1',
+    userCoords: { lat: 34.0537, lng: -118.2427 }, // City Hall
+  };
+
+  test('registers every built-in strategy', () => {
+    expect(strategies.map(s => s.id).sort()).toEqual(['anchor-aware', 'anchor-funnel', 'balanced']);
+  });
+
+  describe.each(strategies.map(s => [s.id, s] as const))('%s', (_id, strategy) => {
+    test('returns the shared assignment shape', async () => {
+      const supabase = createSupabaseFixture(downtownFixture());
+
+      const assignment = await strategy.assign(supabase as any, context);
+
+      expect(assignment.crewId).toBeGreaterThanOrEqual(1);
+      expect(assignment.crewId).toBeLessThanOrEqual(20);
+      expect(assignment.crewName).toBe(`Crew ${assignment.crewId}`);
+      expect(typeof assignment.zoneId).toBe('string');
+      expect(assignment.zoneName).toEqual(expect.any(String));
+      expect(assignment.estimatedSize).toBeGreaterThanOrEqual(1);
+      expect(assignment.nextRotation).toBeInstanceOf(Date);
+      expect(assignment.nextRotation!.getTime()).toBeGreaterThan(Date.now());
+    });
+  });
+
+  test('uses the strategy configured for the city', () => {
+    expect(getStrategyForCity(CITIES.la).id).toBe('anchor-aware');
+    expect(getStrategyForCity({ ...CITIES.nyc, assignmentStrategy: 'balanced' }).id).toBe('balanced');
+  });
+
+  test('falls back to the default for unknown strategies', () => {
+    const warn = jest.spyOn(console, 'warn').mockImplementation(() => {});
+
+    expect(getStrategyForCity({ ...CITIES.la, assignmentStrategy: 'nope' }).id).toBe('anchor-aware');
+
+    warn.mockRestore();
+  });
+});
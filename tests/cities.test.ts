@@ -0,0 +1,39 @@
+import {
+  CITY_HEADER,
+  getCityFromUrl,
+  getRequestCity,
+  resolveRequestCity,
+} from '../lib/config/cities';
+
+describe('City Resolution', () => {
+  test('reads the city from a subdomain or the first path segment', () => {
+    expect(getCityFromUrl('https://nyc.overwhelm.city/')?.id).toBe('nyc');
+    expect(getCityFromUrl('https://overwhelm.city/CHI/debrief')?.id).toBe('chi');
+    expect(getCityFromUrl('/sf')?.id).toBe('sf');
+  });
+
+  test('returns null when the URL names no city', () => {
+    expect(getCityFromUrl('https://overwhelm.city/debrief')).toBeNull();
+    expect(getCityFromUrl('http://localhost:3000/api/zones')).toBeNull();
+  });
+
+  test('prefers ?city=, then the URL, then the referring page, then the cookie', () => {
+    expect(resolveRequestCity({ url: '/api/zones?city=dc', referer: 'https://overwhelm.city/nyc' }).id).toBe('dc');
+    expect(resolveRequestCity({ url: '/sea/debrief', cookie: 'nyc' }).id).toBe('sea');
+    expect(resolveRequestCity({ url: '/api/zones', referer: 'https://overwhelm.city/nyc', cookie: 'chi' }).id).toBe('nyc');
+    expect(resolveRequestCity({ url: '/api/zones', cookie: 'chi' }).id).toBe('chi');
+  });
+
+  test('falls back to the deployment city for unknown cities', () => {
+    expect(resolveRequestCity({ url: '/api/zones?city=gotham', cookie: 'nowhere' }).id).toBe('la');
+  });
+
+  test('API routes read the city set by middleware', () => {
+    const request = (headers: Record<string, string>) => ({
+      headers: { get: (name: string) => headers[name] ?? null },
+    }) as unknown as Request;
+
+    expect(getRequestCity(request({ [CITY_HEADER]: 'pdx' })).id).toBe('pdx');
+    expect(getRequestCity(request({})).id).toBe('la');
+  });
+});
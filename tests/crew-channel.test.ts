@@ -0,0 +1,192 @@
+import {
+  alertZoneCrews,
+  broadcastToCrews,
+  buildRotationMessages,
+  getCrewChannel,
+  getMemberCrewChannel,
+  notifyZoneChange,
+} from '../lib/services/crew-channel';
+import { createHmac } from 'crypto';
+import { hashSessionId } from '../lib/services/headcount';
+import { SmartRotationService } from '../lib/services/smart-rotation';
+import { createSupabaseFixture, downtownFixture } from './fixtures/supabase';
+
+describe('Crew Channels', () => {
+  // Downtown fixture plus a realtime client that records what it sends
+  function setup() {
+    const fixture = downtownFixture();
+    fixture.tables.zone_connections = [
+      { from_zone_id: 1, to_zone_id: 2, walk_time_minutes: 6.2, distance_meters: 519, route_type: 'direct' },
+      { from_zone_id: 2, to_zone_id: 1, walk_time_minutes: 6.2, distance_meters: 519, route_type: 'direct' },
+      { from_zone_id: 1, to_zone_id: 3, walk_time_minutes: 6.1, distance_meters: 505, route_type: 'direct' },
+      { from_zone_id: 3, to_zone_id: 1, walk_time_minutes: 6.1, distance_meters: 505, route_type: 'direct' },
+    ];
+    fixture.tables.police_activity = [];
+
+    const sent: Array<{ topic: string; message: any }> = [];
+    const supabase = {
+      ...createSupabaseFixture(fixture),
+      channel: jest.fn((topic: string) => ({
+        send: jest.fn(async ({ payload }: any) => {
+          sent.push({ topic, message: payload });
+          return 'ok';
+        }),
+      })),
+      removeChannel: jest.fn(),
+    };
+
+    return { supabase, sent };
+  }
+
+  const sessionId = 'a1b2c3d4e5f6a7b8c9d0';
+
+  beforeEach(() => {
+    process.env.CREW_CHANNEL_SECRET = 'test-secret';
+    process.env.SUPABASE_JWT_SECRET = 'test-jwt-secret';
+  });
+
+  afterEach(() => {
+    delete process.env.CREW_CHANNEL_SECRET;
+    delete process.env.SUPABASE_JWT_SECRET;
+  });
+
+  test('gives each crew its own signed topic', () => {
+    const topic = getCrewChannel(6, 'la');
+
+    expect(topic).toMatch(/^crew:la:6:[0-9a-f]{24}$/);
+    expect(getCrewChannel(6, 'la')).toBe(topic);
+    expect(getCrewChannel(7, 'la')).not.toBe(topic);
+    expect(getCrewChannel(6, 'nyc')).not.toBe(topic);
+
+    process.env.CREW_CHANNEL_SECRET = 'rotated-secret';
+    expect(getCrewChannel(6, 'la')).not.toBe(topic);
+  });
+
+  test('only hands a member the channel of a crew at the zone they joined in', async () => {
+    const { supabase } = setup();
+
+    await expect(getMemberCrewChannel(supabase as any, sessionId, 2, 2, 'la'))
+      .resolves.toEqual(expect.objectContaining({ topic: getCrewChannel(2, 'la') }));
+    await expect(getMemberCrewChannel(supabase as any, sessionId, 2, 1, 'la')).resolves.toBeNull();
+    await expect(getMemberCrewChannel(supabase as any, sessionId, 9, 1, 'la')).resolves.toBeNull();
+  });
+
+  test('binds the member token to their session and crew topic', async () => {
+    const { supabase } = setup();
+
+    const channel = await getMemberCrewChannel(supabase as any, sessionId, 2, 2, 'la');
+    const [header, claims, signature] = channel!.token.split('.');
+    const payload = JSON.parse(Buffer.from(claims, 'base64url').toString());
+
+    expect(payload).toEqual(expect.objectContaining({
+      role: 'anon',
+      session_hash: hashSessionId(sessionId),
+      crew_topic: channel!.topic,
+    }));
+    expect(payload.exp - payload.iat).toBe(360);
+    expect(new Date(channel!.expiresAt).getTime()).toBe(payload.exp * 1000);
+    expect(channel!.token).not.toContain(sessionId);
+    expect(signature).toBe(
+      createHmac('sha256', 'test-jwt-secret').update(`${header}.${claims}`).digest('base64url')
+    );
+  });
+
+  test('has no channels without a secret', async () => {
+    delete process.env.CREW_CHANNEL_SECRET;
+    const { supabase } = setup();
+
+    expect(getCrewChannel(6, 'la')).toBeNull();
+    await expect(getMemberCrewChannel(supabase as any, sessionId, 1, 1, 'la')).resolves.toBeNull();
+    await expect(notifyZoneChange(supabase as any, 1, false, 'la')).resolves.toBe(0);
+    expect(supabase.channel).not.toHaveBeenCalled();
+  });
+
+  test('builds rotation orders with zone names, holding crews without a walk', async () => {
+    const { supabase } = setup();
+
+    const messages = await buildRotationMessages(supabase as any, [
+      { crew_id: 1, from_zone_id: 1, to_zone_id: 1, estimated_size: 320, walk_time: 0, reason: 'anchor-holds', moved: false, score: null, candidates: [] },
+      { crew_id: 2, from_zone_id: 2, to_zone_id: 1, estimated_size: 90, walk_time: 6.2, reason: 'short-walk', moved: true, score: 1, candidates: [] },
+    ], '2024-06-01T18:30:00Z', 'la');
+
+    expect(messages).toEqual([
+      expect.objectContaining({ type: 'rotation', crewId: 1, zoneId: 1, walkTime: null, reason: 'anchor-holds' }),
+      {
+        type: 'rotation',
+        crewId: 2,
+        zoneId: 1,
+        zoneName: 'Spring St & 1st St (City Hall South Lawn)',
+        walkTime: 6.2,
+        reason: 'short-walk',
+        nextRotation: '2024-06-01T18:30:00Z',
+        issuedAt: expect.any(String),
+      },
+    ]);
+  });
+
+  test('sends each message only on its own crew\'s private channel', async () => {
+    const { supabase, sent } = setup();
+    const message = {
+      type: 'alert' as const, crewId: 2, zoneId: 2, zoneName: 'Grand Park',
+      severity: 'high' as const, reason: { code: 'police-activity' as const }, issuedAt: '2024-06-01T18:00:00Z',
+    };
+
+    await expect(broadcastToCrews(supabase as any, [message], 'la')).resolves.toBe(1);
+
+    expect(supabase.channel).toHaveBeenCalledWith(getCrewChannel(2, 'la'), { config: { private: true } });
+    expect(sent).toEqual([{ topic: getCrewChannel(2, 'la'), message }]);
+    expect(supabase.removeChannel).toHaveBeenCalledTimes(1);
+  });
+
+  test('counts messages that fail to send', async () => {
+    const { supabase } = setup();
+    supabase.channel.mockImplementationOnce(() => ({ send: jest.fn().mockResolvedValue('error') }) as any);
+    const base = { zoneId: 1, zoneName: 'City Hall', issuedAt: '2024-06-01T18:00:00Z', type: 'zone-change' as const, active: false };
+
+    await expect(broadcastToCrews(supabase as any, [
+      { ...base, crewId: 1 },
+      { ...base, crewId: 2 },
+    ], 'la')).resolves.toBe(1);
+    expect(supabase.removeChannel).toHaveBeenCalledTimes(2);
+  });
+
+  test('tells only the crews in a closed zone', async () => {
+    const { supabase, sent } = setup();
+
+    await expect(notifyZoneChange(supabase as any, 3, false, 'la')).resolves.toBe(1);
+
+    expect(sent).toEqual([{
+      topic: getCrewChannel(3, 'la'),
+      message: expect.objectContaining({ type: 'zone-change', crewId: 3, zoneName: 'S San Pedro St & E 2nd St (Little Tokyo)', active: false }),
+    }]);
+  });
+
+  test('alerts the crews standing in each zone', async () => {
+    const { supabase, sent } = setup();
+
+    await alertZoneCrews(supabase as any, [
+      { zoneId: 1, severity: 'critical', reason: { code: 'report', category: 'crowd_crush', reporters: 3 } },
+      { zoneId: 2, severity: 'high', reason: { code: 'police-activity' } },
+    ], 'la');
+
+    expect(sent.map(s => s.message)).toEqual([
+      expect.objectContaining({ type: 'alert', crewId: 1, severity: 'critical', reason: { code: 'report', category: 'crowd_crush', reporters: 3 } }),
+      expect.objectContaining({ type: 'alert', crewId: 2, severity: 'high', reason: { code: 'police-activity' } }),
+    ]);
+  });
+
+  test('a rotation pushes every crew its new assignment', async () => {
+    const { supabase, sent } = setup();
+
+    const result = await new SmartRotationService(supabase as any, 'la').rotate();
+
+    expect(result.success).toBe(true);
+    expect(sent.map(s => s.message.crewId).sort()).toEqual([1, 2, 3]);
+    result.moves.forEach(move => {
+      expect(sent.find(s => s.message.crewId === move.crew_id)).toEqual({
+        topic: getCrewChannel(move.crew_id, 'la'),
+        message: expect.objectContaining({ type: 'rotation', zoneId: move.to_zone_id, walkTime: move.walk_time }),
+      });
+    });
+  });
+});
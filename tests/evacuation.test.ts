@@ -0,0 +1,52 @@
+import {
+  broadcastEvacuation,
+  buildEvacuationOrders,
+  getCompassDirection,
+} from '../lib/services/evacuation';
+import { createSupabaseFixture, downtownFixture } from './fixtures/supabase';
+
+describe('Evacuation Orders', () => {
+  test('gives the compass direction of travel', () => {
+    // City Hall → Grand Park is up and to the left on the map
+    expect(getCompassDirection(34.0537, -118.2427, 34.0569, -118.2468)).toBe('northwest');
+    expect(getCompassDirection(34.05, -118.24, 34.04, -118.24)).toBe('south');
+    expect(getCompassDirection(34.05, -118.24, 34.05, -118.23)).toBe('east');
+  });
+
+  test('builds one order per moved crew with zone names', async () => {
+    const supabase = createSupabaseFixture(downtownFixture());
+
+    const orders = await buildEvacuationOrders(supabase as any, [
+      { crew_id: 2, from_zone_id: 1, to_zone_id: 2, walk_time: 6.2, reason: 'leaving-police' },
+    ], 'la');
+
+    expect(orders).toEqual([{
+      crewId: 2,
+      fromZoneId: 1,
+      fromZoneName: 'Spring St & 1st St (City Hall South Lawn)',
+      toZoneId: 2,
+      toZoneName: 'S Grand Ave & W 1st St (Grand Park)',
+      walkTime: 6.2,
+      direction: 'northwest',
+      issuedAt: expect.any(String),
+    }]);
+  });
+
+  test('broadcasts orders on the city channel and releases it', async () => {
+    const channel = { send: jest.fn().mockResolvedValue('ok') };
+    const supabase = {
+      channel: jest.fn(() => channel),
+      removeChannel: jest.fn(),
+    };
+    const order = {
+      crewId: 2, fromZoneId: 1, fromZoneName: 'A', toZoneId: 2, toZoneName: 'B',
+      walkTime: 5, direction: 'north', issuedAt: '2024-06-01T18:00:00Z',
+    };
+
+    await expect(broadcastEvacuation(supabase as any, [order], 'nyc')).resolves.toBe(true);
+
+    expect(supabase.channel).toHaveBeenCalledWith('evacuation:nyc', { config: { private: true } });
+    expect(channel.send).toHaveBeenCalledWith({ type: 'broadcast', event: 'evacuate', payload: { orders: [order] } });
+    expect(supabase.removeChannel).toHaveBeenCalledWith(channel);
+  });
+});
@@ -0,0 +1,135 @@
+/**
+ * In-memory Supabase stand-in for strategy fixtures
+ * Supports the query builder calls used by lib/services
+ */
+
+type Row = Record<string, any>;
+
+export interface SupabaseFixture {
+  tables: Record<string, Row[]>;
+  rpc?: Record<string, (args: any) => any>;
+}
+
+function query(rows: Row[], onResolve?: (matched: Row[]) => void) {
+  let result = [...rows];
+
+  const filter = (column: string, test: (value: any) => boolean) => {
+    // Ignore filters on joined columns (e.g. 'zones.type')
+    result = result.filter(row => !(column in row) || test(row[column]));
+    return builder;
+  };
+
+  const builder: any = {
+    select: () => builder,
+    order: () => builder,
+    eq: (column: string, value: any) => filter(column, v => String(v) === String(value)),
+    neq: (column: string, value: any) => filter(column, v => String(v) !== String(value)),
+    gt: (column: string, value: any) => filter(column, v => v > value),
+    gte: (column: string, value: any) => filter(column, v => v >= value),
+    lt: (column: string, value: any) => filter(column, v => v < value),
+    lte: (column: string, value: any) => filter(column, v => v <= value),
+    in: (column: string, values: any[]) =>
+      filter(column, v => values.map(String).includes(String(v))),
+    overlaps: (column: string, values: any[]) =>
+      filter(column, v => Array.isArray(v) && v.some(item => values.includes(item))),
+    limit: (count: number) => {
+      result = result.slice(0, count);
+      return builder;
+    },
+    single: () => Promise.resolve({ data: result[0] ?? null, error: null }),
+    maybeSingle: () => Promise.resolve({ data: result[0] ?? null, error: null }),
+    then: (resolve: any, reject: any) => {
+      onResolve?.(result);
+      return Promise.resolve({ data: result, error: null }).then(resolve, reject);
+    },
+  };
+
+  return builder;
+}
+
+export function createSupabaseFixture(fixture: SupabaseFixture) {
+  return {
+    from: jest.fn((table: string) => ({
+      ...query(fixture.tables[table] || []),
+      // Inserted rows are visible to later queries
+      insert: (rows: Row | Row[]) => {
+        fixture.tables[table] = (fixture.tables[table] || []).concat(rows);
+        return query([]);
+      },
+      // Updates apply to the rows the chained filters match
+      update: (values: Row) =>
+        query(fixture.tables[table] || [], matched => matched.forEach(row => Object.assign(row, values))),
+      // Upserts replace rows with the same conflict columns, or append
+      upsert: (input: Row | Row[], options: { onConflict: string }) => {
+        const keys = options.onConflict.split(',');
+        const incoming = ([] as Row[]).concat(input);
+        const rows = (fixture.tables[table] || []).filter(existing =>
+          !incoming.some(row => keys.every(key => existing[key] === row[key]))
+        );
+        fixture.tables[table] = rows.concat(incoming);
+        return query([]);
+      },
+      delete: () =>
+        query(fixture.tables[table] || [], matched => {
+          fixture.tables[table] = fixture.tables[table].filter(row => !matched.includes(row));
+        }),
+    })),
+    rpc: jest.fn((name: string, args: any) => {
+      const handler = fixture.rpc?.[name];
+      const data = handler ? handler(args) : null;
+      return query(Array.isArray(data) ? data : data ? [data] : []);
+    }),
+  };
+}
+
+/**
+ * Downtown LA event with an anchor at City Hall and two support crews
+ */
+export function downtownFixture(): SupabaseFixture {
+  const zones = [
+    { id: 1, name: 'Spring St & 1st St (City Hall South Lawn)', type: 'primary', center_lat: 34.0537, center_lng: -118.2427, active: true },
+    { id: 2, name: 'S Grand Ave & W 1st St (Grand Park)', type: 'primary', center_lat: 34.0569, center_lng: -118.2468, active: true },
+    { id: 3, name: 'S San Pedro St & E 2nd St (Little Tokyo)', type: 'secondary', center_lat: 34.0498, center_lng: -118.2399, active: true },
+  ];
+
+  const crews = [
+    { crew_id: 1, zone_id: 1, estimated_size: 320, zone: zones[0] },
+    { crew_id: 2, zone_id: 2, estimated_size: 90, zone: zones[1] },
+    { crew_id: 3, zone_id: 3, estimated_size: 60, zone: zones[2] },
+  ];
+
+  const anchor = {
+    anchor_crew_id: 1,
+    anchor_zone_id: 1,
+    phase: 'build',
+    assignment_count: 10,
+    last_checked_at: new Date().toISOString(),
+  };
+
+  return {
+    tables: {
+      zones,
+      current_crews: crews,
+      anchor_state: [anchor],
+      zone_connections: [
+        { from_zone_id: 1, to_zone_id: 2, walk_time_minutes: 4 },
+        { from_zone_id: 1, to_zone_id: 3, walk_time_minutes: 5 },
+      ],
+    },
+    rpc: {
+      get_crew_stats: () => ({
+        active_crews: crews.length,
+        total_protesters: crews.reduce((sum, c) => sum + c.estimated_size, 0),
+        zones_occupied: zones.length,
+        next_rotation: new Date(Date.now() + 30 * 60 * 1000).toISOString(),
+      }),
+      claim_anchor_assignment: () => ({ ...anchor, should_check: false }),
+      set_anchor_state: (args: any) => ({
+        ...anchor,
+        anchor_crew_id: args.p_crew_id,
+        anchor_zone_id: args.p_zone_id,
+        phase: args.p_phase || anchor.phase,
+      }),
+    },
+  };
+}
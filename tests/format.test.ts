@@ -0,0 +1,62 @@
+import {
+  FormatContext,
+  estimateWalkingTime,
+  formatClockTime,
+  formatCountdown,
+  formatDistance,
+  formatMinutes,
+  formatNumber,
+  formatTimeUntil,
+  formatWalkingTime,
+  getFormatContext,
+} from '../lib/i18n/format';
+import { CITIES } from '../lib/config/cities';
+
+describe('Formatting', () => {
+  const us: FormatContext = { locale: 'en', units: 'imperial', timezone: 'America/Los_Angeles' };
+  const metric = (locale: FormatContext['locale']): FormatContext => ({ ...us, locale, units: 'metric' });
+  const now = new Date('2025-06-14T02:00:00Z');
+
+  test('a city\'s units win over the phone\'s region', () => {
+    expect(getFormatContext({ ...CITIES.sea, units: 'metric' }, 'zh')).toEqual({
+      locale: 'zh',
+      units: 'metric',
+      timezone: 'America/Los_Angeles',
+    });
+  });
+
+  test('formats distances in miles and feet or km and meters', () => {
+    expect(formatDistance(0.05, us)).toBe('164 feet');
+    expect(formatDistance(2, us)).toBe('1.2 miles');
+    expect(formatDistance(64, us)).toBe('40 miles');
+    expect(formatDistance(0.45, metric('es'))).toBe('450 m');
+    expect(formatDistance(2, metric('ko'))).toBe('2.0km');
+    expect(formatDistance(64, metric('zh'))).toBe('64 公里');
+  });
+
+  test('formats walks and durations', () => {
+    expect(formatWalkingTime(6.2, us)).toBe('6 min walk');
+    expect(formatWalkingTime(75, metric('es'))).toBe('1 h 15 min a pie');
+    expect(estimateWalkingTime(1, metric('ko'))).toBe('도보 12분');
+    expect(formatMinutes(25.9, us)).toBe('25 min');
+    expect(formatMinutes(70, us)).toBe('1h 10min');
+  });
+
+  test('counts down to the next rotation', () => {
+    expect(formatCountdown('2025-06-14T02:12:05Z', now)).toBe('12:05');
+    expect(formatCountdown('2025-06-14T03:02:09Z', now)).toBe('1:02:09');
+    expect(formatCountdown('2025-06-14T02:00:00Z', now)).toBeNull();
+  });
+
+  test('says how long until a time', () => {
+    expect(formatTimeUntil('2025-06-14T02:25:30Z', us, now)).toBe('25 min');
+    expect(formatTimeUntil('2025-06-14T02:00:30Z', metric('es'), now)).toBe('ahora');
+    expect(formatTimeUntil('2025-06-14T01:50:00Z', us, now)).toBe('now');
+  });
+
+  test('shows clock times on the city\'s clock', () => {
+    expect(formatClockTime('2025-06-14T02:45:00Z', us)).toMatch(/^7:45\sPM$/);
+    expect(formatClockTime('2025-06-14T02:45:00Z', { ...us, locale: 'es', timezone: 'America/New_York' })).toBe('22:45');
+    expect(formatNumber(12500, metric('es'))).toMatch(/^12.500$/);
+  });
+});
@@ -0,0 +1,70 @@
+import {
+  buildGazetteer,
+  extractPlaces,
+  findZoneAt,
+  locateEvent,
+  normalizePlaceName,
+  resolveLocation
+} from '../lib/services/gazetteer';
+import { extractLocation } from '../lib/services/scraper';
+
+describe('Gazetteer', () => {
+  const square = [[-118.252, 34.047], [-118.249, 34.047], [-118.249, 34.050], [-118.252, 34.050], [-118.252, 34.047]] as [number, number][];
+  const zones = [
+    { id: 1, name: 'Spring St & 1st St (City Hall South Lawn)', center_lat: 34.0537, center_lng: -118.2427 },
+    { id: 3, name: 'S Hill St & W 5th St (Pershing Square)', center_lat: '34.0485', center_lng: '-118.2505', geometry: { type: 'Polygon' as const, coordinates: [square] } },
+    {
+      id: 4,
+      name: 'Grand Park',
+      center_lat: 34.0569,
+      center_lng: -118.2468,
+      radius_meters: 300,
+      aliases: ['Civic Center Mall'],
+      intersections: [{ streets: ['Grand Ave', 'Temple St'] as [string, string], lat: 34.0575, lng: -118.2470 }],
+    },
+  ];
+  const gazetteer = buildGazetteer(zones);
+
+  test('normalizes street types, ordinals and connectors', () => {
+    expect(normalizePlaceName('S. Hill Street and Fifth')).toBe('s hill st & 5th');
+    expect(normalizePlaceName('Spring/1st Avenue')).toBe('spring & 1st ave');
+    expect(normalizePlaceName('Plaza Café @ Main')).toBe('plaza cafe & main');
+  });
+
+  test('finds zone names, parenthetical aliases and listed aliases', () => {
+    expect(resolveLocation('Crowd gathering at Pershing Square', gazetteer)).toMatchObject({ kind: 'alias', name: 'Pershing Square' });
+    expect(resolveLocation('Officers lining the civic center mall', gazetteer)).toMatchObject({ kind: 'alias', lat: 34.0569 });
+    expect(resolveLocation('Grand Park is quiet', gazetteer)).toMatchObject({ kind: 'zone', name: 'Grand Park' });
+    expect(resolveLocation('Nothing in Silver Lake', gazetteer)).toBeNull();
+  });
+
+  test('matches intersections in either order and spelling', () => {
+    expect(resolveLocation('Police line at 5th and Hill', gazetteer)).toMatchObject({ kind: 'intersection', name: 'S Hill St & W 5th St' });
+    expect(resolveLocation('Kettle at First Street & Spring Street', gazetteer)).toMatchObject({ kind: 'intersection', name: 'Spring St & 1st St' });
+    expect(resolveLocation('Arrests at Temple St and Grand Avenue', gazetteer)).toMatchObject({ lat: 34.0575, lng: -118.2470 });
+  });
+
+  test('puts the most specific place first', () => {
+    const places = extractPlaces('Officers moved from Grand Park toward Hill St & 5th St near Pershing Square', gazetteer);
+
+    expect(places.map(place => place.kind)).toEqual(['intersection', 'alias', 'zone']);
+  });
+
+  test('maps coordinates to zones by boundary, then by radius', () => {
+    expect(findZoneAt(zones, 34.0480, -118.2510)?.id).toBe(3);
+    expect(findZoneAt(zones, 34.0540, -118.2430)?.id).toBe(1);
+    expect(findZoneAt(zones, 34.0600, -118.2468)).toBeNull();
+  });
+
+  test('locates an event from its location, then its description', () => {
+    expect(locateEvent({ location: 'Hill and 5th', description: 'Police line' }, gazetteer)).toBe(3);
+    expect(locateEvent({ location: 'Unknown', description: 'Tear gas near City Hall South Lawn' }, gazetteer)).toBe(1);
+    expect(locateEvent({ location: 'Unknown', description: 'Police somewhere' }, gazetteer)).toBeNull();
+  });
+
+  test('extracts place phrases without a city-specific list', () => {
+    expect(extractLocation('Officers gathered near Hill St and 5th. More later', 'Los Angeles')).toBe('Hill St and 5th');
+    expect(extractLocation('Arrests in Los Angeles at Union Square tonight', 'Los Angeles')).toBe('Union Square');
+    expect(extractLocation('police arrest protesters downtown', 'Los Angeles')).toBe('Unknown');
+  });
+});
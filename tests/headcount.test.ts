@@ -0,0 +1,85 @@
+import {
+  MAX_CREW_SIZE,
+  recordHeartbeat,
+  recordJoin,
+  validatePresenceRequest,
+} from '../lib/services/headcount';
+import { ANCHOR_SIZE_TARGET } from '../lib/services/anchor-state';
+
+describe('Crew Headcount', () => {
+  const sessionId = 'a1b2c3d4e5f60718293a4b5c6d7e8f90';
+  const mockSupabase = {
+    rpc: jest.fn(),
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  test('rejects malformed presence requests', () => {
+    expect(validatePresenceRequest(null)).toBe('Invalid session id');
+    expect(validatePresenceRequest({ sessionId: 'short', crewId: 1, zoneId: 1 })).toBe('Invalid session id');
+    expect(validatePresenceRequest({ sessionId, crewId: 51, zoneId: 1 })).toBe('Invalid crew id');
+    expect(validatePresenceRequest({ sessionId, crewId: 3, zoneId: 'x' })).toBe('Invalid zone id');
+    expect(validatePresenceRequest({ sessionId, crewId: 3, zoneId: '2' })).toBeNull();
+    expect(validatePresenceRequest({ sessionId, crewId: 3, zoneId: 2, mobility: ['stairs'] })).toBe('Unknown mobility need');
+    expect(validatePresenceRequest({ sessionId, crewId: 3, zoneId: 2, mobility: ['wheelchair'] })).toBeNull();
+    expect(validatePresenceRequest({ sessionId }, false)).toBeNull();
+  });
+
+  test('never sends the raw session id to the database', async () => {
+    mockSupabase.rpc.mockResolvedValue({ data: 42, error: null });
+
+    const size = await recordJoin(mockSupabase as any, { sessionId, crewId: 3, zoneId: 2 });
+
+    expect(size).toBe(42);
+    const [name, args] = mockSupabase.rpc.mock.calls[0];
+    expect(name).toBe('join_crew');
+    expect(args.p_session_hash).toMatch(/^[0-9a-f]{64}$/);
+    expect(args.p_session_hash).not.toContain(sessionId);
+  });
+
+  test('heartbeat passes the decay window to the database', async () => {
+    mockSupabase.rpc.mockResolvedValue({ data: 17, error: null });
+
+    await recordHeartbeat(mockSupabase as any, { sessionId, crewId: 3, zoneId: 2 });
+
+    expect(mockSupabase.rpc).toHaveBeenCalledWith('crew_heartbeat', expect.objectContaining({
+      p_crew_id: 3,
+      p_zone_id: 2,
+      p_ttl_seconds: 360,
+    }));
+  });
+
+  test('lets crews grow past the anchor target before turning members away', async () => {
+    expect(MAX_CREW_SIZE).toBeGreaterThan(ANCHOR_SIZE_TARGET);
+
+    mockSupabase.rpc.mockResolvedValue({ data: null, error: null });
+
+    const size = await recordJoin(mockSupabase as any, { sessionId, crewId: 3, zoneId: 2 });
+
+    expect(size).toBeNull();
+    expect(mockSupabase.rpc).toHaveBeenCalledWith('join_crew', expect.objectContaining({
+      p_max_size: MAX_CREW_SIZE,
+    }));
+  });
+
+  test('a lapsed member of a full crew is not re-counted', async () => {
+    mockSupabase.rpc.mockResolvedValue({ data: null, error: null });
+
+    const size = await recordHeartbeat(mockSupabase as any, { sessionId, crewId: 3, zoneId: 2 });
+
+    expect(size).toBeNull();
+    expect(mockSupabase.rpc).toHaveBeenCalledWith('crew_heartbeat', expect.objectContaining({
+      p_max_size: MAX_CREW_SIZE,
+    }));
+  });
+
+  test('surfaces database errors', async () => {
+    mockSupabase.rpc.mockResolvedValue({ data: null, error: new Error('db down') });
+
+    await expect(
+      recordJoin(mockSupabase as any, { sessionId, crewId: 3, zoneId: 2 })
+    ).rejects.toThrow('db down');
+  });
+});
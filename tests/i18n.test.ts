@@ -0,0 +1,69 @@
+import {
+  LOCALES,
+  Locale,
+  detectLocale,
+  getCityLocales,
+  getDistanceUnits,
+  translate,
+} from '../lib/i18n/locale';
+import { en } from '../lib/i18n/en';
+import { CITIES } from '../lib/config/cities';
+import { ROTATION_REASONS, describeRotationReason } from '../lib/config/rotation-reasons';
+import { describeZoneAlert } from '../lib/services/crew-messages';
+
+describe('Locales', () => {
+  test('fills in placeholders and falls back to English', () => {
+    expect(translate('es', 'crew.participants', { count: 12 })).toBe('12 participantes');
+    expect(translate('en', 'geofence.outsideCity', { distance: '40 miles', city: 'Los Angeles' }))
+      .toBe("You're 40 miles from Los Angeles. This tool is for on-the-ground protesters only.");
+    expect(translate('fr' as Locale, 'crew.join')).toBe('Join a crew');
+    expect(translate('en', 'common.zone')).toBe('ZONE {letter}');
+  });
+
+  test('every catalog has the same keys and placeholders as English', () => {
+    const placeholders = (message: string) => (message.match(/\{\w+\}/g) || []).sort();
+
+    Object.entries(LOCALES).forEach(([, { messages }]) => {
+      expect(Object.keys(messages).sort()).toEqual(Object.keys(en).sort());
+      (Object.keys(en) as Array<keyof typeof en>).forEach(key => {
+        expect([key, placeholders(messages[key])]).toEqual([key, placeholders(en[key])]);
+      });
+    });
+  });
+
+  test('detects the first supported browser language, then the city default', () => {
+    expect(detectLocale(['fr-FR', 'zh-TW', 'en-US'])).toBe('zh');
+    expect(detectLocale(['es-419'])).toBe('es');
+    expect(detectLocale(['fr-FR'], { languages: ['es', 'en'] })).toBe('es');
+    expect(detectLocale([], {})).toBe('en');
+  });
+
+  test('offers the city\'s languages first', () => {
+    expect(getCityLocales(CITIES.sf)).toEqual(['en', 'zh', 'es', 'ko']);
+    expect(getCityLocales({})).toEqual(['en', 'es', 'zh', 'ko']);
+  });
+
+  test('words rotation reasons and alerts from their codes', () => {
+    const es = (key: any, params?: Record<string, string | number>) => translate('es', key, params);
+
+    expect(ROTATION_REASONS.every(code => `reason.${code}` in en)).toBe(true);
+    expect(describeRotationReason('leaving-police,short-walk', es)).toBe('saliendo de la actividad policial, caminata corta');
+    expect(describeRotationReason('evacuation', (key, params) => translate('zh', key, params))).toBe('撤离');
+    expect(describeRotationReason('short walk', es)).toBeNull();
+    expect(describeRotationReason(null, es)).toBeNull();
+
+    expect(describeZoneAlert({ code: 'report', category: 'crowd_crush', reporters: 3 }, es))
+      .toBe('Riesgo de aplastamiento: reportado por 3 personas');
+    expect(describeZoneAlert({ code: 'police-activity' }, (key, params) => translate('en', key, params)))
+      .toBe('Police activity reported in your zone');
+  });
+
+  test('picks distance units from the region', () => {
+    expect(getDistanceUnits('en-US')).toBe('imperial');
+    expect(getDistanceUnits('es-US')).toBe('imperial');
+    expect(getDistanceUnits('en-GB')).toBe('metric');
+    expect(getDistanceUnits('zh-Hant-TW')).toBe('metric');
+    expect(getDistanceUnits('ko')).toBe('metric');
+    expect(getDistanceUnits('en')).toBe('imperial');
+  });
+});
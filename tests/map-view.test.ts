@@ -0,0 +1,66 @@
+import { CITIES } from '../lib/config/cities';
+import {
+  DEFAULT_TILE_URL,
+  getMapBounds,
+  getMapTiles,
+  getTileRange,
+  getZoneShape,
+} from '../lib/services/map-view';
+
+describe('Map View', () => {
+  const square = {
+    type: 'Polygon',
+    coordinates: [[[-118.245, 34.05], [-118.24, 34.05], [-118.24, 34.055], [-118.245, 34.055], [-118.245, 34.05]]],
+  };
+
+  afterEach(() => {
+    delete process.env.NEXT_PUBLIC_MAP_TILE_URL;
+  });
+
+  test('serves tiles from this server unless a tile server is configured', () => {
+    expect(getMapTiles().url).toBe(DEFAULT_TILE_URL);
+
+    process.env.NEXT_PUBLIC_MAP_TILE_URL = 'https://tiles.example.org/{z}/{x}/{y}.png';
+    expect(getMapTiles().url).toBe('https://tiles.example.org/{z}/{x}/{y}.png');
+  });
+
+  test('draws boundaries in lat/lng order and falls back to a circle', () => {
+    const zone = { id: 1, name: 'City Hall', center_lat: 34.0525, center_lng: -118.2425 };
+
+    expect(getZoneShape({ ...zone, geometry: square })).toEqual({
+      kind: 'polygon',
+      rings: [[[[34.05, -118.245], [34.05, -118.24], [34.055, -118.24], [34.055, -118.245], [34.05, -118.245]]]],
+    });
+    expect(getZoneShape({ ...zone, radius_meters: 300 })).toEqual({ kind: 'circle', center: [34.0525, -118.2425], radiusMeters: 300 });
+    expect(getZoneShape({ ...zone, geometry: { type: 'Point', coordinates: [0, 0] } })).toMatchObject({ kind: 'circle', radiusMeters: 500 });
+  });
+
+  test('fits every zone of the city, whatever city it is', () => {
+    const [[south, west], [north, east]] = getMapBounds([
+      { id: 1, name: 'Square', center_lat: 34.0525, center_lng: -118.2425, geometry: square },
+      { id: 2, name: 'Circle', center_lat: 34.06, center_lng: -118.23, radius_meters: 111 },
+    ], CITIES.la);
+
+    expect(south).toBeCloseTo(34.05, 6);
+    expect(west).toBeCloseTo(-118.245, 6);
+    expect(north).toBeCloseTo(34.061, 6);
+    expect(east).toBeGreaterThan(-118.23);
+    expect(east).toBeLessThan(-118.228);
+  });
+
+  test('falls back to the walking radius around the city center', () => {
+    const [[south, west], [north, east]] = getMapBounds([], CITIES.nyc);
+
+    expect((south + north) / 2).toBeCloseTo(CITIES.nyc.center.lat, 6);
+    expect((west + east) / 2).toBeCloseTo(CITIES.nyc.center.lng, 6);
+    expect(north - south).toBeCloseTo((2 * CITIES.nyc.walkingRadiusKm) / 111, 3);
+  });
+
+  test('lists the tiles covering the bounds', () => {
+    // Rows count down from the north; this block straddles a row boundary at zoom 14
+    expect(getTileRange([[34.05, -118.245], [34.055, -118.24]], 14)).toEqual({
+      minX: 2810, maxX: 2810, minY: 6541, maxY: 6542,
+    });
+    expect(getTileRange([[-85, -180], [85, 179.9]], 1)).toEqual({ minX: 0, maxX: 1, minY: 0, maxY: 1 });
+  });
+});
@@ -0,0 +1,132 @@
+import {
+  assignAccessibleCrew,
+  getCrewMobility,
+  getMobilityConstraints,
+  isConnectionAccessible,
+  parseMobilityNeeds,
+} from '../lib/services/mobility';
+import { SmartRotationService } from '../lib/services/smart-rotation';
+import { createSupabaseFixture, downtownFixture } from './fixtures/supabase';
+
+describe('Mobility-aware assignment', () => {
+  const downtown = { lat: 34.0537, lng: -118.2427 };
+
+  // Little Tokyo is the only step-free zone unless a test says otherwise
+  function setup(stepFreeZoneIds: number[] = [3], presence: any[] = []) {
+    const fixture = downtownFixture();
+    fixture.tables.zones.forEach(zone => {
+      zone.step_free = stepFreeZoneIds.includes(zone.id);
+    });
+    fixture.tables.crew_presence = presence;
+    return { fixture, supabase: createSupabaseFixture(fixture) };
+  }
+
+  test('reads needs from query strings and bodies', () => {
+    expect(parseMobilityNeeds('wheelchair,seating-shade')).toEqual(['wheelchair', 'seating-shade']);
+    expect(parseMobilityNeeds(['limited-walking', 'limited-walking'])).toEqual(['limited-walking']);
+    expect(parseMobilityNeeds(null)).toEqual([]);
+    expect(parseMobilityNeeds('')).toEqual([]);
+    expect(parseMobilityNeeds('wheelchair,jetpack')).toBeNull();
+    expect(parseMobilityNeeds({ wheelchair: true })).toBeNull();
+  });
+
+  test('combines needs into the strictest constraints', () => {
+    expect(getMobilityConstraints([])).toBeNull();
+    expect(getMobilityConstraints(['seating-shade', 'limited-walking'])).toEqual({
+      stepFree: true,
+      restArea: true,
+      maxWalkMinutes: 4,
+    });
+
+    const wheelchair = getMobilityConstraints(['wheelchair'])!;
+    expect(isConnectionAccessible({ walk_time_minutes: '5.5', step_free: true }, wheelchair)).toBe(true);
+    expect(isConnectionAccessible({ walk_time_minutes: 5.5, step_free: false }, wheelchair)).toBe(false);
+    expect(isConnectionAccessible({ walk_time_minutes: 8, step_free: true }, wheelchair)).toBe(false);
+  });
+
+  test('groups members\' needs by crew', () => {
+    const crews = getCrewMobility([
+      { crew_id: 2, mobility: ['seating-shade'] },
+      { crew_id: 2, mobility: ['wheelchair'] },
+      { crew_id: 3, mobility: [] },
+    ]);
+
+    expect(crews.get(2)).toEqual({ stepFree: true, restArea: true, maxWalkMinutes: 6 });
+    expect(crews.has(3)).toBe(false);
+  });
+
+  test('joins a crew at the nearest accessible zone', async () => {
+    const { supabase } = setup([3]);
+
+    const assignment = await assignAccessibleCrew(supabase as any, ['wheelchair'], {
+      preferredZoneId: '1',
+      userCoords: downtown,
+      cityId: 'la',
+    });
+
+    expect(assignment).toMatchObject({ crewId: 3, zoneId: '3', estimatedSize: 61 });
+  });
+
+  test('starts a new crew rather than joining the anchor', async () => {
+    const { supabase } = setup([1]);
+
+    const assignment = await assignAccessibleCrew(supabase as any, ['limited-walking'], {
+      preferredZoneId: '1',
+      userCoords: downtown,
+      cityId: 'la',
+    });
+
+    expect(assignment).toMatchObject({ crewId: 4, zoneId: '1', estimatedSize: 1 });
+  });
+
+  test('returns null when no zone is accessible', async () => {
+    const { supabase } = setup([]);
+
+    await expect(
+      assignAccessibleCrew(supabase as any, ['wheelchair'], { userCoords: downtown, cityId: 'la' })
+    ).resolves.toBeNull();
+  });
+
+  describe('rotations', () => {
+    const connections = [
+      { from_zone_id: 2, to_zone_id: 1, walk_time_minutes: 6.2, distance_meters: 519, route_type: 'direct', step_free: false },
+      { from_zone_id: 2, to_zone_id: 3, walk_time_minutes: 5.5, distance_meters: 460, route_type: 'street', step_free: true },
+    ];
+
+    function rotationSetup(stepFreeZoneIds: number[], policeActivity: any[] = []) {
+      const { fixture, supabase } = setup(stepFreeZoneIds, [
+        { session_hash: 'a', city_id: 'la', crew_id: 2, mobility: ['wheelchair'] },
+      ]);
+      fixture.tables.zone_connections = connections;
+      fixture.tables.police_activity = policeActivity;
+      return supabase;
+    }
+
+    test('keep crews with mobility needs on step-free walks', async () => {
+      const preview = await new SmartRotationService(rotationSetup([1, 3]) as any)
+        .previewRotation({ random: () => 0.99 });
+
+      expect(preview.crews.find(c => c.crew_id === 2)).toMatchObject({ moved: true, to_zone_id: 3 });
+    });
+
+    test('hold when no accessible zone is in reach', async () => {
+      const preview = await new SmartRotationService(rotationSetup([1]) as any)
+        .previewRotation({ random: () => 0.99 });
+
+      expect(preview.crews.find(c => c.crew_id === 2)).toMatchObject({
+        moved: false,
+        reason: 'no-accessible-zone',
+      });
+    });
+
+    test('still leave police activity without an accessible route', async () => {
+      const preview = await new SmartRotationService(rotationSetup([], [
+        { zone_id: 2, severity: 'critical', source: 'organizer', confidence: 1, reported_at: new Date().toISOString() },
+      ]) as any).previewRotation();
+
+      const crew = preview.crews.find(c => c.crew_id === 2)!;
+      expect(crew.moved).toBe(true);
+      expect(crew.reason).toContain('no-accessible-route');
+    });
+  });
+});
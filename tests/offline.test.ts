@@ -0,0 +1,40 @@
+import { CITIES } from '../lib/config/cities';
+import { CACHED_AT_HEADER, getCachedAt, getOfflineNextRotation } from '../lib/services/offline';
+
+describe('Offline Support', () => {
+  const at = (iso: string) => new Date(iso);
+
+  // Only the header lookup matters here
+  const response = (headers: Record<string, string>) =>
+    ({ headers: { get: (name: string) => headers[name] ?? null } }) as unknown as Response;
+
+  afterEach(() => {
+    delete CITIES.chi.rotation;
+  });
+
+  test('dates cached responses by when the service worker stored them', () => {
+    const now = at('2024-06-01T18:10:00Z');
+
+    expect(getCachedAt(response({ [CACHED_AT_HEADER]: '2024-06-01T17:52:00.000Z' }), now))
+      .toEqual(at('2024-06-01T17:52:00Z'));
+    expect(getCachedAt(response({}), now)).toBe(now);
+    expect(getCachedAt(response({ [CACHED_AT_HEADER]: 'garbage' }), now)).toBe(now);
+  });
+
+  test('keeps the server\'s rotation time until it passes', () => {
+    expect(getOfflineNextRotation('2024-06-01T18:30:00.000Z', 'la', at('2024-06-01T18:10:00Z')))
+      .toBe('2024-06-01T18:30:00.000Z');
+  });
+
+  test('counts down to the next scheduled slot once the saved one has passed', () => {
+    expect(getOfflineNextRotation('2024-06-01T18:30:00.000Z', 'la', at('2024-06-01T18:41:00Z')))
+      .toBe('2024-06-01T19:00:00.000Z');
+  });
+
+  test('stays put after the event\'s last rotation', () => {
+    CITIES.chi.rotation = { eventEnd: '2024-06-01T23:00:00Z' };
+
+    expect(getOfflineNextRotation(null, 'chi', at('2024-06-01T18:41:00Z'))).toBeNull();
+    expect(getOfflineNextRotation('2024-06-01T23:00:00.000Z', 'chi', at('2024-06-01T23:05:00Z'))).toBeNull();
+  });
+});
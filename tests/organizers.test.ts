@@ -0,0 +1,82 @@
+import {
+  authenticateOrganizer,
+  runOrganizerAction,
+  validateOrganizerAction,
+} from '../lib/services/organizers';
+import { createSupabaseFixture, downtownFixture } from './fixtures/supabase';
+
+describe('Organizer Console', () => {
+  const tokens = 'alex:s3cret-token, sam:other-token';
+
+  test('accepts configured tokens and returns the organizer name', () => {
+    expect(authenticateOrganizer('Bearer s3cret-token', tokens)).toBe('alex');
+    expect(authenticateOrganizer('Bearer other-token', tokens)).toBe('sam');
+  });
+
+  test('rejects unknown, malformed and unconfigured tokens', () => {
+    expect(authenticateOrganizer('Bearer s3cret', tokens)).toBeNull();
+    expect(authenticateOrganizer('s3cret-token', tokens)).toBeNull();
+    expect(authenticateOrganizer(null, tokens)).toBeNull();
+    expect(authenticateOrganizer('Bearer s3cret-token', undefined)).toBeNull();
+    expect(authenticateOrganizer('Bearer s3cret-token', 's3cret-token')).toBeNull();
+  });
+
+  test('validates actions', () => {
+    expect(validateOrganizerAction({ type: 'rotate' })).toBeNull();
+    expect(validateOrganizerAction({ type: 'postpone', minutes: 0 })).toBeNull();
+    expect(validateOrganizerAction({ type: 'postpone', minutes: 600 })).toBe('Postpone by 0-120 minutes');
+    expect(validateOrganizerAction({ type: 'pin-anchor', crewId: null })).toBeNull();
+    expect(validateOrganizerAction({ type: 'pin-anchor', crewId: 99 })).toBe('Invalid crew id');
+    expect(validateOrganizerAction({ type: 'evacuate', zoneIds: [] })).toBe('Select at least one zone to evacuate');
+    expect(validateOrganizerAction({ type: 'set-zone-active', zoneId: 3 })).toBe('Missing active flag');
+    expect(validateOrganizerAction({ type: 'drop-tables' })).toBe('Unknown action');
+  });
+
+  test('pins the anchor at the crew\'s current zone and audits it', async () => {
+    const fixture = downtownFixture();
+    const supabase = createSupabaseFixture(fixture);
+
+    const result = await runOrganizerAction(supabase as any, 'alex', { type: 'pin-anchor', crewId: 3 }, 'la');
+
+    expect(result).toMatchObject({ success: true, message: 'Anchor pinned to crew 3' });
+    expect(supabase.rpc).toHaveBeenCalledWith('set_anchor_state', expect.objectContaining({
+      p_crew_id: 3,
+      p_zone_id: 3,
+      p_pinned: true,
+    }));
+    expect(fixture.tables.audit_log).toEqual([{
+      city_id: 'la',
+      organizer: 'alex',
+      action: 'pin-anchor',
+      details: { request: { crewId: 3 }, zoneId: 3, message: 'Anchor pinned to crew 3' },
+      success: true,
+    }]);
+  });
+
+  test('records failed actions too', async () => {
+    const fixture = downtownFixture();
+    const supabase = createSupabaseFixture(fixture);
+    supabase.rpc.mockImplementation(() => Promise.resolve({ data: null, error: { message: 'permission denied' } }) as any);
+
+    const result = await runOrganizerAction(supabase as any, 'sam', { type: 'postpone', minutes: 15 }, 'la');
+
+    expect(result).toEqual({ success: false, message: expect.stringContaining('postpone failed') });
+    expect(fixture.tables.audit_log).toEqual([
+      expect.objectContaining({ organizer: 'sam', action: 'postpone', success: false }),
+    ]);
+  });
+
+  test('still reports an action that ran when the audit write fails', async () => {
+    const fixture = downtownFixture();
+    const supabase = createSupabaseFixture(fixture);
+    const from = supabase.from.getMockImplementation()!;
+    supabase.from.mockImplementation((table: string) => table === 'audit_log'
+      ? { ...from(table), insert: () => Promise.resolve({ data: null, error: { message: 'disk full' } }) }
+      : from(table));
+
+    const result = await runOrganizerAction(supabase as any, 'alex', { type: 'pin-anchor', crewId: 3 }, 'la');
+
+    expect(result).toMatchObject({ success: true, message: 'Anchor pinned to crew 3' });
+    expect(supabase.rpc).toHaveBeenCalledWith('set_anchor_state', expect.objectContaining({ p_crew_id: 3 }));
+  });
+});
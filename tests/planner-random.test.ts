@@ -0,0 +1,37 @@
+import { createSeededRandom, resolvePlannerOptions } from '../lib/services/planner-random';
+
+describe('Planner Randomness', () => {
+  test('same seed gives the same sequence', () => {
+    const a = createSeededRandom('rotation-42');
+    const b = createSeededRandom('rotation-42');
+
+    const sequence = Array.from({ length: 5 }, () => a());
+
+    expect(Array.from({ length: 5 }, () => b())).toEqual(sequence);
+    sequence.forEach(value => {
+      expect(value).toBeGreaterThanOrEqual(0);
+      expect(value).toBeLessThan(1);
+    });
+  });
+
+  test('different seeds diverge', () => {
+    expect(createSeededRandom('a')()).not.toBe(createSeededRandom('b')());
+  });
+
+  test('every plan gets a replayable seed', () => {
+    const planner = resolvePlannerOptions();
+    const replay = resolvePlannerOptions({ seed: planner.seed! });
+
+    expect(planner.seed).toMatch(/^[0-9a-f]{8}$/);
+    expect(replay.random()).toBe(planner.random());
+  });
+
+  test('an injected RNG has no seed', () => {
+    const now = () => new Date('2024-01-01T12:00:00Z');
+    const planner = resolvePlannerOptions({ random: () => 0.5, now });
+
+    expect(planner.seed).toBeNull();
+    expect(planner.random()).toBe(0.5);
+    expect(planner.now()).toEqual(now());
+  });
+});
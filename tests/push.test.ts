@@ -0,0 +1,209 @@
+import webpush from 'web-push';
+import {
+  pushEvacuationOrders,
+  pushRotationOrders,
+  removePushSubscription,
+  savePushSubscription,
+  sendPush,
+  validatePushSubscriptionRequest,
+} from '../lib/services/push';
+import { createSupabaseFixture } from './fixtures/supabase';
+
+jest.mock('web-push', () => ({
+  setVapidDetails: jest.fn(),
+  sendNotification: jest.fn(),
+}));
+
+const sendNotification = webpush.sendNotification as jest.Mock;
+
+describe('Web Push', () => {
+  const subscription = (id: string) => ({
+    endpoint: `https://fcm.googleapis.com/fcm/send/${id}`,
+    keys: { p256dh: `p256dh-${id}`, auth: `auth-${id}` },
+  });
+
+  const inAnHour = () => new Date(Date.now() + 60 * 60 * 1000).toISOString();
+
+  function setup(rows: any[] = []) {
+    const fixture = { tables: { push_subscriptions: rows } };
+    return { fixture, supabase: createSupabaseFixture(fixture) };
+  }
+
+  beforeEach(() => {
+    process.env.NEXT_PUBLIC_VAPID_PUBLIC_KEY = 'public-key';
+    process.env.VAPID_PRIVATE_KEY = 'private-key';
+    process.env.VAPID_SUBJECT = 'mailto:organizers@example.org';
+    sendNotification.mockReset().mockResolvedValue({ statusCode: 201 });
+  });
+
+  afterEach(() => {
+    delete process.env.NEXT_PUBLIC_VAPID_PUBLIC_KEY;
+    delete process.env.VAPID_PRIVATE_KEY;
+    delete process.env.VAPID_SUBJECT;
+  });
+
+  test('rejects subscriptions that are not usable', () => {
+    const valid = { subscription: subscription('a'), crewId: 6, zoneId: 3 };
+
+    expect(validatePushSubscriptionRequest(valid)).toBeNull();
+    expect(validatePushSubscriptionRequest(null)).toBe('Invalid push subscription');
+    expect(validatePushSubscriptionRequest({ ...valid, subscription: { ...subscription('a'), endpoint: 'http://fcm.googleapis.com/fcm/send/a' } }))
+      .toBe('Invalid push subscription');
+    expect(validatePushSubscriptionRequest({ ...valid, subscription: { ...subscription('a'), endpoint: 'https://push.example.com/a' } }))
+      .toBe('Invalid push subscription');
+    expect(validatePushSubscriptionRequest({ ...valid, subscription: { ...subscription('a'), endpoint: 'https://fcm.googleapis.com.example.com/a' } }))
+      .toBe('Invalid push subscription');
+    expect(validatePushSubscriptionRequest({ ...valid, subscription: { ...subscription('a'), endpoint: 'https://fcm.googleapis.com:8443/a' } }))
+      .toBe('Invalid push subscription');
+    for (const endpoint of [
+      'https://updates.push.services.mozilla.com/wpush/v2/a',
+      'https://web.push.apple.com/a',
+      'https://wns2-par02p.notify.windows.com/w/?token=a',
+    ]) {
+      expect(validatePushSubscriptionRequest({ ...valid, subscription: { ...subscription('a'), endpoint } })).toBeNull();
+    }
+    expect(validatePushSubscriptionRequest({ ...valid, subscription: { endpoint: subscription('a').endpoint } }))
+      .toBe('Push subscription is missing its keys');
+    expect(validatePushSubscriptionRequest({ ...valid, crewId: 99 })).toBe('Invalid crew id');
+    expect(validatePushSubscriptionRequest({ ...valid, zoneId: 'x' })).toBe('Invalid zone id');
+    expect(validatePushSubscriptionRequest({ ...valid, locale: 'es' })).toBeNull();
+    expect(validatePushSubscriptionRequest({ ...valid, locale: 'fr' })).toBe('Invalid locale');
+  });
+
+  test('stores a subscription under its crew and zone topics only', async () => {
+    const { fixture, supabase } = setup();
+
+    const expiresAt = await savePushSubscription(supabase as any, {
+      subscription: { ...subscription('a'), extra: 'ignored' } as any,
+      crewId: 6,
+      zoneId: 3,
+      cityId: 'la',
+    });
+
+    expect(fixture.tables.push_subscriptions).toEqual([{
+      endpoint_hash: expect.stringMatching(/^[0-9a-f]{64}$/),
+      city_id: 'la',
+      subscription: subscription('a'),
+      topics: ['crew:6', 'zone:3'],
+      locale: 'en',
+      expires_at: expiresAt.toISOString(),
+    }]);
+    expect(expiresAt.getTime()).toBeGreaterThan(Date.now() + 11 * 60 * 60 * 1000);
+  });
+
+  test('renewing after a move replaces the topics', async () => {
+    const { fixture, supabase } = setup();
+
+    await savePushSubscription(supabase as any, { subscription: subscription('a'), crewId: 6, zoneId: 3, cityId: 'la' });
+    await savePushSubscription(supabase as any, { subscription: subscription('a'), crewId: 6, zoneId: 4, cityId: 'la' });
+
+    expect(fixture.tables.push_subscriptions).toHaveLength(1);
+    expect(fixture.tables.push_subscriptions[0].topics).toEqual(['crew:6', 'zone:4']);
+
+    await removePushSubscription(supabase as any, subscription('a').endpoint);
+    expect(fixture.tables.push_subscriptions).toHaveLength(0);
+  });
+
+  test('sends to live subscriptions on the topic and drops the gone ones', async () => {
+    const { fixture, supabase } = setup([
+      { id: 1, city_id: 'la', subscription: subscription('a'), topics: ['crew:6', 'zone:3'], expires_at: inAnHour() },
+      { id: 2, city_id: 'la', subscription: subscription('b'), topics: ['crew:6', 'zone:1'], expires_at: inAnHour() },
+      { id: 3, city_id: 'la', subscription: subscription('c'), topics: ['crew:7', 'zone:3'], expires_at: inAnHour() },
+      { id: 4, city_id: 'la', subscription: subscription('d'), topics: ['crew:6', 'zone:3'], expires_at: '2020-01-01T00:00:00Z' },
+      { id: 5, city_id: 'nyc', subscription: subscription('e'), topics: ['crew:6', 'zone:3'], expires_at: inAnHour() },
+    ]);
+    sendNotification.mockImplementation(async (target: any) => {
+      if (target.endpoint.endsWith('/b')) throw Object.assign(new Error('Gone'), { statusCode: 410 });
+      return { statusCode: 201 };
+    });
+    const notification = { title: 'EVACUATE NOW', body: 'Leave City Hall', tag: 'crew-6', urgent: true };
+
+    const result = await sendPush(supabase as any, ['crew:6'], notification, 'la');
+
+    expect(result).toEqual({ sent: 1, removed: 1 });
+    expect(sendNotification.mock.calls.map(([target]) => target.endpoint)).toEqual([
+      subscription('a').endpoint,
+      subscription('b').endpoint,
+    ]);
+    expect(sendNotification).toHaveBeenCalledWith(subscription('a'), JSON.stringify(notification), expect.objectContaining({ urgency: 'high' }));
+    expect(fixture.tables.push_subscriptions.map((row: any) => row.id)).toEqual([1, 3, 4, 5]);
+  });
+
+  test('sends in bounded concurrent batches', async () => {
+    const { supabase } = setup(Array.from({ length: 60 }, (_, i) => (
+      { id: i + 1, city_id: 'la', subscription: subscription(String(i)), topics: ['zone:3'], expires_at: inAnHour() }
+    )));
+    let inFlight = 0;
+    let mostInFlight = 0;
+    sendNotification.mockImplementation(async () => {
+      mostInFlight = Math.max(mostInFlight, ++inFlight);
+      await new Promise(resolve => setTimeout(resolve, 1));
+      inFlight--;
+      return { statusCode: 201 };
+    });
+
+    const result = await sendPush(supabase as any, ['zone:3'], { title: 't', body: 'b', tag: 'x' }, 'la');
+
+    expect(result).toEqual({ sent: 60, removed: 0 });
+    expect(mostInFlight).toBe(25);
+  });
+
+  test('does nothing without VAPID keys', async () => {
+    delete process.env.VAPID_PRIVATE_KEY;
+    const { supabase } = setup([
+      { id: 1, city_id: 'la', subscription: subscription('a'), topics: ['crew:6'], expires_at: inAnHour() },
+    ]);
+
+    await expect(sendPush(supabase as any, ['crew:6'], { title: 't', body: 'b', tag: 'x' }, 'la'))
+      .resolves.toEqual({ sent: 0, removed: 0 });
+    expect(sendNotification).not.toHaveBeenCalled();
+  });
+
+  test('only wakes crews that move', async () => {
+    const { supabase } = setup([
+      { id: 1, city_id: 'la', subscription: subscription('a'), topics: ['crew:1'], expires_at: inAnHour() },
+      { id: 2, city_id: 'la', subscription: subscription('b'), topics: ['crew:2'], expires_at: inAnHour() },
+    ]);
+    const base = { type: 'rotation' as const, reason: 'short-walk', nextRotation: null, issuedAt: '2024-06-01T18:00:00Z' };
+
+    const sent = await pushRotationOrders(supabase as any, [
+      { ...base, crewId: 1, zoneId: 1, zoneName: 'City Hall', walkTime: null },
+      { ...base, crewId: 2, zoneId: 1, zoneName: 'City Hall', walkTime: 6.2 },
+    ], 'la');
+
+    expect(sent).toBe(1);
+    expect(sendNotification).toHaveBeenCalledTimes(1);
+    expect(JSON.parse(sendNotification.mock.calls[0][1])).toMatchObject({
+      title: 'Time to move',
+      body: 'Head to City Hall (6 min walk)',
+      tag: 'crew-2',
+    });
+  });
+
+  test('writes each phone\'s alerts in the language it subscribed with', async () => {
+    const { supabase } = setup([
+      { id: 1, city_id: 'la', subscription: subscription('a'), topics: ['crew:3'], locale: 'es', expires_at: inAnHour() },
+      { id: 2, city_id: 'la', subscription: subscription('b'), topics: ['crew:3'], locale: 'en', expires_at: inAnHour() },
+      { id: 3, city_id: 'la', subscription: subscription('c'), topics: ['crew:3'], locale: 'es', expires_at: inAnHour() },
+    ]);
+
+    await pushEvacuationOrders(supabase as any, [{
+      crewId: 3,
+      fromZoneId: 1,
+      fromZoneName: 'City Hall',
+      toZoneId: 2,
+      toZoneName: 'Grand Park',
+      direction: 'north',
+      walkTime: 8,
+      issuedAt: '2024-06-01T18:00:00Z',
+    }], 'la');
+
+    const sent = sendNotification.mock.calls.map(([target, payload]) => [target.endpoint, JSON.parse(payload).body]);
+    expect(sent).toEqual([
+      [subscription('a').endpoint, 'Sal de City Hall. Ve al norte: Grand Park (8 min a pie)'],
+      [subscription('c').endpoint, 'Sal de City Hall. Ve al norte: Grand Park (8 min a pie)'],
+      [subscription('b').endpoint, 'Leave City Hall. Go north: Grand Park (8 min walk)'],
+    ]);
+    expect(JSON.parse(sendNotification.mock.calls[0][1]).title).toBe('EVACÚA AHORA');
+  });
+});
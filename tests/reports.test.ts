@@ -0,0 +1,112 @@
+import {
+  isAddressRateLimited,
+  isInsideZone,
+  REPORT_IP_LIMIT,
+  REPORT_RATE_WINDOW_MINUTES,
+  submitReport,
+  validateReportRequest
+} from '../lib/services/reports';
+import * as push from '../lib/services/push';
+import { createSupabaseFixture, downtownFixture } from './fixtures/supabase';
+
+describe('Incident Reports', () => {
+  const sessionId = 'a1b2c3d4e5f6a7b8c9d0';
+  const cityHall = { lat: 34.0537, lng: -118.2427 };
+
+  function setup(result = { accepted: true, present: true, reporters: 1, escalated: false }) {
+    const fixture = downtownFixture();
+    fixture.rpc!.submit_incident_report = () => result;
+    return createSupabaseFixture(fixture);
+  }
+
+  test('validates the report body', () => {
+    const report = { sessionId, zoneId: 1, category: 'medical', ...cityHall };
+
+    expect(validateReportRequest(report)).toBeNull();
+    expect(validateReportRequest({ ...report, sessionId: 'x' })).toBe('Invalid session id');
+    expect(validateReportRequest({ ...report, category: 'rumor' })).toMatch(/^Unknown category/);
+    expect(validateReportRequest({ ...report, zoneId: 'abc' })).toBe('Invalid zone id');
+    expect(validateReportRequest({ ...report, lat: undefined })).toBe('Location required to report');
+  });
+
+  test('checks zone boundaries, falling back to the radius', () => {
+    const square = [[-118.25, 34.05], [-118.24, 34.05], [-118.24, 34.06], [-118.25, 34.06], [-118.25, 34.05]] as [number, number][];
+    const park = { center_lat: 34.055, center_lng: -118.245, geometry: { type: 'Polygon' as const, coordinates: [square] } };
+
+    expect(isInsideZone(park, 34.059, -118.249)).toBe(true);
+    expect(isInsideZone(park, 34.061, -118.245)).toBe(false);
+    expect(isInsideZone({ center_lat: '34.0537', center_lng: '-118.2427', radius_meters: 300 }, 34.0555, -118.2427)).toBe(true);
+    expect(isInsideZone({ center_lat: '34.0537', center_lng: '-118.2427', radius_meters: 100 }, 34.0555, -118.2427)).toBe(false);
+  });
+
+  test('rejects reports from outside the zone without recording them', async () => {
+    const supabase = setup();
+
+    const result = await submitReport(supabase as any, { sessionId, zoneId: 1, category: 'hazard', lat: 34.07, lng: -118.2427 });
+
+    expect(result).toEqual({ status: 'outside-zone' });
+    expect(supabase.rpc).not.toHaveBeenCalled();
+  });
+
+  test('records a hashed session and the category severity', async () => {
+    const supabase = setup({ accepted: true, present: true, reporters: 3, escalated: true });
+
+    const result = await submitReport(supabase as any, { sessionId, zoneId: 1, category: 'crowd_crush', ...cityHall, cityId: 'la' });
+
+    expect(result).toEqual({ status: 'accepted', reporters: 3, escalated: true });
+    expect(supabase.rpc).toHaveBeenCalledWith('submit_incident_report', expect.objectContaining({
+      p_zone_id: 1,
+      p_category: 'crowd_crush',
+      p_severity: 'critical',
+      p_city_id: 'la',
+      p_corroboration: 3,
+      p_min_presence_minutes: 5,
+      p_presence_ttl_seconds: 360,
+    }));
+    const args = supabase.rpc.mock.calls[0][1];
+    expect(args.p_session_hash).toMatch(/^[0-9a-f]{64}$/);
+    expect(JSON.stringify(args)).not.toContain(sessionId);
+  });
+
+  test('alerts crews only on the report that crosses the threshold', async () => {
+    const pushZoneAlerts = jest.spyOn(push, 'pushZoneAlerts').mockResolvedValue(0);
+
+    const crossing = setup({ accepted: true, present: true, reporters: 3, escalated: true });
+    await submitReport(crossing as any, { sessionId, zoneId: 1, category: 'hazard', ...cityHall });
+    expect(pushZoneAlerts).toHaveBeenCalledTimes(1);
+
+    const later = setup({ accepted: true, present: true, reporters: 4, escalated: false });
+    const result = await submitReport(later as any, { sessionId, zoneId: 1, category: 'hazard', ...cityHall });
+
+    expect(result).toEqual({ status: 'accepted', reporters: 4, escalated: false });
+    expect(pushZoneAlerts).toHaveBeenCalledTimes(1);
+    pushZoneAlerts.mockRestore();
+  });
+
+  test('reports rate limiting', async () => {
+    const supabase = setup({ accepted: false, present: true, reporters: 0, escalated: false });
+
+    await expect(submitReport(supabase as any, { sessionId, zoneId: 1, category: 'medical', ...cityHall }))
+      .resolves.toEqual({ status: 'rate-limited' });
+  });
+
+  test('refuses sessions that are not counted at the zone', async () => {
+    const supabase = setup({ accepted: false, present: false, reporters: 0, escalated: false });
+
+    await expect(submitReport(supabase as any, { sessionId, zoneId: 1, category: 'medical', ...cityHall }))
+      .resolves.toEqual({ status: 'not-present' });
+  });
+
+  test('limits reports per client address within the window', () => {
+    const start = Date.now();
+
+    for (let i = 0; i < REPORT_IP_LIMIT; i++) {
+      expect(isAddressRateLimited('203.0.113.7', start + i)).toBe(false);
+    }
+    expect(isAddressRateLimited('203.0.113.7', start + REPORT_IP_LIMIT)).toBe(true);
+    expect(isAddressRateLimited('203.0.113.8', start + REPORT_IP_LIMIT)).toBe(false);
+
+    const nextWindow = start + REPORT_RATE_WINDOW_MINUTES * 60 * 1000 + REPORT_IP_LIMIT;
+    expect(isAddressRateLimited('203.0.113.7', nextWindow)).toBe(false);
+  });
+});
@@ -0,0 +1,41 @@
+import { getRotationHistory, groupRotationHistory } from '../lib/services/rotation-history';
+import { createSupabaseFixture } from './fixtures/supabase';
+
+describe('Rotation History', () => {
+  const rows = [
+    { rotation_number: 8, rotated_at: '2024-01-01T18:30:00Z', crew_id: 2, from_zone_id: 2, to_zone_id: 3, walk_time_minutes: '6.1', rotation_reason: 'short walk' },
+    { rotation_number: 7, rotated_at: '2024-01-01T18:00:00Z', crew_id: 1, from_zone_id: null, to_zone_id: 1, walk_time_minutes: '0.0', rotation_reason: 'anchor holds position' },
+    { rotation_number: 8, rotated_at: '2024-01-01T18:30:00Z', crew_id: 1, from_zone_id: 1, to_zone_id: 1, walk_time_minutes: '0.0', rotation_reason: 'anchor holds position' },
+  ];
+
+  test('groups crew rows into rotations, oldest first', () => {
+    const history = groupRotationHistory(rows);
+
+    expect(history.map(r => r.rotationNumber)).toEqual([7, 8]);
+    expect(history[1].rotatedAt).toBe('2024-01-01T18:30:00Z');
+    expect(history[1].moves.map(m => m.crewId)).toEqual([1, 2]);
+  });
+
+  test('marks which crews actually moved', () => {
+    const [first, second] = groupRotationHistory(rows);
+
+    expect(first.moves[0]).toMatchObject({ fromZoneId: null, moved: false });
+    expect(second.moves[0]).toMatchObject({ crewName: 'Crew 1', moved: false, walkTime: 0 });
+    expect(second.moves[1]).toMatchObject({
+      fromZoneId: 2,
+      toZoneId: 3,
+      walkTime: 6.1,
+      reason: 'short walk',
+      moved: true,
+    });
+  });
+
+  test('caps the number of rotations requested', async () => {
+    const supabase = createSupabaseFixture({ tables: {}, rpc: { get_rotation_history: () => rows } });
+
+    const history = await getRotationHistory(supabase as any, 500);
+
+    expect(supabase.rpc).toHaveBeenCalledWith('get_rotation_history', { p_limit: 48, p_city_id: 'la' });
+    expect(history).toHaveLength(2);
+  });
+});
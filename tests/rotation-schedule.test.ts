@@ -0,0 +1,53 @@
+import { CITIES } from '../lib/config/cities';
+import {
+  getCurrentRotationSlot,
+  getNextRotation,
+  getRotationSchedule,
+} from '../lib/services/rotation-schedule';
+
+describe('Rotation Schedule', () => {
+  const at = (iso: string) => new Date(iso);
+
+  afterEach(() => {
+    delete CITIES.chi.rotation;
+  });
+
+  test('defaults to every 30 minutes', () => {
+    expect(getNextRotation('la', at('2024-06-01T18:10:00Z'))?.toISOString()).toBe('2024-06-01T18:30:00.000Z');
+    expect(getNextRotation('la', at('2024-06-01T18:30:00Z'))?.toISOString()).toBe('2024-06-01T19:00:00.000Z');
+  });
+
+  test('counts the interval from local midnight', () => {
+    CITIES.chi.rotation = { intervalMinutes: 45 };
+
+    // Chicago is UTC-5 in June: 23:15 local, then midnight rather than 00:00 + 15
+    expect(getNextRotation('chi', at('2024-06-02T04:00:00Z'))?.toISOString()).toBe('2024-06-02T04:15:00.000Z');
+    expect(getNextRotation('chi', at('2024-06-02T04:50:00Z'))?.toISOString()).toBe('2024-06-02T05:00:00.000Z');
+  });
+
+  test('skips quiet hours in the city timezone', () => {
+    CITIES.chi.rotation = { quietHours: { start: '23:00', end: '07:00' } };
+
+    // 22:50 local: nothing until 07:00 local
+    expect(getNextRotation('chi', at('2024-06-02T03:50:00Z'))?.toISOString()).toBe('2024-06-02T12:00:00.000Z');
+    expect(getCurrentRotationSlot('chi', at('2024-06-02T04:31:00Z'))).toBeNull();
+    expect(getCurrentRotationSlot('chi', at('2024-06-02T12:02:00Z'))?.toISOString()).toBe('2024-06-02T12:00:00.000Z');
+  });
+
+  test('only rotates inside the event window', () => {
+    CITIES.chi.rotation = { eventStart: '2024-06-01T17:00:00Z', eventEnd: '2024-06-01T23:00:00Z' };
+
+    expect(getNextRotation('chi', at('2024-06-01T09:10:00Z'))?.toISOString()).toBe('2024-06-01T17:00:00.000Z');
+    expect(getNextRotation('chi', at('2024-06-01T22:40:00Z'))?.toISOString()).toBe('2024-06-01T23:00:00.000Z');
+    expect(getNextRotation('chi', at('2024-06-01T23:00:00Z'))).toBeNull();
+    expect(getCurrentRotationSlot('chi', at('2024-06-01T16:31:00Z'))).toBeNull();
+  });
+
+  test('rejects invalid config', () => {
+    CITIES.chi.rotation = { intervalMinutes: 0 };
+    expect(() => getRotationSchedule('chi')).toThrow('Invalid rotation interval for chi: 0');
+
+    CITIES.chi.rotation = { quietHours: { start: '25:00', end: '07:00' } };
+    expect(() => getRotationSchedule('chi')).toThrow('Invalid quiet hours time for chi: 25:00 (use HH:MM)');
+  });
+});
@@ -0,0 +1,78 @@
+import { determineSeverity } from '../lib/services/scraper';
+import {
+  CRITICAL_SCORE,
+  DANGER_SCORE,
+  assessSignals,
+  assessZoneActivity,
+  decayFactor,
+  getActivityExpiry,
+  severityFromIntensity
+} from '../lib/services/severity';
+
+describe('Severity Scoring', () => {
+  const now = new Date('2025-06-14T20:00:00Z');
+  const minutesAgo = (minutes: number) => new Date(now.getTime() - minutes * 60000);
+
+  test('reads severity from weighted phrases instead of keyword counts', () => {
+    expect(determineSeverity('Police officers at the park')).toBe('low');
+    expect(determineSeverity('SWAT team seen, one person injured')).toBe('medium');
+    expect(determineSeverity('Officers fired tear gas')).toBe('high');
+    expect(determineSeverity('Tear gas and rubber bullets, crowd kettled')).toBe('critical');
+    expect(determineSeverity('Community unity rally')).toBe('low');
+  });
+
+  test('maps intensity to severity bands', () => {
+    expect(severityFromIntensity(0.1)).toBe('low');
+    expect(severityFromIntensity(0.3)).toBe('medium');
+    expect(severityFromIntensity(0.6)).toBe('high');
+    expect(severityFromIntensity(0.8)).toBe('critical');
+  });
+
+  test('decays by half every hour unless the source holds', () => {
+    expect(decayFactor(now, now)).toBe(1);
+    expect(decayFactor(minutesAgo(60), now)).toBeCloseTo(0.5);
+    expect(decayFactor(minutesAgo(120), now)).toBeCloseTo(0.25);
+    expect(decayFactor(minutesAgo(120), now, false)).toBe(1);
+  });
+
+  test('corroborating sources raise confidence', () => {
+    const single = assessSignals([{ severity: 'high', reliability: 0.5, observedAt: now }], now);
+    const pair = assessSignals([
+      { severity: 'high', reliability: 0.5, observedAt: now },
+      { severity: 'medium', reliability: 0.5, observedAt: now },
+    ], now);
+
+    expect(single).toEqual({ severity: 'high', confidence: 0.5, score: 0.38 });
+    expect(pair).toEqual({ severity: 'high', confidence: 0.75, score: 0.56 });
+    expect(pair!.score).toBeGreaterThanOrEqual(DANGER_SCORE);
+  });
+
+  test('old reports fade out', () => {
+    const fresh = assessSignals([{ severity: 'critical', reliability: 1, observedAt: now }], now);
+    const hourOld = assessSignals([{ severity: 'critical', reliability: 1, observedAt: minutesAgo(60) }], now);
+
+    expect(fresh!.score).toBeGreaterThanOrEqual(CRITICAL_SCORE);
+    expect(hourOld).toEqual({ severity: 'medium', confidence: 0.5, score: 0.25 });
+    expect(assessSignals([{ severity: 'critical', reliability: 1, observedAt: minutesAgo(180) }], now)).toBeNull();
+  });
+
+  test('scores police_activity rows by source', () => {
+    const threats = assessZoneActivity([
+      { zone_id: 1, severity: 'critical', source: 'organizer', reported_at: minutesAgo(90).toISOString() },
+      { zone_id: 2, severity: 'high', source: 'news', reported_at: now.toISOString() },
+      { zone_id: 3, severity: 'high', source: 'aggregated', confidence: '0.75', reported_at: now.toISOString() },
+      { zone_id: 4, severity: 'low', source: 'social', reported_at: minutesAgo(30).toISOString() },
+    ], now);
+
+    expect(threats.get(1)).toEqual({ severity: 'critical', confidence: 1, score: 1 });
+    expect(threats.get(2)).toEqual({ severity: 'high', confidence: 0.6, score: 0.45 });
+    expect(threats.get(3)!.confidence).toBe(0.75);
+    expect(threats.has(4)).toBe(false);
+  });
+
+  test('collected rows expire when their score fades', () => {
+    expect(getActivityExpiry('critical', 1, now).getTime() - now.getTime()).toBeCloseTo(99.66 * 60000, -3);
+    expect(getActivityExpiry('low', 0.6, now).getTime() - now.getTime()).toBeCloseTo(17.55 * 60000, -3);
+    expect(getActivityExpiry('low', 0.2, now)).toEqual(now);
+  });
+});
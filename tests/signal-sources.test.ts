@@ -0,0 +1,235 @@
+import { getCityConfig } from '../lib/config/cities';
+import { createRssSource, parseSignalEvent } from '../lib/services/signal-adapters';
+import { SignalSource } from '../lib/services/signal-source';
+import {
+  collectPoliceActivity,
+  getSignalSourcesForCity,
+  getSourceHealth,
+  listSignalSources,
+  registerSignalSource,
+  runSignalSources,
+  unregisterSignalSource
+} from '../lib/services/signal-sources';
+import { createSupabaseFixture } from './fixtures/supabase';
+
+describe('Signal Sources', () => {
+  const la = getCityConfig('la')!;
+  const zones = [
+    { id: 1, city_id: 'la', name: 'S Hill St & W 5th St (Pershing Square)', center_lat: 34.0481, center_lng: -118.2506, active: true },
+    { id: 2, city_id: 'la', name: 'N Park Ave & Glendale Blvd (Echo Park Lake)', center_lat: 34.0781, center_lng: -118.2606, active: true },
+  ];
+  const builtIns = listSignalSources();
+
+  function source(id: string, overrides: Partial<SignalSource> = {}): SignalSource {
+    return {
+      id,
+      description: id,
+      weight: 1,
+      fetch: async () => [],
+      ...overrides,
+    };
+  }
+
+  function event(location: string, description = 'Police line forming') {
+    return { location, description, severity: 'medium' as const, source: 'test', timestamp: new Date() };
+  }
+
+  function context(supabase: any = createSupabaseFixture({ tables: {} })) {
+    return { supabase, city: la, since: new Date(Date.now() - 60 * 60 * 1000) };
+  }
+
+  beforeEach(() => {
+    builtIns.forEach(s => unregisterSignalSource(s.id));
+  });
+
+  afterAll(() => {
+    listSignalSources().forEach(s => unregisterSignalSource(s.id));
+    builtIns.forEach(registerSignalSource);
+  });
+
+  test('registers the built-in sources', () => {
+    expect(builtIns.map(s => s.id)).toEqual(['news', 'citizen']);
+  });
+
+  test('filters registered sources by city and lets city config override them', () => {
+    registerSignalSource(source('everywhere'));
+    registerSignalSource(source('nyc-only', { cities: ['nyc'] }));
+    registerSignalSource(source('scanner', { weight: 0.2 }));
+
+    const city = { ...la, signalSources: [{ type: 'webhook' as const, id: 'scanner', weight: 0.8 }] };
+    const sources = getSignalSourcesForCity(city);
+
+    expect(sources.map(s => s.id)).toEqual(['everywhere', 'scanner']);
+    expect(sources.find(s => s.id === 'scanner')!.weight).toBe(0.8);
+
+    unregisterSignalSource('everywhere');
+    unregisterSignalSource('nyc-only');
+    unregisterSignalSource('scanner');
+  });
+
+  test('reports a timed out source without blocking the others', async () => {
+    const slow = source('slow', { timeoutMs: 10, fetch: () => new Promise(() => {}) });
+    const fast = source('fast', { weight: 0.5, fetch: async () => [event('Echo Park')] });
+
+    const { events, report } = await runSignalSources([slow, fast], context());
+
+    expect(events).toEqual([expect.objectContaining({ source: 'fast', weight: 0.5 })]);
+    expect(report[0]).toMatchObject({ id: 'slow', success: false, events: 0, error: 'slow timed out after 10ms' });
+    expect(report[1]).toMatchObject({ id: 'fast', success: true, events: 1 });
+  });
+
+  test('skips disabled sources and drops events outside the window', async () => {
+    const disabled = source('disabled', { isEnabled: () => false, fetch: jest.fn() });
+    const stale = source('stale', {
+      fetch: async () => [{ ...event('Echo Park'), timestamp: new Date(Date.now() - 3 * 60 * 60 * 1000) }],
+    });
+
+    const { events, report } = await runSignalSources([disabled, stale], context());
+
+    expect(disabled.fetch).not.toHaveBeenCalled();
+    expect(report[0]).toMatchObject({ skipped: true, success: true });
+    expect(events).toHaveLength(0);
+  });
+
+  test('marks a source degraded, then down, and healthy again after a success', async () => {
+    let fail = true;
+    const flaky = source('flaky', {
+      fetch: async () => {
+        if (fail) throw new Error('feed unavailable');
+        return [];
+      },
+    });
+
+    const fixture = { tables: { signal_source_health: [] as any[] } };
+    const supabase = createSupabaseFixture(fixture) as any;
+
+    await runSignalSources([flaky], context(supabase));
+    expect(await getSourceHealth(supabase, 'flaky', 'la')).toMatchObject({ status: 'degraded', consecutiveFailures: 1 });
+
+    await runSignalSources([flaky], context(supabase));
+    const { report } = await runSignalSources([flaky], context(supabase));
+    expect(report[0].health).toMatchObject({ status: 'down', lastError: 'feed unavailable', lastSuccessAt: null });
+
+    fail = false;
+    await runSignalSources([flaky], context(supabase));
+    const health = await getSourceHealth(supabase, 'flaky', 'la');
+    expect(health).toMatchObject({ status: 'healthy', consecutiveFailures: 0, lastError: 'feed unavailable' });
+    expect(health.lastSuccessAt).toBe(health.lastRunAt);
+    expect(health.lastFailureAt).not.toBeNull();
+    expect(fixture.tables.signal_source_health).toEqual([
+      expect.objectContaining({ city_id: 'la', source_id: 'flaky', consecutive_failures: 0 }),
+    ]);
+    expect((await getSourceHealth(supabase, 'never-run', 'la')).status).toBe('unknown');
+  });
+
+  test('only records zones once corroboration gives enough confidence', async () => {
+    registerSignalSource(source('tip-line', {
+      weight: 0.5,
+      fetch: async () => [event('Glendale and Park Ave', 'Officers blocking the lake path')],
+    }));
+    registerSignalSource(source('relay', {
+      weight: 0.5,
+      fetch: async () => [event('Echo Park Lake'), event('Pershing Square')],
+    }));
+    const fixture = { tables: { zones, police_activity: [] as any[] } };
+
+    const result = await collectPoliceActivity(createSupabaseFixture(fixture) as any, la);
+
+    expect(result.success).toBe(true);
+    expect(result.eventsFound).toBe(3);
+    expect(result.sources.map(s => s.id)).toEqual(['tip-line', 'relay']);
+    expect(fixture.tables.police_activity).toEqual([
+      expect.objectContaining({ zone_id: 2, source: 'aggregated', description: '2 police activity reports' }),
+    ]);
+
+    unregisterSignalSource('tip-line');
+    unregisterSignalSource('relay');
+  });
+
+  test('folds repeated stories into the live row instead of inserting again', async () => {
+    const story = { ...event('Pershing Square', 'Police kettle marchers - LA Daily'), url: 'https://example.org/kettle?utm=feed' };
+    registerSignalSource(source('news-feed', { fetch: async () => [story] }));
+    registerSignalSource(source('relay', {
+      weight: 0.5,
+      fetch: async () => [{ ...story, description: 'Police kettle marchers', url: undefined }],
+    }));
+    const fixture = { tables: { zones, police_activity: [] as any[] } };
+    const supabase = createSupabaseFixture(fixture) as any;
+
+    const first = await collectPoliceActivity(supabase, la);
+    const expiresAt = fixture.tables.police_activity[0].expires_at;
+    const second = await collectPoliceActivity(supabase, la);
+
+    expect(first).toMatchObject({ inserted: 1, updated: 0 });
+    expect(second).toMatchObject({ inserted: 0, updated: 1 });
+    expect(fixture.tables.police_activity).toHaveLength(1);
+    expect(fixture.tables.police_activity[0]).toMatchObject({
+      zone_id: 1,
+      description: '1 police activity reports',
+      sources: [expect.objectContaining({ via: ['news-feed', 'relay'], url: 'example.org/kettle', weight: 1 })],
+    });
+    expect(fixture.tables.police_activity[0].expires_at >= expiresAt).toBe(true);
+
+    unregisterSignalSource('news-feed');
+    unregisterSignalSource('relay');
+  });
+
+  test('reports what it found when the write fails', async () => {
+    registerSignalSource(source('news-feed', { fetch: async () => [event('Pershing Square'), event('Echo Park Lake')] }));
+    const supabase = createSupabaseFixture({ tables: { zones, police_activity: [] } }) as any;
+    const from = supabase.from;
+    supabase.from = (table: string) => ({
+      ...from(table),
+      insert: async () => ({ data: null, error: { message: 'permission denied for table police_activity' } }),
+    });
+
+    const result = await collectPoliceActivity(supabase, la);
+
+    expect(result).toMatchObject({
+      success: false,
+      eventsFound: 2,
+      inserted: 0,
+      error: 'permission denied for table police_activity',
+    });
+    expect(result.sources.map(s => s.id)).toEqual(['news-feed']);
+
+    unregisterSignalSource('news-feed');
+  });
+
+  test('turns RSS items that mention police into events', async () => {
+    const feed = `<rss><channel>
+      <item>
+        <title><![CDATA[Police declare unlawful assembly]]></title>
+        <description>Officers with batons near Pershing Square &amp; 5th</description>
+        <link>https://example.org/1</link>
+        <pubDate>${new Date().toUTCString()}</pubDate>
+      </item>
+      <item><title>Farmers market opens</title><description>Fresh fruit</description></item>
+    </channel></rss>`;
+    const originalFetch = global.fetch;
+    global.fetch = jest.fn().mockResolvedValue({ ok: true, text: async () => feed }) as any;
+
+    try {
+      const events = await createRssSource({ id: 'la-feed', url: 'https://example.org/feed.xml' }).fetch(context());
+
+      expect(events).toEqual([expect.objectContaining({
+        location: 'Pershing Square & 5th',
+        source: 'la-feed',
+        url: 'https://example.org/1',
+      })]);
+    } finally {
+      global.fetch = originalFetch;
+    }
+  });
+
+  test('validates untrusted events', () => {
+    expect(parseSignalEvent(null, 'hook', la.name)).toBeNull();
+    expect(parseSignalEvent({ description: '  ' }, 'hook', la.name)).toBeNull();
+    expect(parseSignalEvent({ description: 'Kettle', timestamp: 'soon' }, 'hook', la.name)).toBeNull();
+
+    expect(parseSignalEvent({ description: 'Tear gas at City Hall', severity: 'apocalyptic' }, 'hook', la.name))
+      .toMatchObject({ location: 'City Hall', severity: 'high', source: 'hook' });
+    expect(parseSignalEvent({ description: 'Officers on foot', location: 'Echo Park', severity: 'low' }, 'hook', la.name))
+      .toMatchObject({ location: 'Echo Park', severity: 'low' });
+  });
+});
@@ -0,0 +1,144 @@
+import { MAX_WALK_MINUTES, SmartRotationService } from '../lib/services/smart-rotation';
+import { createSupabaseFixture, downtownFixture } from './fixtures/supabase';
+
+describe('Smart Rotation', () => {
+  // Walkable in both directions between the three downtown zones
+  const connections = [
+    { from_zone_id: 1, to_zone_id: 2, walk_time_minutes: 6.2, distance_meters: 519, route_type: 'direct' },
+    { from_zone_id: 2, to_zone_id: 1, walk_time_minutes: 6.2, distance_meters: 519, route_type: 'direct' },
+    { from_zone_id: 1, to_zone_id: 3, walk_time_minutes: 6.1, distance_meters: 505, route_type: 'direct' },
+    { from_zone_id: 3, to_zone_id: 1, walk_time_minutes: 6.1, distance_meters: 505, route_type: 'direct' },
+    { from_zone_id: 2, to_zone_id: 3, walk_time_minutes: 14.9, distance_meters: 1245, route_type: 'direct' },
+  ];
+
+  function setup(policeActivity: any[] = []) {
+    const fixture = downtownFixture();
+    fixture.tables.zone_connections = connections;
+    fixture.tables.police_activity = policeActivity;
+    return createSupabaseFixture(fixture);
+  }
+
+  test('only moves crews along walkable connections', async () => {
+    const supabase = setup();
+
+    const moves = await new SmartRotationService(supabase as any).planRotation();
+
+    expect(moves.length).toBeGreaterThan(0);
+    moves.forEach(move => {
+      const connection = connections.find(c =>
+        c.from_zone_id === move.from_zone_id && c.to_zone_id === move.to_zone_id
+      );
+      expect(connection).toBeDefined();
+      expect(move.walk_time).toBeLessThanOrEqual(MAX_WALK_MINUTES);
+      expect(move.reason).toEqual(expect.any(String));
+    });
+  });
+
+  test('keeps the anchor crew in place', async () => {
+    const supabase = setup();
+
+    const moves = await new SmartRotationService(supabase as any).planRotation(1);
+
+    expect(moves.find(m => m.crew_id === 1)).toBeUndefined();
+  });
+
+  test('persists walk time and reason for every crew', async () => {
+    const supabase = setup();
+
+    const result = await new SmartRotationService(supabase as any).rotate();
+
+    expect(result.success).toBe(true);
+    const rotateCall = supabase.rpc.mock.calls.find(([name]) => name === 'rotate_crews');
+    const plan = JSON.parse(rotateCall![1].rotation_plan);
+
+    expect(plan.map((p: any) => p.crew_id).sort()).toEqual([1, 2, 3]);
+    expect(plan.find((p: any) => p.crew_id === 1)).toMatchObject({
+      zone_id: 1,
+      walk_time: 0,
+      reason: 'anchor-holds',
+    });
+    result.moves.forEach(move => {
+      expect(plan.find((p: any) => p.crew_id === move.crew_id)).toMatchObject({
+        zone_id: move.to_zone_id,
+        walk_time: move.walk_time,
+        reason: move.reason,
+      });
+    });
+  });
+
+  test('moves the anchor out of a dangerous zone and records it', async () => {
+    const supabase = setup([
+      { zone_id: 1, severity: 'critical', expires_at: new Date(Date.now() + 60 * 60 * 1000).toISOString() },
+    ]);
+
+    const result = await new SmartRotationService(supabase as any).rotate();
+    const anchorMove = result.moves.find(m => m.crew_id === 1);
+
+    expect(anchorMove).toBeDefined();
+    expect(anchorMove!.reason).toContain('leaving-police');
+    expect(supabase.rpc).toHaveBeenCalledWith('set_anchor_state', expect.objectContaining({
+      p_crew_id: 1,
+      p_zone_id: anchorMove!.to_zone_id,
+    }));
+  });
+
+  test('weighs police activity by confidence before moving the anchor', async () => {
+    const now = new Date();
+    const reportedAt = now.toISOString();
+    const weak = await new SmartRotationService(setup([
+      { zone_id: 1, severity: 'medium', source: 'news', confidence: 1, reported_at: reportedAt },
+    ]) as any).previewRotation({ now: () => now });
+
+    expect(weak.threats).toEqual([{ zone_id: 1, severity: 'medium', confidence: 0.6, score: 0.3 }]);
+    expect(weak.crews.find(c => c.crew_id === 1)).toMatchObject({ moved: false, reason: 'anchor-holds' });
+
+    const corroborated = await new SmartRotationService(setup([
+      { zone_id: 1, severity: 'high', source: 'citizen', confidence: 1, reported_at: reportedAt },
+    ]) as any).previewRotation({ now: () => now });
+
+    expect(corroborated.crews.find(c => c.crew_id === 1)).toMatchObject({ moved: true });
+  });
+
+  test('evacuation moves only the crews in the evacuated zones', async () => {
+    const fixture = downtownFixture();
+    fixture.tables.zone_connections = connections;
+    fixture.tables.police_activity = [];
+    const supabase = createSupabaseFixture(fixture);
+
+    const result = await new SmartRotationService(supabase as any).evacuate([2]);
+
+    expect(result.success).toBe(true);
+    expect(result.moves).toEqual([expect.objectContaining({ crew_id: 2, from_zone_id: 2, to_zone_id: 1 })]);
+    expect(fixture.tables.police_activity).toEqual([
+      expect.objectContaining({ zone_id: 2, severity: 'critical', source: 'organizer' }),
+    ]);
+  });
+
+  test('same seed and time produce the same plan', async () => {
+    const now = () => new Date('2024-06-01T18:30:00Z');
+
+    const first = await new SmartRotationService(setup() as any).previewRotation({ seed: 'march-1', now });
+    const replay = await new SmartRotationService(setup() as any).previewRotation({ seed: 'march-1', now });
+
+    expect(first.seed).toBe('march-1');
+    expect(first.plannedAt).toBe('2024-06-01T18:30:00.000Z');
+    expect(replay).toEqual(first);
+  });
+
+  test('dry run scores every crew without writing', async () => {
+    const supabase = setup();
+
+    const preview = await new SmartRotationService(supabase as any).previewRotation({ random: () => 0.99 });
+
+    expect(preview.crewsToRotate).toBe(2);
+    expect(preview.crews.map(c => c.crew_id)).toEqual([1, 2, 3]);
+    preview.crews
+      .filter(crew => crew.crew_id !== 1)
+      .forEach(crew => {
+        expect(crew.candidates.length).toBeGreaterThan(0);
+        expect(crew.moved).toBe(true);
+        expect(crew.score).toBe(crew.candidates[0].score);
+      });
+    expect(supabase.rpc).not.toHaveBeenCalledWith('rotate_crews', expect.anything());
+  });
+});
@@ -0,0 +1,80 @@
+import { findWalkingRoute, getRouteEta, planWalkingRoute } from '../lib/services/walking-route';
+import { createSupabaseFixture, downtownFixture } from './fixtures/supabase';
+
+describe('Walking Routes', () => {
+  // Grand Park (2) to Little Tokyo (3): via City Hall (1) is quicker than the direct walk
+  function setup(policeActivity: any[] = []) {
+    const fixture = downtownFixture();
+    fixture.tables.zone_connections = [
+      { from_zone_id: 2, to_zone_id: 1, walk_time_minutes: '6.2', distance_meters: 519 },
+      { from_zone_id: 1, to_zone_id: 2, walk_time_minutes: '6.2', distance_meters: 519 },
+      { from_zone_id: 1, to_zone_id: 3, walk_time_minutes: '6.1', distance_meters: 505 },
+      { from_zone_id: 3, to_zone_id: 1, walk_time_minutes: '6.1', distance_meters: 505 },
+      { from_zone_id: 2, to_zone_id: 3, walk_time_minutes: '14', distance_meters: 1010 },
+    ];
+    fixture.tables.police_activity = policeActivity;
+    return { fixture, supabase: createSupabaseFixture(fixture) };
+  }
+
+  const activity = (zoneId: number, severity: string) => ({
+    zone_id: zoneId,
+    severity,
+    source: 'organizer',
+    confidence: 1,
+    reported_at: new Date().toISOString(),
+    expires_at: new Date(Date.now() + 60 * 60 * 1000).toISOString(),
+  });
+
+  test('takes the quickest walk, one step per zone', async () => {
+    const { supabase } = setup();
+
+    const route = await planWalkingRoute(supabase as any, 2, 3, 'la');
+
+    expect(route).toMatchObject({
+      fromZoneId: 2,
+      toZoneId: 3,
+      distanceMeters: 1024,
+      walkMinutes: 12.3,
+      avoidedZoneIds: [],
+    });
+    expect(route!.steps).toEqual([
+      expect.objectContaining({ zoneId: 1, direction: 'southeast', walkMinutes: 6.2, instruction: 'Head southeast to Spring St & 1st St (City Hall South Lawn)' }),
+      expect.objectContaining({ zoneId: 3, direction: 'southeast', walkMinutes: 6.1, instruction: 'Head southeast to S San Pedro St & E 2nd St (Little Tokyo) - your new zone' }),
+    ]);
+    expect(route!.polyline).toEqual([[34.0569, -118.2468], [34.0537, -118.2427], [34.0498, -118.2399]]);
+  });
+
+  test('goes around zones with high-severity activity', async () => {
+    const { supabase } = setup([activity(1, 'high')]);
+
+    const route = await planWalkingRoute(supabase as any, 2, 3, 'la');
+
+    expect(route!.steps.map(step => step.zoneId)).toEqual([3]);
+    expect(route!.walkMinutes).toBe(14);
+    expect(route!.avoidedZoneIds).toEqual([1]);
+  });
+
+  test('still walks through zones with minor activity', async () => {
+    const { supabase } = setup([activity(1, 'medium')]);
+
+    const route = await planWalkingRoute(supabase as any, 2, 3, 'la');
+    expect(route!.steps.map(step => step.zoneId)).toEqual([1, 3]);
+  });
+
+  test('has no route when every way passes a dangerous zone', () => {
+    const zones = downtownFixture().tables.zones;
+    const connections = [
+      { from_zone_id: 2, to_zone_id: 1, walk_time_minutes: 6.2, distance_meters: 519 },
+      { from_zone_id: 1, to_zone_id: 3, walk_time_minutes: 6.1, distance_meters: 505 },
+    ];
+
+    expect(findWalkingRoute(zones, connections, 2, 3, [1])).toBeNull();
+    // The crew's own zone and its destination never block the route
+    expect(findWalkingRoute(zones, connections, 2, 1, [1, 2])?.steps).toHaveLength(1);
+  });
+
+  test('arrives after the walk', () => {
+    expect(getRouteEta({ walkMinutes: 12.5 }, new Date('2024-06-01T18:30:00Z')).toISOString())
+      .toBe('2024-06-01T18:42:30.000Z');
+  });
+});
@@ -0,0 +1,83 @@
+import {
+  ZoneGeometry,
+  calculateBounds,
+  calculateCentroid,
+  containsPoint,
+  findContainingZone,
+} from '../lib/services/zone-geometry';
+import { loadZonesFromGeoJSON } from '../lib/config/zones';
+
+describe('Zone Geometry', () => {
+  // Grand Park-sized square with a fenced-off hole in the middle
+  const park: ZoneGeometry = {
+    type: 'Polygon',
+    coordinates: [
+      [[-118.250, 34.054], [-118.240, 34.054], [-118.240, 34.060], [-118.250, 34.060], [-118.250, 34.054]],
+      [[-118.246, 34.056], [-118.244, 34.056], [-118.244, 34.058], [-118.246, 34.058], [-118.246, 34.056]],
+    ],
+  };
+
+  // Large square plus a small detached lot to the east
+  const campus: ZoneGeometry = {
+    type: 'MultiPolygon',
+    coordinates: [
+      [[[0, 0], [4, 0], [4, 4], [0, 4], [0, 0]]],
+      [[[10, 0], [12, 0], [12, 2], [10, 2], [10, 0]]],
+    ],
+  };
+
+  test('finds points inside the boundary but not in holes', () => {
+    expect(containsPoint(park, 34.0550, -118.2490)).toBe(true);
+    expect(containsPoint(park, 34.0570, -118.2450)).toBe(false); // In the hole
+    expect(containsPoint(park, 34.0650, -118.2450)).toBe(false); // North of the park
+  });
+
+  test('checks every part of a MultiPolygon', () => {
+    expect(containsPoint(campus, 1, 11)).toBe(true);
+    expect(containsPoint(campus, 1, 7)).toBe(false);
+  });
+
+  test('weights the centroid by area', () => {
+    const [lng, lat] = calculateCentroid(campus);
+
+    // 16 units of area around x=2 and 4 units around x=11
+    expect(lng).toBeCloseTo((16 * 2 + 4 * 11) / 20, 1);
+    expect(lat).toBeCloseTo((16 * 2 + 4 * 1) / 20, 1);
+  });
+
+  test('keeps a symmetric hole from shifting the centroid', () => {
+    const [lng, lat] = calculateCentroid(park);
+
+    expect(lng).toBeCloseTo(-118.245, 4);
+    expect(lat).toBeCloseTo(34.057, 4);
+  });
+
+  test('bounds cover all parts', () => {
+    expect(calculateBounds(campus)).toEqual([[0, 0], [12, 4]]);
+  });
+
+  test('finds the zone a person is standing in', () => {
+    const zones = [
+      { id: 1, name: 'City Hall', geometry: null },
+      { id: 2, name: 'Grand Park', geometry: park },
+    ];
+
+    expect(findContainingZone(zones, 34.0590, -118.2410)?.id).toBe(2);
+    expect(findContainingZone(zones, 34.0700, -118.2410)).toBeNull();
+  });
+
+  test('loadZonesFromGeoJSON keeps the full geometry', async () => {
+    global.fetch = jest.fn().mockResolvedValue({
+      json: () => Promise.resolve({
+        features: [{ properties: { name: 'Venice Beach' }, geometry: campus }],
+      }),
+    }) as any;
+
+    const [zone] = await loadZonesFromGeoJSON('/data/test.geojson');
+
+    expect(zone.geometry).toEqual(campus);
+    expect(zone.bounds).toEqual([[0, 0], [12, 4]]);
+    expect(zone.center[0]).toBeCloseTo(3.8, 1); // Pulled east by the second part
+    expect(zone.type).toBe('primary');
+  });
+});
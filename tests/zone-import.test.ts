@@ -0,0 +1,178 @@
+import {
+  detectZoneFormat,
+  importZones,
+  parseZoneFile,
+  zonesToGeoJSON,
+} from '../lib/services/zone-import';
+
+describe('Zone Import', () => {
+  const square = [[-118.25, 34.054], [-118.24, 34.054], [-118.24, 34.06], [-118.25, 34.06], [-118.25, 34.054]];
+
+  test('detects the format from the file name', () => {
+    expect(detectZoneFormat('la/zones.GeoJSON')).toBe('geojson');
+    expect(detectZoneFormat('export.kml')).toBe('kml');
+    expect(detectZoneFormat('zones.csv')).toBe('csv');
+    expect(detectZoneFormat('zones.shp')).toBeNull();
+  });
+
+  test('reads GeoJSON points and polygons', () => {
+    const { zones, errors } = parseZoneFile(JSON.stringify({
+      type: 'FeatureCollection',
+      features: [
+        { properties: { name: 'Little Tokyo', radius_meters: 300 }, geometry: { type: 'Point', coordinates: [-118.2387, 34.0505] } },
+        { properties: { NAME: 'Grand Park' }, geometry: { type: 'Polygon', coordinates: [square] } },
+      ],
+    }), 'geojson');
+
+    expect(errors).toEqual([]);
+    expect(zones[0]).toEqual({ name: 'Little Tokyo', center_lat: 34.0505, center_lng: -118.2387, type: 'primary', radius_meters: 300 });
+    expect(zones[1].geometry).toEqual({ type: 'Polygon', coordinates: [square] });
+    expect(zones[1].center_lat).toBeCloseTo(34.057, 4);
+  });
+
+  test('reads KML placemarks with holes and per-feature type', () => {
+    const kml = `<kml><Document>
+      <Placemark>
+        <name><![CDATA[Grand Park & Lawn]]></name>
+        <ExtendedData><Data name="type"><value>avoid</value></Data></ExtendedData>
+        <Polygon>
+          <outerBoundaryIs><LinearRing><coordinates>${square.map(p => p.join(',') + ',0').join(' ')}</coordinates></LinearRing></outerBoundaryIs>
+          <innerBoundaryIs><LinearRing><coordinates>
+            -118.246,34.056 -118.244,34.056 -118.244,34.058 -118.246,34.058 -118.246,34.056
+          </coordinates></LinearRing></innerBoundaryIs>
+        </Polygon>
+      </Placemark>
+      <Placemark><name>Chinatown</name><Point><coordinates>-118.2380,34.0623,0</coordinates></Point></Placemark>
+    </Document></kml>`;
+
+    const { zones, errors } = parseZoneFile(kml, 'kml');
+
+    expect(errors).toEqual([]);
+    expect(zones[0].name).toBe('Grand Park & Lawn');
+    expect(zones[0].type).toBe('avoid');
+    expect(zones[0].geometry?.coordinates).toHaveLength(2);
+    expect(zones[1]).toMatchObject({ name: 'Chinatown', type: 'primary', center_lat: 34.0623 });
+  });
+
+  test('reads CSV with quoted names and classifies by name', () => {
+    const csv = [
+      'Name,Latitude,Longitude,Type',
+      '"Federal Building, Los Angeles",34.0530,-118.2410,',
+      'Pershing Square,34.0487,-118.2518,primary',
+      'Echo Park,34.0782,-118.2606,',
+    ].join('\n');
+
+    const { zones, errors } = parseZoneFile(csv, 'csv');
+
+    expect(errors).toEqual([]);
+    expect(zones.map(z => [z.name, z.type])).toEqual([
+      ['Federal Building, Los Angeles', 'avoid'],
+      ['Pershing Square', 'primary'],
+      ['Echo Park', 'secondary'],
+    ]);
+  });
+
+  test('reports invalid zones instead of importing them', () => {
+    const csv = [
+      'name,lat,lng,type,radius_meters',
+      ',34.05,-118.24,,',
+      'Off Map,134.05,-118.24,,',
+      'Plaza,34.05,-118.24,rally,',
+      'Plaza,34.05,-118.24,,',
+      'Tiny,34.05,-118.24,,-5',
+    ].join('\n');
+
+    const { zones, errors } = parseZoneFile(csv, 'csv');
+
+    expect(zones).toEqual([]);
+    expect(errors).toEqual([
+      'Row 2: missing name',
+      'Row 3 (Off Map): missing or invalid coordinates',
+      'Row 4 (Plaza): unknown type "rally" (use primary, secondary, avoid)',
+      'Row 5 (Plaza): duplicate name - zones are matched by name',
+      'Row 6 (Tiny): radius must be a positive whole number of meters',
+    ]);
+  });
+
+  test('reads place aliases and intersections from GeoJSON properties', () => {
+    const feature = (properties: any) => ({ properties: { name: 'Grand Park', ...properties }, geometry: { type: 'Point', coordinates: [-118.2468, 34.0569] } });
+    const { zones, errors } = parseZoneFile(JSON.stringify({
+      type: 'FeatureCollection',
+      features: [feature({
+        aliases: 'Civic Center Mall; Grand Park LA',
+        intersections: ['Grand Ave & Temple St', { streets: ['Hill St', '1st St'], lat: 34.0561, lng: -118.2452 }],
+      })],
+    }), 'geojson');
+
+    expect(errors).toEqual([]);
+    expect(zones[0].aliases).toEqual(['Civic Center Mall', 'Grand Park LA']);
+    expect(zones[0].intersections).toEqual([
+      { streets: ['Grand Ave', 'Temple St'] },
+      { streets: ['Hill St', '1st St'], lat: 34.0561, lng: -118.2452 },
+    ]);
+
+    expect(parseZoneFile(JSON.stringify(feature({ intersections: ['Grand Ave'] })), 'geojson').errors)
+      .toEqual(['Feature 1 (Grand Park): intersection 1 needs two streets (e.g. "Hill St & 5th St")']);
+    expect(parseZoneFile(JSON.stringify(feature({ aliases: [42] })), 'geojson').errors)
+      .toEqual(['Feature 1 (Grand Park): aliases must be a list of names']);
+  });
+
+  test('rejects open polygon rings and unreadable files', () => {
+    const open = parseZoneFile(JSON.stringify({
+      type: 'Feature',
+      properties: { name: 'Open' },
+      geometry: { type: 'Polygon', coordinates: [square.slice(0, 4).concat([[-118.26, 34.05]])] },
+    }), 'geojson');
+
+    expect(open.errors).toEqual(['Feature 1 (Open): polygon rings must be closed (first and last positions equal)']);
+    expect(parseZoneFile('{not json', 'geojson').errors[0]).toMatch(/^Could not read GEOJSON/);
+    expect(parseZoneFile('title,x\nfoo,1', 'csv').errors).toEqual(['Could not read CSV: CSV needs name, lat and lng columns']);
+  });
+
+  test('exports boundaries, falling back to center points', () => {
+    const geojson = zonesToGeoJSON([
+      { id: 1, name: 'City Hall', type: 'primary', center_lat: '34.05370000', center_lng: '-118.24270000', radius_meters: 500, geometry: null, active: true },
+      { id: 2, name: 'Grand Park', type: 'secondary', center_lat: 34.057, center_lng: -118.245, geometry: { type: 'Polygon', coordinates: [square as any] }, active: false },
+    ]);
+
+    expect(geojson.features[0].geometry).toEqual({ type: 'Point', coordinates: [-118.2427, 34.0537] });
+    expect(geojson.features[1].geometry.type).toBe('Polygon');
+    expect(geojson.features[1].properties).toMatchObject({ id: 2, name: 'Grand Park', radius_meters: null, active: false });
+
+    // Exported files import cleanly
+    const roundTrip = parseZoneFile(JSON.stringify(geojson), 'geojson');
+    expect(roundTrip.errors).toEqual([]);
+    expect(roundTrip.zones.map(z => z.type)).toEqual(['primary', 'secondary']);
+  });
+
+  test('updates by name, inserts new zones and deactivates the rest on replace', async () => {
+    const writes: any[] = [];
+    const table = {
+      select: () => ({
+        eq: (_: string, cityId: string) => {
+          writes.push(['select', cityId]);
+          return Promise.resolve({ data: [{ id: 1, name: 'City Hall' }, { id: 2, name: 'Skid Row' }], error: null });
+        },
+      }),
+      update: (row: any) => ({
+        eq: (_: string, id: number) => { writes.push(['update', id, row]); return Promise.resolve({ error: null }); },
+        in: (_: string, ids: number[]) => { writes.push(['deactivate', ids, row]); return Promise.resolve({ error: null }); },
+      }),
+      insert: (row: any) => { writes.push(['insert', row]); return Promise.resolve({ error: null }); },
+    };
+    const supabase = {
+      from: jest.fn(() => table),
+      rpc: jest.fn().mockResolvedValue({ data: 6, error: null }),
+    };
+
+    const { zones } = parseZoneFile('name,lat,lng\ncity hall,34.0537,-118.2427\nChinatown,34.0623,-118.2380', 'csv');
+    const summary = await importZones(supabase as any, zones, { replace: true, cityId: 'la' });
+
+    expect(summary).toEqual({ inserted: 1, updated: 1, deactivated: 1, connections: 6 });
+    expect(writes[0]).toEqual(['select', 'la']);
+    expect(writes[1]).toEqual(['update', 1, expect.objectContaining({ name: 'city hall', city_id: 'la', active: true, geometry: null })]);
+    expect(writes[2]).toEqual(['insert', expect.objectContaining({ name: 'Chinatown', city_id: 'la', type: 'primary' })]);
+    expect(writes[3]).toEqual(['deactivate', [2], { active: false }]);
+    expect(supabase.rpc).toHaveBeenCalledWith('seed_zone_connections', { p_max_walk_minutes: 10 });
+  });
+});